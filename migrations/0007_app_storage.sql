@@ -0,0 +1,11 @@
+-- 저장소 리포지토리 (StorageRepository) D1 백엔드용 키-값 테이블
+
+CREATE TABLE IF NOT EXISTS app_storage (
+    key TEXT PRIMARY KEY,
+    prefix TEXT NOT NULL,       -- customer:, proposal_eval:, presentation_eval:, integrated_eval:, session: 등
+    value TEXT NOT NULL,        -- JSON 직렬화 데이터
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_storage_prefix ON app_storage(prefix, updated_at);
@@ -0,0 +1,49 @@
+-- 루브릭 앵커 (오프라인 결정적 채점기용, 0006에서 삭제된 테이블 복원)
+-- 6대 지표별 20/40/60/80/100점 기준. 채점기는 텍스트 특징으로 산출한 점수에 해당하는 앵커 설명을 코멘트로 사용
+
+CREATE TABLE IF NOT EXISTS rubric_anchors (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  metric_name TEXT NOT NULL, -- clarity, expertise, persuasion, logic, creativity, reliability
+  score_value INTEGER NOT NULL CHECK (score_value IN (20, 40, 60, 80, 100)),
+  anchor_description TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(metric_name, score_value)
+);
+
+INSERT OR IGNORE INTO rubric_anchors (metric_name, score_value, anchor_description) VALUES
+-- 명확성
+('clarity', 20, '목적·범위·효과가 모호하거나 누락, 핵심 전달 실패'),
+('clarity', 40, '일부 명확하나 전체적으로 불분명, 구조가 흐트러짐'),
+('clarity', 60, '기본 흐름은 명확하나 세부 설명 부족, 중복/모호 표현 존재'),
+('clarity', 80, '목적·범위·효과가 잘 드러나고, 전체 구조가 이해 가능'),
+('clarity', 100, '모든 메시지가 직관적으로 명확, 구조적·간결하며 완결성 확보'),
+-- 전문성
+('expertise', 20, '업계/기술 근거 전혀 없음, 피상적 주장'),
+('expertise', 40, '일부 용어나 개념만 언급, 최신성·정확성 부족'),
+('expertise', 60, '기본적인 전문 지식·사례는 있으나 깊이가 부족'),
+('expertise', 80, '업계 표준·최신 트렌드·레퍼런스를 적절히 활용'),
+('expertise', 100, '최신 기술·글로벌 레퍼런스 풍부, 깊이와 폭 모두 뛰어남'),
+-- 설득력
+('persuasion', 20, '주장만 있고 근거·사례 없음, 고객 요구와 불일치'),
+('persuasion', 40, '제한된 근거 제시, 설득력 약함'),
+('persuasion', 60, '근거는 있으나 고객 Pain Point와 연결성이 약함'),
+('persuasion', 80, '데이터·사례를 통해 고객 요구와 논리적으로 연결'),
+('persuasion', 100, '강력한 데이터·사례·스토리텔링으로 고객 확신 유발'),
+-- 논리성
+('logic', 20, '구조 없음, 아이디어가 단절·모순적'),
+('logic', 40, '부분적 논리만 존재, 전개 과정에서 비약·누락 발생'),
+('logic', 60, '기본 구조(문제→목표→해결책)는 있으나 불완전'),
+('logic', 80, '일관된 논리 전개, 단계별 근거 설명 충실'),
+('logic', 100, '매우 체계적, 모든 단계가 명확히 연결, 모순·비약 없음'),
+-- 창의성
+('creativity', 20, '기존 접근법 반복, 차별성 전혀 없음'),
+('creativity', 40, '소폭 차별화 있으나 기존과 유사, 참신성 낮음'),
+('creativity', 60, '기본적인 차별화는 있으나 독창성 부족'),
+('creativity', 80, '새로운 아이디어나 방법론 제시, 실행 가능성 확보'),
+('creativity', 100, '혁신적이고 차별적인 아이디어, 고객 맥락에 최적화'),
+-- 신뢰성
+('reliability', 20, '실행 가능성 전혀 없음, 레퍼런스 부재'),
+('reliability', 40, '제한적 실행 가능성, 근거 부족'),
+('reliability', 60, '일부 실행 근거 제시, 보완 필요'),
+('reliability', 80, '유사 프로젝트 경험·리스크 관리·규제 준수 근거 제시'),
+('reliability', 100, '실행력 완벽 검증, 풍부한 레퍼런스와 리스크 대비책 확보');
@@ -11,6 +11,14 @@ class ChartManager {
             creativity: 'rgba(245, 158, 11, 0.8)',   // 엠버
             reliability: 'rgba(107, 114, 128, 0.8)'  // 그레이
         };
+        this.metricLabels = {
+            clarity: '명확성', expertise: '전문성', persuasiveness: '설득력',
+            logic: '논리성', creativity: '창의성', reliability: '신뢰성'
+        };
+        this.sectionLabels = {
+            executive_summary: '사업 개요', methodology: '수행 방법론', technical_approach: '기술 방안', security: '보안',
+            pricing: '가격/예산', risk_management: '리스크 관리', team: '수행 조직', timeline: '추진 일정'
+        };
     }
 
     // 6각형 레이더 차트 생성 (6대 평가지표용)
@@ -397,6 +405,56 @@ class ChartManager {
         return '#ef4444';                      // 빨강 (0-29점)
     }
 
+    // 섹션 × 지표 히트맵 (제안서 section_scores[섹션].metrics 기반, 루브릭 앵커 색상)
+    createSectionHeatmap(containerId, sectionScores) {
+        const container = document.getElementById(containerId);
+        if (!container) return null;
+
+        const sections = Object.entries(sectionScores || {}).filter(([, section]) => section && section.metrics);
+        if (sections.length === 0) {
+            container.innerHTML = '<p style="color: var(--pwc-gray-600);">섹션별 지표 점수가 없습니다.</p>';
+            return null;
+        }
+
+        const metrics = Object.keys(this.metricLabels);
+        const cell = (score) => score === undefined || score === null
+            ? '<td style="padding: var(--spacing-sm); text-align: center; color: var(--pwc-gray-400);">-</td>'
+            : `<td title="${score}점" style="padding: var(--spacing-sm); text-align: center; font-weight: 600; color: #fff; background: ${this.getAnchorColor(score)};">${score}</td>`;
+
+        // 지표별로 가장 낮은 섹션 (수정 우선순위)
+        const weakest = metrics.map(metric => {
+            const [key] = sections.reduce((low, entry) => (entry[1].metrics[metric] ?? 101) < (low[1].metrics[metric] ?? 101) ? entry : low);
+            return `${this.metricLabels[metric]}: ${this.sectionLabels[key] || key}`;
+        });
+
+        container.innerHTML = `
+            <div style="overflow-x: auto;">
+                <table style="width: 100%; border-collapse: separate; border-spacing: 2px; font-size: 0.875rem;">
+                    <thead>
+                        <tr>
+                            <th style="padding: var(--spacing-sm); text-align: left; color: var(--pwc-navy);">섹션</th>
+                            ${metrics.map(metric => `<th style="padding: var(--spacing-sm); text-align: center; color: var(--pwc-navy);">${this.metricLabels[metric]}</th>`).join('')}
+                            <th style="padding: var(--spacing-sm); text-align: center; color: var(--pwc-navy);">섹션 점수</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${sections.map(([key, section]) => `
+                            <tr>
+                                <td style="padding: var(--spacing-sm); font-weight: 600; color: var(--pwc-navy); white-space: nowrap;" title="${(section.comment || '').replace(/"/g, '&quot;')}">${this.sectionLabels[key] || key}</td>
+                                ${metrics.map(metric => cell(section.metrics[metric])).join('')}
+                                ${cell(section.score)}
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+            <p style="margin-top: var(--spacing-sm); font-size: 0.8rem; color: var(--pwc-gray-600); word-break: keep-all;">
+                지표별 보완 우선 섹션 - ${weakest.join(' · ')}
+            </p>
+        `;
+        return container;
+    }
+
     // 애니메이션이 있는 숫자 카운터
     animateNumber(elementId, targetValue, duration = 1000) {
         const element = document.getElementById(elementId);
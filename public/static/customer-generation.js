@@ -148,9 +148,9 @@ class CustomerGenerationApp {
     container.innerHTML = ''
 
     // 15개 속성 카드 생성
-    Object.values(this.deepResearchData).forEach((attr, index) => {
+    Object.entries(this.deepResearchData).forEach(([key, attr], index) => {
       console.log(`📝 속성 ${index + 1}:`, attr)
-      const card = this.createAttributeCard(attr, 'research')
+      const card = this.createAttributeCard(attr, 'research', key)
       container.appendChild(card)
     })
   }
@@ -359,16 +359,16 @@ RFP 문서 분석을 위한 기본 정보:
     console.log(`🎨 ${Object.keys(this.rfpAnalysisData).length}개 카드 생성 시작`)
     
     // 15개 속성 카드 생성
-    Object.values(this.rfpAnalysisData).forEach((attr, index) => {
+    Object.entries(this.rfpAnalysisData).forEach(([key, attr], index) => {
       console.log(`🃏 카드 ${index + 1} 생성:`, attr.name, '=', attr.content)
-      const card = this.createAttributeCard(attr, 'rfp')
+      const card = this.createAttributeCard(attr, 'rfp', key)
       container.appendChild(card)
     })
     
     console.log('✅ RFP 결과 표시 완료')
   }
 
-  createAttributeCard(attribute, type) {
+  createAttributeCard(attribute, type, attributeKey) {
     console.log(`🔧 createAttributeCard 호출:`, { 
       type, 
       name: attribute?.name, 
@@ -413,7 +413,19 @@ RFP 문서 분석을 위한 기본 정보:
           ${type === 'research' ? '딥리서치' : 'RFP'}
         </span>
       </div>
-      <p style="font-size: 0.875rem; color: var(--text-color); margin-bottom: var(--spacing-sm); line-height: 1.4; word-break: keep-all;">${attribute.content}</p>
+      <p class="attribute-content" style="font-size: 0.875rem; color: var(--text-color); margin-bottom: var(--spacing-sm); line-height: 1.4; word-break: keep-all;">${this.escapeHtml(attribute.content)}</p>
+      <div class="attribute-editor" style="display: none; margin-bottom: var(--spacing-sm);">
+        <textarea class="attribute-edit-content" rows="3" style="width: 100%; padding: var(--spacing-xs); border: 1px solid var(--neutral-300); border-radius: var(--border-radius-sm); font-size: 0.875rem; resize: vertical;"></textarea>
+        <input class="attribute-edit-user" type="text" placeholder="수정자" style="width: 100%; margin-top: var(--spacing-xs); padding: var(--spacing-xs); border: 1px solid var(--neutral-300); border-radius: var(--border-radius-sm); font-size: 0.75rem;">
+        <input class="attribute-edit-reason" type="text" placeholder="수정 사유 (선택)" style="width: 100%; margin-top: var(--spacing-xs); padding: var(--spacing-xs); border: 1px solid var(--neutral-300); border-radius: var(--border-radius-sm); font-size: 0.75rem;">
+        <div style="display: flex; gap: var(--spacing-xs); justify-content: flex-end; margin-top: var(--spacing-xs);">
+          <button class="attribute-edit-cancel pwc-btn pwc-btn-secondary pwc-btn-sm">취소</button>
+          <button class="attribute-edit-save pwc-btn pwc-btn-primary pwc-btn-sm"><i class="fas fa-save"></i> 저장</button>
+        </div>
+      </div>
+      ${attribute.corrected_by ? 
+        `<p style="font-size: 0.7rem; color: var(--warning-color); margin-bottom: var(--spacing-xs);"><i class="fas fa-user-edit" style="margin-right: var(--spacing-xs);"></i>${this.escapeHtml(attribute.corrected_by)} 수정 (${new Date(attribute.corrected_at).toLocaleString('ko-KR')})</p>` : 
+        ''}
       <div style="font-size: 0.75rem; color: var(--text-muted);">
         <p style="margin-bottom: var(--spacing-xs); word-break: keep-all;"><i class="fas fa-info-circle" style="margin-right: var(--spacing-xs);"></i>출처: ${sourceInfo}</p>
         ${type === 'research' && attribute.source_url ? 
@@ -423,11 +435,105 @@ RFP 문서 분석을 위한 기본 정보:
           `<p style="margin-top: var(--spacing-xs); font-style: italic; padding: var(--spacing-xs); background: var(--neutral-100); border-radius: var(--border-radius-sm); word-break: keep-all;">"${attribute.source_snippet.substring(0, 100)}..."</p>` : 
           ''}
       </div>
+      <div style="text-align: right; margin-top: var(--spacing-xs);">
+        <button class="attribute-edit-button" style="background: none; border: none; color: var(--pwc-blue); font-size: 0.75rem; cursor: pointer;">
+          <i class="fas fa-pen"></i> 수정
+        </button>
+      </div>
     `
 
+    this.setupAttributeEditor(card, attribute, type, attributeKey)
+
     return card
   }
 
+  // 속성 카드 인라인 수정 (생성 전: 로컬 데이터 수정, 생성 후: PATCH API로 수정 이력 기록)
+  setupAttributeEditor(card, attribute, type, attributeKey) {
+    const contentEl = card.querySelector('.attribute-content')
+    const editorEl = card.querySelector('.attribute-editor')
+    const editButton = card.querySelector('.attribute-edit-button')
+    const textarea = card.querySelector('.attribute-edit-content')
+    const userInput = card.querySelector('.attribute-edit-user')
+    const reasonInput = card.querySelector('.attribute-edit-reason')
+
+    if (!attributeKey || !editButton) return
+
+    editButton.addEventListener('click', (e) => {
+      e.stopPropagation()
+      textarea.value = attribute.content || ''
+      userInput.value = localStorage.getItem('attribute_editor_name') || ''
+      contentEl.style.display = 'none'
+      editorEl.style.display = 'block'
+      editButton.style.display = 'none'
+      textarea.focus()
+    })
+
+    card.querySelector('.attribute-edit-cancel').addEventListener('click', (e) => {
+      e.stopPropagation()
+      contentEl.style.display = 'block'
+      editorEl.style.display = 'none'
+      editButton.style.display = 'inline-block'
+    })
+
+    card.querySelector('.attribute-edit-save').addEventListener('click', async (e) => {
+      e.stopPropagation()
+      const content = textarea.value.trim()
+      if (!content) {
+        alert('속성 내용을 입력해주세요.')
+        return
+      }
+      localStorage.setItem('attribute_editor_name', userInput.value.trim())
+      await this.saveAttributeEdit(type, attributeKey, content, userInput.value.trim(), reasonInput.value.trim())
+    })
+  }
+
+  async saveAttributeEdit(type, attributeKey, content, correctedBy, reason) {
+    const dataKey = type === 'research' ? 'deepResearchData' : 'rfpAnalysisData'
+
+    // 가상고객 생성 전에는 로컬 데이터만 수정 (생성 시 반영)
+    if (!this.generatedCustomer?.id) {
+      this[dataKey][attributeKey] = {
+        ...this[dataKey][attributeKey],
+        content,
+        corrected_by: correctedBy || 'anonymous',
+        corrected_at: new Date().toISOString()
+      }
+      type === 'research' ? this.displayResearchResults() : this.displayRfpResults()
+      return
+    }
+
+    try {
+      this.showLoading('속성 수정 반영 중...')
+
+      const endpoint = type === 'research' ? 'deep-research' : 'rfp-analysis'
+      const response = await axios.patch(`/api/customers/${this.generatedCustomer.id}/${endpoint}/${attributeKey}`, {
+        content,
+        corrected_by: correctedBy,
+        correction_reason: reason
+      })
+
+      if (!response.data.success) {
+        throw new Error(response.data.error || '속성 수정 실패')
+      }
+
+      const { customer, correction } = response.data.data
+      this.generatedCustomer = customer
+      this.deepResearchData = customer.deep_research_data
+      this.rfpAnalysisData = customer.rfp_analysis_data
+
+      this.displayResearchResults()
+      this.displayRfpResults()
+      this.displayCustomerCard()
+
+      this.showSuccessMessage(`${correction.attribute_name} 수정 완료 (${customer.version})`)
+    } catch (error) {
+      console.error('Attribute edit failed:', error)
+      alert('속성 수정에 실패했습니다: ' + (error.response?.data?.error || error.message))
+    } finally {
+      this.hideLoading()
+    }
+  }
+
   // 빈 RFP 데이터 생성 (예상치 못한 오류 시 폴백)
   createEmptyRfpData() {
     const emptyData = {}
@@ -1488,6 +1594,16 @@ RFP 문서 분석을 위한 기본 정보:
     }, 10000)
   }
 
+  // 사용자가 수정한 속성 내용·수정자 이름을 innerHTML에 넣기 전 이스케이프
+  escapeHtml(value) {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+
   showErrorMessage(message) {
     const errorDiv = document.createElement('div')
     errorDiv.style.cssText = `
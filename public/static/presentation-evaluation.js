@@ -17,6 +17,26 @@ class PresentationEvaluationApp {
     // STT 관련
     this.recognition = null
     this.sttText = ''
+    this.sttTranscriptId = null
+
+    // 발표 다시보기 (녹화본 + 타임라인)
+    this.recordingUrl = null
+    this.playbackTimeline = null
+    this.playbackWordIndex = -1
+    
+    // 발표 슬라이드 덱 (PPTX 업로드 시)
+    this.slideDeck = null
+
+    // 예상 질의응답 리허설
+    this.qaRehearsal = null
+    this.qaRecognition = null
+    this.qaVoiceButtonId = null
+    this.qaAnswerMode = 'text'
+
+    // 실시간 질의응답 세션
+    this.liveQASession = null
+    this.liveQAIntegratedId = null
+    this.presentationEvaluationId = null
     this.speechMetrics = {
       wordCount: 0,
       pauseCount: 0,
@@ -61,6 +81,11 @@ class PresentationEvaluationApp {
       this.selectCustomer(e.target.value)
     })
 
+    // 슬라이드 덱 업로드
+    document.getElementById('slide-deck-file')?.addEventListener('change', (e) => {
+      this.uploadSlideDeck(e.target.files[0])
+    })
+
     // 미디어 요청
     const requestMediaButton = document.getElementById('request-media')
     if (requestMediaButton) {
@@ -91,6 +116,67 @@ class PresentationEvaluationApp {
     document.getElementById('demo-presentation-eval-alt')?.addEventListener('click', () => {
       this.runDemoEvaluation()
     })
+
+    // 예상 질의응답 리허설
+    document.getElementById('qa-generate')?.addEventListener('click', () => {
+      this.loadExpectedQuestions()
+    })
+
+    document.getElementById('qa-start')?.addEventListener('click', () => {
+      this.startRehearsal()
+    })
+
+    document.getElementById('qa-submit')?.addEventListener('click', () => {
+      this.submitRehearsalAnswer()
+    })
+
+    document.getElementById('qa-voice')?.addEventListener('click', () => {
+      this.toggleVoiceAnswer('qa-answer', 'qa-voice')
+    })
+
+    // 실시간 질의응답
+    document.getElementById('live-qa-start')?.addEventListener('click', () => {
+      this.startLiveQA()
+    })
+
+    document.getElementById('live-qa-send')?.addEventListener('click', () => {
+      this.sendLiveQAAnswer()
+    })
+
+    document.getElementById('live-qa-finish')?.addEventListener('click', () => {
+      this.finishLiveQA()
+    })
+
+    document.getElementById('live-qa-voice')?.addEventListener('click', () => {
+      this.toggleVoiceAnswer('live-qa-answer', 'live-qa-voice')
+    })
+
+    // 발표 다시보기
+    document.getElementById('playback-media')?.addEventListener('timeupdate', (e) => {
+      this.syncPlayback(e.target.currentTime)
+    })
+
+    document.getElementById('playback-track')?.addEventListener('click', (e) => {
+      const marker = e.target.closest('[data-time]')
+      if (marker) return this.seekPlayback(Number(marker.dataset.time))
+      if (!this.playbackTimeline) return
+      const rect = e.currentTarget.getBoundingClientRect()
+      this.seekPlayback((e.clientX - rect.left) / rect.width * this.playbackTimeline.duration_seconds, 0)
+    })
+
+    for (const id of ['playback-transcript', 'playback-markers']) {
+      document.getElementById(id)?.addEventListener('click', (e) => {
+        const target = e.target.closest('[data-time]')
+        if (target) this.seekPlayback(Number(target.dataset.time), id === 'playback-markers' ? 1 : 0)
+      })
+    }
+
+    // 직접 수정하면 텍스트 답변으로 처리
+    for (const id of ['qa-answer', 'live-qa-answer']) {
+      document.getElementById(id)?.addEventListener('input', (e) => {
+        if (!e.target.value.trim()) this.qaAnswerMode = 'text'
+      })
+    }
   }
 
   async loadCustomers() {
@@ -401,6 +487,29 @@ class PresentationEvaluationApp {
     document.getElementById('filler-words').textContent = this.speechMetrics.fillerCount + ' 개'
   }
 
+  // 녹음 파형 분석 결과로 브라우저 추정 지표를 대체
+  renderAudioAnalysis(analysis) {
+    if (!analysis) return
+
+    document.getElementById('speech-speed').textContent = Math.round(analysis.speech_rate) + ' WPM'
+    document.getElementById('pause-frequency').textContent = analysis.pause_frequency + ' 회/분'
+    document.getElementById('filler-words').textContent = analysis.filler_word_count + ' 개'
+
+    const detail = document.getElementById('audio-analysis-detail')
+    if (!detail) return
+    const formatScore = (value) => value === null || value === undefined ? '-' : value + '점'
+    detail.innerHTML = `
+      <div style="display: flex; flex-wrap: wrap; gap: var(--spacing-md);">
+        <span><strong>녹음 분석</strong> (${analysis.pause_source === 'energy_vad' ? '파형 에너지 기반 휴지 검출' : '단어 간격 기반 휴지 검출'})</span>
+        <span>긴 휴지(2초 이상): ${analysis.long_pause_count}회</span>
+        <span>억양 안정성: ${formatScore(analysis.intonation_stability)} (피치 ${formatScore(analysis.pitch_stability)} · 음량 ${formatScore(analysis.volume_stability)})</span>
+        <span>RFP 키워드 커버리지: ${analysis.keyword_coverage === null ? '-' : analysis.keyword_coverage + '%'}</span>
+        <span>종합 전달력: ${formatScore(analysis.overall_delivery)}</span>
+      </div>
+    `
+    detail.classList.remove('hidden')
+  }
+
   startRecording() {
     console.log('녹화 시작 시도')
     if (!this.mediaStream) {
@@ -539,7 +648,13 @@ class PresentationEvaluationApp {
       
       // 녹화 데이터 처리
       const blob = new Blob(this.recordedChunks, { type: 'video/webm' })
-      const recordingUrl = URL.createObjectURL(blob)
+      if (this.recordingUrl) {
+        URL.revokeObjectURL(this.recordingUrl)
+      }
+      this.recordingUrl = URL.createObjectURL(blob)
+      
+      // 서버 STT 엔진이 있으면 녹음 전체를 다시 인식 (브라우저 음성 인식 미지원 환경 대응)
+      await this.transcribeRecording(blob)
       
       // 실제 평가 실행 (또는 데모)
       await this.evaluatePresentation(blob)
@@ -552,6 +667,186 @@ class PresentationEvaluationApp {
     }
   }
 
+  async transcribeRecording(blob) {
+    this.sttTranscriptId = null
+
+    try {
+      const formData = new FormData()
+      formData.append('audio', blob, 'presentation.webm')
+      formData.append('language', 'ko')
+      if (this.selectedCustomer) {
+        formData.append('customer_id', this.selectedCustomer.id)
+      }
+
+      this.showLoading('녹음된 발표 음성을 인식하는 중...')
+      const response = await axios.post('/api/stt/transcriptions', formData)
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const transcript = await this.waitForTranscription(response.data.data.id)
+      if (!transcript.transcript_text) {
+        console.warn('서버 음성 인식 결과가 비어 있어 브라우저 인식 텍스트를 사용합니다.')
+        return
+      }
+
+      this.sttTranscriptId = transcript.id
+      this.sttText = transcript.transcript_text
+      document.getElementById('stt-section')?.classList.remove('hidden')
+      this.updateSTTDisplay(this.sttText)
+      this.renderAudioAnalysis(transcript.audio_analysis)
+      console.log(`서버 음성 인식 완료: ${transcript.word_timestamps.length}개 단어 (신뢰도 ${Math.round(transcript.confidence_scores.overall * 100)}%)`)
+    } catch (error) {
+      // 503: 서버 STT 엔진 미설정 → 브라우저 음성 인식 텍스트와 녹음 파형으로 분석
+      if (error.response?.status === 503) {
+        await this.analyzeRecordingAudio(blob)
+      } else {
+        console.error('서버 음성 인식 오류:', error)
+      }
+    } finally {
+      this.showLoading('녹화된 발표를 분석 중...')
+    }
+  }
+
+  async analyzeRecordingAudio(blob) {
+    try {
+      const formData = new FormData()
+      formData.append('audio', blob, 'presentation.webm')
+      formData.append('transcript', this.sttText || '')
+      if (this.selectedCustomer) {
+        formData.append('customer_id', this.selectedCustomer.id)
+      }
+
+      this.showLoading('녹음된 발표 음성을 분석하는 중...')
+      const response = await axios.post('/api/stt/audio-analyses', formData)
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const transcript = await this.waitForTranscription(response.data.data.id)
+      this.renderAudioAnalysis(transcript.audio_analysis)
+      // 브라우저 인식 스크립트가 있을 때만 평가에 사용 (빈 스크립트로 평가하지 않음)
+      if (transcript.transcript_text) {
+        this.sttTranscriptId = transcript.id
+      }
+    } catch (error) {
+      // 503: 서버가 녹음을 디코딩할 수 없는 런타임 → 브라우저에서 파형 분석
+      if (error.response?.status === 503) {
+        await this.analyzeRecordingInBrowser(blob)
+      } else {
+        console.error('녹음 음향 분석 오류:', error)
+      }
+    }
+  }
+
+  // Web Audio로 녹음을 디코딩해 에너지 기반 휴지·음량 안정성과 말속도 산출 (피치·키워드 커버리지는 서버 분석 전용)
+  async analyzeRecordingInBrowser(blob) {
+    try {
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext
+      const context = new AudioContextClass()
+      const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+      context.close()
+
+      const samples = buffer.getChannelData(0)
+      const frameSize = Math.round(buffer.sampleRate * 0.02)
+      const energies = []
+      for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+        let sum = 0
+        for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i]
+        energies.push(Math.sqrt(sum / frameSize))
+      }
+      if (energies.length === 0) return
+
+      // 하위 10% 에너지를 잡음 바닥으로 보고 상위 10%와의 25% 지점을 발화 기준으로 사용
+      const sorted = [...energies].sort((a, b) => a - b)
+      const noiseFloor = sorted[Math.floor(sorted.length * 0.1)]
+      const threshold = noiseFloor + (sorted[Math.floor(sorted.length * 0.9)] - noiseFloor) * 0.25
+      const frameSeconds = frameSize / buffer.sampleRate
+
+      let pauseCount = 0
+      let longPauseCount = 0
+      let silentFrames = 0
+      let spoken = false
+      const speechEnergies = []
+      for (const energy of energies) {
+        if (energy >= threshold) {
+          const silence = silentFrames * frameSeconds
+          if (spoken && silence >= 0.3) pauseCount++
+          if (spoken && silence >= 2) longPauseCount++
+          silentFrames = 0
+          spoken = true
+          speechEnergies.push(energy)
+        } else {
+          silentFrames++
+        }
+      }
+
+      const durationMinutes = buffer.duration / 60
+      const wordCount = (this.sttText || '').trim().split(/\s+/).filter(Boolean).length
+      const meanEnergy = speechEnergies.reduce((sum, value) => sum + value, 0) / (speechEnergies.length || 1)
+      const energyStd = Math.sqrt(speechEnergies.reduce((sum, value) => sum + (value - meanEnergy) ** 2, 0) / (speechEnergies.length || 1))
+
+      this.speechMetrics.duration = Math.round(buffer.duration)
+      this.speechMetrics.wordsPerMinute = durationMinutes > 0 ? Math.round(wordCount / durationMinutes) : 0
+      this.speechMetrics.pauseCount = pauseCount
+
+      this.renderAudioAnalysis({
+        speech_rate: this.speechMetrics.wordsPerMinute,
+        pause_frequency: durationMinutes > 0 ? Math.round(pauseCount / durationMinutes * 10) / 10 : 0,
+        filler_word_count: this.speechMetrics.fillerCount,
+        long_pause_count: longPauseCount,
+        pause_source: 'energy_vad',
+        pitch_stability: null,
+        volume_stability: meanEnergy > 0 ? Math.max(0, Math.min(100, Math.round(100 - energyStd / meanEnergy * 100))) : null,
+        intonation_stability: null,
+        keyword_coverage: null,
+        overall_delivery: null
+      })
+    } catch (error) {
+      console.error('브라우저 녹음 분석 오류:', error)
+    }
+  }
+
+  // 백그라운드 음성 인식·분석 작업이 끝날 때까지 상태 조회 (긴 발표는 CPU 변환에 수 분 소요)
+  async waitForTranscription(id) {
+    const deadline = Date.now() + 20 * 60 * 1000
+    while (Date.now() < deadline) {
+      const response = await axios.get('/api/stt/transcriptions/' + encodeURIComponent(id))
+      const job = response.data.data
+      if (job.status === 'failed') {
+        throw new Error(job.error)
+      }
+      if (job.status !== 'processing') {
+        return job
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000))
+    }
+    throw new Error('발표 녹음 처리 시간이 초과되었습니다.')
+  }
+
+  async uploadSlideDeck(file) {
+    const status = document.getElementById('slide-deck-status')
+    this.slideDeck = null
+    if (!file) return
+
+    try {
+      status.textContent = `${file.name} 분석 중...`
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await axios.post('/api/parse/slides', formData)
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      this.slideDeck = response.data.data
+      status.textContent = `${file.name}: 슬라이드 ${this.slideDeck.slide_count}장 (발표 스크립트와 정합도를 평가합니다)`
+    } catch (error) {
+      console.error('슬라이드 덱 분석 오류:', error)
+      status.textContent = '슬라이드 분석 실패: ' + (error.response?.data?.error || error.message)
+    }
+  }
+
   async evaluatePresentation(recordingBlob) {
     if (!this.selectedCustomer) {
       alert('AI 가상고객을 먼저 선택해주세요.')
@@ -559,6 +854,28 @@ class PresentationEvaluationApp {
     }
 
     try {
+      // 슬라이드 덱이나 서버 음성 인식 스크립트가 있으면 실제 평가 API로 평가
+      if (this.slideDeck || this.sttTranscriptId) {
+        const response = await axios.post('/api/evaluations/presentation', {
+          customer_id: this.selectedCustomer.id,
+          presentation_title: document.getElementById('presentation-title').value || '금호석유화학 DX 플랫폼 구축 제안',
+          stt_transcript: this.sttText,
+          transcript_id: this.sttTranscriptId,
+          speech_metrics: {
+            duration_seconds: this.speechMetrics.duration,
+            words_per_minute: this.speechMetrics.wordsPerMinute,
+            pause_count: this.speechMetrics.pauseCount,
+            filler_word_count: this.speechMetrics.fillerCount
+          },
+          slide_deck: this.slideDeck
+        })
+
+        if (response.data.success) {
+          this.displayEvaluationResults(response.data.data)
+        }
+        return
+      }
+
       // 데모 발표 평가 API 호출
       const response = await axios.post('/api/demo/presentation-evaluation', {
         customer_id: this.selectedCustomer.id,
@@ -628,27 +945,630 @@ class PresentationEvaluationApp {
   }
 
   displayEvaluationResults(evaluationData) {
+    // 발표 스크립트가 없어 평가하지 않은 경우 점수 대신 안내만 표시
+    const scores = evaluationData.scores
+    const scoreText = entry => scores && entry ? entry.score + '점' : '-'
+
     // 점수 표시 (100점 만점 직접 평가)
-    document.getElementById('clarity-score').textContent = evaluationData.scores.clarity.score + '점'
-    document.getElementById('expertise-score').textContent = evaluationData.scores.expertise.score + '점'
-    document.getElementById('persuasiveness-score').textContent = evaluationData.scores.persuasiveness.score + '점'
-    document.getElementById('logic-score').textContent = evaluationData.scores.logic.score + '점'
-    document.getElementById('creativity-score').textContent = evaluationData.scores.creativity.score + '점'
+    document.getElementById('clarity-score').textContent = scoreText(scores?.clarity)
+    document.getElementById('expertise-score').textContent = scoreText(scores?.expertise)
+    document.getElementById('persuasiveness-score').textContent = scoreText(scores?.persuasiveness)
+    document.getElementById('logic-score').textContent = scoreText(scores?.logic)
+    document.getElementById('creativity-score').textContent = scoreText(scores?.creativity)
     // Support both reliability and credibility for backward compatibility
-    const reliabilityScore = evaluationData.scores.reliability || evaluationData.scores.credibility;
-    document.getElementById('reliability-score').textContent = reliabilityScore.score + '점'
+    document.getElementById('reliability-score').textContent = scoreText(scores?.reliability || scores?.credibility)
     
     // 총점 표시 (100점 만점)
-    document.getElementById('total-score').textContent = Math.round(evaluationData.total_score) + '점'
+    document.getElementById('total-score').textContent = scores ? Math.round(evaluationData.total_score) + '점' : '미평가'
+    this.presentationEvaluationId = evaluationData.id || null
+    
+    this.renderSlideAlignment(evaluationData.slide_alignment)
+    this.renderEvidenceComments(evaluationData)
+    this.renderAudioAnalysis(evaluationData.audio_analysis)
+    if (evaluationData.stt_transcript_id) {
+      this.loadPlaybackTimeline(evaluationData.id)
+    }
     
     // 결과 섹션 표시
     document.getElementById('evaluation-results').classList.remove('hidden')
     document.getElementById('evaluation-results').scrollIntoView({ behavior: 'smooth' })
     
+    if (evaluationData.evaluation_method === 'not_evaluated') {
+      alert(evaluationData.overall_feedback)
+      return
+    }
     this.showSuccessMessage('발표 평가가 완료되었습니다!')
   }
 
-  // 정리 함수
+  renderSlideAlignment(alignment) {
+    const container = document.getElementById('slide-alignment')
+    if (!container) return
+    if (!alignment) {
+      container.classList.add('hidden')
+      return
+    }
+
+    const rows = alignment.slides.map(slide => `
+      <tr>
+        <td style="padding: var(--spacing-xs) var(--spacing-sm);">${slide.slide_number}</td>
+        <td style="padding: var(--spacing-xs) var(--spacing-sm); word-break: keep-all;">${this.escapeHtml(slide.title || '-')}</td>
+        <td style="padding: var(--spacing-xs) var(--spacing-sm); text-align: right; color: ${slide.covered ? 'var(--success-color)' : 'var(--pwc-error)'};">${Math.round(slide.coverage * 100)}%</td>
+        <td style="padding: var(--spacing-xs) var(--spacing-sm); font-size: 0.8rem; color: var(--pwc-gray-600); word-break: keep-all;">${this.escapeHtml(slide.missed_keywords.slice(0, 5).join(', '))}</td>
+      </tr>
+    `).join('')
+
+    container.innerHTML = `
+      <h3 style="font-size: 1.125rem; font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm);">
+        <i class="fas fa-images" style="color: var(--pwc-orange); margin-right: var(--spacing-sm);"></i>
+        스크립트-슬라이드 정합도 ${alignment.slide_alignment_score}점
+      </h3>
+      <p style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-sm); word-break: keep-all;">
+        내용 언급률 ${alignment.coverage_score}점 · 순서 일치도 ${alignment.order_score}점 · 설명한 슬라이드 ${alignment.covered_slides}/${alignment.slides.length}장
+      </p>
+      <table style="width: 100%; border-collapse: collapse; font-size: 0.875rem;">
+        <thead>
+          <tr style="background: var(--pwc-gray-100);">
+            <th style="padding: var(--spacing-xs) var(--spacing-sm); text-align: left;">#</th>
+            <th style="padding: var(--spacing-xs) var(--spacing-sm); text-align: left;">슬라이드</th>
+            <th style="padding: var(--spacing-xs) var(--spacing-sm); text-align: right;">언급률</th>
+            <th style="padding: var(--spacing-xs) var(--spacing-sm); text-align: left;">누락 키워드</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `
+    container.classList.remove('hidden')
+  }
+
+  renderEvidenceComments(evaluationData) {
+    const container = document.getElementById('evidence-comments')
+    if (!container) return
+    if (!evaluationData.scores || !evaluationData.stt_transcript) {
+      container.classList.add('hidden')
+      return
+    }
+
+    const labels = { clarity: '명확성', expertise: '전문성', persuasiveness: '설득력', logic: '논리성', creativity: '창의성', reliability: '신뢰성', credibility: '신뢰성' }
+    const items = [
+      ...Object.entries(evaluationData.scores).map(([metric, entry]) => ({
+        title: `${labels[metric] || metric} ${entry.score}점`, text: entry.comment, evidence: entry.evidence || []
+      })),
+      ...(evaluationData.key_strengths || []).map((text, index) => ({
+        title: '강점', text, evidence: evaluationData.comment_evidence?.key_strengths?.[index] || []
+      })),
+      ...(evaluationData.improvement_areas || []).map((text, index) => ({
+        title: '개선점', text, evidence: evaluationData.comment_evidence?.improvement_areas?.[index] || []
+      }))
+    ]
+
+    document.getElementById('evidence-comment-list').innerHTML = items.map((item, index) => `
+      <div class="evidence-comment" data-index="${index}" style="padding: var(--spacing-sm); border-bottom: 1px solid var(--neutral-200); cursor: pointer;">
+        <strong style="color: var(--pwc-navy);">${this.escapeHtml(item.title)}</strong>
+        <span style="font-size: 0.75rem; color: var(--pwc-gray-600);">${item.evidence.length ? `근거 ${item.evidence.length}건` : '근거 없음'}</span>
+        <div style="color: var(--pwc-gray-700); word-break: keep-all;">${this.escapeHtml(item.text)}</div>
+      </div>
+    `).join('')
+
+    document.querySelectorAll('.evidence-comment').forEach(element => {
+      element.addEventListener('click', () => {
+        document.querySelectorAll('.evidence-comment').forEach(other => { other.style.background = '' })
+        element.style.background = 'var(--pwc-gray-100)'
+        this.highlightEvidence(evaluationData.stt_transcript, items[Number(element.dataset.index)].evidence)
+      })
+    })
+
+    this.highlightEvidence(evaluationData.stt_transcript, [])
+    container.classList.remove('hidden')
+  }
+
+  // 발표 스크립트에서 근거 구간(start~end)을 <mark>로 강조하고 첫 구간으로 스크롤
+  highlightEvidence(transcript, spans) {
+    const transcriptView = document.getElementById('evidence-transcript')
+    const sorted = [...spans].sort((a, b) => a.start - b.start)
+
+    let html = ''
+    let cursor = 0
+    for (const span of sorted) {
+      if (span.start < cursor) continue
+      html += this.escapeHtml(transcript.substring(cursor, span.start))
+      html += `<mark style="background: var(--pwc-orange-light, #ffe0b2);">${this.escapeHtml(transcript.substring(span.start, span.end))}</mark>`
+      cursor = span.end
+    }
+    html += this.escapeHtml(transcript.substring(cursor))
+
+    transcriptView.innerHTML = html
+    transcriptView.querySelector('mark')?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  async loadPlaybackTimeline(evaluationId) {
+    try {
+      const response = await axios.get(`/api/evaluations/presentation/${evaluationId}/timeline`)
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+      this.renderPlayback(response.data.data)
+    } catch (error) {
+      console.error('발표 타임라인 로드 오류:', error)
+    }
+  }
+
+  renderPlayback(timeline) {
+    this.playbackTimeline = timeline
+    this.playbackWordIndex = -1
+
+    const markerStyles = {
+      filler: { label: '군말', color: 'var(--pwc-orange)' },
+      long_pause: { label: '긴 휴지', color: 'var(--pwc-gray-600)' },
+      unclear_claim: { label: '근거 없는 주장', color: 'var(--pwc-error)' },
+      missed_keyword: { label: 'RFP 키워드 누락', color: 'var(--pwc-blue)' }
+    }
+    const formatTime = (seconds) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`
+    const duration = timeline.duration_seconds || 1
+
+    // 녹화본은 이 페이지의 메모리에만 있어(서버 미저장) 없으면 안내와 함께 스크립트와 마커만 표시
+    const media = document.getElementById('playback-media')
+    const notice = document.getElementById('playback-media-notice')
+    if (this.recordingUrl) {
+      media.src = this.recordingUrl
+      media.classList.remove('hidden')
+      notice.classList.add('hidden')
+    } else {
+      media.removeAttribute('src')
+      media.classList.add('hidden')
+      notice.classList.remove('hidden')
+    }
+
+    document.getElementById('playback-track').innerHTML = `
+      <div id="playback-progress" style="position: absolute; left: 0; top: 0; bottom: 0; width: 0; background: rgba(255, 182, 0, 0.25);"></div>
+      ${timeline.markers.map(marker => `
+        <div data-time="${marker.start_time}" title="${formatTime(marker.start_time)} ${this.escapeHtml(marker.label)}"
+          style="position: absolute; top: 4px; bottom: 4px; left: ${Math.min(marker.start_time / duration * 100, 99.5)}%; width: 4px; border-radius: 2px; background: ${markerStyles[marker.type].color};"></div>
+      `).join('')}
+    `
+
+    document.getElementById('playback-summary').innerHTML = Object.entries(markerStyles)
+      .map(([type, style]) => `<span style="margin-right: var(--spacing-md);"><span style="display: inline-block; width: 10px; height: 10px; border-radius: 2px; background: ${style.color}; margin-right: 4px;"></span>${style.label} ${timeline.summary[type]}건</span>`)
+      .join('')
+
+    document.getElementById('playback-transcript').innerHTML = timeline.segments.map(segment => `
+      <p data-segment="${segment.index}" style="margin-bottom: var(--spacing-sm);">
+        <span data-time="${segment.start_time}" style="font-size: 0.75rem; color: var(--pwc-gray-500); margin-right: var(--spacing-xs); cursor: pointer;">${formatTime(segment.start_time)}</span>
+        ${timeline.words.slice(segment.word_start, segment.word_end).map((word, offset) => `<span data-word="${segment.word_start + offset}" data-time="${word.start_time}" style="cursor: pointer; border-radius: 3px;">${this.escapeHtml(word.word)}</span>`).join(' ')}
+      </p>
+    `).join('')
+
+    document.getElementById('playback-markers').innerHTML = timeline.markers.length
+      ? timeline.markers.map(marker => `
+        <div data-time="${marker.start_time}" style="cursor: pointer; padding: var(--spacing-sm); margin-bottom: var(--spacing-xs); border-left: 4px solid ${markerStyles[marker.type].color}; background: var(--pwc-white); border-radius: var(--radius-sm); word-break: keep-all;">
+          <div style="font-weight: 600; color: var(--pwc-navy);">${formatTime(marker.start_time)} · ${this.escapeHtml(marker.label)}</div>
+          <div style="font-size: 0.8rem; color: var(--pwc-gray-600);">${this.escapeHtml(marker.detail)}</div>
+        </div>
+      `).join('')
+      : '<p style="color: var(--pwc-gray-600);">표시할 피드백이 없습니다.</p>'
+
+    document.getElementById('presentation-playback').classList.remove('hidden')
+  }
+
+  // 마커로 이동할 때는 맥락을 들을 수 있도록 조금 앞에서 재생
+  seekPlayback(time, leadSeconds = 1) {
+    const media = document.getElementById('playback-media')
+    this.syncPlayback(Math.max(time - leadSeconds, 0))
+    if (!media.getAttribute('src')) return
+    media.currentTime = Math.max(time - leadSeconds, 0)
+    media.play().catch(() => {})
+  }
+
+  syncPlayback(currentTime) {
+    const timeline = this.playbackTimeline
+    if (!timeline) return
+
+    const progress = document.getElementById('playback-progress')
+    if (progress) progress.style.width = Math.min(currentTime / (timeline.duration_seconds || 1) * 100, 100) + '%'
+
+    // 현재 시각에 말하고 있는(또는 직전에 말한) 단어
+    const words = timeline.words
+    let low = 0, high = words.length - 1, index = -1
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (words[mid].start_time <= currentTime) {
+        index = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    if (index === this.playbackWordIndex) return
+
+    const container = document.getElementById('playback-transcript')
+    container.querySelector(`[data-word="${this.playbackWordIndex}"]`)?.style.setProperty('background', 'none')
+    this.playbackWordIndex = index
+    const current = container.querySelector(`[data-word="${index}"]`)
+    if (!current) return
+    current.style.background = 'rgba(255, 182, 0, 0.45)'
+
+    // 스크립트 영역 안에서만 스크롤 (페이지 전체는 움직이지 않음)
+    const offset = current.offsetTop - container.scrollTop
+    if (offset < 0 || offset > container.clientHeight - 40) {
+      container.scrollTop = current.offsetTop - container.clientHeight / 3
+    }
+  }
+
+  // URL의 proposal_evaluation_id (없으면 서버가 고객의 최신 제안서 평가 사용)
+  qaRequestBody() {
+    const urlParams = new URLSearchParams(window.location.search)
+    return {
+      customer_id: this.selectedCustomer.id,
+      proposal_evaluation_id: urlParams.get('proposal_evaluation_id') || undefined
+    }
+  }
+
+  async loadExpectedQuestions() {
+    if (!this.selectedCustomer) {
+      alert('AI 가상고객을 먼저 선택해주세요.')
+      return
+    }
+
+    try {
+      this.showLoading('예상 질문을 생성하는 중...')
+      const response = await axios.post('/api/qa/questions', this.qaRequestBody())
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const container = document.getElementById('qa-question-list')
+      container.innerHTML = response.data.data.questions.map((question, index) => `
+        <details style="border: 1px solid var(--pwc-gray-200); border-radius: var(--radius-md); padding: var(--spacing-md); margin-bottom: var(--spacing-sm);">
+          <summary style="cursor: pointer; font-weight: 600; color: var(--pwc-navy); word-break: keep-all;">
+            Q${index + 1}. ${this.escapeHtml(question.question)}
+            <span style="font-size: 0.75rem; color: ${question.difficulty === 'high' ? 'var(--pwc-error)' : 'var(--pwc-gray-600)'}; margin-left: var(--spacing-xs);">${this.escapeHtml(question.topic)}</span>
+          </summary>
+          <p style="font-size: 0.8rem; color: var(--pwc-gray-600); margin-top: var(--spacing-sm); word-break: keep-all;">질문 근거: ${this.escapeHtml(question.rationale)}</p>
+          <p style="font-size: 0.875rem; color: var(--pwc-gray-700); margin-top: var(--spacing-xs); word-break: keep-all;"><strong>모범 답변:</strong> ${this.escapeHtml(question.recommended_answer)}</p>
+        </details>
+      `).join('')
+      container.classList.remove('hidden')
+    } catch (error) {
+      console.error('예상 질문 생성 오류:', error)
+      alert('예상 질문 생성 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    } finally {
+      this.hideLoading()
+    }
+  }
+
+  async startRehearsal() {
+    if (!this.selectedCustomer) {
+      alert('AI 가상고객을 먼저 선택해주세요.')
+      return
+    }
+
+    try {
+      this.showLoading('리허설을 준비하는 중...')
+      const response = await axios.post('/api/qa/rehearsals', this.qaRequestBody())
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      this.qaRehearsal = response.data.data
+      document.getElementById('qa-turns').innerHTML = ''
+      document.getElementById('qa-session').classList.remove('hidden')
+      this.renderRehearsalQuestion(this.qaRehearsal.current)
+    } catch (error) {
+      console.error('리허설 시작 오류:', error)
+      alert('리허설 시작 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    } finally {
+      this.hideLoading()
+    }
+  }
+
+  renderRehearsalQuestion(current) {
+    const total = this.qaRehearsal.questions.length
+    document.getElementById('qa-current-label').textContent = current
+      ? `질문 ${current.question_index + 1}/${total}${current.is_follow_up ? ' · 꼬리질문' : ''}`
+      : '리허설 완료'
+    document.getElementById('qa-current-question').textContent = current ? current.question : ''
+    document.getElementById('qa-answer').value = ''
+    document.getElementById('qa-answer').disabled = !current
+    document.getElementById('qa-submit').disabled = !current
+    document.getElementById('qa-voice').disabled = !current
+    this.qaAnswerMode = 'text'
+  }
+
+  async submitRehearsalAnswer() {
+    const answer = document.getElementById('qa-answer').value.trim()
+    if (!this.qaRehearsal || !answer) {
+      alert('답변을 입력해주세요.')
+      return
+    }
+    this.stopVoiceAnswer()
+
+    try {
+      const response = await axios.post(`/api/qa/rehearsals/${this.qaRehearsal.id}/answers`, {
+        answer,
+        input_mode: this.qaAnswerMode
+      })
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const { turn, next, summary } = response.data.data
+      this.renderRehearsalTurn(turn)
+      this.qaRehearsal.current = next
+      this.renderRehearsalQuestion(next)
+      if (summary) {
+        this.renderRehearsalSummary(summary)
+      }
+    } catch (error) {
+      console.error('리허설 답변 채점 오류:', error)
+      alert('답변 채점 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    }
+  }
+
+  renderRehearsalTurn(turn) {
+    const evaluation = turn.evaluation
+    const color = evaluation.score >= 70 ? 'var(--pwc-success)' : 'var(--pwc-error)'
+    document.getElementById('qa-turns').insertAdjacentHTML('beforeend', `
+      <div style="border: 1px solid var(--pwc-gray-200); border-radius: var(--radius-md); padding: var(--spacing-md); margin-bottom: var(--spacing-sm);">
+        <div style="display: flex; justify-content: space-between; gap: var(--spacing-sm);">
+          <div style="font-weight: 600; color: var(--pwc-navy); word-break: keep-all;">${turn.is_follow_up ? '↳ ' : ''}${this.escapeHtml(turn.question)}</div>
+          <div style="font-weight: 700; color: ${color}; white-space: nowrap;">${evaluation.score}점</div>
+        </div>
+        <p style="font-size: 0.875rem; color: var(--pwc-gray-700); margin-top: var(--spacing-xs); word-break: keep-all;">
+          <i class="fas ${turn.input_mode === 'voice' ? 'fa-microphone' : 'fa-keyboard'}" style="margin-right: var(--spacing-xs); color: var(--pwc-gray-400);"></i>${this.escapeHtml(turn.answer)}
+        </p>
+        <p style="font-size: 0.8rem; color: var(--pwc-gray-600); margin-top: var(--spacing-xs);">
+          관련성 ${evaluation.relevance} · 완결성 ${evaluation.completeness} · 구체성 ${evaluation.specificity} · 확신도 ${evaluation.confidence}
+        </p>
+        <p style="font-size: 0.875rem; color: var(--pwc-navy); margin-top: var(--spacing-xs); word-break: keep-all;">${this.escapeHtml(evaluation.feedback)}</p>
+      </div>
+    `)
+  }
+
+  renderRehearsalSummary(summary) {
+    document.getElementById('qa-turns').insertAdjacentHTML('beforeend', `
+      <div class="pwc-alert pwc-alert-info" style="margin-top: var(--spacing-md);">
+        <p style="word-break: keep-all;">
+          <strong>리허설 평균 ${summary.average_score}점</strong> · 답변 질문 ${summary.answered}개 · 꼬리질문 ${summary.follow_ups}회
+          ${summary.weakest_question ? `<br>가장 보완이 필요한 질문: ${this.escapeHtml(summary.weakest_question)}` : ''}
+        </p>
+      </div>
+    `)
+    this.showSuccessMessage('질의응답 리허설이 완료되었습니다!')
+  }
+
+  // 답변용 음성 인식 (발표 녹화용 인식기와 별도)
+  toggleVoiceAnswer(textareaId, buttonId) {
+    if (this.qaRecognition) {
+      this.stopVoiceAnswer()
+      return
+    }
+
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+    if (!SpeechRecognition) {
+      alert('이 브라우저는 음성 인식을 지원하지 않습니다. 답변을 직접 입력해주세요.')
+      return
+    }
+
+    const textarea = document.getElementById(textareaId)
+    const baseText = textarea.value ? textarea.value.trim() + ' ' : ''
+    let finalText = ''
+
+    this.qaRecognition = new SpeechRecognition()
+    this.qaRecognition.continuous = true
+    this.qaRecognition.interimResults = true
+    this.qaRecognition.lang = 'ko-KR'
+    this.qaRecognition.onresult = (event) => {
+      let interimText = ''
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) {
+          finalText += event.results[i][0].transcript + ' '
+        } else {
+          interimText += event.results[i][0].transcript
+        }
+      }
+      textarea.value = baseText + finalText + interimText
+      this.qaAnswerMode = 'voice'
+    }
+    this.qaRecognition.onerror = (event) => {
+      console.error('답변 음성 인식 오류:', event.error)
+      this.stopVoiceAnswer()
+    }
+    this.qaRecognition.onend = () => {
+      this.qaRecognition = null
+      this.updateVoiceButton(false)
+    }
+
+    this.qaVoiceButtonId = buttonId
+    this.qaRecognition.start()
+    this.updateVoiceButton(true)
+  }
+
+  stopVoiceAnswer() {
+    if (this.qaRecognition) {
+      this.qaRecognition.stop()
+      this.qaRecognition = null
+    }
+    this.updateVoiceButton(false)
+  }
+
+  updateVoiceButton(listening) {
+    const button = this.qaVoiceButtonId && document.getElementById(this.qaVoiceButtonId)
+    if (!button) return
+    button.classList.toggle('recording', listening)
+    button.innerHTML = listening
+      ? '<i class="fas fa-stop"></i> 음성 답변 종료'
+      : '<i class="fas fa-microphone"></i> 음성 답변'
+  }
+
+  async startLiveQA() {
+    if (!this.selectedCustomer) {
+      alert('AI 가상고객을 먼저 선택해주세요.')
+      return
+    }
+
+    try {
+      this.showLoading('AI 가상고객이 질문을 준비하는 중...')
+      const response = await axios.post('/api/qa/sessions', {
+        ...this.qaRequestBody(),
+        presentation_evaluation_id: this.presentationEvaluationId || undefined
+      })
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      this.liveQASession = response.data.data
+      this.liveQAIntegratedId = null
+      document.getElementById('live-qa-messages').innerHTML = ''
+      document.getElementById('live-qa-result').classList.add('hidden')
+      document.getElementById('live-qa-chat').classList.remove('hidden')
+      this.liveQASession.messages.forEach(message => this.appendLiveQAMessage(message))
+      this.setLiveQAInputEnabled(true)
+    } catch (error) {
+      console.error('질의응답 시작 오류:', error)
+      alert('질의응답 시작 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    } finally {
+      this.hideLoading()
+    }
+  }
+
+  async sendLiveQAAnswer() {
+    const textarea = document.getElementById('live-qa-answer')
+    const answer = textarea.value.trim()
+    if (!this.liveQASession || !answer) {
+      alert('답변을 입력해주세요.')
+      return
+    }
+    this.stopVoiceAnswer()
+
+    try {
+      this.setLiveQAInputEnabled(false)
+      const response = await axios.post(`/api/qa/sessions/${this.liveQASession.id}/messages`, {
+        answer,
+        input_mode: this.qaAnswerMode
+      })
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const { messages, status, result } = response.data.data
+      messages.forEach(message => this.appendLiveQAMessage(message))
+      textarea.value = ''
+      this.qaAnswerMode = 'text'
+
+      if (status === 'completed') {
+        this.renderLiveQAResult(result)
+      } else {
+        this.setLiveQAInputEnabled(true)
+      }
+    } catch (error) {
+      console.error('질의응답 답변 오류:', error)
+      alert('답변 처리 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+      this.setLiveQAInputEnabled(true)
+    }
+  }
+
+  async finishLiveQA() {
+    if (!this.liveQASession) return
+    this.stopVoiceAnswer()
+
+    try {
+      const response = await axios.post(`/api/qa/sessions/${this.liveQASession.id}/finish`)
+      if (!response.data.success) {
+        throw new Error(response.data.error)
+      }
+
+      const finished = response.data.data
+      finished.messages.slice(-1).forEach(message => this.appendLiveQAMessage(message))
+      this.renderLiveQAResult(finished.result)
+    } catch (error) {
+      console.error('질의응답 종료 오류:', error)
+      alert('질의응답 종료 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    }
+  }
+
+  appendLiveQAMessage(message) {
+    const isCustomer = message.role === 'customer'
+    const container = document.getElementById('live-qa-messages')
+    const evaluation = message.evaluation
+    container.insertAdjacentHTML('beforeend', `
+      <div style="display: flex; justify-content: ${isCustomer ? 'flex-start' : 'flex-end'}; margin-bottom: var(--spacing-sm);">
+        <div style="max-width: 80%; padding: var(--spacing-sm) var(--spacing-md); border-radius: var(--radius-md); word-break: keep-all; background: ${isCustomer ? 'var(--pwc-white)' : 'var(--pwc-blue)'}; color: ${isCustomer ? 'var(--pwc-navy)' : 'var(--pwc-white)'}; border: 1px solid ${message.escalation_level ? 'var(--pwc-error)' : 'var(--pwc-gray-200)'};">
+          <div style="font-size: 0.75rem; opacity: 0.7; margin-bottom: var(--spacing-xs);">
+            ${isCustomer ? this.escapeHtml(this.liveQASession?.persona?.role || 'AI 가상고객') + (message.escalation_level ? ' · 추가 질문 ' + message.escalation_level + '단계' : '') : '발표자' + (message.input_mode === 'voice' ? ' · 음성' : '')}
+          </div>
+          <div>${this.escapeHtml(message.content)}</div>
+          ${evaluation ? `<div style="font-size: 0.75rem; opacity: 0.85; margin-top: var(--spacing-xs);">${evaluation.score}점 · ${this.escapeHtml(evaluation.feedback)}</div>` : ''}
+        </div>
+      </div>
+    `)
+    container.scrollTop = container.scrollHeight
+  }
+
+  setLiveQAInputEnabled(enabled) {
+    for (const id of ['live-qa-answer', 'live-qa-send', 'live-qa-voice', 'live-qa-finish']) {
+      const element = document.getElementById(id)
+      if (element) element.disabled = !enabled
+    }
+  }
+
+  renderLiveQAResult(result) {
+    this.setLiveQAInputEnabled(false)
+
+    const container = document.getElementById('live-qa-result')
+    container.innerHTML = `
+      <div class="pwc-alert pwc-alert-info">
+        <p style="word-break: keep-all;">
+          <strong>질의응답 ${result.qa_score}점</strong> · 답변 주제 ${result.answered_topics}/${result.total_topics}개 · 추가 질문 ${result.escalation_count}회
+        </p>
+        <p style="font-size: 0.875rem; margin-top: var(--spacing-xs); word-break: keep-all;">${this.escapeHtml(result.feedback)}</p>
+        ${result.unresolved_topics.length ? `<ul style="font-size: 0.875rem; margin-top: var(--spacing-xs); padding-left: var(--spacing-lg);">${result.unresolved_topics.map(topic => `<li>${this.escapeHtml(topic)}</li>`).join('')}</ul>` : ''}
+      </div>
+      <div id="live-qa-integrated" class="pwc-text-center" style="margin-top: var(--spacing-md);"></div>
+    `
+    container.classList.remove('hidden')
+    this.showSuccessMessage('질의응답이 종료되었습니다!')
+
+    if (result.answered_topics > 0) {
+      this.integrateLiveQA()
+    }
+  }
+
+  // 종료된 질의응답 세션을 한 번만 통합 결과로 저장하고, 결과 페이지는 저장된 통합 결과를 조회
+  async integrateLiveQA() {
+    const target = document.getElementById('live-qa-integrated')
+    const { customer_id, proposal_evaluation_id } = this.qaRequestBody()
+    if (!proposal_evaluation_id && !this.presentationEvaluationId) {
+      target.innerHTML = '<p style="font-size: 0.875rem; color: var(--pwc-gray-600); word-break: keep-all;">제안서 또는 발표 평가 결과가 있어야 질의응답을 통합 결과에 반영할 수 있습니다.</p>'
+      return
+    }
+
+    try {
+      if (!this.liveQAIntegratedId) {
+        const response = await axios.post('/api/evaluations/integrate', {
+          customer_id,
+          proposal_evaluation_id,
+          presentation_evaluation_id: this.presentationEvaluationId || undefined,
+          qa_session_id: this.liveQASession.id
+        })
+        if (!response.data.success) {
+          throw new Error(response.data.error)
+        }
+        this.liveQAIntegratedId = response.data.data.id
+      }
+
+      const params = new URLSearchParams({ customer_id, integrated_evaluation_id: this.liveQAIntegratedId })
+      if (proposal_evaluation_id) params.set('proposal_evaluation_id', proposal_evaluation_id)
+      if (this.presentationEvaluationId) params.set('presentation_evaluation_id', this.presentationEvaluationId)
+      target.innerHTML = `
+        <a href="/results?${params.toString()}" class="pwc-btn pwc-btn-primary">
+          <i class="fas fa-chart-radar"></i>질의응답 포함 통합 결과 보기
+        </a>
+      `
+    } catch (error) {
+      console.error('질의응답 통합 오류:', error)
+      target.innerHTML = `<p style="font-size: 0.875rem; color: var(--pwc-error); word-break: keep-all;">통합 결과 생성 실패: ${this.escapeHtml(error.response?.data?.error || error.message)}</p>`
+    }
+  }
+
   cleanup() {
     // 미디어 스트림 정리
     if (this.mediaStream) {
@@ -664,6 +1584,14 @@ class PresentationEvaluationApp {
     if (this.animationId) {
       cancelAnimationFrame(this.animationId)
     }
+
+    // 답변 음성 인식 정리
+    this.stopVoiceAnswer()
+
+    // 녹화본 URL 정리
+    if (this.recordingUrl) {
+      URL.revokeObjectURL(this.recordingUrl)
+    }
     
     // 타이머 정리
     if (this.timerInterval) {
@@ -719,6 +1647,16 @@ class PresentationEvaluationApp {
     }
   }
 
+  // PPTX·LLM·사용자 입력 텍스트를 innerHTML에 넣기 전 이스케이프 (속성 값에도 쓰므로 따옴표 포함)
+  escapeHtml(value) {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+
   showSuccessMessage(message) {
     const successDiv = document.createElement('div')
     successDiv.style.cssText = `
@@ -5,6 +5,10 @@ class ProposalEvaluationApp {
     this.selectedCustomer = null
     this.uploadedProposal = null
     this.evaluationResult = null
+    this.weightProfile = null
+    this.weightEdited = false
+    // 같은 고객으로 평가한 제안서 버전 (개정본 비교용)
+    this.revisionHistory = []
     
     this.init()
   }
@@ -35,6 +39,22 @@ class ProposalEvaluationApp {
       this.startEvaluation()
     })
 
+    // 개정본 비교
+    document.getElementById('compare-revisions')?.addEventListener('click', () => {
+      this.compareRevisions()
+    })
+
+    // 평가 가중치 수정
+    document.querySelectorAll('[data-weight-metric]').forEach(input => {
+      input.addEventListener('input', () => { this.weightEdited = true })
+    })
+    document.getElementById('weight-proposal')?.addEventListener('input', (e) => {
+      this.syncChannelWeight(e.target.value, 'weight-presentation')
+    })
+    document.getElementById('weight-presentation')?.addEventListener('input', (e) => {
+      this.syncChannelWeight(e.target.value, 'weight-proposal')
+    })
+
     // 드래그 앤 드롭 설정
     this.setupDragDrop()
   }
@@ -120,6 +140,7 @@ class ProposalEvaluationApp {
         id: customerId,
         name: selectedOption.textContent
       }
+      this.revisionHistory = []
 
       const customerInfo = document.getElementById('selected-customer-info')
       const customerDetails = document.getElementById('customer-details')
@@ -137,6 +158,7 @@ class ProposalEvaluationApp {
       
       customerInfo.style.display = 'block'
       this.checkEvaluationReady()
+      this.loadWeightProfile(customerId)
 
     } catch (error) {
       console.error('고객 선택 오류:', error)
@@ -144,6 +166,62 @@ class ProposalEvaluationApp {
     }
   }
 
+  async loadWeightProfile(customerId) {
+    try {
+      const response = await axios.post('/api/evaluations/weight-profile', { customer_id: customerId })
+      if (response.data.success) {
+        this.weightProfile = response.data.data
+        this.weightEdited = false
+        this.renderWeightProfile()
+      }
+    } catch (error) {
+      console.error('평가 가중치 로드 오류:', error)
+    }
+  }
+
+  renderWeightProfile() {
+    const panel = document.getElementById('weight-profile-panel')
+    if (!panel || !this.weightProfile) return
+
+    const sourceLabels = {
+      rfp: 'RFP 평가기준에서 산출',
+      persona: '고객 페르소나 가중치 사용 (RFP 평가기준 배점 없음)',
+      default: '기본 가중치 사용 (RFP 평가기준 배점 없음)',
+      custom: '사용자 수정 가중치'
+    }
+    const criteria = (this.weightProfile.criteria || []).map(criterion => `${criterion.label} ${criterion.points}`).join(' / ')
+    document.getElementById('weight-profile-source').textContent =
+      `${sourceLabels[this.weightProfile.source] || ''}${criteria ? ` · ${criteria}` : ''} — 평가 전 수정할 수 있습니다.`
+
+    document.querySelectorAll('[data-weight-metric]').forEach(input => {
+      input.value = Math.round((this.weightProfile.metric_weights[input.dataset.weightMetric] || 0) * 100)
+    })
+    document.getElementById('weight-proposal').value = Math.round(this.weightProfile.proposal_weight * 100)
+    document.getElementById('weight-presentation').value = Math.round(this.weightProfile.presentation_weight * 100)
+
+    panel.style.display = 'block'
+  }
+
+  syncChannelWeight(value, targetId) {
+    const percent = Math.min(100, Math.max(0, Number(value) || 0))
+    document.getElementById(targetId).value = 100 - percent
+    this.weightEdited = true
+  }
+
+  collectWeightOverrides() {
+    if (!this.weightEdited) return undefined
+
+    const metricWeights = {}
+    document.querySelectorAll('[data-weight-metric]').forEach(input => {
+      metricWeights[input.dataset.weightMetric] = (Number(input.value) || 0) / 100
+    })
+
+    return {
+      metric_weights: metricWeights,
+      proposal_weight: (Number(document.getElementById('weight-proposal').value) || 0) / 100
+    }
+  }
+
   async handleProposalUpload(file) {
     if (!file) return
 
@@ -154,24 +232,22 @@ class ProposalEvaluationApp {
     }
 
     // 파일 형식 확인
-    const allowedTypes = ['.pdf', '.docx', '.txt']
+    const allowedTypes = ['.pdf', '.docx', '.pptx']
     const fileExtension = '.' + file.name.split('.').pop().toLowerCase()
     
     if (!allowedTypes.includes(fileExtension)) {
-      this.showError('지원하지 않는 파일 형식입니다. PDF, DOCX, TXT 파일만 업로드 가능합니다.')
+      this.showError('지원하지 않는 파일 형식입니다. PDF, DOCX, PPTX 파일만 업로드 가능합니다.')
       return
     }
 
     try {
       this.showLoading('파일을 업로드하고 분석 중...')
 
-      // FormData 생성하여 실제 파일 분석 API 호출
+      // FormData 생성하여 제안서 파일 분석 API 호출 (섹션 구성 매핑 포함)
       const formData = new FormData()
-      formData.append('rfp_file', file)
-      formData.append('file_name', file.name)
-      formData.append('parsing_mode', 'detailed')
+      formData.append('file', file)
 
-      const response = await axios.post('/api/customers/rfp-analysis', formData, {
+      const response = await axios.post('/api/parse/proposal', formData, {
         headers: {
           'Content-Type': 'multipart/form-data'
         }
@@ -185,9 +261,9 @@ class ProposalEvaluationApp {
           name: file.name,
           size: file.size,
           type: fileExtension,
-          parsedContent: analyzedData.extracted_text || analyzedData.text_content,
-          rfpAnalysis: analyzedData.rfp_analysis_data,
-          fileAnalysis: analyzedData
+          parsedContent: analyzedData.proposal_content,
+          sections: analyzedData.proposal_sections,
+          fileAnalysis: analyzedData.parsed_document
         }
 
         // 자동 입력: 제안서 제목과 제안사명 설정  
@@ -202,7 +278,7 @@ class ProposalEvaluationApp {
 
     } catch (error) {
       console.error('파일 업로드 오류:', error)
-      this.showError('파일 업로드 중 오류가 발생했습니다: ' + error.message)
+      this.showError('파일 업로드 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
     } finally {
       this.hideLoading()
     }
@@ -364,12 +440,27 @@ class ProposalEvaluationApp {
         const response = await axios.post('/api/evaluations/proposal', {
           customer_id: this.selectedCustomer.id,
           proposal_title: proposalTitle,
-          proposal_content: proposalContent
+          proposal_content: proposalContent,
+          proposal_sections: this.uploadedProposal.sections,
+          proposal_pages: this.uploadedProposal.fileAnalysis?.pages,
+          proposal_file: {
+            file_type: this.uploadedProposal.fileAnalysis?.metadata?.fileType,
+            page_count: this.uploadedProposal.fileAnalysis?.metadata?.pageCount
+          },
+          weight_profile: this.collectWeightOverrides()
         })
         evaluationData = response.data.data
       }
 
       this.evaluationResult = evaluationData
+      if (!this.uploadedProposal.isDemo && evaluationData.id) {
+        this.revisionHistory.push({
+          id: evaluationData.id,
+          label: `v${this.revisionHistory.length + 1}`,
+          title: evaluationData.proposal_title,
+          total_score: evaluationData.total_score
+        })
+      }
       this.displayEvaluationResults()
 
     } catch (error) {
@@ -398,6 +489,21 @@ class ProposalEvaluationApp {
     // 총점 표시 (100점 만점)
     document.getElementById('total-score').textContent = Math.round(this.evaluationResult.total_score) + '점'
     
+    // 적용된 가중치 표시
+    const appliedWeights = document.getElementById('applied-weights')
+    const weightProfile = this.evaluationResult.weight_profile
+    if (appliedWeights && weightProfile) {
+      const labels = { clarity: '명확성', expertise: '전문성', persuasiveness: '설득력', logic: '논리성', creativity: '창의성', credibility: '신뢰성' }
+      const metrics = Object.entries(weightProfile.metric_weights)
+        .map(([metric, weight]) => `${labels[metric]} ${Math.round(weight * 100)}%`)
+        .join(' · ')
+      appliedWeights.textContent = `적용 가중치: ${metrics} | 통합 비중 제안서 ${Math.round(weightProfile.proposal_weight * 100)}% / 발표 ${Math.round(weightProfile.presentation_weight * 100)}%`
+    }
+
+    this.renderSectionScores()
+    this.renderEvidenceComments()
+    this.renderRevisionHistory()
+
     // 종합 코멘트 표시
     document.getElementById('overall-comment').textContent = this.evaluationResult.overall_comment
 
@@ -405,6 +511,196 @@ class ProposalEvaluationApp {
     resultsSection.scrollIntoView({ behavior: 'smooth' })
   }
 
+  renderSectionScores() {
+    const container = document.getElementById('section-scores')
+    const sectionScores = this.evaluationResult.section_scores
+    if (!container) return
+
+    if (!sectionScores || Object.keys(sectionScores).length === 0) {
+      container.style.display = 'none'
+      return
+    }
+
+    const labels = {
+      executive_summary: '사업 개요', methodology: '수행 방법론', technical_approach: '기술 방안', security: '보안',
+      pricing: '가격/예산', risk_management: '리스크 관리', team: '수행 조직', timeline: '추진 일정'
+    }
+    const missing = (this.evaluationResult.missing_sections || []).map(key => labels[key] || key)
+
+    container.innerHTML = `
+      <h4 style="font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm); word-break: keep-all;">
+        <i class="fas fa-list-ol" style="margin-right: var(--spacing-xs);"></i>섹션별 평가
+      </h4>
+      ${Object.entries(sectionScores).map(([key, section]) => `
+        <div style="display: flex; gap: var(--spacing-md); padding: var(--spacing-sm) 0; border-bottom: 1px solid var(--neutral-200);">
+          <strong style="min-width: 7rem; color: var(--pwc-navy);">${labels[key] || key}</strong>
+          <span style="min-width: 3rem; font-weight: 700;">${section.score}점${section.source === 'offline_rubric' ? '<span style="display: block; font-size: 0.7rem; font-weight: 400; color: var(--pwc-gray-600);">루브릭 채점</span>' : ''}</span>
+          <span style="color: var(--pwc-gray-600); word-break: keep-all;">${this.escapeHtml(section.comment || '')}</span>
+        </div>
+      `).join('')}
+      ${missing.length ? `<p style="margin-top: var(--spacing-sm); color: var(--pwc-error); font-size: 0.875rem; word-break: keep-all;">제안서에 없는 구성: ${missing.join(', ')}</p>` : ''}
+    `
+    container.style.display = 'block'
+  }
+
+  renderEvidenceComments() {
+    const container = document.getElementById('evidence-comments')
+    const result = this.evaluationResult
+    if (!container || !result.proposal_content) return
+
+    const labels = { clarity: '명확성', expertise: '전문성', persuasiveness: '설득력', logic: '논리성', creativity: '창의성', reliability: '신뢰성', credibility: '신뢰성' }
+    const items = [
+      ...Object.entries(result.scores || {}).map(([metric, entry]) => ({
+        title: `${labels[metric] || metric} ${entry.score}점`, text: entry.comment, evidence: entry.evidence || []
+      })),
+      ...(result.key_strengths || []).map((text, index) => ({
+        title: '강점', text, evidence: result.comment_evidence?.key_strengths?.[index] || []
+      })),
+      ...(result.improvement_areas || []).map((text, index) => ({
+        title: '개선점', text, evidence: result.comment_evidence?.improvement_areas?.[index] || []
+      }))
+    ]
+
+    document.getElementById('evidence-comment-list').innerHTML = items.map((item, index) => `
+      <div class="evidence-comment" data-index="${index}" style="padding: var(--spacing-sm); border-bottom: 1px solid var(--neutral-200); cursor: pointer;">
+        <strong style="color: var(--pwc-navy);">${item.title}</strong>
+        <span style="font-size: 0.75rem; color: var(--pwc-gray-600);">
+          ${item.evidence.length ? `근거 ${item.evidence.length}건${item.evidence[0].page_number ? ` · p.${item.evidence.map(span => span.page_number).filter(Boolean).join(', ')}` : ''}` : '근거 없음'}
+        </span>
+        <div style="color: var(--pwc-gray-700); word-break: keep-all;">${this.escapeHtml(item.text || '')}</div>
+      </div>
+    `).join('')
+
+    document.querySelectorAll('.evidence-comment').forEach(element => {
+      element.addEventListener('click', () => {
+        document.querySelectorAll('.evidence-comment').forEach(other => { other.style.background = '' })
+        element.style.background = 'var(--pwc-gray-100)'
+        this.highlightEvidence(items[Number(element.dataset.index)].evidence)
+      })
+    })
+
+    this.highlightEvidence([])
+    container.style.display = 'block'
+  }
+
+  renderRevisionHistory() {
+    const container = document.getElementById('revision-comparison')
+    if (!container) return
+
+    document.getElementById('revision-history').textContent = this.revisionHistory.length > 1
+      ? `평가한 버전: ${this.revisionHistory.map(version => `${version.label} ${version.title || ''} (${Math.round(version.total_score)}점)`).join(' → ')}`
+      : '수정한 제안서를 다시 업로드해 평가하면 이전 버전과 점수·지적사항·원문 변경을 비교할 수 있습니다.'
+    document.getElementById('compare-revisions').disabled = this.revisionHistory.length < 2
+    container.style.display = 'block'
+  }
+
+  async compareRevisions() {
+    if (this.revisionHistory.length < 2) return
+
+    try {
+      this.showLoading('제안서 버전을 비교하고 있습니다...')
+      const response = await axios.post('/api/evaluations/proposal/compare', {
+        customer_id: this.selectedCustomer.id,
+        versions: this.revisionHistory.map(version => ({ evaluation_id: version.id, label: version.label }))
+      })
+      this.renderRevisionComparison(response.data.data)
+    } catch (error) {
+      console.error('개정본 비교 오류:', error)
+      this.showError('개정본 비교 중 오류가 발생했습니다: ' + (error.response?.data?.error || error.message))
+    } finally {
+      this.hideLoading()
+    }
+  }
+
+  renderRevisionComparison(comparison) {
+    const labels = { clarity: '명확성', expertise: '전문성', persuasiveness: '설득력', logic: '논리성', creativity: '창의성', reliability: '신뢰성' }
+    const signed = (value) => `${value > 0 ? '+' : ''}${value}`
+    const deltaColor = (value) => value > 0 ? 'var(--pwc-success)' : value < 0 ? 'var(--pwc-error)' : 'var(--pwc-gray-600)'
+    const list = (title, items, color) => items.length ? `
+      <div style="margin-top: var(--spacing-xs);"><strong style="color: ${color};">${title} ${items.length}건</strong>
+        <ul style="margin: 0; padding-left: 1.25rem;">${items.map(item => `<li style="word-break: keep-all;">${this.escapeHtml(item)}</li>`).join('')}</ul>
+      </div>` : ''
+
+    const steps = comparison.steps.map(step => `
+      <div style="padding: var(--spacing-sm) 0; border-bottom: 1px solid var(--neutral-200);">
+        <div>
+          <strong style="color: var(--pwc-navy);">${step.from} → ${step.to}</strong>
+          <span style="margin-left: var(--spacing-sm); font-weight: 700; color: ${deltaColor(step.total.delta)};">${step.total.before} → ${step.total.after}점 (${signed(step.total.delta)})</span>
+          ${step.noise_margin !== null ? `<span style="font-size: 0.75rem; color: var(--pwc-gray-600);"> 잡음 범위 ±${step.noise_margin}</span>` : ''}
+          <span style="font-size: 0.75rem; color: ${step.improved ? 'var(--pwc-success)' : 'var(--pwc-gray-600)'};"> ${step.improved ? '개선' : '개선 미확인'}</span>
+        </div>
+        <div style="font-size: 0.85rem;">
+          ${Object.entries(step.metric_deltas).map(([metric, delta]) => `${labels[metric] || metric} <span style="color: ${deltaColor(delta.delta)};">${signed(delta.delta)}</span>`).join(' · ')}
+        </div>
+        <div style="font-size: 0.85rem;">
+          ${list('해소된 지적사항', step.issues.resolved, 'var(--pwc-success)')}
+          ${list('새로 제기된 지적사항', step.issues.raised, 'var(--pwc-error)')}
+          ${list('유지된 지적사항', step.issues.persisting, 'var(--pwc-gray-600)')}
+        </div>
+      </div>
+    `).join('')
+
+    // 마지막 개정의 원문 좌우 비교 (변경된 줄만)
+    const lastStep = comparison.steps[comparison.steps.length - 1]
+    const rowColors = { added: '#e8f5e9', removed: '#ffebee', changed: '#fff8e1' }
+    const changedRows = lastStep.diff.rows.filter(row => row.type !== 'same')
+    const diffRows = changedRows.slice(0, 200).map(row => `
+      <tr style="background: ${rowColors[row.type]};">
+        <td style="width: 3rem; color: var(--pwc-gray-600); vertical-align: top;">${row.left_line || ''}</td>
+        <td style="width: 50%; vertical-align: top; word-break: keep-all;">${this.escapeHtml(row.left || '')}</td>
+        <td style="width: 3rem; color: var(--pwc-gray-600); vertical-align: top;">${row.right_line || ''}</td>
+        <td style="width: 50%; vertical-align: top; word-break: keep-all;">${this.escapeHtml(row.right || '')}</td>
+      </tr>
+    `).join('')
+
+    document.getElementById('revision-result').innerHTML = `
+      <p style="font-weight: 600; word-break: keep-all;">
+        ${comparison.all_steps_improved ? '모든 개정에서 점수가 개선되었습니다.' : '점수가 개선되지 않은 개정이 있습니다.'}
+        최고 점수 버전: ${comparison.best_version}
+      </p>
+      ${steps}
+      <h5 style="font-weight: 600; color: var(--pwc-navy); margin: var(--spacing-md) 0 var(--spacing-xs);">
+        원문 변경 (${lastStep.from} → ${lastStep.to}: 추가 ${lastStep.diff.added} · 삭제 ${lastStep.diff.removed} · 수정 ${lastStep.diff.changed}줄)
+      </h5>
+      <div style="max-height: 420px; overflow-y: auto;">
+        <table style="width: 100%; font-size: 0.8rem; border-collapse: collapse;">
+          <thead><tr><th></th><th style="text-align: left;">${lastStep.from}</th><th></th><th style="text-align: left;">${lastStep.to}</th></tr></thead>
+          <tbody>${diffRows || '<tr><td colspan="4">변경된 줄이 없습니다.</td></tr>'}</tbody>
+        </table>
+      </div>
+      ${changedRows.length > 200 ? `<p style="font-size: 0.75rem; color: var(--pwc-gray-600);">변경 ${changedRows.length}줄 중 200줄만 표시합니다.</p>` : ''}
+    `
+  }
+
+  // 원문에서 근거 구간(start~end)을 <mark>로 강조하고 첫 구간으로 스크롤
+  highlightEvidence(spans) {
+    const documentView = document.getElementById('evidence-document')
+    const text = this.evaluationResult.proposal_content || ''
+    const sorted = [...spans].sort((a, b) => a.start - b.start)
+
+    let html = ''
+    let cursor = 0
+    for (const span of sorted) {
+      if (span.start < cursor) continue
+      html += this.escapeHtml(text.substring(cursor, span.start))
+      html += `<mark style="background: var(--pwc-orange-light, #ffe0b2);">${this.escapeHtml(text.substring(span.start, span.end))}</mark>`
+      cursor = span.end
+    }
+    html += this.escapeHtml(text.substring(cursor))
+
+    documentView.innerHTML = html
+    documentView.querySelector('mark')?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  escapeHtml(value) {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+
   showLoading(message = '처리 중...') {
     const overlay = document.createElement('div')
     overlay.id = 'loading-overlay'
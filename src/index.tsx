@@ -1,17 +1,14 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 
-// Railway 환경용 전역 메모리 저장소
-const globalMemoryStore = new Map<string, any>()
-
 // 유틸리티 및 서비스 임포트
 import { DeepResearchService } from './services/deep-research'
 import { RfpAnalysisService } from './services/rfp-analysis'
 import { CustomerGenerationService } from './services/customer-generation'
-import { EvaluationService } from './services/evaluation'
 import { DatabaseService } from './services/database'
 import { DemoDataService } from './services/demo-data'
-import { FileParserService } from './services/file-parser'
+import { FileParserService, type ParsedDocument } from './services/file-parser'
+import { SlideDeckParser } from './services/slide-deck-parser'
 import { PDFGeneratorService } from './services/pdf-generator'
 import { OpenAIService } from './services/openai-service'
 import { ChunkedOpenAIService } from './services/chunked-openai-service'
@@ -19,8 +16,28 @@ import { StreamingOpenAIService } from './services/streaming-openai-service'
 import { PRODUCTION_CONFIG, PerformanceMonitor, isProductionEnvironment, isWorkersUnbound, UNBOUND_CONFIG } from './config/production-config'
 import { WebCrawlerService } from './services/web-crawler'
 import { PdfParserService } from './services/pdf-parser-service'
-import { JsonStorageService } from './services/json-storage'
-import { LLMEvaluationService } from './services/llm-evaluation-service'
+import { createStorageRepository } from './services/storage-repository'
+import { CustomerResolver } from './services/customer-resolver'
+import { EvaluationResolver } from './services/evaluation-resolver'
+import { EvaluationRunner } from './services/evaluation-runner'
+import { CustomerVersionService } from './services/customer-version-service'
+import { CustomerAttributeEditor, type AttributeSource } from './services/customer-attribute-editor'
+import { EvaluationPanelService, normalizeRoles } from './services/evaluation-panel-service'
+import { resolveWeightProfile, applyWeightOverrides, buildWeightProfile, splitWithQA } from './services/evaluation-weights'
+import { resolveMultiRunOptions, type MultiRunOptions } from './services/evaluation-variance'
+import { RequirementTraceabilityService } from './services/requirement-traceability-service'
+import { ComplianceChecklistService, type ComplianceChecklist, type DisqualificationRisk } from './services/compliance-checklist-service'
+import { LLMEvaluationService, type IntegratedResultSummary } from './services/llm-evaluation-service'
+import { ScoreCalibrationService, validateBidOutcomeInput, type BidOutcomeInput, type CalibratedScore } from './services/score-calibration-service'
+import { ProposalRevisionService, assertSameEvaluationBasis } from './services/proposal-revision-service'
+import { CompetitiveBidService, MAX_BIDDERS } from './services/competitive-bid-service'
+import { CommitteeQAService, DEFAULT_QUESTION_COUNT } from './services/committee-qa-service'
+import { LiveQASessionService, DEFAULT_QA_TOPICS, MAX_QA_TOPICS } from './services/live-qa-session-service'
+import { createSTTProvider, resolveSTTEngine, resolveFFmpegBinary, canDecodeAudio, MAX_AUDIO_BYTES, DEFAULT_STT_LANGUAGE } from './services/stt-provider'
+import { TranscriptionJobService } from './services/transcription-job-service'
+import { SpeechAnalysisService } from './services/speech-analysis-service'
+import { extractRfpKeywords } from './services/requirement-traceability-service'
+import { PresentationTimelineService } from './services/presentation-timeline-service'
 
 // 타입 임포트
 import type { 
@@ -30,11 +47,17 @@ import type {
   RfpParsingRequest,
   LLMEvaluationRequest
 } from './types/ai-customer'
+import type { ProposalSections } from './types'
 
 type Bindings = {
   DB: D1Database;
   KV: KVNamespace;
   OPENAI_API_KEY: string;
+  STORAGE_DRIVER?: string;
+  STT_ENGINE?: string;
+  WHISPER_CPP_BIN?: string;
+  WHISPER_CPP_MODEL?: string;
+  FFMPEG_BIN?: string;
 }
 
 const app = new Hono<{ Bindings: Bindings }>()
@@ -70,6 +93,64 @@ function getEnvVar(c: any, key: string): string | undefined {
   return c.env?.[key]
 }
 
+// 저장소 리포지토리 헬퍼 (STORAGE_DRIVER 또는 바인딩에 따라 메모리/파일/D1/KV 선택)
+function getRepository(c: any) {
+  return createStorageRepository(c.env)
+}
+
+// AI 가상고객 통합 조회 헬퍼 (리포지토리 → KV → D1 순서, id/customer_id 모두 지원)
+function getCustomerResolver(c: any) {
+  return new CustomerResolver(getRepository(c), c.env)
+}
+
+// 제안서/발표 평가 통합 조회 헬퍼 (리포지토리 → KV → D1 순서)
+function getEvaluationResolver(c: any) {
+  return new EvaluationResolver(getRepository(c), c.env)
+}
+
+// 업로드된 제안서 파일(PDF/DOCX/PPTX) 검증·텍스트 추출 후 표준 구성(ProposalSections)으로 매핑
+async function parseProposalUpload(file: File): Promise<{ parsed_document: ParsedDocument; proposal_sections: ProposalSections } | { error: string }> {
+  if (file.size > 50 * 1024 * 1024) {
+    return { error: '파일 크기가 50MB를 초과합니다.' }
+  }
+  
+  const fileExtension = file.name.split('.').pop()?.toLowerCase()
+  if (!['pdf', 'docx', 'pptx'].includes(fileExtension || '')) {
+    return { error: '지원하지 않는 파일 형식입니다. PDF, DOCX, PPTX 파일만 업로드 가능합니다.' }
+  }
+  
+  const fileParser = new FileParserService()
+  const parsedDocument = await fileParser.parseFile(file)
+  const proposalSections = fileParser.extractProposalSections(parsedDocument)
+  console.log(`📑 제안서 섹션 매핑: ${file.name} → ${Object.keys(proposalSections).join(', ')}`)
+  
+  return { parsed_document: parsedDocument, proposal_sections: proposalSections }
+}
+
+// 발표 녹음 업로드 검증 (음성 인식·음향 분석 API 공통, 문제가 없으면 null)
+function validateAudioUpload(audio: File | null): string | null {
+  if (!(audio instanceof File) || audio.size === 0) {
+    return '음성 파일(audio)이 업로드되지 않았습니다.'
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    return `음성 파일 크기가 ${MAX_AUDIO_BYTES / 1024 / 1024}MB를 초과합니다.`
+  }
+  if (audio.type && !/^(audio|video)\//.test(audio.type)) {
+    return '지원하지 않는 파일 형식입니다. 음성/영상 녹음 파일만 업로드 가능합니다.'
+  }
+  return null
+}
+
+// Workers 런타임이면 응답 후 백그라운드 작업을 executionCtx.waitUntil로 유지 (Node.js에는 실행 컨텍스트가 없음)
+function backgroundTaskHook(c: any): ((task: Promise<void>) => void) | undefined {
+  try {
+    const executionCtx = c.executionCtx
+    return task => executionCtx.waitUntil(task)
+  } catch {
+    return undefined
+  }
+}
+
 // NLP 기반 RFP 분석 (고도화된 키워드 추출 + 구조화)
 async function generateNLPRfpAnalysis(text: string, fileName: string) {
   
@@ -215,18 +296,8 @@ app.post('/api/test-deep-research', async (c) => {
 // 1. AI 가상고객 생성 API
 app.get('/api/customers', async (c) => {
   try {
-    // Railway 환경에서는 전역 메모리 저장소 우선 사용
-    const customers: any[] = []
-    
-    // 전역 메모리에서 고객 데이터 수집
-    for (const [key, value] of globalMemoryStore.entries()) {
-      if (key.startsWith('customer:')) {
-        customers.push(value)
-      }
-    }
-    
-    // 생성일 기준 내림차순 정렬
-    customers.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    // 저장소 리포지토리에서 고객 목록 조회 (생성일 기준 내림차순)
+    const customers = await getRepository(c).listCustomers()
     
     console.log(`📋 고객 목록 조회: ${customers.length}개 고객 발견`)
     
@@ -248,9 +319,8 @@ app.get('/api/customers', async (c) => {
 app.get('/api/customers/:id', async (c) => {
   try {
     const customerId = c.req.param('id')
-    const storage = new JsonStorageService(c.env.KV)
     
-    const customer = await storage.getVirtualCustomer(customerId)
+    const customer = await getCustomerResolver(c).resolve(customerId)
     if (!customer) {
       return c.json({
         success: false,
@@ -271,6 +341,296 @@ app.get('/api/customers/:id', async (c) => {
   }
 })
 
+// 1.2 AI 가상고객 버전 목록 API
+app.get('/api/customers/:id/versions', async (c) => {
+  try {
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const versions = await new CustomerVersionService(getRepository(c)).listVersions(customer)
+    
+    return c.json({
+      success: true,
+      data: {
+        customer_id: customer.id,
+        current_version: versions[versions.length - 1]?.version,
+        versions
+      }
+    })
+  } catch (error) {
+    console.error('고객 버전 목록 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '고객 버전 목록 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 1.3 AI 가상고객 특정 버전 조회 API
+app.get('/api/customers/:id/versions/:version', async (c) => {
+  try {
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const versionService = new CustomerVersionService(getRepository(c))
+    await versionService.listVersions(customer) // 버전 기록 이전 고객의 기준 버전 보장
+    
+    const snapshot = await versionService.getVersion(customer.id, c.req.param('version'))
+    if (!snapshot) {
+      return c.json({
+        success: false,
+        error: `고객 버전을 찾을 수 없습니다: ${c.req.param('version')}`
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: snapshot
+    })
+  } catch (error) {
+    console.error('고객 버전 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '고객 버전 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 1.4 AI 가상고객 버전 간 30속성 비교 API (?from=v1&to=v2)
+app.get('/api/customers/:id/diff', async (c) => {
+  try {
+    const from = c.req.query('from')
+    const to = c.req.query('to')
+    
+    if (!from || !to) {
+      return c.json({
+        success: false,
+        error: '비교할 두 버전(from, to)이 필요합니다.'
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const versionService = new CustomerVersionService(getRepository(c))
+    await versionService.listVersions(customer)
+    
+    const diff = await versionService.diffVersions(customer.id, from, to)
+    if (!diff) {
+      return c.json({
+        success: false,
+        error: `고객 버전을 찾을 수 없습니다: ${from} → ${to}`
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: diff
+    })
+  } catch (error) {
+    console.error('고객 버전 비교 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '고객 버전 비교 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 1.5 기존 평가를 선택한 고객 버전으로 재실행 API
+app.post('/api/customers/:id/versions/:version/re-evaluate', async (c) => {
+  try {
+    const { evaluation_id, evaluation_type } = await c.req.json()
+    const { env } = c
+    
+    if (!evaluation_id) {
+      return c.json({
+        success: false,
+        error: '재평가할 평가 ID가 필요합니다.'
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const repository = getRepository(c)
+    const versionService = new CustomerVersionService(repository)
+    await versionService.listVersions(customer)
+    
+    const versionCustomer = await versionService.getVersion(customer.id, c.req.param('version'))
+    if (!versionCustomer) {
+      return c.json({
+        success: false,
+        error: `고객 버전을 찾을 수 없습니다: ${c.req.param('version')}`
+      }, 404)
+    }
+    
+    // 원본 평가 조회 (유형 미지정시 제안서 → 발표 순)
+    const evaluationResolver = getEvaluationResolver(c)
+    let type: 'proposal' | 'presentation' | null = null
+    let original = null
+    
+    if (evaluation_type !== 'presentation') {
+      original = await evaluationResolver.resolveProposal(evaluation_id)
+      if (original) type = 'proposal'
+    }
+    if (!original && evaluation_type !== 'proposal') {
+      original = await evaluationResolver.resolvePresentation(evaluation_id)
+      if (original) type = 'presentation'
+    }
+    
+    if (!original || !type) {
+      return c.json({
+        success: false,
+        error: `평가를 찾을 수 없습니다: ${evaluation_id}`
+      }, 404)
+    }
+    
+    console.log(`🔁 ${type} 평가 재실행: ${evaluation_id} → 고객 ${customer.id} ${versionCustomer.version}`)
+    
+    const runner = new EvaluationRunner(env)
+    const rerun = type === 'proposal'
+      ? await runner.evaluateProposal(versionCustomer, {
+          customer_id: customer.id,
+          proposal_title: original.proposal_title,
+          proposal_content: original.proposal_content || '',
+          proposal_sections: original.proposal_sections,
+          proposal_page_starts: original.proposal_page_starts,
+          proposal_file: original.proposal_file,
+          // 사용자가 수정한 가중치로 평가했다면 동일 가중치로 재평가
+          weight_overrides: original.weight_profile?.source === 'custom' ? original.weight_profile : undefined,
+          evaluation_mode: original.evaluation_method === 'llm_map_reduce' ? 'map_reduce' : undefined
+        })
+      : await runner.evaluatePresentation(versionCustomer, {
+          customer_id: customer.id,
+          presentation_title: original.presentation_title,
+          stt_transcript: original.stt_transcript,
+          speech_metrics: original.speech_metrics
+        })
+    
+    const evaluationId = `eval-${Date.now()}`
+    const evaluation = { ...rerun, id: evaluationId, source_evaluation_id: evaluation_id }
+    
+    if (type === 'proposal') {
+      await repository.saveProposalEvaluation(evaluation)
+    } else {
+      await repository.savePresentationEvaluation(evaluation)
+    }
+    
+    return c.json({
+      success: true,
+      data: {
+        evaluation_type: type,
+        evaluation,
+        original_evaluation_id: evaluation_id,
+        original_customer_version: original.customer_version || null,
+        customer_version: versionCustomer.version,
+        score_delta: (evaluation.total_score || 0) - (original.total_score || 0)
+      }
+    })
+  } catch (error) {
+    console.error('버전별 재평가 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '버전별 재평가 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 1.6 딥리서치/RFP 개별 속성 수정 API (수정 이력 기록 + 새 버전 생성)
+async function handleAttributeCorrection(c: any, source: AttributeSource) {
+  try {
+    const { content, corrected_by, correction_reason } = await c.req.json()
+    
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const editor = new CustomerAttributeEditor(getRepository(c))
+    const request = {
+      source,
+      attribute_id: Number(c.req.param('attributeId')),
+      content,
+      corrected_by,
+      correction_reason
+    }
+    try {
+      editor.validate(request)
+    } catch (validationError) {
+      return c.json({
+        success: false,
+        error: (validationError as Error).message
+      }, 400)
+    }
+    
+    const result = await editor.applyCorrection(customer, request)
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('속성 수정 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '속성 수정 중 오류가 발생했습니다.'
+    }, 500)
+  }
+}
+
+app.patch('/api/customers/:id/deep-research/:attributeId', (c) => handleAttributeCorrection(c, 'deep_research'))
+
+app.patch('/api/customers/:id/rfp-analysis/:attributeId', (c) => handleAttributeCorrection(c, 'rfp_analysis'))
+
+// 1.7 속성 수정 이력 조회 API
+app.get('/api/customers/:id/corrections', async (c) => {
+  try {
+    const customer = await getCustomerResolver(c).resolve(c.req.param('id'))
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const corrections = await new CustomerAttributeEditor(getRepository(c)).listCorrections(customer.id)
+    
+    return c.json({
+      success: true,
+      data: corrections
+    })
+  } catch (error) {
+    console.error('속성 수정 이력 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '속성 수정 이력 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
 app.post('/api/customers/deep-research', async (c) => {
   const monitor = new PerformanceMonitor('딥리서치 API')
   
@@ -411,19 +771,10 @@ app.post('/api/customers/deep-research', async (c) => {
     
     // KV 스토리지에 저장 (선택적)
     const storageKey = `deep_research:${request.company_name}:${Date.now()}`
-    if (env.KV) {
-      try {
-        await env.KV.put(storageKey, JSON.stringify(researchData), {
-          metadata: {
-            type: 'deep_research',
-            company: request.company_name,
-            timestamp: new Date().toISOString(),
-            has_openai: !!env.OPENAI_API_KEY
-          }
-        })
-      } catch (kvError) {
-        console.warn('KV 저장 실패:', kvError.message)
-      }
+    try {
+      await getRepository(c).saveDeepResearch(storageKey, researchData)
+    } catch (storageError) {
+      console.warn('딥리서치 결과 저장 실패:', (storageError as Error).message)
     }
     
     const duration = monitor.end(true)
@@ -671,9 +1022,6 @@ ${fileSize > 100 ? `\n📊 문서 규모: ${fileSize}KB로 상당한 내용량 -
     
     // RFP 분석 서비스 실행
     const rfpAnalysis = new RfpAnalysisService(env.OPENAI_API_KEY)
-    // Railway 환경에서는 KV storage 대신 전역 메모리 저장소 사용
-    const storage = env.KV ? new JsonStorageService(env.KV) : null
-    
     let rfpAnalysisData
     let usedLLM = false
     const isUnbound = isWorkersUnbound()
@@ -730,22 +1078,10 @@ ${fileSize > 100 ? `\n📊 문서 규모: ${fileSize}KB로 상당한 내용량 -
       analysis_timestamp: new Date().toISOString()
     }
     
-    // Railway 환경용 전역 메모리 저장소에 저장
+    // 저장소 리포지토리에 저장
     try {
-      globalMemoryStore.set(storageKey, analysisResult)
+      await getRepository(c).saveRfpAnalysis(storageKey, analysisResult)
       console.log(`✅ RFP 분석 결과 저장 완료: ${storageKey}`)
-      
-      // KV Storage도 시도 (Cloudflare 환경용)
-      if (env.KV) {
-        await env.KV.put(storageKey, JSON.stringify(analysisResult), {
-          metadata: {
-            type: 'rfp_analysis',
-            file_name: fileName,
-            timestamp: new Date().toISOString()
-          }
-        })
-        console.log(`☁️ KV Storage RFP 분석 저장도 성공: ${storageKey}`)
-      }
     } catch (storageError) {
       console.log('❌ RFP 분석 결과 저장 오류:', storageError.message)
       // 저장 실패해도 분석 결과는 반환
@@ -775,7 +1111,7 @@ app.post('/api/customers/generate', async (c) => {
   const monitor = new PerformanceMonitor('AI 가상고객 생성 API')
   
   try {
-    const { deep_research_data, rfp_analysis_data, company_name, department } = await c.req.json()
+    const { deep_research_data, rfp_analysis_data, company_name, department, customer_id: regenerateCustomerId } = await c.req.json()
     const { env } = c
     
     // 입력 데이터 검증
@@ -788,7 +1124,6 @@ app.post('/api/customers/generate', async (c) => {
     
     console.log('AI 가상고객 생성 시작:', { company_name, department })
     
-    const storage = new JsonStorageService(env.KV)
     let customer
     
     // Workers Unbound 최적화된 가상고객 생성
@@ -937,28 +1272,18 @@ app.post('/api/customers/generate', async (c) => {
       }
     }
     
-    // 고객 ID 생성 및 메모리 저장
-    const customerId = crypto.randomUUID()
-    const customerWithId = { ...customer, id: customerId }
+    // 고객 ID 결정 (기존 고객 재생성이면 같은 ID로 새 버전 기록)
+    const existingCustomer = regenerateCustomerId ? await getCustomerResolver(c).resolve(regenerateCustomerId) : null
+    const customerId = existingCustomer?.id || crypto.randomUUID()
+    let customerWithId: any = { ...customer, id: customerId }
     
-    // 전역 메모리 저장소에 저장 (데모 API와 동일하게)
     try {
-      const customerKey = `customer:${customerId}`
-      globalMemoryStore.set(customerKey, customerWithId)
-      console.log(`✅ 고객 저장 완료: ${customerId} (회사명: ${company_name})`)
-      
-      // KV Storage도 시도 (Cloudflare 환경용)
-      if (c.env.KV) {
-        try {
-          const storage = new JsonStorageService(c.env.KV)
-          await storage.saveVirtualCustomer(customerWithId)
-          console.log(`☁️ KV Storage 저장도 성공: ${customerId}`)
-        } catch (kvError) {
-          console.log(`⚠️ KV Storage 저장 실패 (무시): ${kvError.message}`)
-        }
-      }
-    } catch (memoryError) {
-      console.error('메모리 저장 오류 (계속 진행):', memoryError)
+      customerWithId = await new CustomerVersionService(getRepository(c)).commit(customerWithId, {
+        change_type: existingCustomer ? 'regenerate' : 'generate'
+      })
+      console.log(`✅ 고객 저장 완료: ${customerId} ${customerWithId.version} (회사명: ${company_name})`)
+    } catch (storageError) {
+      console.error('고객 저장 오류 (계속 진행):', storageError)
     }
     
     const duration = monitor.end(true)
@@ -985,22 +1310,59 @@ app.post('/api/customers/generate', async (c) => {
   }
 })
 
+// 1.8 평가 가중치 프로파일 조회 API (RFP 평가기준 파싱 결과 + 수정값 미리보기)
+app.post('/api/evaluations/weight-profile', async (c) => {
+  try {
+    const { customer_id, criteria_text, ...overrides } = await c.req.json()
+    
+    let profile
+    if (criteria_text) {
+      profile = buildWeightProfile(criteria_text)
+    } else {
+      const customer = customer_id ? await getCustomerResolver(c).resolve(customer_id) : null
+      if (customer_id && !customer) {
+        return c.json({
+          success: false,
+          error: 'AI 가상고객을 찾을 수 없습니다.'
+        }, 404)
+      }
+      profile = resolveWeightProfile(customer)
+    }
+    
+    try {
+      profile = applyWeightOverrides(profile, overrides)
+    } catch (weightError) {
+      return c.json({
+        success: false,
+        error: (weightError as Error).message
+      }, 400)
+    }
+    
+    return c.json({
+      success: true,
+      data: profile
+    })
+  } catch (error) {
+    console.error('평가 가중치 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '평가 가중치 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
 // 2. 제안서 평가 API (실제 LLM 통합)
 app.post('/api/evaluations/proposal', async (c) => {
   try {
-    const { customer_id, proposal_title, proposal_content } = await c.req.json()
+    const { customer_id, proposal_title, proposal_content, proposal_sections, proposal_pages, proposal_file, weight_profile,
+      evaluation_mode, runs, models, disagreement_threshold } = await c.req.json()
     const { env } = c
     
     console.log(`📋 실제 제안서 평가 시작: customer_id=${customer_id}`)
     
-    // Railway 환경용 고객 조회
-    let customer = null
-    for (const [key, value] of globalMemoryStore.entries()) {
-      if (key.startsWith('customer:') && (value.id === customer_id || value.customer_id === customer_id)) {
-        customer = value
-        break
-      }
-    }
+    // 저장소에서 고객 조회
+    const repository = getRepository(c)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
     
     if (!customer) {
       console.log('❌ 고객 정보 없음')
@@ -1013,238 +1375,148 @@ app.post('/api/evaluations/proposal', async (c) => {
     console.log(`👤 고객 발견: ${customer.company_name}`)
     console.log(`📊 고객 속성: 딥리서치 ${Object.keys(customer.deep_research_data || {}).length}개, RFP 분석 ${Object.keys(customer.rfp_analysis_data || {}).length}개`)
     
-    let proposalEvaluation
+    // 평가 전 수정한 가중치 / 다회 평가 옵션 검증
+    let multiRun: MultiRunOptions | null
+    try {
+      resolveWeightProfile(customer, weight_profile)
+      multiRun = resolveMultiRunOptions(runs, models, disagreement_threshold, !!env.OPENAI_API_KEY)
+    } catch (validationError) {
+      return c.json({
+        success: false,
+        error: (validationError as Error).message
+      }, 400)
+    }
     
-    if (env.OPENAI_API_KEY) {
-      // 실제 LLM 기반 제안서 평가 (고객 페르소나 맞춤형)
-      try {
-        console.log('🚀 실제 LLM 제안서 평가 시작 (30초 제한)')
-        
-        // 30개 속성 고객 페르소나 기반 평가 프롬프트 생성
-        const persona = customer.integrated_persona || {}
-        
-        // 30개 속성을 6개 카테고리로 구조화
-        const personaAnalysis = {
-          // 기본 정보 (5개 속성)
-          basic_info: persona.basic_info || {},
-          // 의사결정 특성 (5개 속성)
-          decision_traits: persona.decision_traits || {},
-          // 핵심 우선순위 (5개 속성)
-          priorities: persona.priorities || {},
-          // 평가 관점 (5개 속성)
-          evaluation_perspective: persona.evaluation_perspective || {},
-          // 우려사항 (5개 속성)
-          concerns: persona.concerns || {},
-          // 평가 가중치 (5개 속성)
-          evaluation_weights: persona.evaluation_weights || {
-            clarity: 0.15, expertise: 0.25, persuasiveness: 0.20,
-            logic: 0.20, creativity: 0.10, credibility: 0.10
-          }
-        }
-        
-        const prompt = '당신은 ' + customer.company_name + '의 ' + (persona.basic_info?.role || 'CTO') + '입니다. ' +
-          '다음은 당신의 상세한 30개 속성 프로필입니다.\n\n' +
-          
-          '=== 고객 30개 속성 페르소나 ===\n' +
-          '【기본 정보 (5개)】\n' +
-          '- 역할: ' + (persona.basic_info?.role || 'CTO') + '\n' +
-          '- 회사: ' + (persona.basic_info?.company || customer.company_name) + '\n' +
-          '- 부서: ' + (persona.basic_info?.department || '기술담당') + '\n' +
-          '- 경력: ' + (persona.basic_info?.experience_years || 12) + '년\n' +
-          '- 결정권: ' + (persona.basic_info?.decision_authority || '핵심영향자') + '\n\n' +
-          
-          '【의사결정 특성 (5개)】\n' +
-          '- 의사결정 스타일: ' + (persona.decision_traits?.style || '기술 검증 중심형') + '\n' +
-          '- 위험 허용도: ' + (persona.decision_traits?.risk_tolerance || '보수적') + '\n' +
-          '- 일정 선호: ' + (persona.decision_traits?.timeline_preference || '단계적 접근') + '\n' +
-          '- 예산 민감도: ' + (persona.decision_traits?.budget_sensitivity || '높음') + '\n' +
-          '- 혁신 개방성: ' + (persona.decision_traits?.innovation_openness || '중간') + '\n\n' +
-          
-          '【핵심 우선순위 (5개)】\n' +
-          '- 1순위: ' + (persona.priorities?.primary || '기술적 안정성과 신뢰성') + '\n' +
-          '- 2순위: ' + (persona.priorities?.secondary || '비용 효율성과 예산 준수') + '\n' +
-          '- 3순위: ' + (persona.priorities?.tertiary || '일정 준수와 리스크 관리') + '\n' +
-          '- 규제준수: ' + (persona.priorities?.compliance || '규제 및 보안 요구사항') + '\n' +
-          '- 확장성: ' + (persona.priorities?.scalability || '확장성과 미래 대응') + '\n\n' +
-          
-          '【평가 관점 (5개)】\n' +
-          '- 기술 깊이: ' + (persona.evaluation_perspective?.technical_depth || '중요') + '\n' +
-          '- 비즈니스 가치: ' + (persona.evaluation_perspective?.business_value || '중요') + '\n' +
-          '- 비용 분석: ' + (persona.evaluation_perspective?.cost_analysis || '중요') + '\n' +
-          '- 구현 계획: ' + (persona.evaluation_perspective?.implementation || '중요') + '\n' +
-          '- 공급업체 신뢰성: ' + (persona.evaluation_perspective?.vendor_reliability || '매우 중요') + '\n\n' +
-          
-          '【주요 우려사항 (5개)】\n' +
-          '- 기술 리스크: ' + (persona.concerns?.technical_risk || '기술적 호환성과 확장성') + '\n' +
-          '- 재무 리스크: ' + (persona.concerns?.financial_risk || '예산 초과 및 숨겨진 비용') + '\n' +
-          '- 일정 리스크: ' + (persona.concerns?.timeline_risk || '프로젝트 일정 지연 리스크') + '\n' +
-          '- 운영 리스크: ' + (persona.concerns?.operational_risk || '기존 시스템 영향도') + '\n' +
-          '- 업체 리스크: ' + (persona.concerns?.vendor_risk || '공급업체 신뢰성과 지원') + '\n\n' +
-          
-          '【평가 가중치 (5개)】\n' +
-          '- 명확성: ' + (personaAnalysis.evaluation_weights.clarity * 100) + '%\n' +
-          '- 전문성: ' + (personaAnalysis.evaluation_weights.expertise * 100) + '%\n' +
-          '- 설득력: ' + (personaAnalysis.evaluation_weights.persuasiveness * 100) + '%\n' +
-          '- 논리성: ' + (personaAnalysis.evaluation_weights.logic * 100) + '%\n' +
-          '- 창의성: ' + (personaAnalysis.evaluation_weights.creativity * 100) + '%\n' +
-          '- 신뢰성: ' + (personaAnalysis.evaluation_weights.credibility * 100) + '%\n\n' +
-          
-          '=== 제안서 평가 ===\n' +
-          '제목: ' + proposal_title + '\n\n' +
-          '내용:\n' + proposal_content.substring(0, 2500) + '\n\n' +
-          
-          '위 30개 속성을 모두 고려하여 다음 6개 지표로 평가해주세요:\n' +
-          '1. 명확성(' + (personaAnalysis.evaluation_weights.clarity * 100) + '%): 나의 ' + (persona.evaluation_perspective?.technical_depth || '기술 관점') + '에서 이해하기 쉬운가?\n' +
-          '2. 전문성(' + (personaAnalysis.evaluation_weights.expertise * 100) + '%): 나의 ' + (persona.priorities?.primary || '핵심 우선순위') + '를 충족하는 전문성인가?\n' +
-          '3. 설득력(' + (personaAnalysis.evaluation_weights.persuasiveness * 100) + '%): 나의 ' + (persona.decision_traits?.style || '의사결정 스타일') + '에 부합하는 설득력인가?\n' +
-          '4. 논리성(' + (personaAnalysis.evaluation_weights.logic * 100) + '%): 나의 ' + (persona.concerns?.technical_risk || '기술 우려사항') + ' 해결에 논리적인가?\n' +
-          '5. 창의성(' + (personaAnalysis.evaluation_weights.creativity * 100) + '%): 나의 ' + (persona.decision_traits?.innovation_openness || '혁신 성향') + ' 수준에 적합한가?\n' +
-          '6. 신뢰성(' + (personaAnalysis.evaluation_weights.credibility * 100) + '%): 나의 ' + (persona.decision_traits?.risk_tolerance || '위험 허용도') + ' 성향에 안전한가?\n\n' +
-          
-          'JSON 응답 (1-5점, 가중치 적용 총점):\n' +
-          JSON.stringify({
-            scores: {
-              clarity: { score: 85, comment: "30개 속성 중 평가 관점과 우선순위를 반영한 상세 코멘트", persona_factor: "적용된 페르소나 속성" },
-              expertise: { score: 88, comment: "전문성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성" },
-              persuasiveness: { score: 82, comment: "설득력 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성" },
-              logic: { score: 87, comment: "논리성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성" },
-              creativity: { score: 78, comment: "창의성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성" },
-              reliability: { score: 90, comment: "신뢰성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성" }
-            },
-            total_score: 85,
-            overall_feedback: "30개 속성 페르소나 관점에서의 종합 평가 (2-3문장)",
-            key_strengths: ["구체적 강점1", "구체적 강점2", "구체적 강점3"],
-            improvement_areas: ["구체적 개선점1", "구체적 개선점2", "구체적 개선점3"],
-            persona_feedback: "고객 페르소나 특성 반영 종합 의견",
-            priority_alignment: "핵심 우선순위 5개와의 부합도 분석",
-            concern_mitigation: "주요 우려사항 5개 해소 정도",
-            decision_recommendation: "의사결정 특성에 따른 추천도"
-          }, null, 2)
-
-        const openai = new ChunkedOpenAIService(env.OPENAI_API_KEY)
-        const response = await Promise.race([
-          openai['openai'].chat.completions.create({
-            model: "gpt-4o",
-            messages: [{ role: "user", content: prompt }],
-            temperature: 0.3,
-            max_tokens: 1500,
-            response_format: { type: "json_object" }
-          }),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('30초 타임아웃')), 30000))
-        ])
-        
-        const llmResult = JSON.parse(response.choices[0].message.content)
-        
-        proposalEvaluation = {
-          customer_id,
-          proposal_title,
-          proposal_content,
-          scores: llmResult.scores,
-          total_score: llmResult.total_score,
-          overall_feedback: llmResult.overall_feedback,
-          key_strengths: llmResult.key_strengths,
-          improvement_areas: llmResult.improvement_areas,
-          decision_factors: llmResult.decision_factors,
-          evaluation_method: 'llm',
-          customer_persona_applied: true,
-          created_at: new Date().toISOString()
-        }
-        
-        console.log('✅ LLM 제안서 평가 성공:', customer.company_name)
-      } catch (error) {
-        console.log('⚠️ LLM 제안서 평가 실패, 폴백 사용:', error.message)
-        // 폴백으로 기본 평가 사용
-        proposalEvaluation = null
-      }
+    const runner = new EvaluationRunner(env)
+    const proposalInput = {
+      customer_id,
+      proposal_title,
+      proposal_content,
+      proposal_sections,
+      proposal_pages,
+      proposal_file,
+      weight_overrides: weight_profile,
+      evaluation_mode
     }
+    // runs가 2 이상이면 N회 평가 후 평균 점수와 지표별 편차·신뢰구간 함께 반환
+    const proposalEvaluation = multiRun
+      ? await runner.evaluateProposalRuns(customer, proposalInput, multiRun)
+      : await runner.evaluateProposal(customer, proposalInput)
     
-    if (!proposalEvaluation) {
-      // 고객 페르소나 기반 기본 평가 (OpenAI API 없을 경우)
-      const customerPersona = customer.integrated_persona || {}
-      const companyName = customer.company_name || '고객사'
-      const customerType = customer.customer_type || 'CTO'
-      
-      // 고객 유형별 맞춤 평가 (100점 만점으로 통일)
-      let baseScores = {
-        clarity: { score: 80, comment: '제안서 구조가 명확하고 이해하기 쉽게 작성되었습니다.' },
-        expertise: { score: 80, comment: `${companyName}의 ${customerType} 관점에서 기술적 전문성이 적절히 드러납니다.` },
-        persuasiveness: { score: 75, comment: `${customerType}의 주요 관심사에 더 집중된 가치 제안이 필요합니다.` },
-        logic: { score: 80, comment: '논리적 흐름과 근거 제시가 체계적입니다.' },
-        creativity: { score: 75, comment: '혁신적 접근법을 더 강화하면 경쟁력이 높아질 것입니다.' },
-        reliability: { score: 80, comment: '제안 내용의 실현 가능성과 업체 신뢰도가 양호합니다.' }
-      }
-      
-      // 고객 페르소나 특성 반영 조정 (100점 체계)
-      if (customerPersona.strategic_focus?.includes('혁신')) {
-        baseScores.creativity.score = Math.min(100, baseScores.creativity.score + 10)
-        baseScores.creativity.comment = '혁신 지향적 고객 특성에 부합하는 창의적 접근이 돋보입니다.'
-      }
+    // 결과 저장
+    const evaluationId = `eval-${Date.now()}`
+    await repository.saveProposalEvaluation({ ...proposalEvaluation, id: evaluationId })
+    
+    return c.json({
+      success: true,
+      data: { ...proposalEvaluation, id: evaluationId }
+    })
+  } catch (error) {
+    console.error('제안서 평가 오류:', error)
+    return c.json({
+      success: false,
+      error: error.message || '제안서 평가 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 2.1 제안서 개정본 비교 API (같은 가상고객 기준 버전별 평가 → 지표 증감, 해소/신규 지적사항, 원문 좌우 비교)
+app.post('/api/evaluations/proposal/compare', async (c) => {
+  try {
+    const { customer_id, versions, weight_profile, evaluation_mode } = await c.req.json()
+    const { env } = c
+    
+    if (!Array.isArray(versions) || versions.length < 2) {
+      return c.json({
+        success: false,
+        error: '비교할 제안서 버전(versions)이 2개 이상 필요합니다.'
+      }, 400)
+    }
+    
+    const repository = getRepository(c)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    try {
+      resolveWeightProfile(customer, weight_profile)
+    } catch (weightError) {
+      return c.json({
+        success: false,
+        error: (weightError as Error).message
+      }, 400)
+    }
+    
+    // 평가 ID가 있으면 기존 결과 사용, 본문이 있으면 같은 고객·가중치로 새로 평가
+    const runner = new EvaluationRunner(env)
+    const evaluationResolver = getEvaluationResolver(c)
+    const revisions = []
+    for (const [index, version] of versions.entries()) {
+      const label = version.label || `v${index + 1}`
       
-      if (customerPersona.risk_appetite?.includes('보수')) {
-        baseScores.reliability.score = Math.min(100, baseScores.reliability.score + 10)
-        baseScores.reliability.comment = '안정성과 검증된 방법론을 중시하는 고객에게 적합한 신뢰도를 보여줍니다.'
+      if (version.evaluation_id) {
+        const evaluation = await evaluationResolver.resolveProposal(version.evaluation_id)
+        if (!evaluation) {
+          return c.json({
+            success: false,
+            error: `제안서 평가 결과를 찾을 수 없습니다: ${version.evaluation_id}`
+          }, 404)
+        }
+        if (evaluation.customer_id !== customer_id) {
+          return c.json({
+            success: false,
+            error: `다른 AI 가상고객으로 평가된 결과는 비교할 수 없습니다: ${version.evaluation_id}`
+          }, 400)
+        }
+        revisions.push({ label, evaluation })
+        continue
       }
       
-      if (customerPersona.budget_sensitivity?.includes('효율') || customerPersona.budget_sensitivity?.includes('민감')) {
-        baseScores.persuasiveness.score = Math.max(60, baseScores.persuasiveness.score - 10)
-        baseScores.persuasiveness.comment = '비용 효율성에 대한 구체적인 근거와 ROI 분석이 더 필요합니다.'
+      if (!version.proposal_content && !version.proposal_sections) {
+        return c.json({
+          success: false,
+          error: `${label}: 평가 ID(evaluation_id) 또는 제안서 내용(proposal_content)이 필요합니다.`
+        }, 400)
       }
       
-      // 가중평균 계산 (100점 만점)
-      const totalScore = Math.round(
-        (baseScores.clarity.score * 0.15 + 
-         baseScores.expertise.score * 0.25 + 
-         baseScores.persuasiveness.score * 0.20 + 
-         baseScores.logic.score * 0.20 + 
-         baseScores.creativity.score * 0.10 + 
-         baseScores.reliability.score * 0.10)
-      )
-      
-      proposalEvaluation = {
+      const evaluation = await runner.evaluateProposal(customer, {
         customer_id,
-        proposal_title,
-        proposal_content,
-        scores: baseScores,
-        total_score: totalScore,
-        overall_feedback: `${companyName} ${customerType}의 관점에서 평가한 결과, 전반적으로 ${totalScore >= 80 ? '우수한' : totalScore >= 70 ? '양호한' : '개선이 필요한'} 제안서입니다. 고객의 핵심 요구사항과 의사결정 스타일을 더욱 반영한다면 경쟁력을 높일 수 있을 것입니다.`,
-        key_strengths: ['체계적인 구조와 논리', '기술적 전문성', '실현 가능한 계획'],
-        improvement_areas: ['고객 맞춤형 가치 제안 강화', '차별화 요소 보완', 'ROI 및 성과 지표 구체화'],
-        decision_factors: {
-          matches_priorities: `${customerType}의 주요 관심사와 ${Math.round(Math.random() * 20 + 70)}% 부합`,
-          risk_assessment: '중간 수준의 리스크로 관리 가능',
-          implementation_confidence: '높은 실현 가능성'
-        },
-        evaluation_method: 'persona_based',
-        customer_persona_applied: true,
-        created_at: new Date().toISOString()
-      }
-      console.log('고객 페르소나 기반 제안서 평가 완료:', companyName)
+        proposal_title: version.proposal_title || label,
+        proposal_content: version.proposal_content || '',
+        proposal_sections: version.proposal_sections,
+        weight_overrides: weight_profile,
+        evaluation_mode
+      })
+      const evaluationId = `eval-${Date.now()}-${index + 1}`
+      await repository.saveProposalEvaluation({ ...evaluation, id: evaluationId, revision_label: label })
+      revisions.push({ label, evaluation: { ...evaluation, id: evaluationId } })
     }
     
-    // 결과 저장 (Railway 환경에서는 메모리 저장)
-    const evaluationId = `eval-${Date.now()}`
-    const evaluationKey = `evaluation:${evaluationId}`
-    globalMemoryStore.set(evaluationKey, { ...proposalEvaluation, id: evaluationId })
-    
-    // KV Storage 백업 시도
-    if (env.KV) {
-      try {
-        const storage = new JsonStorageService(env.KV)
-        await storage.saveProposalEvaluation(proposalEvaluation)
-      } catch (kvError) {
-        console.log('KV 저장 실패, 메모리만 사용:', kvError.message)
-      }
+    // 고객 버전이나 가중치가 다른 평가끼리는 점수 변화를 비교하지 않음
+    try {
+      assertSameEvaluationBasis(revisions)
+    } catch (basisError) {
+      return c.json({
+        success: false,
+        error: (basisError as Error).message
+      }, 400)
     }
     
+    const comparison = new ProposalRevisionService().compare(revisions)
+    
     return c.json({
       success: true,
-      data: { ...proposalEvaluation, id: evaluationId }
+      data: comparison
     })
   } catch (error) {
-    console.error('제안서 평가 오류:', error)
+    console.error('제안서 개정본 비교 오류:', error)
     return c.json({
       success: false,
-      error: error.message || '제안서 평가 중 오류가 발생했습니다.'
+      error: (error as Error).message || '제안서 개정본 비교 중 오류가 발생했습니다.'
     }, 500)
   }
 })
@@ -1252,19 +1524,16 @@ app.post('/api/evaluations/proposal', async (c) => {
 // 3. 발표 평가 API (실제 LLM 통합)
 app.post('/api/evaluations/presentation', async (c) => {
   try {
-    const { customer_id, presentation_title, stt_transcript, speech_metrics } = await c.req.json()
+    const { customer_id, presentation_title, slide_deck, transcript_id,
+      runs, models, disagreement_threshold, ...input } = await c.req.json()
+    let { stt_transcript, speech_metrics } = input
     const { env } = c
     
     console.log(`🎤 실제 발표 평가 시작: customer_id=${customer_id}`)
     
-    // Railway 환경용 고객 조회
-    let customer = null
-    for (const [key, value] of globalMemoryStore.entries()) {
-      if (key.startsWith('customer:') && (value.id === customer_id || value.customer_id === customer_id)) {
-        customer = value
-        break
-      }
-    }
+    // 저장소에서 고객 조회
+    const repository = getRepository(c)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
     
     if (!customer) {
       console.log('❌ 고객 정보 없음')
@@ -1276,63 +1545,78 @@ app.post('/api/evaluations/presentation', async (c) => {
     
     console.log(`👤 고객 발견: ${customer.company_name}`)
     
-    let presentationEvaluation
+    // 서버 음성 인식 결과가 있으면 브라우저 인식 텍스트 대신 사용
+    const transcript = transcript_id ? await repository.getSTTTranscript(transcript_id) : null
+    if (transcript_id && !transcript) {
+      return c.json({
+        success: false,
+        error: '음성 인식 스크립트를 찾을 수 없습니다.'
+      }, 404)
+    }
+    if (transcript?.status && transcript.status !== 'completed') {
+      return c.json({
+        success: false,
+        error: transcript.status === 'failed'
+          ? `음성 인식에 실패한 녹음입니다: ${transcript.error}`
+          : '음성 인식이 아직 진행 중입니다. 완료 후 다시 평가해 주세요.'
+      }, 409)
+    }
+    // 녹음 분석 지표는 평가 대상 고객의 RFP 키워드로 커버리지를 다시 계산해 브라우저 추정치 대신 사용
+    const audioAnalysis = transcript?.audio_analysis
+      ? new SpeechAnalysisService().withKeywords(transcript.audio_analysis, transcript.transcript_text, extractRfpKeywords(customer.rfp_analysis_data))
+      : undefined
+    if (transcript) {
+      stt_transcript = transcript.transcript_text
+      speech_metrics = audioAnalysis
+        ? {
+          ...speech_metrics,
+          duration_seconds: audioAnalysis.duration_seconds,
+          word_count: audioAnalysis.word_count,
+          words_per_minute: audioAnalysis.speech_rate,
+          pause_count: audioAnalysis.pause_count,
+          filler_word_count: audioAnalysis.filler_word_count
+        }
+        : { duration_seconds: transcript.duration_seconds, ...speech_metrics }
+    }
+    
+    let multiRun: MultiRunOptions | null
+    try {
+      multiRun = resolveMultiRunOptions(runs, models, disagreement_threshold, !!env.OPENAI_API_KEY)
+    } catch (validationError) {
+      return c.json({
+        success: false,
+        error: (validationError as Error).message
+      }, 400)
+    }
     
-    if (env.OPENAI_API_KEY && stt_transcript) {
-      // LLM 기반 실제 평가
-      const llmEvaluation = new LLMEvaluationService(
-        env.OPENAI_API_KEY,
-        env.KV
-      )
-      
-      presentationEvaluation = await llmEvaluation.evaluatePresentation(
-        customer_id,
-        stt_transcript,
-        presentation_title,
-        speech_metrics
-      )
-      console.log('LLM 발표 평가 완료')
-    } else {
-      // 기본 샘플 평가 (데모와 동일)
-      const sampleTranscript = stt_transcript || "안녕하십니까, PwC 컸설팅의 발표를 시작하겠습니다. 이번 제안의 핵심은 ERP, MES, ESG 시스템을 하나의 플랫폼으로 통합하는 것입니다."
-      
-      presentationEvaluation = {
-        customer_id,
-        presentation_title,
-        stt_transcript: sampleTranscript,
-        speech_metrics: speech_metrics || {
-          duration_seconds: 180,
-          word_count: 89,
-          words_per_minute: 29.7,
-          pause_count: 6,
-          filler_word_count: 2,
-          average_volume_level: 0.75
-        },
-        scores: {
-          clarity: { score: 80, comment: '발표 내용이 명확하고 체계적으로 구성되어 있습니다.' },
-          expertise: { score: 100, comment: '화학산업과 ESG 분야의 전문성이 뛰어나게 드러납니다.' },
-          persuasiveness: { score: 80, comment: '고객의 니즈를 정확히 파악하고 해결방안을 논리적으로 제시했습니다.' },
-          logic: { score: 80, comment: '논리적 흐름이 체계적이고 근거가 타당합니다.' },
-          creativity: { score: 60, comment: '안정적이고 검증된 접근법이지만, 혁신적이고 차별화된 아이디어가 더 필요합니다.' },
-          reliability: { score: 100, comment: 'PwC의 브랜드 신뢰도와 화학산업 프로젝트 경험이 매우 신뢰할 만합니다.' }
-        },
-        total_score: 83,
-        overall_feedback: '화학산업 전문성과 ESG 대응 역량이 우수하며, 체계적이고 실현가능한 실행 계획을 제시했습니다. 발표 스킬 면에서는 명확한 전달력을 보였나, 더욱 창의적이고 혁신적인 차별화 요소를 강화하면 경쟁력이 높아질 것입니다. 전반적으로 신뢰할 수 있는 우수한 발표였습니다.',
-        created_at: new Date().toISOString()
-      }
-      console.log('기본 발표 평가 완료')
+    const runner = new EvaluationRunner(env)
+    const presentationInput = {
+      customer_id,
+      presentation_title,
+      stt_transcript,
+      speech_metrics,
+      slide_deck,
+      audio_analysis: audioAnalysis
     }
+    const presentationEvaluation = multiRun
+      ? await runner.evaluatePresentationRuns(customer, presentationInput, multiRun)
+      : await runner.evaluatePresentation(customer, presentationInput)
     
-    // 결과 저장 (Railway 환경에서는 메모리 저장)
+    // 결과 저장
     const evaluationId = `eval-${Date.now()}`
-    const evaluationKey = `evaluation:${evaluationId}`
-    globalMemoryStore.set(evaluationKey, { ...presentationEvaluation, id: evaluationId })
+    const savedEvaluation = transcript
+      ? { ...presentationEvaluation, id: evaluationId, stt_transcript_id: transcript.id }
+      : { ...presentationEvaluation, id: evaluationId }
+    await repository.savePresentationEvaluation(savedEvaluation)
+    if (transcript && !transcript.presentation_id) {
+      await repository.saveSTTTranscript({ ...transcript, presentation_id: evaluationId })
+    }
     
     console.log(`✅ 발표 평가 완료: ${evaluationId}`)
     
     return c.json({
       success: true,
-      data: { ...presentationEvaluation, id: evaluationId }
+      data: savedEvaluation
     })
   } catch (error) {
     console.error('발표 평가 오류:', error)
@@ -1424,9 +1708,8 @@ app.post('/api/demo/presentation-evaluation', async (c) => {
 app.get('/api/evaluations/proposal/:id', async (c) => {
   try {
     const evaluationId = c.req.param('id')
-    const storage = new JsonStorageService(c.env.KV)
     
-    const evaluation = await storage.getProposalEvaluation(evaluationId)
+    const evaluation = await getEvaluationResolver(c).resolveProposal(evaluationId)
     if (!evaluation) {
       return c.json({
         success: false,
@@ -1450,9 +1733,8 @@ app.get('/api/evaluations/proposal/:id', async (c) => {
 app.get('/api/evaluations/presentation/:id', async (c) => {
   try {
     const evaluationId = c.req.param('id')
-    const storage = new JsonStorageService(c.env.KV)
     
-    const evaluation = await storage.getPresentationEvaluation(evaluationId)
+    const evaluation = await getEvaluationResolver(c).resolvePresentation(evaluationId)
     if (!evaluation) {
       return c.json({
         success: false,
@@ -1476,9 +1758,8 @@ app.get('/api/evaluations/presentation/:id', async (c) => {
 app.get('/api/evaluations/integrated/:id', async (c) => {
   try {
     const evaluationId = c.req.param('id')
-    const storage = new JsonStorageService(c.env.KV)
     
-    const evaluation = await storage.getIntegratedEvaluation(evaluationId)
+    const evaluation = await getRepository(c).getIntegratedEvaluation(evaluationId)
     if (!evaluation) {
       return c.json({
         success: false,
@@ -1505,45 +1786,88 @@ app.post('/api/evaluations/integrate', async (c) => {
   try {
     const requestData = await c.req.json()
     console.log('📨 요청 데이터:', requestData)
-    const { customer_id, proposal_evaluation_id, presentation_evaluation_id, project_title } = requestData
+    const { customer_id, proposal_evaluation_id, presentation_evaluation_id, qa_session_id, project_title, weight_profile } = requestData
     const { env } = c
     
-    const storage = new JsonStorageService(env.KV)
+    const repository = getRepository(c)
+    const evaluationResolver = new EvaluationResolver(repository, env)
+    
+    if (!proposal_evaluation_id && !presentation_evaluation_id) {
+      return c.json({
+        success: false,
+        error: '제안서 평가 ID 또는 발표 평가 ID 중 하나 이상이 필요합니다.'
+      }, 400)
+    }
     
-    // 제안서/발표 평가 데이터 로드 (Railway 환경에서는 메모리 스토어 우선 사용)
+    // 제안서/발표 평가 데이터 로드 (리포지토리 → KV → D1 순서)
     let proposalEval = null
     let presentationEval = null
     
     if (proposal_evaluation_id) {
-      // 메모리 스토어에서 먼저 확인
-      const proposalKey = `evaluation:${proposal_evaluation_id}`
-      console.log(`🔍 제안서 평가 조회 시도: ${proposalKey}`)
-      console.log(`📦 메모리 스토어 키들:`, Array.from(globalMemoryStore.keys()).filter(k => k.includes('eval')))
-      
-      if (globalMemoryStore.has(proposalKey)) {
-        proposalEval = globalMemoryStore.get(proposalKey)
-        console.log('✅ 메모리에서 제안서 평가 발견')
-      } else {
-        console.log('❌ 메모리에서 제안서 평가 미발견')
-        console.log('🔧 KV 스토리지 메소드 존재 여부:', typeof storage.getProposalEvaluation)
-        // KV 스토리지는 일단 스킵하고 null로 처리
-        proposalEval = null
+      console.log(`🔍 제안서 평가 조회 시도: ${proposal_evaluation_id} (${repository.driver})`)
+      proposalEval = await evaluationResolver.resolveProposal(proposal_evaluation_id)
+      if (!proposalEval) {
+        return c.json({
+          success: false,
+          error: `제안서 평가를 찾을 수 없습니다: ${proposal_evaluation_id}`,
+          missing_evaluation_id: proposal_evaluation_id
+        }, 404)
       }
     }
     
     if (presentation_evaluation_id) {
-      // 메모리 스토어에서 먼저 확인
-      const presentationKey = `evaluation:${presentation_evaluation_id}`
-      if (globalMemoryStore.has(presentationKey)) {
-        presentationEval = globalMemoryStore.get(presentationKey)
-      } else {
-        console.log('❌ 메모리에서 발표 평가 미발견')
-        // KV 스토리지는 일단 스킵하고 null로 처리
-        presentationEval = null
+      console.log(`🔍 발표 평가 조회 시도: ${presentation_evaluation_id} (${repository.driver})`)
+      presentationEval = await evaluationResolver.resolvePresentation(presentation_evaluation_id)
+      if (!presentationEval) {
+        return c.json({
+          success: false,
+          error: `발표 평가를 찾을 수 없습니다: ${presentation_evaluation_id}`,
+          missing_evaluation_id: presentation_evaluation_id
+        }, 404)
+      }
+    }
+    
+    // 실시간 질의응답 세션 (종료되어 점수가 산출된 세션만 반영)
+    let qaSession = null
+    if (qa_session_id) {
+      qaSession = await repository.getQASession(qa_session_id)
+      if (!qaSession) {
+        return c.json({
+          success: false,
+          error: `질의응답 세션을 찾을 수 없습니다: ${qa_session_id}`,
+          missing_evaluation_id: qa_session_id
+        }, 404)
+      }
+      if (!qaSession.result || qaSession.result.answered_topics === 0) {
+        return c.json({
+          success: false,
+          error: '답변이 있는 종료된 질의응답 세션만 통합할 수 있습니다.'
+        }, 400)
       }
     }
     
-    let integratedResult
+    // 가중치 기준과 입찰 적격성 점검에 사용할 고객 (RFP 분석 15속성)
+    const customer = await getCustomerResolver(c).resolve(customer_id || proposalEval?.customer_id)
+    
+    // 제안서 평가에 적용된 RFP 평가기준 비중 (요청값으로 수정 가능) - LLM/기본 경로 공통
+    let weightProfile
+    try {
+      weightProfile = applyWeightOverrides(
+        proposalEval?.weight_profile || resolveWeightProfile(customer),
+        weight_profile
+      )
+    } catch (weightError) {
+      return c.json({
+        success: false,
+        error: (weightError as Error).message
+      }, 400)
+    }
+    
+    let integratedResult: IntegratedResultSummary & {
+      compliance_checklist?: ComplianceChecklist
+      disqualification_risk?: DisqualificationRisk
+      calibration?: CalibratedScore
+    }
     
     console.log('🔧 OPENAI_API_KEY 상태:', env.OPENAI_API_KEY ? 'EXISTS' : 'NOT_SET')
     
@@ -1552,22 +1876,25 @@ app.post('/api/evaluations/integrate', async (c) => {
       console.log('🚀 LLM 경로로 진행')
       const llmEvaluation = new LLMEvaluationService(
         env.OPENAI_API_KEY,
-        env.KV
+        env.KV,
+        getCustomerResolver(c)
       )
       
-      integratedResult = await llmEvaluation.generateIntegratedResult(
+      integratedResult = await llmEvaluation.generateIntegratedResult({
+        customer,
         customer_id,
-        proposalEval,
-        presentationEval,
-        project_title
-      )
+        proposal_evaluation: proposalEval,
+        presentation_evaluation: presentationEval,
+        project_title,
+        weight_profile: weightProfile
+      })
       console.log('LLM 통합 결과 생성 완료')
     } else {
       console.log('🔧 기본 통합 경로로 진행')
       // 기본 통합 결과
       const proposalScore = proposalEval?.total_score || 0
       const presentationScore = presentationEval?.total_score || 0
-      const finalScore = Math.round(proposalScore * 0.7 + presentationScore * 0.3)
+      const finalScore = Math.round(proposalScore * weightProfile.proposal_weight + presentationScore * weightProfile.presentation_weight)
       
       integratedResult = {
         customer_id,
@@ -1576,9 +1903,10 @@ app.post('/api/evaluations/integrate', async (c) => {
         presentation_evaluation: presentationEval,
         final_score: finalScore,
         weighted_scores: {
-          proposal_weighted: Math.round(proposalScore * 0.7),
-          presentation_weighted: Math.round(presentationScore * 0.3)
+          proposal_weighted: Math.round(proposalScore * weightProfile.proposal_weight),
+          presentation_weighted: Math.round(presentationScore * weightProfile.presentation_weight)
         },
+        weight_profile: weightProfile,
         strengths: extractActualStrengths(proposalEval, presentationEval),
         improvements: extractActualImprovements(proposalEval, presentationEval),
         overall_feedback: generateActualOverallFeedback(proposalEval, presentationEval, finalScore),
@@ -1587,11 +1915,72 @@ app.post('/api/evaluations/integrate', async (c) => {
       console.log('기본 통합 결과 생성 완료')
     }
     
-    // 결과 저장 (Railway 환경에서는 메모리 저장)
+    // 질의응답 점수를 세 번째 구성요소로 반영 (제안서·발표 비중은 질의응답 비중만큼 비례 축소)
+    if (qaSession) {
+      let split
+      try {
+        split = splitWithQA(weightProfile, weight_profile?.qa_weight)
+      } catch (weightError) {
+        return c.json({
+          success: false,
+          error: (weightError as Error).message
+        }, 400)
+      }
+      
+      const scoreBeforeQA = integratedResult.final_score
+      const qaScore = qaSession.result.qa_score
+      const blendedScore = Math.round(scoreBeforeQA * (1 - split.qa_weight) + qaScore * split.qa_weight)
+      
+      integratedResult = {
+        ...integratedResult,
+        final_score: blendedScore,
+        weighted_scores: {
+          proposal_weighted: Math.round((proposalEval?.total_score || 0) * split.proposal_weight),
+          presentation_weighted: Math.round((presentationEval?.total_score || 0) * split.presentation_weight),
+          qa_weighted: Math.round(qaScore * split.qa_weight)
+        },
+        qa_session_id,
+        qa_score: qaScore,
+        qa_evaluation: {
+          session_id: qa_session_id,
+          qa_score: qaScore,
+          score_before_qa: scoreBeforeQA,
+          weights: split,
+          escalation_count: qaSession.result.escalation_count,
+          unresolved_topics: qaSession.result.unresolved_topics,
+          feedback: qaSession.result.feedback
+        }
+      }
+      console.log(`💬 질의응답 반영: ${scoreBeforeQA}점 → ${blendedScore}점 (질의응답 ${qaScore}점 × ${split.qa_weight})`)
+    }
+    
+    // 입찰사 요건/준수사항 점검 → 실격 위험 요약
+    if (proposalEval?.proposal_content && customer?.rfp_analysis_data) {
+      const checklist = new ComplianceChecklistService().check(customer.rfp_analysis_data, {
+        proposal_content: proposalEval.proposal_content,
+        page_count: proposalEval.proposal_file?.page_count,
+        file_type: proposalEval.proposal_file?.file_type
+      })
+      integratedResult = {
+        ...integratedResult,
+        compliance_checklist: checklist,
+        disqualification_risk: checklist.risk
+      }
+      console.log(`🛡️ 실격 위험 점검: ${checklist.risk.level} (미충족 ${checklist.failed}건)`)
+    }
+    
+    // 과거 입찰 결과 기반 보정 수주 확률 (결과가 부족하면 확률 없이 표본 수만 표시)
+    if (Number.isFinite(integratedResult.final_score)) {
+      integratedResult = {
+        ...integratedResult,
+        calibration: await new ScoreCalibrationService(repository).calibrate(integratedResult.final_score)
+      }
+    }
+    
+    // 결과 저장
     const resultId = crypto.randomUUID()
     integratedResult.id = resultId
-    const resultKey = `integrated:${resultId}`
-    globalMemoryStore.set(resultKey, integratedResult)
+    await repository.saveIntegratedEvaluation(integratedResult)
     console.log(`✅ 통합 결과 저장 완료: ${resultId}`)
     
     return c.json({
@@ -1615,26 +2004,7 @@ app.post('/api/generate-comprehensive-feedback', async (c) => {
     console.log('[종합피드백] 고객 페르소나 기반 피드백 생성 시작:', { customer_id })
     
     // 고객 정보 조회 (데이터베이스 또는 글로벌 메모리)
-    let customer = null
-    
-    try {
-      if (c.env?.DB) {
-        const db = new DatabaseService(c.env.DB)
-        customer = await db.getCustomer(customer_id)
-      }
-    } catch (dbError) {
-      console.warn('[종합피드백] DB 조회 실패, 메모리 저장소 사용')
-    }
-    
-    // Railway 환경용 고객 조회
-    if (!customer) {
-      for (const [key, value] of globalMemoryStore.entries()) {
-        if (key.startsWith('customer:') && (value.id === customer_id || value.customer_id === customer_id)) {
-          customer = value
-          break
-        }
-      }
-    }
+    const customer = await getCustomerResolver(c).resolve(customer_id)
     
     if (!customer) {
       console.warn('[종합피드백] 고객 정보 없음, 기본 피드백 생성')
@@ -1796,87 +2166,1271 @@ app.post('/api/generate-comprehensive-feedback', async (c) => {
       }
     }
     
-    console.log('[종합피드백] LLM 기반 피드백 생성 완료:', {
-      customer: personaInfo.company,
-      strengths: feedbackData.strengths?.length || 0,
-      improvements: feedbackData.improvements?.length || 0,
-      questions: feedbackData.expected_questions?.length || 0
+    console.log('[종합피드백] LLM 기반 피드백 생성 완료:', {
+      customer: personaInfo.company,
+      strengths: feedbackData.strengths?.length || 0,
+      improvements: feedbackData.improvements?.length || 0,
+      questions: feedbackData.expected_questions?.length || 0
+    })
+    
+    return c.json({
+      success: true,
+      data: feedbackData
+    })
+    
+  } catch (error) {
+    console.error('[종합피드백] 생성 오류:', error)
+    return c.json({
+      success: false,
+      error: error.message || '종합 피드백 생성 중 오류가 발생했습니다.',
+      data: {
+        strengths: ['전반적으로 기본적인 요구사항을 충족하는 수준입니다.'],
+        improvements: ['세부적인 완성도 향상을 권장합니다.'],
+        summary: '종합적으로 기본 요건을 만족하는 제안입니다.',
+        expected_questions: [
+          '제안서의 핵심 차별화 요소는 무엇인가요?',
+          '구현 일정과 예산은 어떻게 계획되어 있나요?',
+          '유사 프로젝트 경험이 있으신가요?',
+          '사후 지원 체계는 어떻게 구성되나요?'
+        ]
+      }
+    })
+  }
+})
+
+// 5. 세션 관리 API
+app.get('/api/sessions', async (c) => {
+  try {
+    const sessions = await getRepository(c).listSessions()
+    
+    return c.json({
+      success: true,
+      data: sessions
+    })
+  } catch (error) {
+    console.error('세션 목록 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: error.message || '세션 목록 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.post('/api/sessions', async (c) => {
+  try {
+    const { session_name } = await c.req.json()
+    
+    const session: EvaluationSession = {
+      id: crypto.randomUUID(),
+      session_name,
+      current_stage: 'customer_generation',
+      progress: {
+        customer_completed: false,
+        proposal_completed: false,
+        presentation_completed: false,
+        results_completed: false
+      },
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+    
+    const sessionId = await getRepository(c).saveSession(session)
+    
+    return c.json({
+      success: true,
+      data: { ...session, id: sessionId }
+    })
+  } catch (error) {
+    console.error('세션 생성 오류:', error)
+    return c.json({
+      success: false,
+      error: error.message || '세션 생성 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 6. 평가 패널 API (CEO/CFO/CTO/PM 역할별 가상고객 일괄 평가)
+app.get('/api/panels', async (c) => {
+  try {
+    const panels = await getRepository(c).listPanels()
+    
+    return c.json({
+      success: true,
+      data: panels
+    })
+  } catch (error) {
+    console.error('평가 패널 목록 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '평가 패널 목록 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 6.1 평가 패널 생성 API (같은 딥리서치/RFP 분석으로 역할별 가상고객 생성)
+app.post('/api/panels', async (c) => {
+  try {
+    const body = await c.req.json()
+    
+    if (!body.deep_research_data || !body.rfp_analysis_data) {
+      return c.json({
+        success: false,
+        error: '딥리서치 데이터와 RFP 분석 데이터가 모두 필요합니다.'
+      }, 400)
+    }
+    
+    try {
+      normalizeRoles(body.roles)
+    } catch (roleError) {
+      return c.json({
+        success: false,
+        error: (roleError as Error).message
+      }, 400)
+    }
+    
+    const panel = await new EvaluationPanelService(getRepository(c), c.env).createPanel(body)
+    
+    return c.json({
+      success: true,
+      data: panel
+    })
+  } catch (error) {
+    console.error('평가 패널 생성 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '평가 패널 생성 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 6.2 평가 패널 상세 조회 API (패널 평가 이력 포함)
+app.get('/api/panels/:id', async (c) => {
+  try {
+    const repository = getRepository(c)
+    const panel = await repository.getPanel(c.req.param('id'))
+    
+    if (!panel) {
+      return c.json({
+        success: false,
+        error: '평가 패널을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: {
+        ...panel,
+        evaluations: await repository.listPanelEvaluations(panel.id)
+      }
+    })
+  } catch (error) {
+    console.error('평가 패널 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '평가 패널 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 6.3 패널 제안서 평가 API (위원별 점수 + 패널 집계 + 지표별 이견 지수)
+app.post('/api/panels/:id/evaluations/proposal', async (c) => {
+  try {
+    const { proposal_title, proposal_content, proposal_sections } = await c.req.json()
+    const repository = getRepository(c)
+    const panel = await repository.getPanel(c.req.param('id'))
+    
+    if (!panel) {
+      return c.json({
+        success: false,
+        error: '평가 패널을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    if (!proposal_content) {
+      return c.json({
+        success: false,
+        error: '제안서 내용이 필요합니다.'
+      }, 400)
+    }
+    
+    const result = await new EvaluationPanelService(repository, c.env).evaluateProposal(panel, {
+      proposal_title: proposal_title || '제안서',
+      proposal_content,
+      proposal_sections
+    })
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('패널 제안서 평가 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '패널 제안서 평가 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/panels/:id/evaluations/:evaluationId', async (c) => {
+  try {
+    const evaluation = await getRepository(c).getPanelEvaluation(c.req.param('evaluationId'))
+    
+    if (!evaluation || evaluation.panel_id !== c.req.param('id')) {
+      return c.json({
+        success: false,
+        error: '패널 평가 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: evaluation
+    })
+  } catch (error) {
+    console.error('패널 평가 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '패널 평가 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 7. 요구사항 추적 매트릭스 API (RFP 요구사항별 제안서 충족/부분/누락 판정)
+app.post('/api/analysis/traceability', async (c) => {
+  try {
+    const body = await c.req.json()
+    const { rfp_text, customer_id, proposal_evaluation_id, proposal_title } = body
+    let proposal_content = body.proposal_content
+    
+    // 제안서 내용이 없으면 기존 제안서 평가에 저장된 내용 사용
+    let proposalEval = null
+    if (proposal_evaluation_id) {
+      proposalEval = await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
+      if (!proposalEval) {
+        return c.json({
+          success: false,
+          error: `제안서 평가를 찾을 수 없습니다: ${proposal_evaluation_id}`
+        }, 404)
+      }
+      proposal_content = proposal_content || proposalEval.proposal_content
+    }
+    
+    // RFP 원문이 없으면 고객의 RFP 분석 15속성 사용
+    const customerId = customer_id || proposalEval?.customer_id
+    const customer = !rfp_text && customerId ? await getCustomerResolver(c).resolve(customerId) : null
+    
+    if (!rfp_text && !customer) {
+      return c.json({
+        success: false,
+        error: 'RFP 원문(rfp_text) 또는 RFP 분석이 포함된 고객 ID가 필요합니다.'
+      }, 400)
+    }
+    
+    if (!proposal_content) {
+      return c.json({
+        success: false,
+        error: '제안서 내용(proposal_content) 또는 제안서 평가 ID가 필요합니다.'
+      }, 400)
+    }
+    
+    const matrix = await new RequirementTraceabilityService(getRepository(c)).buildMatrix({
+      rfp_text,
+      rfp_analysis_data: customer?.rfp_analysis_data,
+      proposal_content,
+      proposal_title: proposal_title || proposalEval?.proposal_title,
+      customer_id: customerId,
+      proposal_evaluation_id
+    })
+    
+    return c.json({
+      success: true,
+      data: matrix
+    })
+  } catch (error) {
+    console.error('요구사항 추적 매트릭스 생성 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '요구사항 추적 매트릭스 생성 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/analysis/traceability/:id', async (c) => {
+  try {
+    const matrix = await getRepository(c).getTraceabilityMatrix(c.req.param('id'))
+    
+    if (!matrix) {
+      return c.json({
+        success: false,
+        error: '요구사항 추적 매트릭스를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: matrix
+    })
+  } catch (error) {
+    console.error('요구사항 추적 매트릭스 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '요구사항 추적 매트릭스 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 8. 입찰 적격성 점검 API (입찰사 요건·준수사항 점검표 + 실격 위험 요약)
+app.post('/api/analysis/compliance', async (c) => {
+  try {
+    const body = await c.req.json()
+    const { customer_id, proposal_evaluation_id, page_count, file_type } = body
+    let proposal_content = body.proposal_content
+    
+    let proposalEval = null
+    if (proposal_evaluation_id) {
+      proposalEval = await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
+      if (!proposalEval) {
+        return c.json({
+          success: false,
+          error: `제안서 평가를 찾을 수 없습니다: ${proposal_evaluation_id}`
+        }, 404)
+      }
+      proposal_content = proposal_content || proposalEval.proposal_content
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(customer_id || proposalEval?.customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    if (!proposal_content) {
+      return c.json({
+        success: false,
+        error: '제안서 내용(proposal_content) 또는 제안서 평가 ID가 필요합니다.'
+      }, 400)
+    }
+    
+    const checklist = new ComplianceChecklistService().check(customer.rfp_analysis_data, {
+      proposal_content,
+      // 요청에 없으면 평가 당시 저장한 업로드 파일 정보 사용
+      page_count: page_count !== undefined ? Number(page_count) : proposalEval?.proposal_file?.page_count,
+      file_type: file_type || proposalEval?.proposal_file?.file_type
+    })
+    
+    return c.json({
+      success: true,
+      data: checklist
+    })
+  } catch (error) {
+    console.error('입찰 적격성 점검 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '입찰 적격성 점검 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 9. 입찰 결과 보정 API (실제 수주/탈락·평가위원 점수로 시뮬레이터 점수 보정)
+// 9.1 세션의 실제 입찰 결과 기록 API (평가 결과 ID로 시뮬레이터 점수 스냅샷)
+app.post('/api/sessions/:id/outcome', async (c) => {
+  try {
+    const sessionId = c.req.param('id')
+    const body = await c.req.json()
+    const { result, rank, bidder_count, committee_score, notes,
+      proposal_evaluation_id, presentation_evaluation_id, integrated_evaluation_id } = body
+    
+    const repository = getRepository(c)
+    const session = await repository.getSession(sessionId)
+    if (!session) {
+      return c.json({
+        success: false,
+        error: `평가 세션을 찾을 수 없습니다: ${sessionId}`
+      }, 404)
+    }
+    
+    if (result !== 'won' && result !== 'lost') {
+      return c.json({
+        success: false,
+        error: "입찰 결과(result)는 'won' 또는 'lost'여야 합니다."
+      }, 400)
+    }
+    
+    const outcomeInput: BidOutcomeInput = {
+      result,
+      rank: rank !== undefined ? Number(rank) : undefined,
+      bidder_count: bidder_count !== undefined ? Number(bidder_count) : undefined,
+      committee_score: committee_score !== undefined ? Number(committee_score) : undefined,
+      notes
+    }
+    try {
+      validateBidOutcomeInput(outcomeInput)
+    } catch (validationError) {
+      return c.json({
+        success: false,
+        error: (validationError as Error).message
+      }, 400)
+    }
+    
+    const evaluationResolver = getEvaluationResolver(c)
+    const integrated = integrated_evaluation_id ? await repository.getIntegratedEvaluation(integrated_evaluation_id) : null
+    const proposal = proposal_evaluation_id ? await evaluationResolver.resolveProposal(proposal_evaluation_id) : null
+    const presentation = presentation_evaluation_id ? await evaluationResolver.resolvePresentation(presentation_evaluation_id) : null
+    
+    if (!integrated && !proposal && !presentation) {
+      return c.json({
+        success: false,
+        error: '시뮬레이터 점수를 가져올 평가 결과 ID(integrated/proposal/presentation_evaluation_id)가 필요합니다.'
+      }, 400)
+    }
+    
+    const outcome = await new ScoreCalibrationService(repository).recordOutcome(session, outcomeInput, { integrated, proposal, presentation })
+    
+    await repository.saveSession({
+      ...session,
+      current_stage: 'results',
+      progress: { ...session.progress, results_completed: true }
+    })
+    
+    return c.json({
+      success: true,
+      data: outcome
+    })
+  } catch (error) {
+    console.error('입찰 결과 기록 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '입찰 결과 기록 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/sessions/:id/outcome', async (c) => {
+  try {
+    const outcome = await getRepository(c).getBidOutcome(c.req.param('id'))
+    if (!outcome) {
+      return c.json({
+        success: false,
+        error: '기록된 입찰 결과가 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: outcome
+    })
+  } catch (error) {
+    console.error('입찰 결과 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '입찰 결과 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 9.2 보정 모델 조회 API (수주 확률 로지스틱 + 실제 점수·상대 순위 선형 + 지표별 상관)
+app.get('/api/calibration', async (c) => {
+  try {
+    const repository = getRepository(c)
+    const model = await new ScoreCalibrationService(repository).fit()
+    
+    return c.json({
+      success: true,
+      data: {
+        ...model,
+        outcomes: await repository.listBidOutcomes()
+      }
+    })
+  } catch (error) {
+    console.error('보정 모델 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '보정 모델 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 9.3 시뮬레이터 점수 보정 API (?score=85 → 보정 수주 확률·예상 실제 점수)
+app.get('/api/calibration/predict', async (c) => {
+  try {
+    const score = Number(c.req.query('score'))
+    if (!Number.isFinite(score)) {
+      return c.json({
+        success: false,
+        error: '보정할 점수(score)가 필요합니다.'
+      }, 400)
+    }
+    
+    const calibrated = await new ScoreCalibrationService(getRepository(c)).calibrate(score)
+    
+    return c.json({
+      success: true,
+      data: calibrated
+    })
+  } catch (error) {
+    console.error('점수 보정 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '점수 보정 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 10. 경쟁 입찰 시뮬레이션 API (여러 업체 제안서를 같은 가상고객·루브릭으로 평가 → 순위 + 업체 쌍별 우열 근거)
+// JSON 본문 또는 multipart (payload: JSON 문자열, bidder_file_{순번}: 업체별 PDF/DOCX/PPTX 제안서 파일)
+app.post('/api/competitions', async (c) => {
+  try {
+    let body: any
+    let bidderFiles: Array<File | null> = []
+    if ((c.req.header('Content-Type') || '').includes('multipart/form-data')) {
+      const formData = await c.req.formData()
+      try {
+        body = JSON.parse(String(formData.get('payload') || '{}'))
+      } catch {
+        return c.json({
+          success: false,
+          error: 'payload는 JSON 문자열이어야 합니다.'
+        }, 400)
+      }
+      bidderFiles = (Array.isArray(body.bidders) ? body.bidders : []).map((_: unknown, index: number) => {
+        const file = formData.get(`bidder_file_${index}`)
+        return file && typeof file !== 'string' ? file : null
+      })
+    } else {
+      body = await c.req.json()
+    }
+    const { customer_id, rfp_title, bidders, weight_profile, evaluation_mode } = body
+    
+    if (!Array.isArray(bidders) || bidders.length < 2 || bidders.length > MAX_BIDDERS) {
+      return c.json({
+        success: false,
+        error: `입찰 업체(bidders)는 2~${MAX_BIDDERS}개여야 합니다.`
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    let weightProfile
+    try {
+      weightProfile = resolveWeightProfile(customer, weight_profile)
+    } catch (weightError) {
+      return c.json({
+        success: false,
+        error: (weightError as Error).message
+      }, 400)
+    }
+    
+    const evaluationResolver = getEvaluationResolver(c)
+    const bidderInputs = []
+    const reusedEvaluations = []
+    for (const [index, bidder] of bidders.entries()) {
+      const vendorName = bidder.vendor_name || `업체 ${index + 1}`
+      
+      if (bidder.bid_price !== undefined && !(Number(bidder.bid_price) > 0)) {
+        return c.json({
+          success: false,
+          error: `${vendorName}: 입찰가(bid_price)는 0보다 커야 합니다.`
+        }, 400)
+      }
+      
+      let evaluation = null
+      let proposalContent = bidder.proposal_content
+      let proposalSections = bidder.proposal_sections
+      let proposalTitle = bidder.proposal_title
+      const bidderFile = bidderFiles[index]
+      if (bidder.evaluation_id) {
+        evaluation = await evaluationResolver.resolveProposal(bidder.evaluation_id)
+        if (!evaluation || evaluation.customer_id !== customer_id) {
+          return c.json({
+            success: false,
+            error: `${vendorName}: 같은 AI 가상고객으로 평가된 제안서 평가 결과를 찾을 수 없습니다 (${bidder.evaluation_id}).`
+          }, 404)
+        }
+        reusedEvaluations.push({ label: vendorName, evaluation })
+      } else if (bidderFile) {
+        const parsed = await parseProposalUpload(bidderFile)
+        if ('error' in parsed) {
+          return c.json({
+            success: false,
+            error: `${vendorName}: ${parsed.error}`
+          }, 400)
+        }
+        proposalContent = parsed.parsed_document.content
+        proposalSections = parsed.proposal_sections
+        proposalTitle = proposalTitle || parsed.parsed_document.title
+      } else if (!proposalContent && !proposalSections) {
+        return c.json({
+          success: false,
+          error: `${vendorName}: 제안서 파일(bidder_file_${index}), 제안서 내용(proposal_content) 또는 평가 ID(evaluation_id)가 필요합니다.`
+        }, 400)
+      }
+      
+      bidderInputs.push({
+        vendor_name: vendorName,
+        is_ours: !!bidder.is_ours,
+        bid_price: bidder.bid_price !== undefined ? Number(bidder.bid_price) : undefined,
+        proposal_title: proposalTitle,
+        proposal_content: proposalContent,
+        proposal_sections: proposalSections,
+        evaluation
+      })
+    }
+    
+    // 재사용한 평가는 이번 시뮬레이션에서 새로 채점할 업체와 같은 고객 버전·가중치여야 순위를 비교할 수 있음
+    try {
+      assertSameEvaluationBasis([
+        { label: '이번 시뮬레이션', evaluation: { customer_version: customer.version, weight_profile: weightProfile } },
+        ...reusedEvaluations
+      ])
+    } catch (basisError) {
+      return c.json({
+        success: false,
+        error: (basisError as Error).message
+      }, 400)
+    }
+    
+    const result = await new CompetitiveBidService(getRepository(c), c.env).simulate(customer, {
+      customer_id,
+      rfp_title,
+      bidders: bidderInputs,
+      weight_overrides: weight_profile,
+      evaluation_mode
+    })
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('경쟁 입찰 시뮬레이션 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '경쟁 입찰 시뮬레이션 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/competitions', async (c) => {
+  try {
+    const competitions = await getRepository(c).listCompetitions(c.req.query('customer_id'))
+    
+    return c.json({
+      success: true,
+      data: competitions
+    })
+  } catch (error) {
+    console.error('경쟁 입찰 목록 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '경쟁 입찰 목록 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/competitions/:id', async (c) => {
+  try {
+    const competition = await getRepository(c).getCompetition(c.req.param('id'))
+    if (!competition) {
+      return c.json({
+        success: false,
+        error: '경쟁 입찰 시뮬레이션 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: competition
+    })
+  } catch (error) {
+    console.error('경쟁 입찰 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '경쟁 입찰 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 11. 예상 질의응답 API (제안서 취약점·고객 우려사항 기반 평가위원 질문 + 모범답변, 리허설 채점)
+// 11.1 예상 질문·모범답변 생성 API
+app.post('/api/qa/questions', async (c) => {
+  try {
+    const { customer_id, proposal_evaluation_id, count } = await c.req.json()
+    
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    // 평가 ID가 없으면 해당 고객의 최신 제안서 평가 사용
+    const proposalEvaluation = proposal_evaluation_id
+      ? await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
+      : (await getRepository(c).listProposalEvaluations(customer_id))[0] || null
+    if (proposal_evaluation_id && !proposalEvaluation) {
+      return c.json({
+        success: false,
+        error: '제안서 평가 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const questionCount = parseQuestionCount(count)
+    if (questionCount === null) {
+      return c.json({
+        success: false,
+        error: '질문 개수(count)는 1~10 사이의 정수여야 합니다.'
+      }, 400)
+    }
+    
+    const questions = await new CommitteeQAService(c.env).generateQuestions(customer, proposalEvaluation, questionCount)
+    
+    return c.json({
+      success: true,
+      data: {
+        customer_id,
+        proposal_evaluation_id: proposalEvaluation?.id,
+        questions,
+        // PersonaFinalScore 형식
+        expected_questions: questions.map(question => question.question),
+        recommended_answers: questions.map(question => question.recommended_answer)
+      }
+    })
+  } catch (error) {
+    console.error('예상 질문 생성 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '예상 질문 생성 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 질문 개수(count): 생략하면 기본값, 1~10 사이 정수가 아니면 null
+function parseQuestionCount(count: unknown): number | null {
+  const questionCount = count !== undefined ? Number(count) : DEFAULT_QUESTION_COUNT
+  return Number.isInteger(questionCount) && questionCount >= 1 && questionCount <= 10 ? questionCount : null
+}
+
+// 11.2 질의응답 리허설 시작 API (questions를 주지 않으면 예상 질문 생성)
+app.post('/api/qa/rehearsals', async (c) => {
+  try {
+    const { customer_id, proposal_evaluation_id, questions, count } = await c.req.json()
+    
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const proposalEvaluation = proposal_evaluation_id
+      ? await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
+      : (await getRepository(c).listProposalEvaluations(customer_id))[0] || null
+    if (proposal_evaluation_id && !proposalEvaluation) {
+      return c.json({
+        success: false,
+        error: '제안서 평가 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const questionCount = parseQuestionCount(count)
+    if (questionCount === null) {
+      return c.json({
+        success: false,
+        error: '질문 개수(count)는 1~10 사이의 정수여야 합니다.'
+      }, 400)
+    }
+    
+    const qaService = new CommitteeQAService(c.env)
+    const rehearsalQuestions = Array.isArray(questions) && questions.length > 0
+      ? questions
+      : await qaService.generateQuestions(customer, proposalEvaluation, questionCount)
+    
+    // 평가 결과·우려사항이 없어 질문을 만들지 못했거나 입력 질문이 모두 비어 있으면 요청 오류
+    let rehearsal
+    try {
+      rehearsal = qaService.startRehearsal(customer_id, rehearsalQuestions, proposalEvaluation?.id)
+    } catch (questionError) {
+      return c.json({
+        success: false,
+        error: (questionError as Error).message
+      }, 400)
+    }
+    await getRepository(c).saveRehearsal(rehearsal)
+    
+    return c.json({
+      success: true,
+      data: rehearsal
+    })
+  } catch (error) {
+    console.error('리허설 시작 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '리허설 시작 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 11.3 리허설 답변 제출 API (텍스트/음성 인식 답변 채점 → 꼬리질문 또는 다음 질문)
+app.post('/api/qa/rehearsals/:id/answers', async (c) => {
+  try {
+    const { answer, input_mode } = await c.req.json()
+    
+    if (typeof answer !== 'string' || !answer.trim()) {
+      return c.json({
+        success: false,
+        error: '답변(answer)이 필요합니다.'
+      }, 400)
+    }
+    if (input_mode !== undefined && input_mode !== 'text' && input_mode !== 'voice') {
+      return c.json({
+        success: false,
+        error: "답변 방식(input_mode)은 'text' 또는 'voice'여야 합니다."
+      }, 400)
+    }
+    
+    const repository = getRepository(c)
+    const rehearsal = await repository.getRehearsal(c.req.param('id'))
+    if (!rehearsal) {
+      return c.json({
+        success: false,
+        error: '리허설을 찾을 수 없습니다.'
+      }, 404)
+    }
+    if (rehearsal.status === 'completed') {
+      return c.json({
+        success: false,
+        error: '이미 완료된 리허설입니다.'
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(rehearsal.customer_id)
+    const updated = await new CommitteeQAService(c.env).answer(customer || {}, rehearsal, answer.trim(), input_mode || 'text')
+    await repository.saveRehearsal(updated)
+    
+    return c.json({
+      success: true,
+      data: {
+        turn: updated.turns[updated.turns.length - 1],
+        next: updated.current,
+        status: updated.status,
+        summary: updated.summary
+      }
+    })
+  } catch (error) {
+    console.error('리허설 답변 채점 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '리허설 답변 채점 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/qa/rehearsals/:id', async (c) => {
+  try {
+    const rehearsal = await getRepository(c).getRehearsal(c.req.param('id'))
+    if (!rehearsal) {
+      return c.json({
+        success: false,
+        error: '리허설을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: rehearsal
+    })
+  } catch (error) {
+    console.error('리허설 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '리허설 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 12. 실시간 질의응답 세션 API (AI 가상고객이 페르소나대로 질문·압박 → 질의응답 점수, 통합 결과의 세 번째 구성요소)
+// 12.1 세션 시작 API (가상고객의 첫 질문 반환)
+app.post('/api/qa/sessions', async (c) => {
+  try {
+    const { customer_id, proposal_evaluation_id, presentation_evaluation_id, topics } = await c.req.json()
+    
+    const topicCount = topics !== undefined ? Number(topics) : DEFAULT_QA_TOPICS
+    if (!Number.isInteger(topicCount) || topicCount < 1 || topicCount > MAX_QA_TOPICS) {
+      return c.json({
+        success: false,
+        error: `질의응답 주제 수(topics)는 1~${MAX_QA_TOPICS} 사이의 정수여야 합니다.`
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (!customer) {
+      return c.json({
+        success: false,
+        error: 'AI 가상고객을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const repository = getRepository(c)
+    const proposalEvaluation = proposal_evaluation_id
+      ? await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
+      : (await repository.listProposalEvaluations(customer_id))[0] || null
+    if (proposal_evaluation_id && !proposalEvaluation) {
+      return c.json({
+        success: false,
+        error: '제안서 평가 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const session = await new LiveQASessionService(c.env).start(customer, {
+      customer_id,
+      proposal_evaluation: proposalEvaluation,
+      presentation_evaluation_id,
+      topics: topicCount
+    })
+    await repository.saveQASession(session)
+    
+    return c.json({
+      success: true,
+      data: session
+    })
+  } catch (error) {
+    console.error('질의응답 세션 시작 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '질의응답 세션 시작 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 12.2 발표자 답변 API (가상고객의 다음 발화 반환, 마지막 주제 후 자동 종료)
+app.post('/api/qa/sessions/:id/messages', async (c) => {
+  try {
+    const { answer, input_mode } = await c.req.json()
+    
+    if (typeof answer !== 'string' || !answer.trim()) {
+      return c.json({
+        success: false,
+        error: '답변(answer)이 필요합니다.'
+      }, 400)
+    }
+    if (input_mode !== undefined && input_mode !== 'text' && input_mode !== 'voice') {
+      return c.json({
+        success: false,
+        error: "답변 방식(input_mode)은 'text' 또는 'voice'여야 합니다."
+      }, 400)
+    }
+    
+    const repository = getRepository(c)
+    const session = await repository.getQASession(c.req.param('id'))
+    if (!session) {
+      return c.json({
+        success: false,
+        error: '질의응답 세션을 찾을 수 없습니다.'
+      }, 404)
+    }
+    if (session.status === 'completed') {
+      return c.json({
+        success: false,
+        error: '이미 종료된 질의응답 세션입니다.'
+      }, 400)
+    }
+    
+    const customer = await getCustomerResolver(c).resolve(session.customer_id)
+    const updated = await new LiveQASessionService(c.env).respond(customer || {}, session, answer.trim(), input_mode || 'text')
+    await repository.saveQASession(updated)
+    
+    return c.json({
+      success: true,
+      data: {
+        messages: updated.messages.slice(session.messages.length),
+        status: updated.status,
+        state: updated.state,
+        result: updated.result
+      }
+    })
+  } catch (error) {
+    console.error('질의응답 답변 처리 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '질의응답 답변 처리 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 12.3 세션 종료 API (남은 주제가 있어도 답변한 주제로 점수 산출)
+app.post('/api/qa/sessions/:id/finish', async (c) => {
+  try {
+    const repository = getRepository(c)
+    const session = await repository.getQASession(c.req.param('id'))
+    if (!session) {
+      return c.json({
+        success: false,
+        error: '질의응답 세션을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    const finished = new LiveQASessionService(c.env).finish(session)
+    await repository.saveQASession(finished)
+    
+    return c.json({
+      success: true,
+      data: finished
+    })
+  } catch (error) {
+    console.error('질의응답 세션 종료 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '질의응답 세션 종료 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/qa/sessions', async (c) => {
+  try {
+    const sessions = await getRepository(c).listQASessions(c.req.query('customer_id'))
+    
+    return c.json({
+      success: true,
+      data: sessions
+    })
+  } catch (error) {
+    console.error('질의응답 세션 목록 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '질의응답 세션 목록 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+app.get('/api/qa/sessions/:id', async (c) => {
+  try {
+    const session = await getRepository(c).getQASession(c.req.param('id'))
+    if (!session) {
+      return c.json({
+        success: false,
+        error: '질의응답 세션을 찾을 수 없습니다.'
+      }, 404)
+    }
+    
+    return c.json({
+      success: true,
+      data: session
+    })
+  } catch (error) {
+    console.error('질의응답 세션 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '질의응답 세션 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 13. 발표 음성 인식 API (녹음 업로드 → 로컬 STT 엔진으로 단어·구간 타임스탬프 스크립트 생성)
+// 13.1 STT 엔진 상태 API (엔진이 없으면 브라우저 음성 인식 사용)
+app.get('/api/stt/status', (c) => {
+  try {
+    const engine = resolveSTTEngine(c.env)
+    return c.json({
+      success: true,
+      data: { engine, available: engine !== 'none', max_audio_bytes: MAX_AUDIO_BYTES }
+    })
+  } catch (error) {
+    console.error('STT 엔진 상태 조회 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || 'STT 엔진 상태 조회 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 13.2 발표 녹음 음성 인식 API (multipart: audio, language, customer_id, presentation_id)
+// 인식·분석은 백그라운드 작업으로 실행하고 202와 작업 ID를 반환 (GET /api/stt/transcriptions/:id로 상태 조회)
+app.post('/api/stt/transcriptions', async (c) => {
+  try {
+    const provider = createSTTProvider(c.env)
+    if (!provider) {
+      return c.json({
+        success: false,
+        error: '서버 STT 엔진이 설정되지 않았습니다. (STT_ENGINE / WHISPER_CPP_MODEL 설정 필요)'
+      }, 503)
+    }
+    
+    const formData = await c.req.formData()
+    const audio = formData.get('audio') as File
+    const audioError = validateAudioUpload(audio)
+    if (audioError) {
+      return c.json({
+        success: false,
+        error: audioError
+      }, 400)
+    }
+    
+    const language = String(formData.get('language') || DEFAULT_STT_LANGUAGE).toLowerCase()
+    if (!/^([a-z]{2}|auto)$/.test(language)) {
+      return c.json({
+        success: false,
+        error: '언어(language)는 ko, en 같은 2자리 코드 또는 auto여야 합니다.'
+      }, 400)
+    }
+    
+    const customerId = String(formData.get('customer_id') || '')
+    const customer = customerId ? await getCustomerResolver(c).resolve(customerId) : null
+    
+    console.log(`🎙️ 발표 음성 인식 시작: ${audio.name || 'recording'} (${Math.round(audio.size / 1024)}KB, ${provider.engine})`)
+    const job = await new TranscriptionJobService(getRepository(c), {
+      provider,
+      ffmpeg: resolveFFmpegBinary(c.env),
+      waitUntil: backgroundTaskHook(c)
+    })
+      .start(new Uint8Array(await audio.arrayBuffer()), {
+        presentation_id: String(formData.get('presentation_id') || ''),
+        customer_id: customer?.id,
+        audio_file_name: audio.name,
+        audio_size: audio.size,
+        mime_type: audio.type,
+        language,
+        keywords: customer ? extractRfpKeywords(customer.rfp_analysis_data) : []
+      })
+    
+    return c.json({
+      success: true,
+      data: job
+    }, 202)
+  } catch (error) {
+    console.error('발표 음성 인식 오류:', error)
+    return c.json({
+      success: false,
+      error: (error as Error).message || '발표 음성 인식 중 오류가 발생했습니다.'
+    }, 500)
+  }
+})
+
+// 13.3 발표 녹음 음향 분석 API (서버 STT 엔진 없이 파형 + 브라우저 인식 스크립트로 분석, 13.2와 같은 백그라운드 작업)
+// multipart: audio, transcript, customer_id, presentation_id
+app.post('/api/stt/audio-analyses', async (c) => {
+  try {
+    // 녹음 디코딩(ffmpeg)은 Node.js 런타임 전용 - 그 외 런타임은 브라우저에서 분석
+    if (!canDecodeAudio()) {
+      return c.json({
+        success: false,
+        error: '서버 음향 분석은 Node.js 런타임에서만 사용할 수 있습니다.'
+      }, 503)
+    }
+    
+    const formData = await c.req.formData()
+    const audio = formData.get('audio') as File
+    const audioError = validateAudioUpload(audio)
+    if (audioError) {
+      return c.json({
+        success: false,
+        error: audioError
+      }, 400)
+    }
+    
+    const customerId = String(formData.get('customer_id') || '')
+    const customer = customerId ? await getCustomerResolver(c).resolve(customerId) : null
+    
+    console.log(`🔊 발표 녹음 음향 분석 시작: ${audio.name || 'recording'} (${Math.round(audio.size / 1024)}KB, STT 없음)`)
+    // 서버 음성 인식 결과와 같은 형태로 저장해 발표 평가(transcript_id)에서 그대로 사용 (단어 타임스탬프 없음)
+    const job = await new TranscriptionJobService(getRepository(c), {
+      provider: null,
+      ffmpeg: resolveFFmpegBinary(c.env),
+      waitUntil: backgroundTaskHook(c)
     })
+      .start(new Uint8Array(await audio.arrayBuffer()), {
+        presentation_id: String(formData.get('presentation_id') || ''),
+        customer_id: customer?.id,
+        audio_file_name: audio.name,
+        audio_size: audio.size,
+        mime_type: audio.type,
+        browser_transcript: String(formData.get('transcript') || '').trim(),
+        keywords: customer ? extractRfpKeywords(customer.rfp_analysis_data) : []
+      })
     
     return c.json({
       success: true,
-      data: feedbackData
-    })
-    
+      data: job
+    }, 202)
   } catch (error) {
-    console.error('[종합피드백] 생성 오류:', error)
+    console.error('발표 녹음 음향 분석 오류:', error)
     return c.json({
       success: false,
-      error: error.message || '종합 피드백 생성 중 오류가 발생했습니다.',
-      data: {
-        strengths: ['전반적으로 기본적인 요구사항을 충족하는 수준입니다.'],
-        improvements: ['세부적인 완성도 향상을 권장합니다.'],
-        summary: '종합적으로 기본 요건을 만족하는 제안입니다.',
-        expected_questions: [
-          '제안서의 핵심 차별화 요소는 무엇인가요?',
-          '구현 일정과 예산은 어떻게 계획되어 있나요?',
-          '유사 프로젝트 경험이 있으신가요?',
-          '사후 지원 체계는 어떻게 구성되나요?'
-        ]
-      }
-    })
+      error: (error as Error).message || '발표 녹음 음향 분석 중 오류가 발생했습니다.'
+    }, 500)
   }
 })
 
-// 5. 세션 관리 API
-app.get('/api/sessions', async (c) => {
+app.get('/api/stt/transcriptions/:id', async (c) => {
   try {
-    const storage = new JsonStorageService(c.env.KV)
-    const sessions = await storage.getAllSessions()
+    const transcript = await getRepository(c).getSTTTranscript(c.req.param('id'))
+    if (!transcript) {
+      return c.json({
+        success: false,
+        error: '음성 인식 스크립트를 찾을 수 없습니다.'
+      }, 404)
+    }
     
     return c.json({
       success: true,
-      data: sessions
+      data: transcript
     })
   } catch (error) {
-    console.error('세션 목록 조회 오류:', error)
+    console.error('음성 인식 스크립트 조회 오류:', error)
     return c.json({
       success: false,
-      error: error.message || '세션 목록 조회 중 오류가 발생했습니다.'
+      error: (error as Error).message || '음성 인식 스크립트 조회 중 오류가 발생했습니다.'
     }, 500)
   }
 })
 
-app.post('/api/sessions', async (c) => {
+// 13.4 발표 타임라인 API (녹음 재생과 동기화할 스크립트 구간 + 시각별 피드백 마커)
+app.get('/api/evaluations/presentation/:id/timeline', async (c) => {
   try {
-    const { session_name } = await c.req.json()
-    const storage = new JsonStorageService(c.env.KV)
+    const evaluation = await getEvaluationResolver(c).resolvePresentation(c.req.param('id'))
+    if (!evaluation) {
+      return c.json({
+        success: false,
+        error: '발표 평가 결과를 찾을 수 없습니다.'
+      }, 404)
+    }
+    if (!evaluation.stt_transcript_id) {
+      return c.json({
+        success: false,
+        error: '서버 음성 인식 스크립트로 평가한 발표만 타임라인을 볼 수 있습니다.'
+      }, 400)
+    }
     
-    const session: EvaluationSession = {
-      id: crypto.randomUUID(),
-      session_name,
-      current_stage: 'customer_generation',
-      progress: {
-        customer_completed: false,
-        proposal_completed: false,
-        presentation_completed: false,
-        results_completed: false
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+    const transcript = await getRepository(c).getSTTTranscript(evaluation.stt_transcript_id)
+    if (!transcript || (transcript.status && transcript.status !== 'completed')) {
+      return c.json({
+        success: false,
+        error: '음성 인식 스크립트를 찾을 수 없습니다.'
+      }, 404)
     }
     
-    const sessionId = await storage.saveSession(session)
+    const customer = evaluation.customer_id ? await getCustomerResolver(c).resolve(evaluation.customer_id) : null
+    const timeline = new PresentationTimelineService().build(evaluation, transcript, customer?.rfp_analysis_data)
     
     return c.json({
       success: true,
-      data: { ...session, id: sessionId }
+      data: timeline
     })
   } catch (error) {
-    console.error('세션 생성 오류:', error)
+    console.error('발표 타임라인 생성 오류:', error)
     return c.json({
       success: false,
-      error: error.message || '세션 생성 중 오류가 발생했습니다.'
+      error: (error as Error).message || '발표 타임라인 생성 중 오류가 발생했습니다.'
     }, 500)
   }
 })
@@ -1926,46 +3480,33 @@ app.post('/api/demo/generate-customer', async (c) => {
     const companyName = body.company_name || '샘플기업'
     
     const demoCustomer = DemoDataService.getSampleAIVirtualCustomer(companyName)
-    const customerId = `demo-customer-${Date.now()}`
-    
-    const customerWithId = { ...demoCustomer, id: customerId }
+    let customerId = `demo-customer-${Date.now()}`
+    let customerWithId: any = { ...demoCustomer, id: customerId }
     
-    // Railway 환경용 전역 메모리 저장소에 저장
+    // 저장소 리포지토리에 저장
     try {
-      // 동일한 회사명의 기존 고객이 있다면 교체
-      let replacedCustomerId = null
-      for (const [key, value] of globalMemoryStore.entries()) {
-        if (key.startsWith('customer:') && 
-            value.company_name === companyName && 
-            value.id.startsWith('demo-customer-')) {
-          replacedCustomerId = value.id
-          globalMemoryStore.delete(key)  // 기존 고객 삭제
-          console.log(`🔄 기존 고객 교체: ${value.id} → ${customerId} (회사명: ${companyName})`)
-          break
-        }
+      const repository = getRepository(c)
+      
+      // 동일한 회사명의 기존 데모 고객이 있다면 같은 ID로 새 버전 기록
+      const existingCustomers = await repository.listCustomers()
+      const existingDemo = existingCustomers.find(value =>
+        value.company_name === companyName && value.id?.startsWith('demo-customer-'))
+      
+      if (existingDemo) {
+        customerId = existingDemo.id
+        customerWithId = { ...demoCustomer, id: customerId, created_at: existingDemo.created_at }
       }
       
-      // 새로운 고객 저장
-      const customerKey = `customer:${customerId}`
-      globalMemoryStore.set(customerKey, customerWithId)
+      customerWithId = await new CustomerVersionService(repository).commit(customerWithId, {
+        change_type: existingDemo ? 'regenerate' : 'generate'
+      })
       
-      if (replacedCustomerId) {
-        console.log(`✅ 고객 교체 완료: ${customerId} (회사명: ${companyName})`)
+      if (existingDemo) {
+        console.log(`🔄 기존 고객 재생성: ${customerId} ${customerWithId.version} (회사명: ${companyName})`)
       } else {
         console.log(`✅ 새 고객 저장 완료: ${customerId} (회사명: ${companyName})`)
       }
       
-      // KV Storage도 시도 (Cloudflare 환경용)
-      if (c.env.KV) {
-        try {
-          const storage = new JsonStorageService(c.env.KV)
-          await storage.saveVirtualCustomer(customerWithId)
-          console.log(`☁️ KV Storage 저장도 성공: ${customerId}`)
-        } catch (kvError) {
-          console.log('⚠️ KV 저장 실패 (메모리만 사용):', kvError.message)
-        }
-      }
-      
     } catch (storageError) {
       console.log('❌ 저장소 오류:', storageError.message)
       throw storageError
@@ -1985,34 +3526,22 @@ app.post('/api/demo/generate-customer', async (c) => {
   }
 })
 
-// KV Storage 초기화 API (개발용)
+// 저장소 초기화 API (개발용)
 app.post('/api/dev/clear-storage', async (c) => {
   try {
-    if (c.env.KV) {
-      const storage = new JsonStorageService(c.env.KV)
-      
-      // 모든 고객 데이터 조회 후 삭제
-      const customers = await storage.getAllVirtualCustomers()
-      
-      for (const customer of customers) {
-        const key = `customer:${customer.id}`
-        await c.env.KV.delete(key)
-      }
-      
-      // 로컬 캐시도 정리
-      storage.clearCache()
-      
-      return c.json({
-        success: true,
-        message: `KV Storage 초기화 완료 (${customers.length}개 고객 데이터 삭제)`,
-        deleted_count: customers.length
-      })
+    const repository = getRepository(c)
+    
+    // 모든 고객 데이터 조회 후 삭제
+    const customers = await repository.listCustomers()
+    
+    for (const customer of customers) {
+      await repository.deleteCustomer(customer.id)
     }
     
     return c.json({
       success: true,
-      message: "KV Storage를 사용하지 않는 환경입니다",
-      deleted_count: 0
+      message: `저장소 초기화 완료 (${repository.driver}, ${customers.length}개 고객 데이터 삭제)`,
+      deleted_count: customers.length
     })
     
   } catch (error) {
@@ -2527,26 +4056,15 @@ app.post('/api/demo2/generate-customer', async (c) => {
       result.key_concerns = ['환경 규제', '안전성 확보', '원가 경쟁력']
     }
 
-    // Railway 환경에서는 메모리에 저장 (KV 우선 시도)
-    const customerKey = `customer:${result.id}`
-    globalMemoryStore.set(customerKey, result)
-    console.log(`💾 메모리 저장 완료: ${result.company_name} (${customerKey})`)
-    
-    // KV Storage 백업 저장 시도
-    if (c.env.KV) {
-      try {
-        const storage = new JsonStorageService(c.env.KV)
-        await storage.saveVirtualCustomer(result)
-        console.log(`☁️ KV 저장도 완료: ${result.company_name}`)
-      } catch (kvError) {
-        console.log('KV 저장 실패, 메모리만 사용:', kvError.message)
-      }
-    }
+    // 저장소 리포지토리에 저장 (버전 기록)
+    const repository = getRepository(c)
+    const savedCustomer = await new CustomerVersionService(repository).commit(result, { change_type: 'generate' })
+    console.log(`💾 저장 완료: ${result.company_name} (customer:${result.id}, ${repository.driver})`)
 
     return c.json({
       success: true,
-      data: result,
-      customer: result,
+      data: savedCustomer,
+      customer: savedCustomer,
       message: `데모2: ${company_name} 30속성 통합 AI 가상고객 생성 완료 (데모 데이터)`
     })
   } catch (error) {
@@ -2565,13 +4083,8 @@ app.post('/api/demo/evaluate-proposal', async (c) => {
     console.log(`📋 데모 제안서 평가 시작: customer_id=${customer_id}`)
     
     // 고객 데이터 조회
-    let customer = null
-    for (const [key, value] of globalMemoryStore.entries()) {
-      if (key.startsWith('customer:') && (value.id === customer_id || value.customer_id === customer_id)) {
-        customer = value
-        break
-      }
-    }
+    const repository = getRepository(c)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
     
     if (!customer) {
       throw new Error('고객 정보를 찾을 수 없습니다')
@@ -2583,9 +4096,7 @@ app.post('/api/demo/evaluate-proposal', async (c) => {
     demoProposalEval.customer_id = customer_id
     demoProposalEval.id = `eval-${Date.now()}`
     
-    // Railway 환경에서는 메모리에만 저장
-    const evaluationKey = `evaluation:${demoProposalEval.id}`
-    globalMemoryStore.set(evaluationKey, demoProposalEval)
+    await repository.saveProposalEvaluation(demoProposalEval)
     
     console.log(`✅ 제안서 평가 완료: ${demoProposalEval.id}`)
     
@@ -2618,23 +4129,11 @@ app.post('/api/demo/evaluate-presentation', async (c) => {
     const demoPresentationEval = DemoDataService.getSamplePresentationEvaluation()
     demoPresentationEval.customer_id = customer_id || 'demo-customer'
     
-    // 데이터베이스 저장은 선택적으로 처리 (Railway 환경에서는 globalMemoryStore 사용)
-    let evaluationId = 'demo-presentation-eval-' + Date.now()
-    
-    try {
-      // 데이터베이스가 있는 경우 저장 시도
-      if (c.env && c.env.DB) {
-        const db = new DatabaseService(c.env.DB)
-        evaluationId = await db.savePresentationEvaluation(demoPresentationEval)
-      } else {
-        // Railway 환경용 globalMemoryStore 저장
-        globalMemoryStore.set(`presentation_evaluation:${evaluationId}`, demoPresentationEval)
-        console.log('[데모 발표 평가] globalMemoryStore에 저장됨:', evaluationId)
-      }
-    } catch (dbError) {
-      console.warn('[데모 발표 평가] DB 저장 실패, 메모리 저장 사용:', dbError.message)
-      globalMemoryStore.set(`presentation_evaluation:${evaluationId}`, demoPresentationEval)
-    }
+    // 저장소 리포지토리에 저장 (통합 결과 API에서 동일 ID로 조회)
+    const evaluationId = 'demo-presentation-eval-' + Date.now()
+    const repository = getRepository(c)
+    await repository.savePresentationEvaluation({ ...demoPresentationEval, id: evaluationId })
+    console.log(`[데모 발표 평가] 저장됨 (${repository.driver}):`, evaluationId)
     
     return c.json({
       success: true,  
@@ -2794,40 +4293,93 @@ ${JSON.stringify(nlpAnalysis, null, 2)}
   }
 })
 
-// 제안서 파일 분석
+// 제안서 파일 분석 (multipart: file - PDF/DOCX/PPTX)
 app.post('/api/parse/proposal', async (c) => {
   try {
-    const { file_data, file_name } = await c.req.json()
-    
-    const fileParser = new FileParserService()
+    const formData = await c.req.formData()
+    const file = formData.get('file') as File
     
-    // 시뮬레이션된 파싱 결과
-    const simulatedFile = new File([file_data || ''], file_name || 'proposal.pdf')
-    const parsedDocument = await fileParser.parseFile(simulatedFile)
+    if (!file || typeof file === 'string') {
+      return c.json({
+        success: false,
+        error: '제안서 파일이 업로드되지 않았습니다.'
+      }, 400)
+    }
     
-    // 제안서 내용 추출
-    const proposalContent = fileParser.extractProposalContent(parsedDocument)
+    const parsed = await parseProposalUpload(file)
+    if ('error' in parsed) {
+      return c.json({
+        success: false,
+        error: parsed.error
+      }, 400)
+    }
     
     return c.json({
       success: true,
       data: {
-        parsed_document: parsedDocument,
-        proposal_content: proposalContent
+        parsed_document: parsed.parsed_document,
+        proposal_sections: parsed.proposal_sections,
+        proposal_content: parsed.parsed_document.content
       },
       message: '제안서 파일이 성공적으로 분석되었습니다.'
     })
 
   } catch (error) {
+    console.error('제안서 파일 분석 오류:', error)
+    return c.json({
+      success: false,
+      error: '제안서 분석 중 오류가 발생했습니다: ' + (error as Error).message
+    }, 500)
+  }
+})
+
+// 발표 슬라이드 덱 분석 (multipart: file - PPTX)
+app.post('/api/parse/slides', async (c) => {
+  try {
+    const formData = await c.req.formData()
+    const file = formData.get('file') as File
+    
+    if (!file || typeof file === 'string') {
+      return c.json({
+        success: false,
+        error: '슬라이드 파일이 업로드되지 않았습니다.'
+      }, 400)
+    }
+    
+    if (file.size > 50 * 1024 * 1024) {
+      return c.json({
+        success: false,
+        error: '파일 크기가 50MB를 초과합니다.'
+      }, 400)
+    }
+    
+    if (file.name.split('.').pop()?.toLowerCase() !== 'pptx') {
+      return c.json({
+        success: false,
+        error: '지원하지 않는 파일 형식입니다. PPTX 파일만 업로드 가능합니다.'
+      }, 400)
+    }
+    
+    const slideDeck = await new SlideDeckParser().parse(await file.arrayBuffer(), file.name)
+    
+    return c.json({
+      success: true,
+      data: slideDeck,
+      message: `슬라이드 ${slideDeck.slide_count}장이 분석되었습니다.`
+    })
+
+  } catch (error) {
+    console.error('슬라이드 덱 분석 오류:', error)
     return c.json({
       success: false,
-      error: '제안서 분석 중 오류가 발생했습니다: ' + error.message
+      error: '슬라이드 분석 중 오류가 발생했습니다: ' + (error as Error).message
     }, 500)
   }
 })
 
 // === PDF 리포트 생성 API ===
 
-// PDF 리포트 생성 (메모리 저장소 사용)
+// PDF 리포트 생성 (저장소 리포지토리 사용)
 app.post('/api/report/generate', async (c) => {
   try {
     const { customer_id, proposal_evaluation_id, presentation_evaluation_id } = await c.req.json()
@@ -2836,14 +4388,11 @@ app.post('/api/report/generate', async (c) => {
     
     console.log(`📄 PDF 리포트 생성 요청: customer_id=${customer_id}`);
 
-    // 메모리 저장소에서 고객 정보 조회
-    let customer = null
-    for (const [key, value] of globalMemoryStore.entries()) {
-      if (key.startsWith('customer:') && (value.id === customer_id || value.customer_id === customer_id)) {
-        customer = value
-        console.log(`👤 고객 발견: ${customer.company_name}`);
-        break
-      }
+    // 저장소에서 고객 정보 조회
+    const repository = getRepository(c)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
+    if (customer) {
+      console.log(`👤 고객 발견: ${customer.company_name}`);
     }
     
     if (!customer) {
@@ -2854,21 +4403,19 @@ app.post('/api/report/generate', async (c) => {
       }, 404)
     }
 
-    // 메모리 저장소에서 평가 정보 조회
+    // 저장소에서 평가 정보 조회
     let proposalEval = null
     let presentationEval = null
     
     if (proposal_evaluation_id) {
-      const evalKey = `evaluation:${proposal_evaluation_id}`
-      proposalEval = globalMemoryStore.get(evalKey)
+      proposalEval = await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
       if (proposalEval) {
         console.log(`📊 제안서 평가 발견: ${proposalEval.proposal_title}`);
       }
     }
     
     if (presentation_evaluation_id) {
-      const evalKey = `presentation:${presentation_evaluation_id}`
-      presentationEval = globalMemoryStore.get(evalKey)
+      presentationEval = await getEvaluationResolver(c).resolvePresentation(presentation_evaluation_id)
       if (presentationEval) {
         console.log(`🎤 발표 평가 발견: ${presentationEval.presentation_title}`);
       }
@@ -2879,26 +4426,31 @@ app.post('/api/report/generate', async (c) => {
       console.log('🔍 평가 데이터 자동 검색 중...');
       
       // 해당 고객의 최신 제안서 평가 찾기
-      for (const [key, value] of globalMemoryStore.entries()) {
-        if (key.startsWith('evaluation:') && value.customer_id === customer_id) {
-          proposalEval = value
-          console.log(`📊 자동 발견된 제안서 평가: ${proposalEval.proposal_title}`);
-          break
-        }
+      const [latestProposal] = await repository.listProposalEvaluations(customer_id)
+      if (latestProposal) {
+        proposalEval = latestProposal
+        console.log(`📊 자동 발견된 제안서 평가: ${proposalEval.proposal_title}`);
       }
       
       // 해당 고객의 최신 발표 평가 찾기
-      for (const [key, value] of globalMemoryStore.entries()) {
-        if (key.startsWith('presentation:') && value.customer_id === customer_id) {
-          presentationEval = value
-          console.log(`🎤 자동 발견된 발표 평가: ${presentationEval.presentation_title}`);
-          break
-        }
+      const [latestPresentation] = await repository.listPresentationEvaluations(customer_id)
+      if (latestPresentation) {
+        presentationEval = latestPresentation
+        console.log(`🎤 자동 발견된 발표 평가: ${presentationEval.presentation_title}`);
       }
     }
 
+    // 제안서가 있으면 입찰사 요건/준수사항 점검 결과 포함
+    const complianceChecklist = proposalEval?.proposal_content && customer.rfp_analysis_data
+      ? new ComplianceChecklistService().check(customer.rfp_analysis_data, {
+          proposal_content: proposalEval.proposal_content,
+          page_count: proposalEval.proposal_file?.page_count,
+          file_type: proposalEval.proposal_file?.file_type
+        })
+      : undefined
+
     // 리포트 데이터 생성
-    const reportData = pdfGenerator.generateReportData(customer, proposalEval, presentationEval)
+    const reportData = pdfGenerator.generateReportData(customer, proposalEval, presentationEval, complianceChecklist)
     
     // HTML 리포트 생성
     const htmlReport = pdfGenerator.generateHTMLReport(reportData)
@@ -2971,11 +4523,10 @@ app.post('/api/report/generate', async (c) => {
       }, 400)
     }
     
-    const storage = new JsonStorageService(env.KV)
     const pdfGenerator = new PDFGeneratorService()
     
     // 고객 데이터 로드
-    const customer = await storage.getAIVirtualCustomer(customer_id)
+    const customer = await getCustomerResolver(c).resolve(customer_id)
     if (!customer) {
       return c.json({
         success: false,
@@ -2988,12 +4539,12 @@ app.post('/api/report/generate', async (c) => {
     let presentationEval = null
     
     if (proposal_evaluation_id) {
-      proposalEval = await storage.getProposalEvaluation(proposal_evaluation_id)
+      proposalEval = await getEvaluationResolver(c).resolveProposal(proposal_evaluation_id)
       console.log('리포트용 제안서 평가 로드:', proposalEval?.total_score)
     }
     
     if (presentation_evaluation_id) {
-      presentationEval = await storage.getPresentationEvaluation(presentation_evaluation_id)
+      presentationEval = await getEvaluationResolver(c).resolvePresentation(presentation_evaluation_id)
       console.log('리포트용 발표 평가 로드:', presentationEval?.total_score)
     }
     
@@ -3004,8 +4555,17 @@ app.post('/api/report/generate', async (c) => {
       }, 400)
     }
     
+    // 제안서가 있으면 입찰사 요건/준수사항 점검 결과 포함
+    const complianceChecklist = proposalEval?.proposal_content && customer.rfp_analysis_data
+      ? new ComplianceChecklistService().check(customer.rfp_analysis_data, {
+          proposal_content: proposalEval.proposal_content,
+          page_count: proposalEval.proposal_file?.page_count,
+          file_type: proposalEval.proposal_file?.file_type
+        })
+      : undefined
+    
     // 리포트 생성
-    const reportData = pdfGenerator.generateReportData(customer, proposalEval, presentationEval)
+    const reportData = pdfGenerator.generateReportData(customer, proposalEval, presentationEval, complianceChecklist)
     const htmlReport = pdfGenerator.generateHTMLReport(reportData)
     
     console.log('실제 리포트 최종 점수:', reportData.finalScores.total)
@@ -3353,8 +4913,8 @@ app.get('/proposal-evaluation', (c) => {
                 <div class="pwc-file-upload" id="proposal-drop-zone" style="margin: var(--spacing-lg) 0;">
                     <i class="fas fa-cloud-upload-alt" style="font-size: 3rem; color: var(--pwc-gray-400); margin-bottom: var(--spacing-lg);"></i>
                     <h4 style="font-size: 1.125rem; font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm); word-break: keep-all;">제안서 파일을 업로드하세요</h4>
-                    <p style="color: var(--pwc-gray-600); margin-bottom: var(--spacing-lg); word-break: keep-all;">PDF, DOCX, TXT 형식 지원 (최대 50MB)</p>
-                    <input type="file" id="proposal-file" accept=".pdf,.docx,.txt" style="display: none;">
+                    <p style="color: var(--pwc-gray-600); margin-bottom: var(--spacing-lg); word-break: keep-all;">PDF, DOCX, PPTX 형식 지원 (최대 50MB)</p>
+                    <input type="file" id="proposal-file" accept=".pdf,.docx,.pptx" style="display: none;">
                     <div class="pwc-flex pwc-flex-center pwc-flex-mobile-col" style="gap: var(--spacing-md);">
                         <button onclick="document.getElementById('proposal-file').click()" class="pwc-btn pwc-btn-primary">
                             <i class="fas fa-folder-open"></i>
@@ -3416,6 +4976,27 @@ app.get('/proposal-evaluation', (c) => {
                     </div>
                 </div>
 
+                <!-- 평가 가중치 (RFP 평가기준 기반, 평가 전 수정 가능) -->
+                <div id="weight-profile-panel" class="pwc-alert pwc-alert-info" style="display: none; margin-bottom: var(--spacing-xl);">
+                    <h4 style="font-weight: 600; margin-bottom: var(--spacing-sm); word-break: keep-all;">
+                        <i class="fas fa-balance-scale" style="margin-right: var(--spacing-xs);"></i>
+                        평가 가중치
+                    </h4>
+                    <p id="weight-profile-source" style="font-size: 0.875rem; margin-bottom: var(--spacing-md); word-break: keep-all;">-</p>
+                    <div class="pwc-grid pwc-grid-3" style="gap: var(--spacing-md);">
+                        <div class="pwc-form-group"><label class="pwc-label">명확성 (%)</label><input type="number" min="0" max="100" data-weight-metric="clarity" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">전문성 (%)</label><input type="number" min="0" max="100" data-weight-metric="expertise" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">설득력 (%)</label><input type="number" min="0" max="100" data-weight-metric="persuasiveness" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">논리성 (%)</label><input type="number" min="0" max="100" data-weight-metric="logic" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">창의성 (%)</label><input type="number" min="0" max="100" data-weight-metric="creativity" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">신뢰성 (%)</label><input type="number" min="0" max="100" data-weight-metric="credibility" class="pwc-input"></div>
+                    </div>
+                    <div class="pwc-grid pwc-grid-2" style="gap: var(--spacing-md);">
+                        <div class="pwc-form-group"><label class="pwc-label">제안서 비중 (%)</label><input type="number" min="0" max="100" id="weight-proposal" class="pwc-input"></div>
+                        <div class="pwc-form-group"><label class="pwc-label">발표 비중 (%)</label><input type="number" min="0" max="100" id="weight-presentation" class="pwc-input"></div>
+                    </div>
+                </div>
+
                 <button id="start-evaluation" class="pwc-btn pwc-btn-primary" style="width: 100%; font-size: 1.125rem; padding: var(--spacing-lg) var(--spacing-xl);" disabled>
                     <i class="fas fa-play"></i>
                     AI 평가 시작
@@ -3466,6 +5047,36 @@ app.get('/proposal-evaluation', (c) => {
                     <div style="font-size: 1.125rem; opacity: 0.9; word-break: keep-all;">총점 (100점 만점)</div>
                 </div>
 
+                <!-- 적용된 가중치 -->
+                <p id="applied-weights" style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-xl); word-break: keep-all;"></p>
+
+                <!-- 섹션별 평가 -->
+                <div id="section-scores" style="display: none; margin-bottom: var(--spacing-xl);"></div>
+
+                <!-- 근거 코멘트 (클릭 시 원문 인용 강조) -->
+                <div id="evidence-comments" style="display: none; margin-bottom: var(--spacing-xl);">
+                    <h4 style="font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm); word-break: keep-all;">
+                        <i class="fas fa-quote-left" style="margin-right: var(--spacing-xs);"></i>근거 코멘트
+                    </h4>
+                    <p style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-sm); word-break: keep-all;">코멘트를 클릭하면 근거가 된 제안서 원문이 강조됩니다.</p>
+                    <div class="pwc-grid pwc-grid-2" style="gap: var(--spacing-md);">
+                        <div id="evidence-comment-list" style="max-height: 420px; overflow-y: auto;"></div>
+                        <div id="evidence-document" style="max-height: 420px; overflow-y: auto; white-space: pre-wrap; font-size: 0.85rem; line-height: 1.6; padding: var(--spacing-md); background: var(--pwc-gray-50); border-radius: var(--radius-md); word-break: keep-all;"></div>
+                    </div>
+                </div>
+
+                <!-- 개정본 비교 (같은 가상고객으로 평가한 버전이 2개 이상일 때) -->
+                <div id="revision-comparison" style="display: none; margin-bottom: var(--spacing-xl);">
+                    <h4 style="font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm); word-break: keep-all;">
+                        <i class="fas fa-code-compare" style="margin-right: var(--spacing-xs);"></i>개정본 비교
+                    </h4>
+                    <p id="revision-history" style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-sm); word-break: keep-all;"></p>
+                    <button id="compare-revisions" class="pwc-btn pwc-btn-secondary">
+                        <i class="fas fa-code-compare"></i> 평가한 버전 비교
+                    </button>
+                    <div id="revision-result" style="margin-top: var(--spacing-md);"></div>
+                </div>
+
                 <!-- 상세 코멘트 -->
                 <div class="pwc-alert pwc-alert-info" style="margin-bottom: var(--spacing-xl);">
                     <h4 style="font-weight: 600; margin-bottom: var(--spacing-sm); word-break: keep-all;">
@@ -3821,6 +5432,11 @@ app.get('/presentation-evaluation', (c) => {
                         </select>
                     </div>
                 </div>
+                <div class="pwc-form-group">
+                    <label class="pwc-label">발표 슬라이드 (선택, PPTX)</label>
+                    <input type="file" id="slide-deck-file" class="pwc-input" accept=".pptx">
+                    <p id="slide-deck-status" style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-top: var(--spacing-xs); word-break: keep-all;">슬라이드를 업로드하면 발표 스크립트와 슬라이드 정합도를 함께 평가합니다.</p>
+                </div>
             </div>
 
             <!-- 녹화 섹션 -->
@@ -3974,6 +5590,7 @@ app.get('/presentation-evaluation', (c) => {
                             <div id="filler-words" style="font-size: 1.25rem; font-weight: 700;">- 개</div>
                         </div>
                     </div>
+                    <div id="audio-analysis-detail" class="hidden" style="margin-top: var(--spacing-md); font-size: 0.875rem; color: var(--pwc-gray-700);"></div>
                 </div>
             </div>
 
@@ -4026,6 +5643,21 @@ app.get('/presentation-evaluation', (c) => {
                         <i class="fas fa-trophy" style="position: absolute; top: var(--spacing-md); right: var(--spacing-md); color: var(--pwc-orange); font-size: 2rem; opacity: 0.3; animation: pulse 2s infinite;"></i>
                     </div>
 
+                    <!-- 슬라이드 정합도 (슬라이드 업로드 시) -->
+                    <div id="slide-alignment" class="hidden" style="margin-bottom: var(--spacing-xl);"></div>
+
+                    <!-- 근거 코멘트 (클릭 시 발표 스크립트 인용 강조) -->
+                    <div id="evidence-comments" class="hidden" style="margin-bottom: var(--spacing-xl);">
+                        <h3 style="font-size: 1.125rem; font-weight: 600; color: var(--pwc-navy); margin-bottom: var(--spacing-sm);">
+                            <i class="fas fa-quote-left" style="color: var(--pwc-orange); margin-right: var(--spacing-sm);"></i>근거 코멘트
+                        </h3>
+                        <p style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-sm); word-break: keep-all;">코멘트를 클릭하면 근거가 된 발표 스크립트 구간이 강조됩니다.</p>
+                        <div class="pwc-grid pwc-grid-2" style="gap: var(--spacing-md);">
+                            <div id="evidence-comment-list" style="max-height: 420px; overflow-y: auto;"></div>
+                            <div id="evidence-transcript" style="max-height: 420px; overflow-y: auto; white-space: pre-wrap; font-size: 0.85rem; line-height: 1.6; padding: var(--spacing-md); background: var(--pwc-gray-50); border-radius: var(--radius-md); word-break: keep-all;"></div>
+                        </div>
+                    </div>
+
                     <!-- 다음 단계 버튼 -->
                     <div class="pwc-text-center">
                         <button onclick="window.location.href='/results'" class="pwc-btn pwc-btn-primary pwc-btn-lg" style="display: inline-flex; align-items: center; gap: var(--spacing-sm); font-size: 1.125rem; padding: var(--spacing-lg) var(--spacing-2xl);">
@@ -4034,10 +5666,118 @@ app.get('/presentation-evaluation', (c) => {
                     </div>
                 </div>
             </div>
+
+            <!-- 발표 다시보기 (서버 음성 인식 스크립트가 있을 때) -->
+            <div id="presentation-playback" class="hidden pwc-card">
+                <div class="pwc-card-header">
+                    <h2 class="pwc-card-title">
+                        <i class="fas fa-film" style="color: var(--pwc-orange); margin-right: var(--spacing-sm);"></i>
+                        발표 다시보기
+                    </h2>
+                    <p class="pwc-card-subtitle">녹화 재생 위치에 맞춰 스크립트가 따라갑니다. 피드백 마커나 단어를 누르면 해당 시점으로 이동합니다.</p>
+                </div>
+                <div class="pwc-card-content">
+                    <p id="playback-media-notice" class="hidden" style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-md); word-break: keep-all;">
+                        <i class="fas fa-info-circle" style="margin-right: var(--spacing-xs);"></i>녹화본은 서버에 저장되지 않아 녹화한 브라우저 화면에서만 재생할 수 있습니다. 새로고침하거나 다른 기기에서 열면 스크립트와 피드백 마커만 표시됩니다.
+                    </p>
+                    <video id="playback-media" controls style="width: 100%; max-height: 360px; border-radius: var(--radius-md); background: #000; margin-bottom: var(--spacing-md);"></video>
+                    <div id="playback-track" style="position: relative; height: 28px; background: var(--pwc-gray-100); border-radius: var(--radius-md); margin-bottom: var(--spacing-md); cursor: pointer; overflow: hidden;"></div>
+                    <div id="playback-summary" style="font-size: 0.875rem; color: var(--pwc-gray-700); margin-bottom: var(--spacing-md);"></div>
+                    <div class="pwc-grid pwc-grid-2" style="gap: var(--spacing-md);">
+                        <div id="playback-transcript" style="position: relative; max-height: 360px; overflow-y: auto; background: var(--pwc-gray-50); border-radius: var(--radius-md); padding: var(--spacing-md); line-height: 1.8; word-break: keep-all;"></div>
+                        <div id="playback-markers" style="max-height: 360px; overflow-y: auto;"></div>
+                    </div>
+                </div>
+            </div>
+
+            <!-- 실시간 질의응답 -->
+            <div id="live-qa" class="pwc-card">
+                <div class="pwc-card-header">
+                    <h2 class="pwc-card-title">
+                        <i class="fas fa-user-tie" style="color: var(--pwc-orange); margin-right: var(--spacing-sm);"></i>
+                        실시간 질의응답
+                    </h2>
+                    <p class="pwc-card-subtitle">발표 후 AI 가상고객이 평가위원처럼 질문합니다. 모호한 답변에는 추가 질문이 이어지고, 질의응답 점수는 통합 결과에 반영됩니다.</p>
+                </div>
+
+                <div class="pwc-flex pwc-flex-mobile-col" style="gap: var(--spacing-md); margin-bottom: var(--spacing-lg);">
+                    <button id="live-qa-start" class="pwc-btn pwc-btn-primary">
+                        <i class="fas fa-comments"></i>
+                        질의응답 시작
+                    </button>
+                    <button id="live-qa-finish" class="pwc-btn pwc-btn-secondary" disabled>
+                        <i class="fas fa-flag-checkered"></i>
+                        질의응답 종료
+                    </button>
+                </div>
+
+                <div id="live-qa-chat" class="hidden">
+                    <div id="live-qa-messages" style="max-height: 420px; overflow-y: auto; background: var(--pwc-gray-50); border-radius: var(--radius-md); padding: var(--spacing-md); margin-bottom: var(--spacing-md);"></div>
+                    <div class="pwc-form-group">
+                        <textarea id="live-qa-answer" class="pwc-input" rows="3" placeholder="답변을 입력하거나 음성으로 답변하세요"></textarea>
+                    </div>
+                    <div class="pwc-flex pwc-flex-mobile-col" style="gap: var(--spacing-md);">
+                        <button id="live-qa-voice" class="pwc-btn pwc-btn-secondary">
+                            <i class="fas fa-microphone"></i>
+                            음성 답변
+                        </button>
+                        <button id="live-qa-send" class="pwc-btn pwc-btn-primary">
+                            <i class="fas fa-paper-plane"></i>
+                            답변 보내기
+                        </button>
+                    </div>
+                    <div id="live-qa-result" class="hidden" style="margin-top: var(--spacing-lg);"></div>
+                </div>
+            </div>
+
+            <!-- 예상 질의응답 리허설 -->
+            <div id="qa-rehearsal" class="pwc-card">
+                <div class="pwc-card-header">
+                    <h2 class="pwc-card-title">
+                        <i class="fas fa-comments" style="color: var(--pwc-blue); margin-right: var(--spacing-sm);"></i>
+                        예상 질의응답 리허설
+                    </h2>
+                    <p class="pwc-card-subtitle">제안서 취약점과 가상고객의 우려사항으로 평가위원 질문을 만들고, 답변을 텍스트나 음성으로 연습합니다.</p>
+                </div>
+
+                <div class="pwc-flex pwc-flex-mobile-col" style="gap: var(--spacing-md); margin-bottom: var(--spacing-lg);">
+                    <button id="qa-generate" class="pwc-btn pwc-btn-secondary">
+                        <i class="fas fa-question-circle"></i>
+                        예상 질문 보기
+                    </button>
+                    <button id="qa-start" class="pwc-btn pwc-btn-primary">
+                        <i class="fas fa-play"></i>
+                        리허설 시작
+                    </button>
+                </div>
+
+                <div id="qa-question-list" class="hidden" style="margin-bottom: var(--spacing-lg);"></div>
+
+                <div id="qa-session" class="hidden">
+                    <div style="background: var(--pwc-gray-50); border-left: 4px solid var(--pwc-orange); border-radius: var(--radius-md); padding: var(--spacing-lg); margin-bottom: var(--spacing-md);">
+                        <div id="qa-current-label" style="font-size: 0.875rem; color: var(--pwc-gray-600); margin-bottom: var(--spacing-xs);"></div>
+                        <div id="qa-current-question" style="font-weight: 600; color: var(--pwc-navy); word-break: keep-all;"></div>
+                    </div>
+                    <div class="pwc-form-group">
+                        <textarea id="qa-answer" class="pwc-input" rows="4" placeholder="답변을 입력하거나 음성으로 답변하세요"></textarea>
+                    </div>
+                    <div class="pwc-flex pwc-flex-mobile-col" style="gap: var(--spacing-md);">
+                        <button id="qa-voice" class="pwc-btn pwc-btn-secondary">
+                            <i class="fas fa-microphone"></i>
+                            음성 답변
+                        </button>
+                        <button id="qa-submit" class="pwc-btn pwc-btn-primary">
+                            <i class="fas fa-paper-plane"></i>
+                            답변 제출
+                        </button>
+                    </div>
+                    <div id="qa-turns" style="margin-top: var(--spacing-lg);"></div>
+                </div>
+            </div>
         </div>
 
         <script src="https://cdn.jsdelivr.net/npm/axios@1.6.0/dist/axios.min.js"></script>
-        <script src="/static/presentation-evaluation.js?v=4.0"></script>
+        <script src="/static/presentation-evaluation.js?v=4.5"></script>
     </body>
     </html>
   `)
@@ -4065,6 +5805,7 @@ app.get('/results', (c) => {
         <link href="https://cdn.jsdelivr.net/npm/@fortawesome/fontawesome-free@6.4.0/css/all.min.css" rel="stylesheet">
         <link href="/static/pwc-global.css?v=3.0" rel="stylesheet">
         <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
+        <script src="/static/charts.js"></script>
     </head>
     <body>
         <header class="pwc-header">
@@ -4105,18 +5846,20 @@ app.get('/results', (c) => {
                         <div class="pwc-score-card" style="background: linear-gradient(135deg, var(--pwc-blue), var(--pwc-light-blue)); color: var(--pwc-white); border-radius: var(--radius-lg); padding: var(--spacing-lg); position: relative; overflow: hidden;">
                             <div style="position: absolute; top: -10px; right: -10px; width: 60px; height: 60px; background: rgba(255, 255, 255, 0.1); border-radius: 50%;"></div>
                             <div style="font-size: 2.25rem; font-weight: 700; margin-bottom: var(--spacing-sm);" id="proposal-weighted-score">-</div>
-                            <div style="font-size: 0.9rem; font-weight: 500; opacity: 0.9;">제안서 평가 (70%)</div>
+                            <div style="font-size: 0.9rem; font-weight: 500; opacity: 0.9;">제안서 평가 (<span class="applied-proposal-weight">70%</span>)</div>
                         </div>
                         <div class="pwc-score-card" style="background: linear-gradient(135deg, var(--pwc-purple), var(--pwc-purple-light)); color: var(--pwc-white); border-radius: var(--radius-lg); padding: var(--spacing-lg); position: relative; overflow: hidden;">
                             <div style="position: absolute; top: -10px; right: -10px; width: 60px; height: 60px; background: rgba(255, 255, 255, 0.1); border-radius: 50%;"></div>
                             <div style="font-size: 2.25rem; font-weight: 700; margin-bottom: var(--spacing-sm);" id="presentation-weighted-score">-</div>
-                            <div style="font-size: 0.9rem; font-weight: 500; opacity: 0.9;">발표 평가 (30%)</div>
+                            <div style="font-size: 0.9rem; font-weight: 500; opacity: 0.9;">발표 평가 (<span class="applied-presentation-weight">30%</span>)</div>
                         </div>
                         <div class="pwc-score-card" style="background: linear-gradient(135deg, var(--pwc-orange), var(--pwc-orange-light)); color: var(--pwc-white); border-radius: var(--radius-lg); padding: var(--spacing-lg); position: relative; overflow: hidden; border: 3px solid var(--pwc-navy);">
                             <div style="position: absolute; top: -10px; right: -10px; width: 60px; height: 60px; background: rgba(255, 255, 255, 0.2); border-radius: 50%;"></div>
                             <div style="font-size: 2.75rem; font-weight: 700; margin-bottom: var(--spacing-sm); text-shadow: 0 2px 4px rgba(0,0,0,0.2);" id="final-total-score">-</div>
                             <div style="font-size: 0.9rem; font-weight: 600; opacity: 0.95;">최종 통합 점수 (100점 만점)</div>
-                            <div style="font-size: 0.7rem; font-weight: 400; opacity: 0.8; margin-top: var(--spacing-xs);">제안서×70% + 발표×30%</div>
+                            <div style="font-size: 0.7rem; font-weight: 400; opacity: 0.8; margin-top: var(--spacing-xs);">제안서×<span class="applied-proposal-weight">70%</span> + 발표×<span class="applied-presentation-weight">30%</span></div>
+                            <div id="calibrated-win-probability" style="font-size: 0.8rem; font-weight: 600; margin-top: var(--spacing-sm); padding-top: var(--spacing-xs); border-top: 1px solid rgba(255, 255, 255, 0.3); display: none;"></div>
+                            <div id="qa-session-score" style="font-size: 0.8rem; font-weight: 600; margin-top: var(--spacing-xs); display: none;"></div>
                             <div style="position: absolute; bottom: 5px; right: 10px;">
                                 <i class="fas fa-star" style="color: var(--pwc-white); font-size: 1.2rem; opacity: 0.7;"></i>
                             </div>
@@ -4131,13 +5874,13 @@ app.get('/results', (c) => {
                                 <span style="font-weight: 600; color: var(--pwc-navy); font-size: 1rem;">최종 점수 계산 방식:</span>
                             </div>
                             <div style="display: flex; align-items: center; gap: var(--spacing-sm); font-family: 'Courier New', monospace; background: var(--pwc-white); padding: var(--spacing-sm) var(--spacing-md); border-radius: var(--radius-md); border: 1px solid var(--pwc-orange-light);">
-                                <span style="color: var(--pwc-blue); font-weight: 700;">제안서 점수 × 70%</span>
+                                <span style="color: var(--pwc-blue); font-weight: 700;">제안서 점수 × <span class="applied-proposal-weight">70%</span></span>
                                 <span style="color: var(--pwc-gray-600); font-size: 1.2rem;">+</span>
-                                <span style="color: var(--pwc-purple); font-weight: 700;">발표 점수 × 30%</span>
+                                <span style="color: var(--pwc-purple); font-weight: 700;">발표 점수 × <span class="applied-presentation-weight">30%</span></span>
                             </div>
                         </div>
                         <div style="margin-top: var(--spacing-sm); font-size: 0.875rem; color: var(--pwc-gray-600); font-style: italic;">
-                            📋 제안서가 전체 평가의 70%, 발표가 30%를 차지합니다
+                            📋 제안서가 전체 평가의 <span class="applied-proposal-weight">70%</span>, 발표가 <span class="applied-presentation-weight">30%</span>를 차지합니다 <span id="applied-weight-source"></span>
                         </div>
                     </div>
                 </div>
@@ -4265,7 +6008,19 @@ app.get('/results', (c) => {
                 </div>
             </div>
 
-
+            <!-- 섹션 × 지표 히트맵 -->
+            <div class="pwc-card" id="section-heatmap-card" style="margin-bottom: var(--spacing-xl); display: none;">
+                <div class="pwc-card-header">
+                    <h2 class="pwc-card-title">
+                        <i class="fas fa-th" style="color: var(--pwc-orange); margin-right: var(--spacing-sm);"></i>
+                        제안서 섹션별 지표 히트맵
+                    </h2>
+                    <p class="pwc-card-subtitle">섹션마다 6대 지표 점수를 표시합니다. 점수가 낮은 칸이 우선 보완할 장(章)입니다.</p>
+                </div>
+                <div class="pwc-card-content">
+                    <div id="section-heatmap"></div>
+                </div>
+            </div>
 
             <!-- 종합 피드백 -->
             <div class="pwc-card" style="margin-bottom: var(--spacing-xl);">
@@ -4415,6 +6170,7 @@ app.get('/results', (c) => {
                 const urlParams = new URLSearchParams(window.location.search);
                 const proposalEvaluationId = urlParams.get('proposal_evaluation_id');
                 const presentationEvaluationId = urlParams.get('presentation_evaluation_id');
+                const integratedEvaluationId = urlParams.get('integrated_evaluation_id');
                 let customerId = urlParams.get('customer_id');
                 
                 // If customerId is not in URL params, try to get from localStorage or find latest customer
@@ -4444,16 +6200,31 @@ app.get('/results', (c) => {
                 try {
                     let proposalData = null;
                     let presentationData = null;
+                    let integratedData = null;
                     
                     // If no URL parameters, directly show demo data
-                    if (!proposalEvaluationId && !presentationEvaluationId && !customerId) {
+                    if (!proposalEvaluationId && !presentationEvaluationId && !integratedEvaluationId && !customerId) {
                         console.log('[통합결과] No URL parameters - showing demo data');
                         updateIntegratedResultsUI(null, null, null);
                         return;
                     }
                     
+                    // 저장된 통합 결과 (질의응답 종료 시 생성) - 최종 점수와 비중은 이 결과를 그대로 사용
+                    if (integratedEvaluationId) {
+                        console.log('[통합결과] Loading integrated evaluation...');
+                        const integratedResponse = await fetch('/api/evaluations/integrated/' + integratedEvaluationId);
+                        if (integratedResponse.ok) {
+                            const result = await integratedResponse.json();
+                            integratedData = result.data;
+                            proposalData = integratedData.proposal_evaluation || null;
+                            presentationData = integratedData.presentation_evaluation || null;
+                            customerId = customerId || integratedData.customer_id;
+                            console.log('[통합결과] Integrated data loaded:', integratedData);
+                        }
+                    }
+                    
                     // Load proposal evaluation data
-                    if (proposalEvaluationId) {
+                    if (proposalEvaluationId && !proposalData) {
                         console.log('[통합결과] Loading proposal evaluation...');
                         const proposalResponse = await fetch('/api/evaluations/proposal/' + proposalEvaluationId);
                         if (proposalResponse.ok) {
@@ -4464,7 +6235,7 @@ app.get('/results', (c) => {
                     }
                     
                     // Load presentation evaluation data
-                    if (presentationEvaluationId) {
+                    if (presentationEvaluationId && !presentationData) {
                         console.log('[통합결과] Loading presentation evaluation...');
                         const presentationResponse = await fetch('/api/evaluations/presentation/' + presentationEvaluationId);
                         if (presentationResponse.ok) {
@@ -4474,8 +6245,24 @@ app.get('/results', (c) => {
                         }
                     }
                     
+                    // 통합 API와 같은 제안서/발표 비중 (제안서 평가에 적용된 프로파일 → 고객 RFP 평가기준 순)
+                    let weightProfile = integratedData?.weight_profile || proposalData?.weight_profile || null;
+                    if (!weightProfile && customerId) {
+                        try {
+                            const weightResponse = await fetch('/api/evaluations/weight-profile', {
+                                method: 'POST',
+                                headers: { 'Content-Type': 'application/json' },
+                                body: JSON.stringify({ customer_id: customerId })
+                            });
+                            const weightResult = await weightResponse.json();
+                            if (weightResult.success) weightProfile = weightResult.data;
+                        } catch (error) {
+                            console.warn('[통합결과] Failed to load weight profile:', error);
+                        }
+                    }
+                    
                     // Update UI with loaded data
-                    updateIntegratedResultsUI(proposalData, presentationData, customerId);
+                    updateIntegratedResultsUI(proposalData, presentationData, customerId, weightProfile, integratedData);
                     
                 } catch (error) {
                     console.error('[통합결과] Error loading evaluation data:', error);
@@ -4485,8 +6272,66 @@ app.get('/results', (c) => {
                 }
             }
             
-            function updateIntegratedResultsUI(proposalData, presentationData, customerId) {
-                console.log('[통합결과] Updating UI with data:', { proposalData, presentationData, customerId });
+            async function loadCalibratedWinProbability(finalScore) {
+                const element = document.getElementById('calibrated-win-probability');
+                try {
+                    const response = await fetch('/api/calibration/predict?score=' + finalScore);
+                    const result = await response.json();
+                    if (!result.success) return;
+                    
+                    const calibration = result.data;
+                    if (calibration.win_probability !== null) {
+                        element.textContent = '보정 수주 확률 ' + Math.round(calibration.win_probability * 100) + '%'
+                            + (calibration.expected_committee_score !== null ? ' · 예상 실제 점수 ' + calibration.expected_committee_score + '점' : '')
+                            + (calibration.expected_rank_standing !== null ? ' · 예상 상대 순위 ' + calibration.expected_rank_standing + '점(1위 100)' : '');
+                        element.title = '과거 입찰 결과 ' + calibration.sample_size + '건 기준 보정';
+                    } else {
+                        element.textContent = '보정 수주 확률: 입찰 결과 데이터 부족 (' + calibration.sample_size + '건)';
+                        element.title = calibration.message || '';
+                    }
+                    element.style.display = 'block';
+                } catch (error) {
+                    console.warn('[통합결과] Failed to load calibration:', error);
+                }
+            }
+            
+            // 통합 결과에 반영된 질의응답 점수와 비중 표시
+            function renderQAEvaluation(qaEvaluation) {
+                const element = document.getElementById('qa-session-score');
+                const weights = qaEvaluation.weights;
+                const percent = value => Math.round(value * 100) + '%';
+                element.textContent = '질의응답 ' + qaEvaluation.qa_score + '점 반영 (반영 전 ' + qaEvaluation.score_before_qa + '점)';
+                element.title = '제안서×' + percent(weights.proposal_weight) + ' + 발표×' + percent(weights.presentation_weight) + ' + 질의응답×' + percent(weights.qa_weight);
+                element.style.display = 'block';
+            }
+            
+            // 실제 적용된 제안서/발표 비중 (프로파일이 없으면 기본 70/30)
+            let appliedWeights = { proposal_weight: 0.7, presentation_weight: 0.3 };
+            
+            function applyWeightLabels(weightProfile) {
+                if (weightProfile) {
+                    appliedWeights = {
+                        proposal_weight: weightProfile.proposal_weight,
+                        presentation_weight: weightProfile.presentation_weight
+                    };
+                }
+                const proposalPercent = Math.round(appliedWeights.proposal_weight * 100) + '%';
+                const presentationPercent = Math.round(appliedWeights.presentation_weight * 100) + '%';
+                document.querySelectorAll('.applied-proposal-weight').forEach(element => { element.textContent = proposalPercent; });
+                document.querySelectorAll('.applied-presentation-weight').forEach(element => { element.textContent = presentationPercent; });
+                
+                const sourceLabels = { rfp: 'RFP 평가기준 배점 기준', persona: '고객 페르소나 가중치 기준', custom: '사용자 수정 비중', default: '기본 비중' };
+                document.getElementById('applied-weight-source').textContent = weightProfile ? '(' + (sourceLabels[weightProfile.source] || '기본 비중') + ')' : '(기본 비중)';
+            }
+            
+            function updateIntegratedResultsUI(proposalData, presentationData, customerId, weightProfile, integratedData) {
+                console.log('[통합결과] Updating UI with data:', { proposalData, presentationData, customerId, weightProfile, integratedData });
+                applyWeightLabels(weightProfile);
+                // 질의응답을 반영한 통합 결과면 질의응답 비중만큼 축소된 제안서/발표 비중 사용
+                const qaEvaluation = integratedData?.qa_evaluation;
+                if (qaEvaluation) {
+                    applyWeightLabels({ ...weightProfile, proposal_weight: qaEvaluation.weights.proposal_weight, presentation_weight: qaEvaluation.weights.presentation_weight });
+                }
                 
                 // Calculate scores (100-point system) - Use actual data only
                 const proposalScore = proposalData?.total_score || 0;
@@ -4520,10 +6365,13 @@ app.get('/results', (c) => {
                     actualPresentationScore = 78;
                 }
                 
-                // Calculate weighted scores (70% proposal + 30% presentation)
-                const proposalWeighted = Math.round(actualProposalScore * 0.7);
-                const presentationWeighted = Math.round(actualPresentationScore * 0.3);
-                const finalScore = proposalWeighted + presentationWeighted;
+                // Calculate weighted scores (통합 API와 같은 비중 적용)
+                const proposalPercent = Math.round(appliedWeights.proposal_weight * 100) + '%';
+                const presentationPercent = Math.round(appliedWeights.presentation_weight * 100) + '%';
+                // 저장된 통합 결과가 있으면 서버가 산출한 점수(질의응답 포함)를 그대로 표시
+                const proposalWeighted = integratedData ? integratedData.weighted_scores.proposal_weighted : Math.round(actualProposalScore * appliedWeights.proposal_weight);
+                const presentationWeighted = integratedData ? integratedData.weighted_scores.presentation_weighted : Math.round(actualPresentationScore * appliedWeights.presentation_weight);
+                const finalScore = integratedData ? integratedData.final_score : Math.round(actualProposalScore * appliedWeights.proposal_weight + actualPresentationScore * appliedWeights.presentation_weight);
                 
                 console.log('[통합결과] Calculated scores:', { 
                     actualProposalScore, actualPresentationScore, 
@@ -4536,15 +6384,23 @@ app.get('/results', (c) => {
                 document.getElementById('presentation-weighted-score').textContent = presentationWeighted + '점';
                 document.getElementById('final-total-score').textContent = finalScore + '점';
                 
+                // 과거 입찰 결과로 보정한 수주 확률 (실제 데이터가 있을 때만)
+                if (hasAnyData) {
+                    loadCalibratedWinProbability(finalScore);
+                }
+                if (qaEvaluation) {
+                    renderQAEvaluation(qaEvaluation);
+                }
+                
                 // Add calculation details tooltip or subtitle if elements exist
                 const proposalElement = document.getElementById('proposal-weighted-score');
                 const presentationElement = document.getElementById('presentation-weighted-score');
                 
                 if (proposalElement) {
-                    proposalElement.title = '원점수 ' + actualProposalScore + '점 × 70% = ' + proposalWeighted + '점';
+                    proposalElement.title = '원점수 ' + actualProposalScore + '점 × ' + proposalPercent + ' = ' + proposalWeighted + '점';
                 }
                 if (presentationElement) {
-                    presentationElement.title = '원점수 ' + actualPresentationScore + '점 × 30% = ' + presentationWeighted + '점';
+                    presentationElement.title = '원점수 ' + actualPresentationScore + '점 × ' + presentationPercent + ' = ' + presentationWeighted + '점';
                 }
                 
                 // Add tooltip for average scores
@@ -4552,10 +6408,10 @@ app.get('/results', (c) => {
                 const presentationAvgElement = document.getElementById('presentation-average-score');
                 
                 if (proposalAvgElement) {
-                    proposalAvgElement.title = '가중치 적용: ' + actualProposalScore + '점 × 70% = ' + proposalWeighted + '점';
+                    proposalAvgElement.title = '가중치 적용: ' + actualProposalScore + '점 × ' + proposalPercent + ' = ' + proposalWeighted + '점';
                 }
                 if (presentationAvgElement) {
-                    presentationAvgElement.title = '가중치 적용: ' + actualPresentationScore + '점 × 30% = ' + presentationWeighted + '점';
+                    presentationAvgElement.title = '가중치 적용: ' + actualPresentationScore + '점 × ' + presentationPercent + ' = ' + presentationWeighted + '점';
                 }
 
                 
@@ -4591,6 +6447,12 @@ app.get('/results', (c) => {
                     updateDetailedScores('proposal', proposalScores);
                 }
                 
+                // 섹션 × 지표 히트맵 (실제 제안서 평가에 섹션 점수가 있을 때만)
+                if (proposalData?.section_scores && Object.keys(proposalData.section_scores).length > 0) {
+                    document.getElementById('section-heatmap-card').style.display = 'block';
+                    chartManager.createSectionHeatmap('section-heatmap', proposalData.section_scores);
+                }
+                
                 if (presentationScores) {
                     updateDetailedScores('presentation', presentationScores);
                 }
@@ -4766,6 +6628,8 @@ app.get('/results', (c) => {
                 if (window.radarChart && window.radarChart.data && window.radarChart.data.datasets) {
                     window.radarChart.data.datasets[0].data = proposalData;
                     window.radarChart.data.datasets[1].data = presentationData;
+                    window.radarChart.data.datasets[0].label = '제안서 평가 (가중치 ' + Math.round(appliedWeights.proposal_weight * 100) + '%)';
+                    window.radarChart.data.datasets[1].label = '발표 평가 (가중치 ' + Math.round(appliedWeights.presentation_weight * 100) + '%)';
                     window.radarChart.update();
                 } else {
                     // Create new radar chart with 100-point scale
@@ -4774,7 +6638,7 @@ app.get('/results', (c) => {
                         data: {
                             labels: ['명확성', '전문성', '설득력', '논리성', '창의성', '신뢰성'],
                             datasets: [{
-                                label: '제안서 평가 (가중치 70%)',
+                                label: '제안서 평가 (가중치 ' + Math.round(appliedWeights.proposal_weight * 100) + '%)',
                                 data: proposalData,
                                 backgroundColor: 'rgba(59, 130, 246, 0.1)',
                                 borderColor: '#3B82F6',
@@ -4783,7 +6647,7 @@ app.get('/results', (c) => {
                                 pointBorderWidth: 2,
                                 borderWidth: 2
                             }, {
-                                label: '발표 평가 (가중치 30%)',
+                                label: '발표 평가 (가중치 ' + Math.round(appliedWeights.presentation_weight * 100) + '%)',
                                 data: presentationData,
                                 backgroundColor: 'rgba(168, 85, 247, 0.1)',
                                 borderColor: '#A855F7',
@@ -1,6 +1,29 @@
 import { OpenAI } from 'openai'
 import type { DeepResearchData, RfpAnalysisData, AIVirtualCustomer } from '../types/ai-customer'
 
+// 제안서 청크 평가: 청크당 본문 분량과 동시 호출 수
+const PROPOSAL_CHUNK_SIZE = 6000
+const PROPOSAL_CHUNK_CONCURRENCY = 4
+// 전체 청크 평가 시간 상한 (남은 시간이 호출 1회 타임아웃보다 짧으면 다음 배치를 시작하지 않음)
+const PROPOSAL_CHUNK_TIME_BUDGET_MS = 120000
+
+export interface ProposalChunk {
+  section: string
+  section_label: string
+  chunk_index: number
+  chunk_count: number
+  content: string
+}
+
+export interface ProposalChunkEvaluation {
+  chunk: ProposalChunk
+  scores: Record<string, { score: number; comment: string; evidence?: string[] }>
+  section_score: number
+  section_comment: string
+  strengths: string[]
+  improvements: string[]
+}
+
 /**
  * 분할 처리 기반 OpenAI 서비스
  * - 각 API 호출을 30초 이내로 제한
@@ -280,6 +303,96 @@ JSON 응답:
     })
   }
 
+  /**
+   * 제안서 섹션을 청크로 나눠 병렬 평가 (map 단계) - 실패하거나 시간 상한으로 생략된 청크는 결과에서 제외
+   */
+  async evaluateProposalChunked(
+    sections: Array<{ section: string; section_label: string; content: string }>,
+    evaluatorContext: string,
+    model = 'gpt-4o'
+  ): Promise<ProposalChunkEvaluation[]> {
+    const chunks: ProposalChunk[] = sections.flatMap(({ section, section_label, content }) => {
+      const parts = splitIntoChunks(content, PROPOSAL_CHUNK_SIZE)
+      return parts.map((part, index) => ({
+        section,
+        section_label,
+        chunk_index: index + 1,
+        chunk_count: parts.length,
+        content: part
+      }))
+    })
+
+    console.log(`🧩 [ChunkedOpenAI] 제안서 청크 평가 시작: ${sections.length}개 섹션 → ${chunks.length}개 청크`)
+    const startTime = Date.now()
+
+    const results: ProposalChunkEvaluation[] = []
+    for (let i = 0; i < chunks.length; i += PROPOSAL_CHUNK_CONCURRENCY) {
+      if (Date.now() - startTime + this.maxTimeout > PROPOSAL_CHUNK_TIME_BUDGET_MS) {
+        console.log(`⏰ [ChunkedOpenAI] 청크 평가 시간 상한(${PROPOSAL_CHUNK_TIME_BUDGET_MS}ms) 도달: ${chunks.length - i}개 청크 생략`)
+        break
+      }
+      const batch = chunks.slice(i, i + PROPOSAL_CHUNK_CONCURRENCY)
+      const evaluated = await Promise.all(batch.map(chunk => this.evaluateProposalChunk(chunk, evaluatorContext, model)))
+      results.push(...evaluated.filter((result): result is ProposalChunkEvaluation => result !== null))
+    }
+
+    console.log(`✅ [ChunkedOpenAI] 제안서 청크 평가 완료: ${results.length}/${chunks.length}개 성공 (${Date.now() - startTime}ms)`)
+    return results
+  }
+
+  /**
+   * 제안서 청크 1개 평가 - 6대 지표와 섹션 점수
+   */
+  private async evaluateProposalChunk(chunk: ProposalChunk, evaluatorContext: string, model: string): Promise<ProposalChunkEvaluation | null> {
+    const position = chunk.chunk_count > 1 ? ` (${chunk.chunk_index}/${chunk.chunk_count})` : ''
+    const prompt = `${evaluatorContext}
+
+아래는 제안서의 【${chunk.section_label}】 섹션${position}입니다. 이 부분만 근거로 평가해주세요 (각 100점 만점, 코멘트 80자 이내, 본문에 없는 내용 추측 금지, evidence에는 근거 문장을 원문 그대로 인용):
+
+${chunk.content}
+
+JSON 응답:
+{
+  "scores": {
+    "clarity": {"score":80,"comment":"명확성 근거","evidence":["근거 원문 인용"]},
+    "expertise": {"score":80,"comment":"전문성 근거","evidence":["근거 원문 인용"]},
+    "persuasiveness": {"score":80,"comment":"설득력 근거","evidence":["근거 원문 인용"]},
+    "logic": {"score":80,"comment":"논리성 근거","evidence":["근거 원문 인용"]},
+    "creativity": {"score":80,"comment":"창의성 근거","evidence":["근거 원문 인용"]},
+    "reliability": {"score":80,"comment":"신뢰성 근거","evidence":["근거 원문 인용"]}
+  },
+  "section_score": 80,
+  "section_comment": "이 부분에 대한 종합 코멘트",
+  "strengths": ["강점"],
+  "improvements": ["개선점"]
+}`
+
+    return this.safeAPICall<ProposalChunkEvaluation | null>(async () => {
+      const response = await this.openai.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.3,
+        max_tokens: 800,
+        response_format: { type: "json_object" }
+      })
+
+      const content = response.choices[0].message.content
+      if (!content) throw new Error('GPT-4o 응답이 비어있습니다')
+
+      const parsed = JSON.parse(content)
+      if (!parsed.scores) throw new Error('지표 점수가 없는 응답입니다')
+
+      return {
+        chunk,
+        scores: parsed.scores,
+        section_score: Number(parsed.section_score) || 0,
+        section_comment: parsed.section_comment || '',
+        strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
+        improvements: Array.isArray(parsed.improvements) ? parsed.improvements : []
+      }
+    }, null, `제안서 청크 ${chunk.section}${position}`)
+  }
+
   /**
    * RFP 분석 분할 생성 - 핵심/세부/조건 3단계 순차 처리
    */
@@ -656,4 +769,32 @@ JSON 응답:
       15: { id: "15", name: "특이조건/기타 요구", content: "24시간 지원 체계", source_snippet: "문서 기반 추출", page_number: 3, section_title: "특이사항", extracted_at: timestamp }
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 문단 경계 기준으로 텍스트를 maxChars 이하 청크로 분할 (긴 문단은 강제로 자름)
+ */
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of text.split(/\n\s*\n|\n/).map(line => line.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length + 1 > maxChars) {
+      chunks.push(current)
+      current = ''
+    }
+    for (let offset = 0; offset < paragraph.length; offset += maxChars) {
+      const piece = paragraph.substring(offset, offset + maxChars)
+      if (piece.length === maxChars) {
+        if (current) chunks.push(current)
+        chunks.push(piece)
+        current = ''
+      } else {
+        current = current ? current + '\n' + piece : piece
+      }
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
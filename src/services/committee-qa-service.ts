@@ -0,0 +1,523 @@
+// 평가위원 예상 질의응답 서비스 - 제안서 취약점·고객 우려사항 기반 질문/모범답변 생성, 리허설 답변 채점 및 꼬리질문
+
+import { OpenAIService } from './openai-service'
+import { PROPOSAL_SECTION_LABELS, type ProposalSectionKey } from './file-parser'
+import { extractKeywords } from './requirement-traceability-service'
+
+export type QuestionSource = 'weak_metric' | 'improvement_area' | 'missing_section' | 'concern'
+export type AnswerInputMode = 'text' | 'voice'
+
+export interface ExpectedQuestion {
+  id: string
+  question: string
+  source: QuestionSource
+  topic: string
+  // 질문이 나온 취약점/우려사항
+  rationale: string
+  recommended_answer: string
+  // 좋은 답변에 들어가야 할 요소 (ANSWER_POINTS 키)
+  answer_points: string[]
+  difficulty: 'high' | 'medium'
+}
+
+export interface AnswerScore {
+  score: number
+  relevance: number
+  completeness: number
+  specificity: number
+  confidence: number
+  covered_points: string[]
+  missed_points: string[]
+  feedback: string
+}
+
+export interface RehearsalTurn {
+  question_id: string
+  question: string
+  is_follow_up: boolean
+  answer: string
+  input_mode: AnswerInputMode
+  evaluation: AnswerScore
+  answered_at: string
+}
+
+export interface RehearsalSession {
+  id: string
+  customer_id: string
+  proposal_evaluation_id?: string
+  questions: ExpectedQuestion[]
+  turns: RehearsalTurn[]
+  // 다음에 답할 질문 (완료 시 null)
+  current: {
+    question_index: number
+    question: string
+    is_follow_up: boolean
+    follow_up_count: number
+    // 꼬리질문이 확인하려는 답변 요소 (직전 답변에서 빠진 요소)
+    answer_points?: string[]
+  } | null
+  status: 'in_progress' | 'completed'
+  summary?: { average_score: number; answered: number; weakest_question?: string; follow_ups: number }
+  created_at: string
+}
+
+export const DEFAULT_QUESTION_COUNT = 5
+// 질문당 꼬리질문 최대 횟수, 이 점수 미만이면 꼬리질문
+const MAX_FOLLOW_UPS = 1
+const FOLLOW_UP_THRESHOLD = 70
+
+// 답변 요소별 탐지 단서
+export const ANSWER_POINTS: Record<string, { label: string; cue: RegExp }> = {
+  quantitative: { label: '정량 근거', cue: /\d+(?:\.\d+)?\s*(?:%|퍼센트|건|명|억|만원|원|개월|주|일|배|시간)/ },
+  reference: { label: '유사 사례·실적', cue: /사례|실적|레퍼런스|수행\s*경험|구축\s*경험|프로젝트\s*경험/ },
+  schedule: { label: '일정·마일스톤', cue: /일정|마일스톤|단계|주차|개월|착수|오픈/ },
+  ownership: { label: '책임 조직·인력', cue: /PM|책임자|전담|조직|인력|팀|투입/ },
+  risk: { label: '리스크 대응', cue: /리스크|위험|대응|완화|비상|백업|이중화/ },
+  cost: { label: '비용·효과', cue: /비용|절감|ROI|예산|효과|투자/ },
+  technical: { label: '기술 방안', cue: /아키텍처|기술|솔루션|플랫폼|표준|설계|연계/ },
+  guarantee: { label: '보장·SLA', cue: /SLA|보장|보증|책임지|유지보수|하자/ },
+  differentiation: { label: '차별화', cue: /차별|혁신|독자|특허|신기술|경쟁사/ }
+}
+
+const METRIC_QUESTIONS: Record<string, { label: string; question: string; points: string[] }> = {
+  clarity: { label: '명확성', question: '제안의 핵심 범위와 기대효과를 한 문장으로 정리하면 무엇입니까? 저희가 얻는 결과물이 정확히 무엇인지 설명해 주십시오.', points: ['technical', 'cost', 'schedule'] },
+  expertise: { label: '전문성', question: '제안하신 기술 방안이 실제로 검증된 것인지, 적용 기술과 유사 사례를 근거로 설명해 주시겠습니까?', points: ['technical', 'reference', 'quantitative'] },
+  persuasiveness: { label: '설득력', question: '이 사업에 투자했을 때 저희가 얻는 효과를 수치로 제시해 주실 수 있습니까? 다른 대안보다 나은 이유는 무엇입니까?', points: ['cost', 'quantitative', 'differentiation'] },
+  logic: { label: '논리성', question: '현황 문제에서 제안 방안, 기대효과로 이어지는 근거가 약해 보입니다. 단계별로 어떻게 연결되는지 설명해 주십시오.', points: ['technical', 'schedule', 'quantitative'] },
+  creativity: { label: '창의성', question: '경쟁 제안과 비교해 귀사 제안만의 차별화 요소는 무엇입니까?', points: ['differentiation', 'technical', 'reference'] },
+  reliability: { label: '신뢰성', question: '일정이 지연되거나 핵심 인력이 이탈하면 어떻게 대응하시겠습니까? 수행을 보장할 수 있는 근거를 말씀해 주십시오.', points: ['risk', 'ownership', 'guarantee'] }
+}
+
+// 가상고객 우려사항 키별 답변 요소
+const CONCERN_POINTS: Record<string, string[]> = {
+  technical_risk: ['technical', 'risk', 'reference'],
+  financial_risk: ['cost', 'quantitative', 'guarantee'],
+  timeline_risk: ['schedule', 'ownership', 'risk'],
+  operational_risk: ['risk', 'technical', 'guarantee'],
+  vendor_risk: ['reference', 'ownership', 'guarantee']
+}
+
+const HEDGE_PATTERN = /아마|글쎄|잘\s*모르|확인\s*후|검토해\s*보|추후|것\s*같습니다|어\.\.\.|음\.\.\./g
+
+export class CommitteeQAService {
+  private openaiService?: OpenAIService
+
+  constructor(env: { OPENAI_API_KEY?: string }) {
+    if (env.OPENAI_API_KEY) {
+      this.openaiService = new OpenAIService(env.OPENAI_API_KEY)
+    }
+  }
+
+  /**
+   * 제안서 취약점과 고객 우려사항에서 예상 질문·모범답변 생성 (LLM 실패 시 규칙 기반)
+   */
+  async generateQuestions(customer: any, proposalEvaluation: any | null, count = DEFAULT_QUESTION_COUNT): Promise<ExpectedQuestion[]> {
+    const candidates = collectQuestionCandidates(customer, proposalEvaluation).slice(0, count)
+
+    if (this.openaiService && candidates.length > 0) {
+      try {
+        const refined = await this.refineWithLLM(customer, proposalEvaluation, candidates)
+        console.log(`❓ 예상 질문 생성 (LLM): ${refined.length}개`)
+        return refined
+      } catch (error) {
+        console.warn('⚠️ LLM 예상 질문 생성 실패, 규칙 기반 사용:', (error as Error).message)
+      }
+    }
+
+    console.log(`❓ 예상 질문 생성 (규칙 기반): ${candidates.length}개`)
+    return candidates
+  }
+
+  /**
+   * 리허설 세션 시작 (첫 질문 제시) - 직접 입력한 질문은 빠진 필드를 채워 사용
+   */
+  startRehearsal(customerId: string, inputQuestions: Array<Partial<ExpectedQuestion> | string>, proposalEvaluationId?: string): RehearsalSession {
+    const questions: ExpectedQuestion[] = inputQuestions
+      .map(entry => typeof entry === 'string' ? { question: entry } : entry)
+      .filter(entry => typeof entry?.question === 'string' && entry.question.trim())
+      .map((entry, index) => ({
+        id: entry.id || `q${index + 1}`,
+        question: entry.question!.trim(),
+        source: entry.source || 'concern',
+        topic: entry.topic || '',
+        rationale: entry.rationale || '',
+        recommended_answer: entry.recommended_answer || '',
+        answer_points: Array.isArray(entry.answer_points) && entry.answer_points.length
+          ? entry.answer_points
+          : pointsFromText(entry.question!),
+        difficulty: entry.difficulty || 'medium'
+      }))
+    if (questions.length === 0) {
+      throw new Error('리허설할 예상 질문이 없습니다.')
+    }
+
+    return {
+      id: `rehearsal-${Date.now()}`,
+      customer_id: customerId,
+      proposal_evaluation_id: proposalEvaluationId,
+      questions,
+      turns: [],
+      current: { question_index: 0, question: questions[0].question, is_follow_up: false, follow_up_count: 0 },
+      status: 'in_progress',
+      created_at: new Date().toISOString()
+    }
+  }
+
+  /**
+   * 현재 질문에 대한 답변 채점 후 꼬리질문 또는 다음 질문으로 진행
+   */
+  async answer(customer: any, session: RehearsalSession, answer: string, inputMode: AnswerInputMode = 'text'): Promise<RehearsalSession> {
+    if (session.status === 'completed' || !session.current) {
+      throw new Error('이미 완료된 리허설입니다.')
+    }
+
+    const current = session.current
+    const question = session.questions[current.question_index]
+    const heuristic = scoreAnswer(question, current.question, answer, inputMode, current.answer_points)
+
+    let evaluation = heuristic
+    let followUp: string | null = null
+    if (this.openaiService) {
+      try {
+        const judged = await this.judgeWithLLM(customer, question, current.question, answer, heuristic)
+        evaluation = judged.evaluation
+        followUp = judged.follow_up
+      } catch (error) {
+        console.warn('⚠️ LLM 답변 채점 실패, 규칙 기반 사용:', (error as Error).message)
+      }
+    }
+
+    const turns: RehearsalTurn[] = [...session.turns, {
+      question_id: question.id,
+      question: current.question,
+      is_follow_up: current.is_follow_up,
+      answer,
+      input_mode: inputMode,
+      evaluation,
+      answered_at: new Date().toISOString()
+    }]
+
+    let next: RehearsalSession['current'] = null
+    if (evaluation.score < FOLLOW_UP_THRESHOLD && current.follow_up_count < MAX_FOLLOW_UPS) {
+      next = {
+        question_index: current.question_index,
+        question: followUp || buildFollowUp(evaluation.missed_points),
+        is_follow_up: true,
+        follow_up_count: current.follow_up_count + 1,
+        answer_points: evaluation.missed_points.length ? evaluation.missed_points : undefined
+      }
+    } else if (current.question_index + 1 < session.questions.length) {
+      const index = current.question_index + 1
+      next = { question_index: index, question: session.questions[index].question, is_follow_up: false, follow_up_count: 0 }
+    }
+
+    console.log(`🎙️ 리허설 답변 채점: ${session.id} Q${current.question_index + 1}${current.is_follow_up ? '(꼬리)' : ''} ${evaluation.score}점`)
+
+    return {
+      ...session,
+      turns,
+      current: next,
+      status: next ? 'in_progress' : 'completed',
+      summary: next ? undefined : summarizeTurns(session.questions, turns)
+    }
+  }
+
+  private async refineWithLLM(customer: any, proposalEvaluation: any | null, candidates: ExpectedQuestion[]): Promise<ExpectedQuestion[]> {
+    const prompt = `당신은 ${customer.company_name || '고객사'}의 ${customer.customer_type || customer.department || '평가위원'}입니다. (${customer.persona_summary || ''})
+아래는 제안서 평가에서 드러난 취약점과 당신의 우려사항입니다. 항목마다 발표 후 질의응답에서 실제로 던질 날카로운 질문 1개와, 제안사가 제안서 내용을 근거로 할 수 있는 모범 답변(3-4문장)을 작성하세요.
+
+${candidates.map((candidate, index) => `${index + 1}. [${candidate.topic}] ${candidate.rationale}`).join('\n')}
+
+제안서 발췌:
+${(proposalEvaluation?.proposal_content || '').slice(0, 3000)}
+
+JSON 응답: {"questions": [{"question": "질문", "recommended_answer": "모범 답변"}]} (위 항목 순서와 개수 그대로)`
+
+    const response = await this.openaiService!.generateCompletion(prompt, { max_tokens: 2000, temperature: 0.5, json_mode: true })
+    const parsed = JSON.parse(response)
+    if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
+      throw new Error('질문 목록이 없는 응답입니다')
+    }
+
+    return candidates.map((candidate, index) => ({
+      ...candidate,
+      question: parsed.questions[index]?.question || candidate.question,
+      recommended_answer: parsed.questions[index]?.recommended_answer || candidate.recommended_answer
+    }))
+  }
+
+  private async judgeWithLLM(
+    customer: any,
+    question: ExpectedQuestion,
+    askedQuestion: string,
+    answer: string,
+    heuristic: AnswerScore
+  ): Promise<{ evaluation: AnswerScore; follow_up: string | null }> {
+    const prompt = `당신은 ${customer.company_name || '고객사'}의 평가위원입니다. 질의응답 리허설에서 제안사의 답변을 채점하세요.
+
+질문: ${askedQuestion}
+질문 의도: ${question.rationale}
+좋은 답변 요소: ${[...heuristic.covered_points, ...heuristic.missed_points].map(point => ANSWER_POINTS[point]?.label || point).join(', ')}
+제안사 답변: ${answer}
+
+각 항목 0-100점. 점수가 ${FOLLOW_UP_THRESHOLD}점 미만이면 부족한 부분을 파고드는 꼬리질문을 작성하세요.
+JSON 응답: {"relevance": 80, "completeness": 70, "specificity": 60, "confidence": 80, "feedback": "답변 피드백 1-2문장", "follow_up": "꼬리질문 또는 null"}`
+
+    const response = await this.openaiService!.generateCompletion(prompt, { max_tokens: 600, temperature: 0.3, json_mode: true })
+    const parsed = JSON.parse(response)
+    const part = (value: unknown, fallback: number) => Number.isFinite(Number(value)) ? Math.max(0, Math.min(100, Math.round(Number(value)))) : fallback
+
+    const relevance = part(parsed.relevance, heuristic.relevance)
+    const completeness = part(parsed.completeness, heuristic.completeness)
+    const specificity = part(parsed.specificity, heuristic.specificity)
+    const confidence = part(parsed.confidence, heuristic.confidence)
+
+    return {
+      evaluation: {
+        ...heuristic,
+        relevance,
+        completeness,
+        specificity,
+        confidence,
+        score: weightAnswerScore(relevance, completeness, specificity, confidence),
+        feedback: parsed.feedback || heuristic.feedback
+      },
+      follow_up: typeof parsed.follow_up === 'string' && parsed.follow_up.trim() ? parsed.follow_up.trim() : null
+    }
+  }
+}
+
+type QuestionDraft = Omit<ExpectedQuestion, 'id' | 'recommended_answer'>
+
+/**
+ * 제안서 취약점(취약 지표 → 개선 필요 사항 → 누락 섹션)과 고객 우려사항을 번갈아 배치해 질문 후보 구성
+ */
+function collectQuestionCandidates(customer: any, evaluation: any | null): ExpectedQuestion[] {
+  const proposalText: string = evaluation?.proposal_content || ''
+  const weakSpots: QuestionDraft[] = []
+  const push = (entry: QuestionDraft) => weakSpots.push(entry)
+
+  // 점수가 낮은 지표 2개
+  const weakMetrics = Object.entries(evaluation?.scores || {})
+    .map(([metric, entry]: [string, any]) => ({ metric: metric === 'credibility' ? 'reliability' : metric, score: Number(entry?.score) || 0, comment: entry?.comment || '' }))
+    .filter(entry => METRIC_QUESTIONS[entry.metric] && entry.score < 80)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, 2)
+  for (const weak of weakMetrics) {
+    const template = METRIC_QUESTIONS[weak.metric]
+    push({
+      question: template.question,
+      source: 'weak_metric',
+      topic: template.label,
+      rationale: `${template.label} ${weak.score}점 - ${weak.comment}`.trim(),
+      answer_points: template.points,
+      difficulty: weak.score < 60 ? 'high' : 'medium'
+    })
+  }
+
+  for (const area of (evaluation?.improvement_areas || []).slice(0, 2) as string[]) {
+    const [topic, detail] = area.includes(':') ? area.split(/:\s*/, 2) : ['개선 필요 사항', area]
+    push({
+      question: `제안서에서 ${topic} 측면이 부족해 보입니다. "${detail}"라는 지적에 어떻게 답하시겠습니까?`,
+      source: 'improvement_area',
+      topic,
+      rationale: area,
+      answer_points: pointsFromText(area),
+      difficulty: 'medium'
+    })
+  }
+
+  for (const section of (evaluation?.missing_sections || []).slice(0, 2) as ProposalSectionKey[]) {
+    const label = PROPOSAL_SECTION_LABELS[section] || section
+    push({
+      question: `제안서에 ${label} 내용이 보이지 않습니다. ${label}은(는) 어떻게 계획하고 계십니까?`,
+      source: 'missing_section',
+      topic: label,
+      rationale: `제안서에 ${label} 섹션 누락`,
+      answer_points: pointsFromText(label),
+      difficulty: 'high'
+    })
+  }
+
+  const concerns: QuestionDraft[] = collectConcerns(customer).map(concern => ({
+    question: concern.question,
+    source: 'concern',
+    topic: concern.label,
+    rationale: `고객 우려사항 - ${concern.text}`,
+    answer_points: concern.points,
+    difficulty: 'high'
+  }))
+
+  // 취약점 2개당 우려사항 1개
+  const drafts: QuestionDraft[] = []
+  while (weakSpots.length || concerns.length) {
+    drafts.push(...weakSpots.splice(0, 2), ...concerns.splice(0, 1))
+  }
+
+  return drafts.map((draft, index) => ({
+    ...draft,
+    id: `q${index + 1}`,
+    recommended_answer: buildRecommendedAnswer(draft, proposalText)
+  }))
+}
+
+interface CustomerConcern {
+  label: string
+  text: string
+  question: string
+  points: string[]
+}
+
+// 페르소나 우려사항 (없으면 결합 속성/RFP 리스크 관리 조건에서 도출)
+function collectConcerns(customer: any): CustomerConcern[] {
+  const concerns = customer?.integrated_persona?.concerns
+  if (concerns && typeof concerns === 'object') {
+    return Object.entries(concerns)
+      .filter(([, text]) => typeof text === 'string' && text.trim())
+      .map(([key, text]) => ({
+        label: '우려사항',
+        text: text as string,
+        question: `저희 입장에서는 "${text}" 부분이 가장 걱정됩니다. 이 우려를 어떻게 해소하시겠습니까?`,
+        points: CONCERN_POINTS[key] || pointsFromText(text as string)
+      }))
+  }
+
+  const attributes = customer?.combined_attributes || {}
+  const derived: CustomerConcern[] = []
+  if (attributes.budget_sensitivity) {
+    derived.push({
+      label: '예산',
+      text: `예산 성향 ${attributes.budget_sensitivity}`,
+      question: `저희는 예산에 대해 '${attributes.budget_sensitivity}' 성향입니다. 제안 금액 대비 효과를 어떻게 입증하시겠습니까?`,
+      points: CONCERN_POINTS.financial_risk
+    })
+  }
+  if (attributes.timeline_priority) {
+    derived.push({
+      label: '일정',
+      text: `일정 우선순위 ${attributes.timeline_priority}`,
+      question: `저희의 일정 우선순위는 '${attributes.timeline_priority}'입니다. 약속한 일정을 지킬 수 있는 근거는 무엇입니까?`,
+      points: CONCERN_POINTS.timeline_risk
+    })
+  }
+  if (attributes.risk_appetite) {
+    derived.push({
+      label: '리스크',
+      text: `리스크 성향 ${attributes.risk_appetite}`,
+      question: `저희의 리스크 성향은 '${attributes.risk_appetite}'입니다. 수행 중 문제가 생기면 어떻게 대응하시겠습니까?`,
+      points: CONCERN_POINTS.operational_risk
+    })
+  }
+
+  const riskCondition: string | undefined = customer?.rfp_analysis_data?.[12]?.content
+  if (riskCondition) {
+    derived.push({
+      label: '리스크 관리 조건',
+      text: riskCondition.slice(0, 60),
+      question: `RFP에 명시한 리스크 관리 조건("${riskCondition.slice(0, 60)}")을 어떻게 충족하시겠습니까?`,
+      points: CONCERN_POINTS.operational_risk
+    })
+  }
+  return derived
+}
+
+function pointsFromText(text: string): string[] {
+  const points = Object.entries(ANSWER_POINTS)
+    .filter(([, point]) => point.cue.test(text))
+    .map(([key]) => key)
+  return [...new Set([...points, 'quantitative', 'ownership'])].slice(0, 3)
+}
+
+// 제안서에서 질문 주제와 겹치는 문장을 근거로 결론-근거-보완 순 모범답변 구성
+function buildRecommendedAnswer(entry: Omit<ExpectedQuestion, 'id' | 'recommended_answer'>, proposalText: string): string {
+  const keywords = extractKeywords(`${entry.topic} ${entry.rationale}`)
+  const sentences = proposalText
+    .split(/(?<=[.!?다])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 10)
+  const supporting = sentences
+    .map(sentence => ({ sentence, hits: keywords.filter(keyword => sentence.includes(keyword)).length + (ANSWER_POINTS.quantitative.cue.test(sentence) ? 1 : 0) }))
+    .filter(entry => entry.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, 2)
+    .map(entry => entry.sentence)
+
+  const pointLabels = entry.answer_points.map(point => ANSWER_POINTS[point]?.label || point).join(', ')
+  return [
+    `결론부터 말씀드리면, ${entry.topic}에 대해 구체적인 실행 방안을 갖추고 있습니다.`,
+    supporting.length ? `제안서에 제시한 바와 같이 "${supporting.join('", "')}"` : `제안서에서 보완이 필요한 부분으로, 답변 시 ${pointLabels}을(를) 구체적으로 제시하십시오.`,
+    `${pointLabels}을(를) 근거로 설명하고, 책임자와 일정까지 약속하는 방식으로 답변하는 것이 좋습니다.`
+  ].join(' ')
+}
+
+/**
+ * 규칙 기반 답변 채점: 질문 관련성 25% + 답변 요소 충족 45% + 구체성 15% + 확신도 15%
+ */
+export function scoreAnswer(
+  question: ExpectedQuestion,
+  askedQuestion: string,
+  answer: string,
+  inputMode: AnswerInputMode,
+  targetPoints: string[] = question.answer_points
+): AnswerScore {
+  const text = answer.trim()
+  const questionKeywords = extractKeywords(`${askedQuestion} ${question.topic}`)
+  const matched = questionKeywords.filter(keyword => text.includes(keyword))
+  const relevance = questionKeywords.length ? Math.min(100, Math.round(matched.length / Math.min(questionKeywords.length, 4) * 100)) : 50
+
+  const covered = targetPoints.filter(point => ANSWER_POINTS[point]?.cue.test(text))
+  const missed = targetPoints.filter(point => !covered.includes(point))
+  const completeness = targetPoints.length ? Math.round(covered.length / targetPoints.length * 100) : 50
+
+  const numbers = (text.match(/\d+(?:\.\d+)?/g) || []).length
+  const specificity = Math.min(100, numbers * 25 + Math.min(50, Math.round(text.length / 6)))
+
+  // 음성 답변은 군더더기 표현도 확신도 감점에 포함
+  const hedges = (text.match(HEDGE_PATTERN) || []).length + (inputMode === 'voice' ? (text.match(/(?:^|\s)(?:음|어|그)(?=\s)/g) || []).length : 0)
+  const confidence = Math.max(0, 100 - hedges * 20)
+
+  const score = text.length < 10 ? 0 : weightAnswerScore(relevance, completeness, specificity, confidence)
+  const missedLabels = missed.map(point => ANSWER_POINTS[point]?.label || point)
+
+  return {
+    score,
+    relevance,
+    completeness,
+    specificity,
+    confidence,
+    covered_points: covered,
+    missed_points: missed,
+    feedback: score >= FOLLOW_UP_THRESHOLD
+      ? `질문 의도에 맞는 답변입니다.${missedLabels.length ? ` ${missedLabels.join(', ')}까지 덧붙이면 더 좋습니다.` : ''}`
+      : `답변이 부족합니다. ${missedLabels.length ? `${missedLabels.join(', ')}을(를) 구체적으로 제시하세요.` : '질문에 직접 답하는 결론을 먼저 말하세요.'}${hedges ? ' 불확실한 표현을 줄이세요.' : ''}`
+  }
+}
+
+export function weightAnswerScore(relevance: number, completeness: number, specificity: number, confidence: number): number {
+  return Math.round(relevance * 0.25 + completeness * 0.45 + specificity * 0.15 + confidence * 0.15)
+}
+
+function buildFollowUp(missedPoints: string[]): string {
+  const labels = missedPoints.map(point => ANSWER_POINTS[point]?.label || point)
+  return labels.length
+    ? `말씀하신 내용에 ${labels.join(', ')}이(가) 빠져 있습니다. 그 부분을 구체적으로 설명해 주시겠습니까?`
+    : '방금 답변을 뒷받침할 구체적인 근거를 하나만 더 제시해 주시겠습니까?'
+}
+
+function summarizeTurns(questions: ExpectedQuestion[], turns: RehearsalTurn[]): RehearsalSession['summary'] {
+  // 질문별 최종 답변(꼬리질문 포함 마지막 답변) 점수로 요약
+  const finalScores = questions
+    .map(question => ({ question, turn: [...turns].reverse().find(turn => turn.question_id === question.id) }))
+    .filter((entry): entry is { question: ExpectedQuestion; turn: RehearsalTurn } => !!entry.turn)
+  const weakest = finalScores.reduce<typeof finalScores[number] | null>(
+    (low, entry) => !low || entry.turn.evaluation.score < low.turn.evaluation.score ? entry : low, null)
+
+  return {
+    average_score: finalScores.length
+      ? Math.round(finalScores.reduce((sum, entry) => sum + entry.turn.evaluation.score, 0) / finalScores.length)
+      : 0,
+    answered: finalScores.length,
+    weakest_question: weakest?.question.question,
+    follow_ups: turns.filter(turn => turn.is_follow_up).length
+  }
+}
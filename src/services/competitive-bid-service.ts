@@ -0,0 +1,271 @@
+// 경쟁 입찰 시뮬레이션 서비스 - 같은 RFP의 여러 업체 제안서를 동일 가상고객·루브릭으로 평가해 순위와 업체 간 우열 근거 산출
+
+import { StorageRepository } from './storage-repository'
+import { EvaluationRunner, type EvaluationRunnerEnv, type ProposalEvaluationMode } from './evaluation-runner'
+import { resolveWeightProfile, criteriaMetricWeights, type EvaluationWeightProfile, type WeightOverrides, type EvaluationMetric, type MetricWeights } from './evaluation-weights'
+import type { ProposalSections } from '../types'
+
+// 한 번의 시뮬레이션에서 평가할 최대 업체 수 (LLM 호출 비용 상한)
+export const MAX_BIDDERS = 8
+
+const METRIC_LABELS: Record<EvaluationMetric, string> = {
+  clarity: '명확성',
+  expertise: '전문성',
+  persuasiveness: '설득력',
+  logic: '논리성',
+  creativity: '창의성',
+  credibility: '신뢰성'
+}
+
+export interface BidderInput {
+  vendor_name: string
+  // 우리 회사 제안서 여부
+  is_ours?: boolean
+  bid_price?: number
+  proposal_title?: string
+  proposal_content?: string
+  proposal_sections?: ProposalSections
+  // 이미 평가한 결과 재사용 (같은 고객으로 평가된 경우만)
+  evaluation?: any
+}
+
+// RFP 평가기준(속성 8)의 기술/가격 배점 (가격 항목이 없으면 null)
+export interface PriceTechnicalSplit {
+  technical_points: number
+  price_points: number
+  technical_ratio: number
+  price_ratio: number
+  price_criteria: string[]
+}
+
+export interface BidderResult {
+  vendor_name: string
+  is_ours: boolean
+  evaluation_id: string
+  evaluation_method?: string
+  bid_price?: number
+  metric_scores: Record<EvaluationMetric, number>
+  // 가격 외 평가항목 가중치로 합산한 동일 루브릭 기술 점수 (100점 만점)
+  technical_score: number
+  // 기술/가격 배점 적용 점수 (가격 정보가 없으면 기술 점수만 반영)
+  weighted_technical_score: number | null
+  price_score: number | null
+  final_score: number
+  rank: number
+}
+
+export interface PairwiseComparison {
+  winner: string
+  loser: string
+  margin: number
+  // 가중치를 곱한 지표별 기여 차이 (승자 기준 양수)
+  metric_contributions: Array<{ metric: EvaluationMetric; score_gap: number; weighted_gap: number }>
+  price_gap: number | null
+  explanation: string
+}
+
+export interface CompetitionResult {
+  id: string
+  customer_id: string
+  rfp_title: string
+  weight_profile: EvaluationWeightProfile
+  price_technical_split: PriceTechnicalSplit | null
+  // 기술 점수 합산에 쓴 지표 가중치 (가격 배점이 있으면 가격 항목을 뺀 평가항목 기준)
+  technical_metric_weights: MetricWeights
+  ranking_basis: 'technical_and_price' | 'technical_only'
+  bidders: BidderResult[]
+  pairwise: PairwiseComparison[]
+  our_rank: number | null
+  created_at: string
+}
+
+export class CompetitiveBidService {
+  constructor(private repository: StorageRepository, private env: EvaluationRunnerEnv) {}
+
+  /**
+   * 업체별 제안서를 같은 고객·가중치로 평가한 뒤 순위와 업체 쌍별 우열 근거 산출
+   */
+  async simulate(customer: any, input: {
+    customer_id: string
+    rfp_title?: string
+    bidders: BidderInput[]
+    weight_overrides?: WeightOverrides
+    evaluation_mode?: ProposalEvaluationMode
+  }): Promise<CompetitionResult> {
+    const weightProfile = resolveWeightProfile(customer, input.weight_overrides)
+    const split = extractPriceTechnicalSplit(weightProfile)
+    const technicalWeights = technicalMetricWeights(weightProfile, split)
+    const runner = new EvaluationRunner(this.env)
+    const competitionId = `competition-${Date.now()}`
+
+    const evaluated: Array<Omit<BidderResult, 'weighted_technical_score' | 'price_score' | 'final_score' | 'rank'>> = []
+    for (const [index, bidder] of input.bidders.entries()) {
+      let evaluation = bidder.evaluation
+      let evaluationId = evaluation?.id
+
+      if (!evaluation) {
+        evaluation = await runner.evaluateProposal(customer, {
+          customer_id: input.customer_id,
+          proposal_title: bidder.proposal_title || bidder.vendor_name,
+          proposal_content: bidder.proposal_content || '',
+          proposal_sections: bidder.proposal_sections,
+          weight_overrides: input.weight_overrides,
+          evaluation_mode: input.evaluation_mode
+        })
+        evaluationId = `eval-${Date.now()}-bidder${index + 1}`
+        await this.repository.saveProposalEvaluation({
+          ...evaluation,
+          id: evaluationId,
+          competition_id: competitionId,
+          vendor_name: bidder.vendor_name
+        })
+      }
+
+      const metricScores = extractMetricScores(evaluation.scores)
+      evaluated.push({
+        vendor_name: bidder.vendor_name,
+        is_ours: !!bidder.is_ours,
+        evaluation_id: evaluationId,
+        evaluation_method: evaluation.evaluation_method,
+        bid_price: bidder.bid_price,
+        metric_scores: metricScores,
+        // 재사용한 평가도 이번 시뮬레이션 가중치로 다시 합산해 같은 루브릭 적용
+        technical_score: weightedTotal(metricScores, technicalWeights)
+      })
+    }
+
+    // 모든 업체가 입찰가를 제출하고 RFP에 가격 배점이 있을 때만 가격 점수 반영
+    const usePrice = !!split && evaluated.every(bidder => Number(bidder.bid_price) > 0)
+    const lowestPrice = usePrice ? Math.min(...evaluated.map(bidder => bidder.bid_price!)) : 0
+
+    const bidders: BidderResult[] = evaluated
+      .map(bidder => {
+        if (!usePrice) {
+          return { ...bidder, weighted_technical_score: split ? round(bidder.technical_score * split.technical_ratio) : null, price_score: null, final_score: bidder.technical_score, rank: 0 }
+        }
+        // 가격점수 = 가격 배점 × (최저 입찰가 / 해당 입찰가)
+        const weightedTechnical = round(bidder.technical_score * split!.technical_ratio)
+        const priceScore = round(split!.price_points * lowestPrice / bidder.bid_price!)
+        return { ...bidder, weighted_technical_score: weightedTechnical, price_score: priceScore, final_score: round(weightedTechnical + priceScore), rank: 0 }
+      })
+      .sort((a, b) => b.final_score - a.final_score || b.technical_score - a.technical_score)
+      .map((bidder, index) => ({ ...bidder, rank: index + 1 }))
+
+    const pairwise: PairwiseComparison[] = []
+    for (let i = 0; i < bidders.length; i++) {
+      for (let j = i + 1; j < bidders.length; j++) {
+        pairwise.push(comparePair(bidders[i], bidders[j], technicalWeights, split, usePrice))
+      }
+    }
+
+    const result: CompetitionResult = {
+      id: competitionId,
+      customer_id: input.customer_id,
+      rfp_title: input.rfp_title || `${customer.company_name || '고객사'} 경쟁 입찰`,
+      weight_profile: weightProfile,
+      price_technical_split: split,
+      technical_metric_weights: technicalWeights,
+      ranking_basis: usePrice ? 'technical_and_price' : 'technical_only',
+      bidders,
+      pairwise,
+      our_rank: bidders.find(bidder => bidder.is_ours)?.rank ?? null,
+      created_at: new Date().toISOString()
+    }
+
+    await this.repository.saveCompetition(result)
+    console.log(`🏆 경쟁 입찰 시뮬레이션 완료: ${bidders.length}개 업체, 1위 ${bidders[0].vendor_name} (${result.ranking_basis})`)
+    return result
+  }
+}
+
+/**
+ * 평가기준 배점에서 가격 항목과 그 외(기술) 항목의 비율 산출
+ */
+export function extractPriceTechnicalSplit(profile: EvaluationWeightProfile): PriceTechnicalSplit | null {
+  const priceCriteria = profile.criteria.filter(criterion => criterion.category === 'price')
+  if (priceCriteria.length === 0) return null
+
+  const totalPoints = profile.criteria.reduce((sum, criterion) => sum + criterion.points, 0)
+  const pricePoints = priceCriteria.reduce((sum, criterion) => sum + criterion.points, 0)
+  if (totalPoints <= 0 || pricePoints >= totalPoints) return null
+
+  // 100점 만점으로 환산
+  const priceRatio = pricePoints / totalPoints
+  return {
+    technical_points: round((1 - priceRatio) * 100),
+    price_points: round(priceRatio * 100),
+    technical_ratio: round(1 - priceRatio, 3),
+    price_ratio: round(priceRatio, 3),
+    price_criteria: priceCriteria.map(criterion => criterion.label)
+  }
+}
+
+/**
+ * 기술 점수용 지표 가중치 - 가격 항목은 가격 점수로 따로 반영하므로 가격 외 평가항목 배점만으로 다시 정규화
+ */
+export function technicalMetricWeights(profile: EvaluationWeightProfile, split: PriceTechnicalSplit | null): MetricWeights {
+  if (!split) return profile.metric_weights
+  return criteriaMetricWeights(profile.criteria.filter(criterion => criterion.category !== 'price')) || profile.metric_weights
+}
+
+function comparePair(
+  winner: BidderResult,
+  loser: BidderResult,
+  metricWeights: MetricWeights,
+  split: PriceTechnicalSplit | null,
+  usePrice: boolean
+): PairwiseComparison {
+  // 기술 점수가 최종 점수에 반영되는 비율 (가격 반영 시 기술 배점 비율)
+  const technicalRatio = usePrice ? split!.technical_ratio : 1
+  const contributions = (Object.keys(METRIC_LABELS) as EvaluationMetric[])
+    .map(metric => {
+      const gap = winner.metric_scores[metric] - loser.metric_scores[metric]
+      return { metric, score_gap: gap, weighted_gap: round(gap * metricWeights[metric] * technicalRatio) }
+    })
+    .sort((a, b) => b.weighted_gap - a.weighted_gap)
+
+  const priceGap = usePrice ? round(winner.price_score! - loser.price_score!) : null
+  const margin = round(winner.final_score - loser.final_score)
+
+  const leads = contributions.filter(entry => entry.weighted_gap > 0).slice(0, 2)
+  const trails = contributions.filter(entry => entry.weighted_gap < 0).reverse().slice(0, 2)
+  const describe = (entries: typeof contributions) => entries
+    .map(entry => `${METRIC_LABELS[entry.metric]}(${entry.score_gap > 0 ? '+' : ''}${entry.score_gap}점, 총점 기여 ${entry.weighted_gap > 0 ? '+' : ''}${entry.weighted_gap})`)
+    .join('·')
+
+  const parts = [`${winner.vendor_name}이(가) ${loser.vendor_name}보다 ${margin}점 앞섭니다.`]
+  if (leads.length) parts.push(`${describe(leads)}에서 우위입니다.`)
+  if (trails.length) parts.push(`${describe(trails)}은(는) ${loser.vendor_name}이(가) 앞섰습니다.`)
+  if (priceGap !== null && priceGap !== 0) {
+    parts.push(priceGap > 0
+      ? `낮은 입찰가로 가격 점수에서 ${priceGap}점을 더 얻었습니다.`
+      : `가격 점수는 ${-priceGap}점 뒤졌지만 기술 점수 차이로 만회했습니다.`)
+  }
+  if (margin === 0) parts.push('동점이며 기술 점수 기준으로 순위를 정했습니다.')
+
+  return {
+    winner: winner.vendor_name,
+    loser: loser.vendor_name,
+    margin,
+    metric_contributions: contributions,
+    price_gap: priceGap,
+    explanation: parts.join(' ')
+  }
+}
+
+// scores 객체의 reliability 키를 가중치 키(credibility)로 통일
+function extractMetricScores(scores: any): Record<EvaluationMetric, number> {
+  return Object.fromEntries((Object.keys(METRIC_LABELS) as EvaluationMetric[]).map(metric => {
+    const entry = metric === 'credibility' ? (scores?.credibility ?? scores?.reliability) : scores?.[metric]
+    return [metric, Number(typeof entry === 'object' && entry !== null ? entry.score : entry) || 0]
+  })) as Record<EvaluationMetric, number>
+}
+
+function weightedTotal(scores: Record<EvaluationMetric, number>, weights: Record<EvaluationMetric, number>): number {
+  return round((Object.keys(METRIC_LABELS) as EvaluationMetric[]).reduce((sum, metric) => sum + scores[metric] * weights[metric], 0))
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
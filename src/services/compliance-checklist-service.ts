@@ -0,0 +1,293 @@
+// 입찰 적격성 점검 서비스 - RFP 입찰사 요건(속성 10)·준수사항(속성 11)을 점검표로 구조화하고 제안서 자동 점검
+
+import { extractKeywords } from './requirement-traceability-service'
+
+export type ComplianceItemType =
+  | 'certification'
+  | 'past_performance'
+  | 'page_limit'
+  | 'required_form'
+  | 'submission_format'
+  | 'other'
+
+export type ComplianceStatus = 'pass' | 'fail' | 'manual'
+
+export interface ComplianceItem {
+  item_id: string
+  source_attribute_id: 10 | 11
+  source_name: string
+  type: ComplianceItemType
+  requirement: string
+  threshold?: { value: number; unit: string }
+  // disqualifying: 미충족 시 실격 사유, major: 감점/보완 요구 사유
+  severity: 'disqualifying' | 'major'
+  status: ComplianceStatus
+  evidence?: string
+  reason: string
+}
+
+export interface DisqualificationRisk {
+  level: 'high' | 'medium' | 'low'
+  disqualifying_failures: number
+  major_failures: number
+  manual_checks: number
+  failed_items: string[]
+  summary: string
+}
+
+export interface ComplianceChecklist {
+  items: ComplianceItem[]
+  passed: number
+  failed: number
+  manual: number
+  risk: DisqualificationRisk
+  checked_at: string
+}
+
+export interface ComplianceContext {
+  proposal_content: string
+  // 제출 문서 정보 (없으면 페이지 제한/제출 형식은 수동 확인 항목)
+  page_count?: number
+  file_type?: string
+}
+
+const ITEM_PATTERNS: Array<{ type: ComplianceItemType; pattern: RegExp }> = [
+  { type: 'page_limit', pattern: /\d+\s*(?:페이지|쪽|매|pages?)\s*(?:이내|이하)?/i },
+  { type: 'submission_format', pattern: /PDF|HWP|DOCX|한글\s*파일|USB|CD|부수|원본|사본|제출\s*형식|전자\s*제출|온라인\s*제출/i },
+  { type: 'certification', pattern: /인증|ISO|ISMS|CMMI|자격증|면허|등록업체/i },
+  { type: 'past_performance', pattern: /실적|경험|레퍼런스|수행\s*사례/ },
+  { type: 'required_form', pattern: /NDA|비밀유지|서약|확약|협약|서식|양식|증명서|등록증|신고서|위임장/i }
+]
+
+const CERTIFICATION_NAME = /ISO\s*\/?\s*(?:IEC\s*)?\d+|ISMS(?:-P)?|CMMI(?:\s*(?:Level|레벨)\s*\d)?|GS\s*인증|[가-힣A-Za-z]+인증/gi
+const PERFORMANCE_CONTEXT = /실적|경험|레퍼런스|사례|프로젝트|수행/
+const PROHIBITION = /금지|불가|제한|허용\s*하지\s*않/
+
+const SEVERE_TYPES: ComplianceItemType[] = ['certification', 'past_performance', 'page_limit', 'required_form', 'submission_format']
+
+export class ComplianceChecklistService {
+
+  /**
+   * RFP 분석 속성 10/11로 점검표 생성 후 제안서 자동 점검
+   */
+  check(rfpAnalysisData: any, context: ComplianceContext): ComplianceChecklist {
+    const items = this.buildItems(rfpAnalysisData).map(item => ({
+      ...item,
+      ...evaluateItem(item, context)
+    }))
+
+    const count = (status: ComplianceStatus) => items.filter(item => item.status === status).length
+
+    return {
+      items,
+      passed: count('pass'),
+      failed: count('fail'),
+      manual: count('manual'),
+      risk: summarizeRisk(items),
+      checked_at: new Date().toISOString()
+    }
+  }
+
+  /**
+   * 입찰사 요건/준수사항 자유 텍스트를 항목 단위로 분리·분류
+   * 원문 발췌(source_snippet)를 우선 사용하고, 요약(content)에만 있는 항목을 보충
+   */
+  buildItems(rfpAnalysisData: any = {}): Omit<ComplianceItem, 'status' | 'reason' | 'evidence'>[] {
+    const items: Omit<ComplianceItem, 'status' | 'reason' | 'evidence'>[] = []
+
+    for (const attributeId of [10, 11] as const) {
+      const attribute = rfpAnalysisData?.[attributeId]
+      if (!attribute) continue
+
+      const fragments: string[] = []
+      for (const fragment of [...splitFragments(attribute.source_snippet), ...splitFragments(attribute.content)]) {
+        const keywords = extractKeywords(fragment)
+        // 이미 추가된 항목과 키워드 절반 이상이 겹치면 같은 항목으로 간주
+        const duplicate = fragments.some(existing => {
+          const existingKeywords = extractKeywords(existing)
+          const overlap = keywords.filter(keyword => existingKeywords.some(other => other.includes(keyword) || keyword.includes(other)))
+          return keywords.length > 0 && overlap.length / keywords.length >= 0.5
+        })
+        if (!duplicate) fragments.push(fragment)
+      }
+
+      for (const fragment of fragments) {
+        const type = ITEM_PATTERNS.find(entry => entry.pattern.test(fragment))?.type || 'other'
+        // 분류되지 않는 일반 표현("참가자격")은 점검 항목에서 제외
+        if (type === 'other' && extractKeywords(fragment).length < 2) continue
+
+        items.push({
+          item_id: `CHK-${String(items.length + 1).padStart(2, '0')}`,
+          source_attribute_id: attributeId,
+          source_name: attributeId === 10 ? '입찰사 요건' : '준수사항',
+          type,
+          requirement: fragment,
+          threshold: extractThreshold(type, fragment),
+          severity: attributeId === 10 || SEVERE_TYPES.includes(type) ? 'disqualifying' : 'major'
+        })
+      }
+    }
+
+    return items
+  }
+}
+
+function splitFragments(text?: string): string[] {
+  if (!text) return []
+
+  return text
+    .split(/[\n,，、;]/)
+    .map(fragment => fragment
+      .replace(/^\s*(?:[-•·*▪□■○●◦]|\d+[.)]|\(\d+\))\s*/, '')
+      // "참가자격: ..." 형태의 머리말 제거
+      .replace(/^[가-힣A-Za-z\s]{2,12}:\s*(?=\S)/, '')
+      .trim())
+    .filter(fragment => fragment.length >= 2 && !fragment.endsWith(':'))
+}
+
+function extractThreshold(type: ComplianceItemType, text: string): ComplianceItem['threshold'] {
+  if (type === 'page_limit') {
+    const match = text.match(/(\d+)\s*(?:페이지|쪽|매|pages?)/i)
+    return match ? { value: parseInt(match[1], 10), unit: '페이지' } : undefined
+  }
+
+  if (type === 'past_performance') {
+    // "최근 3년 내 ... 3건 이상"의 기간(년)은 기준 수치가 아니므로 건수·금액만 사용
+    const match = text.match(/(\d+)\s*(건|회|개|억)/)
+    return match ? { value: parseInt(match[1], 10), unit: match[2] } : undefined
+  }
+
+  return undefined
+}
+
+function evaluateItem(
+  item: Omit<ComplianceItem, 'status' | 'reason' | 'evidence'>,
+  context: ComplianceContext
+): Pick<ComplianceItem, 'status' | 'reason' | 'evidence'> {
+  const proposal = context.proposal_content || ''
+
+  switch (item.type) {
+    case 'page_limit': {
+      if (!item.threshold) return { status: 'manual', reason: '페이지 제한 수치를 확인할 수 없어 직접 확인이 필요합니다.' }
+      if (!context.page_count) return { status: 'manual', reason: `제안서 페이지 수 정보가 없어 ${item.threshold.value}페이지 제한을 직접 확인해야 합니다.` }
+      return context.page_count <= item.threshold.value
+        ? { status: 'pass', reason: `제안서 ${context.page_count}페이지로 ${item.threshold.value}페이지 제한 이내입니다.` }
+        : { status: 'fail', reason: `제안서 ${context.page_count}페이지로 ${item.threshold.value}페이지 제한을 초과합니다.` }
+    }
+
+    case 'submission_format': {
+      const formats = (item.requirement.match(/PDF|HWP|DOCX/gi) || []).map(format => format.toLowerCase())
+      if (!context.file_type || formats.length === 0) {
+        return { status: 'manual', reason: '제출 형식·부수는 제출 파일 기준으로 직접 확인해야 합니다.' }
+      }
+      const fileType = context.file_type.replace(/^\./, '').toLowerCase()
+      return formats.includes(fileType)
+        ? { status: 'pass', reason: `제출 파일 형식(${fileType.toUpperCase()})이 요구 형식과 일치합니다.` }
+        : { status: 'fail', reason: `제출 파일 형식(${fileType.toUpperCase()})이 요구 형식(${formats.join(', ').toUpperCase()})과 다릅니다.` }
+    }
+
+    case 'certification': {
+      const names = Array.from(new Set((item.requirement.match(CERTIFICATION_NAME) || []).map(name => name.trim())))
+      const found = names.filter(name => proposal.toLowerCase().includes(name.toLowerCase()))
+      if (names.length > 0) {
+        return found.length === names.length
+          ? { status: 'pass', reason: `요구 인증(${names.join(', ')})이 제안서에 명시되어 있습니다.`, evidence: findSentence(proposal, found[0]) }
+          : { status: 'fail', reason: `제안서에서 인증 보유 내역을 찾을 수 없습니다: ${names.filter(name => !found.includes(name)).join(', ')}` }
+      }
+      return matchByKeywords(item.requirement, proposal)
+    }
+
+    case 'past_performance': {
+      if (!item.threshold) return matchByKeywords(item.requirement, proposal)
+
+      const { value, unit } = item.threshold
+      const evidence = findPerformanceCount(proposal, unit)
+      if (!evidence) {
+        return { status: 'fail', reason: `제안서에서 수행실적 ${unit} 수를 확인할 수 없습니다 (요구: ${value}${unit} 이상).` }
+      }
+      return evidence.count >= value
+        ? { status: 'pass', reason: `제안서 실적 ${evidence.count}${unit}로 요구 기준(${value}${unit} 이상)을 충족합니다.`, evidence: evidence.sentence }
+        : { status: 'fail', reason: `제안서 실적 ${evidence.count}${unit}로 요구 기준(${value}${unit} 이상)에 미달합니다.`, evidence: evidence.sentence }
+    }
+
+    case 'required_form':
+    case 'other':
+      return PROHIBITION.test(item.requirement)
+        ? checkProhibition(item.requirement, proposal)
+        : matchByKeywords(item.requirement, proposal)
+  }
+}
+
+// 요구 문구 키워드의 절반 이상이 제안서에 언급되면 충족으로 판정
+function matchByKeywords(requirement: string, proposal: string): Pick<ComplianceItem, 'status' | 'reason' | 'evidence'> {
+  const keywords = extractKeywords(requirement)
+  const lowerProposal = proposal.toLowerCase()
+  const found = keywords.filter(keyword => lowerProposal.includes(keyword.toLowerCase()))
+
+  if (keywords.length > 0 && found.length / keywords.length >= 0.5) {
+    return { status: 'pass', reason: `제안서에 관련 내용이 명시되어 있습니다 (${found.join(', ')}).`, evidence: findSentence(proposal, found[0]) }
+  }
+  return {
+    status: 'fail',
+    reason: `제안서에서 이행·준수 내용을 확인할 수 없습니다${keywords.length ? ` (미확인: ${keywords.filter(keyword => !found.includes(keyword)).join(', ')})` : ''}.`
+  }
+}
+
+// 금지 사항("하도급 금지")은 제안서에 해당 내용이 없으면 충족, 언급되면 위반 여부를 직접 확인
+function checkProhibition(requirement: string, proposal: string): Pick<ComplianceItem, 'status' | 'reason' | 'evidence'> {
+  const subject = extractKeywords(requirement.replace(PROHIBITION, ''))
+  const mentioned = subject.find(keyword => proposal.toLowerCase().includes(keyword.toLowerCase()))
+
+  return mentioned
+    ? { status: 'manual', reason: `금지 사항 관련 내용(${mentioned})이 제안서에 언급되어 위반 여부를 직접 확인해야 합니다.`, evidence: findSentence(proposal, mentioned) }
+    : { status: 'pass', reason: '제안서에 금지 사항에 해당하는 내용이 없습니다.' }
+}
+
+function findPerformanceCount(proposal: string, unit: string): { count: number; sentence: string } | null {
+  let best: { count: number; sentence: string } | null = null
+
+  for (const sentence of proposal.split(/(?<=[.!?다])\s+|\n/)) {
+    if (!PERFORMANCE_CONTEXT.test(sentence)) continue
+    for (const match of sentence.matchAll(new RegExp(`(\\d+)\\s*${unit}`, 'g'))) {
+      const count = parseInt(match[1], 10)
+      if (!best || count > best.count) best = { count, sentence: sentence.trim() }
+    }
+  }
+
+  return best
+}
+
+function findSentence(text: string, keyword?: string): string | undefined {
+  if (!keyword) return undefined
+  const sentence = text.split(/(?<=[.!?다])\s+|\n/).find(part => part.toLowerCase().includes(keyword.toLowerCase()))?.trim()
+  return sentence && sentence.length > 200 ? `${sentence.substring(0, 200)}...` : sentence
+}
+
+function summarizeRisk(items: ComplianceItem[]): DisqualificationRisk {
+  const disqualifying = items.filter(item => item.severity === 'disqualifying' && item.status === 'fail')
+  const major = items.filter(item => item.severity === 'major' && item.status === 'fail')
+  const manual = items.filter(item => item.status === 'manual')
+
+  const level: DisqualificationRisk['level'] = disqualifying.length > 0 ? 'high'
+    : major.length > 0 || manual.some(item => item.severity === 'disqualifying') ? 'medium'
+    : 'low'
+
+  const summary = level === 'high'
+    ? `실격 위험 높음: 필수 요건 ${disqualifying.length}건 미충족 (${disqualifying.map(item => `${item.item_id} ${item.requirement}`).join(', ')})`
+    : level === 'medium'
+      ? `실격 위험 보통: ${major.length ? `준수사항 ${major.length}건 보완 필요` : ''}${major.length && manual.length ? ', ' : ''}${manual.length ? `직접 확인 필요 ${manual.length}건` : ''}`
+      : manual.length
+        ? `실격 위험 낮음: 준수사항 ${manual.length}건은 직접 확인 필요 (${manual.map(item => `${item.item_id} ${item.requirement}`).join(', ')})`
+        : items.length
+          ? `실격 위험 낮음: 점검 항목 ${items.length}건 모두 충족`
+          : '실격 위험 낮음: RFP에서 입찰사 요건·준수사항 항목을 찾지 못했습니다'
+
+  return {
+    level,
+    disqualifying_failures: disqualifying.length,
+    major_failures: major.length,
+    manual_checks: manual.length,
+    failed_items: [...disqualifying, ...major].map(item => item.item_id),
+    summary
+  }
+}
@@ -0,0 +1,163 @@
+// AI 가상고객 속성 수정 서비스 - 딥리서치/RFP 개별 속성 교정, 수정 이력 기록, 파생 속성 재계산
+
+import { StorageRepository } from './storage-repository'
+import { CustomerGenerationService } from './customer-generation'
+import {
+  CustomerVersionService,
+  DEEP_RESEARCH_ATTRIBUTE_NAMES,
+  RFP_ANALYSIS_ATTRIBUTE_NAMES
+} from './customer-version-service'
+
+export type AttributeSource = 'deep_research' | 'rfp_analysis'
+
+export interface AttributeCorrectionRequest {
+  source: AttributeSource
+  attribute_id: number
+  content: string
+  corrected_by?: string
+  correction_reason?: string
+}
+
+// user_signal_corrections 테이블과 동일한 구조의 수정 이력
+export interface AttributeCorrection {
+  correction_id: string
+  customer_id: string
+  source: AttributeSource
+  attribute_id: number
+  attribute_name: string
+  user_id: string
+  original_value: string | null
+  corrected_value: string
+  correction_reason?: string
+  customer_version: string
+  created_at: string
+  updated_at: string
+}
+
+export class CustomerAttributeEditor {
+  private versionService: CustomerVersionService
+
+  constructor(private repository: StorageRepository) {
+    this.versionService = new CustomerVersionService(repository)
+  }
+
+  /**
+   * 수정 요청 검증 (잘못된 요청이면 예외) - 검증된 속성 번호 반환
+   */
+  validate(request: AttributeCorrectionRequest): number {
+    const attributeId = Number(request.attribute_id)
+    if (!attributeNames(request.source)[attributeId]) {
+      throw new Error(`속성 번호는 1~15 사이여야 합니다: ${request.attribute_id}`)
+    }
+    if (typeof request.content !== 'string' || request.content.trim().length === 0) {
+      throw new Error('수정할 속성 내용이 비어 있습니다')
+    }
+    return attributeId
+  }
+
+  /**
+   * 속성 1개 수정 → 결합 속성/페르소나 카드 재계산 → 새 버전 기록 → 수정 이력 저장
+   */
+  async applyCorrection(customer: any, request: AttributeCorrectionRequest): Promise<{
+    customer: any
+    correction: AttributeCorrection
+  }> {
+    const names = attributeNames(request.source)
+    const attributeId = this.validate(request)
+
+    // 버전 기록 이전 고객이면 수정 전 상태를 기준 버전으로 먼저 남김
+    await this.versionService.listVersions(customer)
+
+    const dataKey = request.source === 'deep_research' ? 'deep_research_data' : 'rfp_analysis_data'
+    const now = new Date().toISOString()
+    const userId = request.corrected_by?.trim() || 'anonymous'
+
+    const original = customer[dataKey]?.[attributeId]
+    const updatedData = {
+      ...(customer[dataKey] || {}),
+      [attributeId]: {
+        ...(original || { id: String(attributeId), name: names[attributeId] }),
+        content: request.content.trim(),
+        corrected_by: userId,
+        corrected_at: now
+      }
+    }
+
+    const updatedCustomer = {
+      ...customer,
+      [dataKey]: updatedData
+    }
+
+    // 수정된 30속성 기준으로 파생 속성 재계산
+    const derived = await new CustomerGenerationService().refreshDerivedAttributes(
+      updatedCustomer.deep_research_data,
+      updatedCustomer.rfp_analysis_data,
+      customer.company_name,
+      customer.department
+    )
+
+    const savedCustomer = await this.versionService.commit({
+      ...updatedCustomer,
+      ...derived,
+      combined_attributes: { ...(customer.combined_attributes || {}), ...derived.combined_attributes },
+      ...(customer.integrated_persona && { integrated_persona: syncIntegratedPersona(customer.integrated_persona, derived) })
+    }, {
+      change_type: 'edit',
+      changed_by: userId,
+      change_note: `${names[attributeId]} 수정${request.correction_reason ? `: ${request.correction_reason}` : ''}`
+    })
+
+    const correction: AttributeCorrection = {
+      correction_id: crypto.randomUUID(),
+      customer_id: savedCustomer.id,
+      source: request.source,
+      attribute_id: attributeId,
+      attribute_name: updatedData[attributeId].name || names[attributeId],
+      user_id: userId,
+      original_value: original?.content ?? null,
+      corrected_value: request.content.trim(),
+      correction_reason: request.correction_reason,
+      customer_version: savedCustomer.version,
+      created_at: now,
+      updated_at: now
+    }
+
+    await this.repository.saveAttributeCorrection(correction)
+    console.log(`✏️ 속성 수정: ${savedCustomer.id} ${request.source}[${attributeId}] by ${userId} → ${savedCustomer.version}`)
+
+    return { customer: savedCustomer, correction }
+  }
+
+  /**
+   * 고객의 속성 수정 이력 조회 (최신순)
+   */
+  async listCorrections(customerId: string): Promise<AttributeCorrection[]> {
+    return this.repository.listAttributeCorrections(customerId)
+  }
+}
+
+function attributeNames(source: AttributeSource): Record<number, string> {
+  return source === 'deep_research' ? DEEP_RESEARCH_ATTRIBUTE_NAMES : RFP_ANALYSIS_ATTRIBUTE_NAMES
+}
+
+// 평가 프롬프트가 읽는 integrated_persona(생성 경로별 구조)에도 재계산한 우선순위·의사결정 방식 반영
+function syncIntegratedPersona(persona: any, derived: { persona_summary: string; top3_priorities: string[]; decision_making_style: string }) {
+  const [primary, secondary, tertiary] = derived.top3_priorities
+  return {
+    ...persona,
+    persona_summary: derived.persona_summary,
+    top3_priorities: derived.top3_priorities,
+    decision_style: derived.decision_making_style,
+    ...(persona.priorities && {
+      priorities: {
+        ...persona.priorities,
+        ...(primary && { primary }),
+        ...(secondary && { secondary }),
+        ...(tertiary && { tertiary })
+      }
+    }),
+    ...(persona.decision_traits && {
+      decision_traits: { ...persona.decision_traits, style: derived.decision_making_style }
+    })
+  }
+}
@@ -52,6 +52,27 @@ export class CustomerGenerationService {
     }
   }
 
+  /**
+   * 속성 수정 후 결합 속성·페르소나 카드·의사결정 스타일 재계산
+   */
+  async refreshDerivedAttributes(
+    deepResearchData: DeepResearchData,
+    rfpAnalysisData: RfpAnalysisData,
+    companyName: string,
+    department?: string
+  ): Promise<Pick<AIVirtualCustomer, 'combined_attributes' | 'persona_summary' | 'top3_priorities' | 'decision_making_style'>> {
+    const combinedAttributes = await this.combineAttributes(deepResearchData, rfpAnalysisData)
+    const personaCard = await this.generatePersonaCard(combinedAttributes, companyName, department)
+    const decisionMakingStyle = await this.analyzeDecisionMakingStyle(deepResearchData, rfpAnalysisData)
+    
+    return {
+      combined_attributes: combinedAttributes,
+      persona_summary: personaCard.summary,
+      top3_priorities: personaCard.priorities,
+      decision_making_style: decisionMakingStyle
+    }
+  }
+
   /**
    * 딥리서치 15속성 + RFP 15속성 → 30속성 통합 분석
    */
@@ -0,0 +1,116 @@
+// AI 가상고객 통합 조회 서비스 - 저장소 리포지토리 / KV / D1 순차 조회 및 정규화
+
+import { StorageRepository } from './storage-repository'
+import { JsonStorageService } from './json-storage'
+import { DatabaseService } from './database'
+import type { AIVirtualCustomer } from '../types/ai-customer'
+
+export type CustomerSource = 'repository' | 'kv' | 'd1'
+
+// 정규화된 AI 가상고객 (생성 경로별 부가 필드는 그대로 유지)
+export type ResolvedCustomer = AIVirtualCustomer & {
+  customer_id: string
+  [key: string]: any
+}
+
+// 고객 조회 인터페이스 (버전 고정 재평가 등에서 특정 고객을 주입할 때 사용)
+export interface CustomerLookup {
+  resolve(customerId: string): Promise<ResolvedCustomer | AIVirtualCustomer | null>
+}
+
+export class CustomerResolver implements CustomerLookup {
+  constructor(
+    private repository: StorageRepository,
+    private env?: { DB?: D1Database; KV?: KVNamespace }
+  ) {}
+
+  /**
+   * 고객 ID(id 또는 customer_id)로 AI 가상고객 조회
+   * 조회 순서: 저장소 리포지토리 → KV(JsonStorageService) → D1(ai_virtual_customers)
+   * 보조 저장소에서 찾은 고객은 리포지토리에 기록해 이후 모든 라우트에서 재사용
+   */
+  async resolve(customerId: string): Promise<ResolvedCustomer | null> {
+    if (!customerId) return null
+
+    for (const source of ['repository', 'kv', 'd1'] as CustomerSource[]) {
+      try {
+        const raw = await this.lookup(source, customerId)
+        if (!raw) continue
+
+        const customer = normalizeCustomer(raw)
+        console.log(`👤 고객 조회 성공 (${source}): ${customer.id} - ${customer.company_name}`)
+
+        if (source !== 'repository') {
+          await this.repository.saveCustomer(customer)
+        }
+        return customer
+      } catch (error) {
+        console.warn(`⚠️ 고객 조회 실패 (${source}):`, (error as Error).message)
+      }
+    }
+
+    console.log(`❌ 고객 정보 없음: ${customerId}`)
+    return null
+  }
+
+  private async lookup(source: CustomerSource, customerId: string): Promise<any | null> {
+    switch (source) {
+      case 'repository':
+        return this.repository.getCustomer(customerId)
+
+      case 'kv': {
+        // 리포지토리가 이미 KV를 사용 중이면 중복 조회 생략
+        if (!this.env?.KV || this.repository.driver === 'kv') return null
+        const storage = new JsonStorageService(this.env.KV)
+        const direct = await storage.getVirtualCustomer(customerId)
+        if (direct) return direct
+
+        const customers = await storage.getAllVirtualCustomers()
+        return customers.find((customer: any) => customer.customer_id === customerId) || null
+      }
+
+      case 'd1': {
+        if (!this.env?.DB) return null
+        const db = new DatabaseService(this.env.DB)
+        return db.getCustomerById(customerId)
+      }
+    }
+  }
+}
+
+/**
+ * 생성 경로(LLM 분할 생성 / 기본 생성 / 데모 / D1)별로 다른 고객 구조를 AIVirtualCustomer로 정규화
+ */
+export function normalizeCustomer(raw: any): ResolvedCustomer {
+  const persona = raw.integrated_persona || {}
+  const basicInfo = persona.basic_info || {}
+  const deepResearch = raw.deep_research_data || {}
+  const rfpAnalysis = raw.rfp_analysis_data || {}
+
+  const id = raw.id || raw.customer_id
+  const companyName = raw.company_name || basicInfo.company || rfpAnalysis[1]?.content || '고객사'
+  const department = raw.department || basicInfo.department || raw.customer_type || basicInfo.role || ''
+  const now = new Date().toISOString()
+
+  const priorities = raw.top3_priorities || persona.top3_priorities ||
+    [persona.priorities?.primary, persona.priorities?.secondary, persona.priorities?.tertiary].filter(Boolean)
+
+  return {
+    ...raw,
+    id,
+    customer_id: raw.customer_id || id,
+    name: raw.name || basicInfo.name || `${companyName} ${raw.customer_type || basicInfo.role || department}`.trim(),
+    company_name: companyName,
+    department,
+    created_at: raw.created_at || now,
+    updated_at: raw.updated_at || raw.created_at || now,
+    version: raw.version || 'v1.0',
+    status: raw.status || 'active',
+    persona_summary: raw.persona_summary || persona.persona_summary || '',
+    top3_priorities: priorities,
+    decision_making_style: raw.decision_making_style || persona.decision_style || persona.decision_traits?.style || '',
+    deep_research_data: deepResearch,
+    rfp_analysis_data: rfpAnalysis,
+    combined_attributes: raw.combined_attributes || {}
+  }
+}
@@ -0,0 +1,190 @@
+// AI 가상고객 버전 관리 서비스 - 재생성/수정마다 불변 스냅샷 기록, 30속성 비교
+
+import { StorageRepository } from './storage-repository'
+
+// 딥리서치 15속성 명칭 (DeepResearchData 키 순서)
+export const DEEP_RESEARCH_ATTRIBUTE_NAMES: Record<number, string> = {
+  1: '비전·미션',
+  2: '핵심 사업영역',
+  3: '시장 포지셔닝',
+  4: '재무 전략 성향',
+  5: 'R&D 지향성',
+  6: 'ESG 우선순위',
+  7: '리스크 관리 태도',
+  8: '글로벌 vs 로컬 지향성',
+  9: '고객/이해관계자 성향',
+  10: '디지털 전환 수준',
+  11: '조직문화·HR 방향',
+  12: '파트너십/생태계 전략',
+  13: '규제·정책 대응 성향',
+  14: '사회적 이미지/브랜드 톤',
+  15: '단기 vs 장기 목표 균형'
+}
+
+// RFP 분석 15속성 명칭 (RfpAnalysisData 키 순서)
+export const RFP_ANALYSIS_ATTRIBUTE_NAMES: Record<number, string> = {
+  1: '발주사명',
+  2: '발주부서',
+  3: '프로젝트 배경',
+  4: '프로젝트 목표',
+  5: '프로젝트 범위',
+  6: '프로젝트 기간',
+  7: '프로젝트 예산',
+  8: '평가기준',
+  9: '요구 산출물',
+  10: '입찰사 요건',
+  11: '준수사항',
+  12: '리스크 관리 조건',
+  13: '필수 역량',
+  14: '진행 일정',
+  15: '특이조건/기타 요구'
+}
+
+export type CustomerChangeType = 'baseline' | 'generate' | 'regenerate' | 'edit'
+
+export interface CustomerVersionMeta {
+  change_type: CustomerChangeType
+  changed_by?: string
+  change_note?: string
+}
+
+export interface CustomerVersionRecord extends CustomerVersionMeta {
+  customer_id: string
+  version_number: number
+  version: string
+  created_at: string
+  snapshot: any
+}
+
+export interface AttributeDiff {
+  source: 'deep_research' | 'rfp_analysis'
+  attribute_id: number
+  name: string
+  from: string | null
+  to: string | null
+  changed: boolean
+}
+
+export class CustomerVersionService {
+  constructor(private repository: StorageRepository) {}
+
+  /**
+   * 새 버전 기록 후 현재 고객으로 저장 (이전 버전 스냅샷은 변경하지 않음)
+   */
+  async commit(customer: any, meta: CustomerVersionMeta): Promise<any> {
+    const customerId = customer.id || customer.customer_id
+    const versions = await this.repository.listCustomerVersions(customerId)
+    const versionNumber = (versions[versions.length - 1]?.version_number || 0) + 1
+    const now = new Date().toISOString()
+
+    const snapshot = {
+      ...customer,
+      id: customerId,
+      version: `v${versionNumber}`,
+      version_number: versionNumber,
+      status: 'active',
+      updated_at: now
+    }
+
+    const record: CustomerVersionRecord = {
+      customer_id: customerId,
+      version_number: versionNumber,
+      version: snapshot.version,
+      change_type: meta.change_type,
+      changed_by: meta.changed_by || 'system',
+      change_note: meta.change_note,
+      created_at: now,
+      snapshot
+    }
+
+    await this.repository.saveCustomerVersion(customerId, versionNumber, record)
+    await this.repository.saveCustomer(snapshot)
+
+    console.log(`🗂️ 고객 버전 기록: ${customerId} ${snapshot.version} (${meta.change_type})`)
+    return snapshot
+  }
+
+  /**
+   * 버전 목록 조회 (버전 기록 이전에 생성된 고객은 현재 상태를 기준 버전으로 기록)
+   */
+  async listVersions(customer: any): Promise<Omit<CustomerVersionRecord, 'snapshot'>[]> {
+    const customerId = customer.id || customer.customer_id
+    let versions = await this.repository.listCustomerVersions(customerId)
+
+    if (versions.length === 0) {
+      await this.commit(customer, { change_type: 'baseline', change_note: '버전 관리 이전 생성 고객' })
+      versions = await this.repository.listCustomerVersions(customerId)
+    }
+
+    const latest = versions[versions.length - 1]?.version_number
+    return versions.map(({ snapshot, ...meta }) => ({
+      ...meta,
+      is_current: meta.version_number === latest
+    }))
+  }
+
+  /**
+   * 특정 버전 스냅샷 조회 ('v3' 또는 3)
+   */
+  async getVersion(customerId: string, version: string | number): Promise<any | null> {
+    const versionNumber = parseVersionNumber(version)
+    if (!versionNumber) return null
+
+    const record = await this.repository.getCustomerVersion(customerId, versionNumber)
+    return record?.snapshot || null
+  }
+
+  /**
+   * 두 버전 간 30속성(딥리서치 15 + RFP 15) 비교
+   */
+  async diffVersions(customerId: string, fromVersion: string | number, toVersion: string | number) {
+    const [from, to] = await Promise.all([
+      this.getVersion(customerId, fromVersion),
+      this.getVersion(customerId, toVersion)
+    ])
+
+    if (!from || !to) {
+      return null
+    }
+
+    const attributes: AttributeDiff[] = [
+      ...diffAttributeSet('deep_research', DEEP_RESEARCH_ATTRIBUTE_NAMES, from.deep_research_data, to.deep_research_data),
+      ...diffAttributeSet('rfp_analysis', RFP_ANALYSIS_ATTRIBUTE_NAMES, from.rfp_analysis_data, to.rfp_analysis_data)
+    ]
+
+    return {
+      customer_id: customerId,
+      from_version: from.version,
+      to_version: to.version,
+      changed_count: attributes.filter(attribute => attribute.changed).length,
+      attributes
+    }
+  }
+}
+
+export function parseVersionNumber(version: string | number): number | null {
+  const versionNumber = typeof version === 'number' ? version : parseInt(String(version).replace(/^v/i, ''), 10)
+  return Number.isInteger(versionNumber) && versionNumber > 0 ? versionNumber : null
+}
+
+function diffAttributeSet(
+  source: AttributeDiff['source'],
+  names: Record<number, string>,
+  fromData: any = {},
+  toData: any = {}
+): AttributeDiff[] {
+  return Object.keys(names).map(key => {
+    const attributeId = Number(key)
+    const fromContent = fromData?.[attributeId]?.content ?? null
+    const toContent = toData?.[attributeId]?.content ?? null
+
+    return {
+      source,
+      attribute_id: attributeId,
+      name: toData?.[attributeId]?.name || fromData?.[attributeId]?.name || names[attributeId],
+      from: fromContent,
+      to: toContent,
+      changed: fromContent !== toContent
+    }
+  })
+}
@@ -0,0 +1,384 @@
+// 평가 패널 서비스 - 동일 딥리서치/RFP 기반 역할별 가상고객(CEO/CFO/CTO/PM) 생성, 패널 일괄 평가 및 이견 지수 산출
+
+import { StorageRepository } from './storage-repository'
+import { CustomerGenerationService } from './customer-generation'
+import { ChunkedOpenAIService } from './chunked-openai-service'
+import { CustomerVersionService } from './customer-version-service'
+import { CustomerResolver } from './customer-resolver'
+import { EvaluationRunner } from './evaluation-runner'
+import type { DeepResearchData, RfpAnalysisData } from '../types/ai-customer'
+import type { ProposalSections } from '../types'
+
+export type PanelRole = 'CEO' | 'CFO' | 'CTO' | 'PM'
+
+export const PANEL_ROLES: PanelRole[] = ['CEO', 'CFO', 'CTO', 'PM']
+
+export type PanelMetric = 'clarity' | 'expertise' | 'persuasiveness' | 'logic' | 'creativity' | 'credibility'
+
+export const PANEL_METRICS: PanelMetric[] = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'credibility']
+
+// 역할별 평가 관점 (평가 가중치 합계 1.0)
+const ROLE_PROFILES: Record<PanelRole, {
+  department: string
+  decision_authority: string
+  style: string
+  strategic_focus: string
+  risk_appetite: string
+  budget_sensitivity: string
+  evaluation_weights: Record<PanelMetric, number>
+}> = {
+  CEO: {
+    department: '최고경영진',
+    decision_authority: '최종결정권자',
+    style: '전략적 비전 중심형',
+    strategic_focus: '혁신 기반 성장',
+    risk_appetite: '중간',
+    budget_sensitivity: '중간',
+    evaluation_weights: { clarity: 0.20, expertise: 0.15, persuasiveness: 0.25, logic: 0.15, creativity: 0.15, credibility: 0.10 }
+  },
+  CFO: {
+    department: '재무담당',
+    decision_authority: '핵심영향자',
+    style: '재무 데이터 중심형',
+    strategic_focus: '수익성과 비용 통제',
+    risk_appetite: '보수적',
+    budget_sensitivity: '매우 민감',
+    evaluation_weights: { clarity: 0.15, expertise: 0.15, persuasiveness: 0.20, logic: 0.20, creativity: 0.05, credibility: 0.25 }
+  },
+  CTO: {
+    department: '기술담당',
+    decision_authority: '핵심영향자',
+    style: '기술 검증 중심형',
+    strategic_focus: '기술 혁신과 아키텍처 안정성',
+    risk_appetite: '보수적',
+    budget_sensitivity: '높음',
+    evaluation_weights: { clarity: 0.10, expertise: 0.30, persuasiveness: 0.10, logic: 0.20, creativity: 0.15, credibility: 0.15 }
+  },
+  PM: {
+    department: '프로젝트관리',
+    decision_authority: '실무검토자',
+    style: '실행 계획 중심형',
+    strategic_focus: '일정 준수와 실행 가능성',
+    risk_appetite: '중간',
+    budget_sensitivity: '높음',
+    evaluation_weights: { clarity: 0.25, expertise: 0.15, persuasiveness: 0.10, logic: 0.25, creativity: 0.05, credibility: 0.20 }
+  }
+}
+
+export interface PanelMember {
+  role: PanelRole
+  customer_id: string
+  name: string
+  weight: number
+}
+
+export interface EvaluationPanel {
+  id: string
+  name: string
+  company_name: string
+  roles: PanelRole[]
+  members: PanelMember[]
+  created_at: string
+  updated_at?: string
+}
+
+export interface PanelCreateRequest {
+  name?: string
+  company_name?: string
+  deep_research_data: DeepResearchData
+  rfp_analysis_data: RfpAnalysisData
+  roles?: string[]
+  // 역할별 표결 가중치 (미지정 역할은 1)
+  member_weights?: Partial<Record<PanelRole, number>>
+}
+
+export interface PanelMemberResult {
+  role: PanelRole
+  customer_id: string
+  customer_version?: string
+  evaluation_id: string
+  weight: number
+  scores: Record<PanelMetric, number>
+  total_score: number
+  evaluation_method?: string
+}
+
+export interface PanelMetricAggregate {
+  score: number
+  min: number
+  max: number
+  std_dev: number
+  // 0(만장일치) ~ 1(최대 이견): 표준편차 / 100점 척도 최대 표준편차(50)
+  disagreement_index: number
+  disagreement_level: 'low' | 'medium' | 'high'
+}
+
+export interface PanelEvaluationResult {
+  id: string
+  panel_id: string
+  proposal_title: string
+  members: PanelMemberResult[]
+  aggregate: {
+    scores: Record<PanelMetric, PanelMetricAggregate>
+    total_score: number
+    disagreement_index: number
+    most_contested_metric: PanelMetric
+  }
+  created_at: string
+}
+
+export interface PanelEnv {
+  DB?: D1Database
+  KV?: KVNamespace
+  OPENAI_API_KEY?: string
+}
+
+export class EvaluationPanelService {
+  constructor(
+    private repository: StorageRepository,
+    private env: PanelEnv = {}
+  ) {}
+
+  /**
+   * 패널 생성 - 같은 딥리서치/RFP 분석으로 역할별 가상고객을 만들고 각각 버전 기록
+   */
+  async createPanel(request: PanelCreateRequest): Promise<EvaluationPanel> {
+    const { deep_research_data, rfp_analysis_data } = request
+    if (!deep_research_data || !rfp_analysis_data) {
+      throw new Error('딥리서치 데이터와 RFP 분석 데이터가 모두 필요합니다.')
+    }
+
+    const roles = normalizeRoles(request.roles)
+    const companyName = request.company_name ||
+      rfp_analysis_data?.[1]?.content ||
+      deep_research_data?.[1]?.content?.split(' ')[0] ||
+      '분석 대상 기업'
+    const panelId = crypto.randomUUID()
+    const versionService = new CustomerVersionService(this.repository)
+
+    const members: PanelMember[] = []
+    // 역할별 순차 생성 (LLM 호출 동시 실행 방지)
+    for (const role of roles) {
+      const generated = await this.generateMember(deep_research_data, rfp_analysis_data, companyName, role)
+      const customer = await versionService.commit({
+        ...generated,
+        id: crypto.randomUUID(),
+        panel_id: panelId,
+        panel_role: role
+      }, {
+        change_type: 'generate',
+        change_note: `평가 패널 ${role} 위원 생성`
+      })
+
+      members.push({
+        role,
+        customer_id: customer.id,
+        name: customer.name,
+        weight: normalizeWeight(request.member_weights?.[role])
+      })
+    }
+
+    const panel: EvaluationPanel = {
+      id: panelId,
+      name: request.name || `${companyName} 평가위원회`,
+      company_name: companyName,
+      roles,
+      members,
+      created_at: new Date().toISOString()
+    }
+
+    await this.repository.savePanel(panel)
+    console.log(`👥 평가 패널 생성: ${panelId} (${roles.join(', ')})`)
+    return panel
+  }
+
+  /**
+   * 패널 전원이 제안서를 평가하고 위원별 점수, 패널 집계, 지표별 이견 지수를 반환
+   */
+  async evaluateProposal(panel: EvaluationPanel, input: {
+    proposal_title: string
+    proposal_content: string
+    proposal_sections?: ProposalSections
+  }): Promise<PanelEvaluationResult> {
+    const resolver = new CustomerResolver(this.repository, this.env)
+    const runner = new EvaluationRunner(this.env)
+    const members: PanelMemberResult[] = []
+
+    for (const member of panel.members) {
+      const customer = await resolver.resolve(member.customer_id)
+      if (!customer) {
+        throw new Error(`패널 위원 고객을 찾을 수 없습니다: ${member.role} ${member.customer_id}`)
+      }
+
+      const evaluation = await runner.evaluateProposal(customer, {
+        customer_id: member.customer_id,
+        proposal_title: input.proposal_title,
+        proposal_content: input.proposal_content,
+        proposal_sections: input.proposal_sections
+      })
+
+      const evaluationId = `eval-${Date.now()}-${member.role.toLowerCase()}`
+      await this.repository.saveProposalEvaluation({ ...evaluation, id: evaluationId, panel_id: panel.id })
+
+      const scores = extractMetricScores(evaluation.scores)
+      members.push({
+        role: member.role,
+        customer_id: member.customer_id,
+        customer_version: evaluation.customer_version,
+        evaluation_id: evaluationId,
+        weight: member.weight,
+        scores,
+        // 평가 실행 시 적용된 가중치(RFP 평가기준 기반)로 합산 - 없으면 역할별 기본 관점
+        total_score: weightedTotal(scores, evaluation.weight_profile?.metric_weights || ROLE_PROFILES[member.role]?.evaluation_weights),
+        evaluation_method: evaluation.evaluation_method
+      })
+    }
+
+    const result: PanelEvaluationResult = {
+      id: `panel-eval-${Date.now()}`,
+      panel_id: panel.id,
+      proposal_title: input.proposal_title,
+      members,
+      aggregate: aggregateMembers(members),
+      created_at: new Date().toISOString()
+    }
+
+    await this.repository.savePanelEvaluation(result)
+    console.log(`📊 패널 평가 완료: ${panel.id} 총점 ${result.aggregate.total_score} (이견 지수 ${result.aggregate.disagreement_index})`)
+    return result
+  }
+
+  private async generateMember(
+    deepResearch: DeepResearchData,
+    rfpAnalysis: RfpAnalysisData,
+    companyName: string,
+    role: PanelRole
+  ): Promise<any> {
+    let customer: any = null
+
+    if (this.env.OPENAI_API_KEY) {
+      try {
+        const chunkedOpenAI = new ChunkedOpenAIService(this.env.OPENAI_API_KEY)
+        customer = await chunkedOpenAI.generateVirtualCustomerChunked(deepResearch, rfpAnalysis, role)
+      } catch (error) {
+        console.warn(`⚠️ 패널 ${role} LLM 생성 실패, 기본 생성으로 전환:`, (error as Error).message)
+      }
+    }
+
+    if (!customer) {
+      customer = await new CustomerGenerationService().generateVirtualCustomer(deepResearch, rfpAnalysis, companyName, role)
+    }
+
+    // 역할별 관점을 페르소나에 반영 (LLM 생성 결과 값이 있으면 우선)
+    const profile = ROLE_PROFILES[role]
+    const persona = customer.integrated_persona || {}
+
+    return {
+      ...customer,
+      company_name: customer.company_name || companyName,
+      customer_type: role,
+      integrated_persona: {
+        ...persona,
+        basic_info: {
+          role,
+          company: companyName,
+          department: profile.department,
+          decision_authority: profile.decision_authority,
+          ...(persona.basic_info || {})
+        },
+        decision_traits: {
+          style: profile.style,
+          risk_tolerance: profile.risk_appetite,
+          budget_sensitivity: profile.budget_sensitivity,
+          ...(persona.decision_traits || {})
+        },
+        strategic_focus: persona.strategic_focus || profile.strategic_focus,
+        risk_appetite: persona.risk_appetite || profile.risk_appetite,
+        budget_sensitivity: persona.budget_sensitivity || profile.budget_sensitivity,
+        evaluation_weights: persona.evaluation_weights || profile.evaluation_weights
+      }
+    }
+  }
+}
+
+/**
+ * 패널 역할 목록 검증·정규화 (없으면 전체 역할, 지원하지 않는 역할이 있으면 예외)
+ */
+export function normalizeRoles(roles?: string[]): PanelRole[] {
+  if (roles === undefined || roles === null) return [...PANEL_ROLES]
+  if (!Array.isArray(roles)) {
+    throw new Error(`패널 역할(roles)은 배열이어야 합니다 (가능: ${PANEL_ROLES.join(', ')})`)
+  }
+  if (roles.length === 0) return [...PANEL_ROLES]
+
+  const normalized = roles.map(role => String(role).toUpperCase())
+  const invalid = normalized.filter(role => !PANEL_ROLES.includes(role as PanelRole))
+  if (invalid.length > 0) {
+    throw new Error(`지원하지 않는 패널 역할입니다: ${invalid.join(', ')} (가능: ${PANEL_ROLES.join(', ')})`)
+  }
+
+  return Array.from(new Set(normalized)) as PanelRole[]
+}
+
+function normalizeWeight(weight?: number): number {
+  const value = Number(weight)
+  return Number.isFinite(value) && value > 0 ? value : 1
+}
+
+/**
+ * 평가 결과 점수 구조({score, comment} 또는 숫자, reliability/credibility 혼용)를 지표별 숫자로 변환
+ */
+function extractMetricScores(scores: any = {}): Record<PanelMetric, number> {
+  const result = {} as Record<PanelMetric, number>
+  for (const metric of PANEL_METRICS) {
+    const raw = metric === 'credibility' ? (scores.credibility ?? scores.reliability) : scores[metric]
+    const value = typeof raw === 'object' && raw !== null ? raw.score : raw
+    result[metric] = Number(value) || 0
+  }
+  return result
+}
+
+function weightedTotal(scores: Record<PanelMetric, number>, weights?: Record<PanelMetric, number>): number {
+  if (!weights) {
+    return round1(PANEL_METRICS.reduce((sum, metric) => sum + scores[metric], 0) / PANEL_METRICS.length)
+  }
+  return round1(PANEL_METRICS.reduce((sum, metric) => sum + scores[metric] * weights[metric], 0))
+}
+
+function aggregateMembers(members: PanelMemberResult[]): PanelEvaluationResult['aggregate'] {
+  const totalWeight = members.reduce((sum, member) => sum + member.weight, 0) || 1
+  const scores = {} as Record<PanelMetric, PanelMetricAggregate>
+
+  for (const metric of PANEL_METRICS) {
+    const values = members.map(member => member.scores[metric])
+    const mean = members.reduce((sum, member) => sum + member.scores[metric] * member.weight, 0) / totalWeight
+    const plainMean = values.reduce((sum, value) => sum + value, 0) / (values.length || 1)
+    const stdDev = Math.sqrt(values.reduce((sum, value) => sum + (value - plainMean) ** 2, 0) / (values.length || 1))
+    const disagreementIndex = Math.min(1, stdDev / 50)
+
+    scores[metric] = {
+      score: round1(mean),
+      min: values.length ? Math.min(...values) : 0,
+      max: values.length ? Math.max(...values) : 0,
+      std_dev: round1(stdDev),
+      disagreement_index: Math.round(disagreementIndex * 1000) / 1000,
+      disagreement_level: stdDev >= 10 ? 'high' : stdDev >= 5 ? 'medium' : 'low'
+    }
+  }
+
+  const mostContested = PANEL_METRICS.reduce((top, metric) =>
+    scores[metric].std_dev > scores[top].std_dev ? metric : top, PANEL_METRICS[0])
+
+  return {
+    scores,
+    total_score: round1(members.reduce((sum, member) => sum + member.total_score * member.weight, 0) / totalWeight),
+    disagreement_index: Math.round(
+      PANEL_METRICS.reduce((sum, metric) => sum + scores[metric].disagreement_index, 0) / PANEL_METRICS.length * 1000
+    ) / 1000,
+    most_contested_metric: mostContested
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
@@ -0,0 +1,91 @@
+// 평가 결과 통합 조회 서비스 - 저장소 리포지토리 / KV / D1 순차 조회
+
+import { StorageRepository } from './storage-repository'
+import { JsonStorageService } from './json-storage'
+import { DatabaseService } from './database'
+
+export type EvaluationKind = 'proposal' | 'presentation'
+
+export type EvaluationSource = 'repository' | 'kv' | 'd1'
+
+export class EvaluationResolver {
+  constructor(
+    private repository: StorageRepository,
+    private env?: { DB?: D1Database; KV?: KVNamespace }
+  ) {}
+
+  /**
+   * 제안서 평가 조회
+   */
+  async resolveProposal(evaluationId: string): Promise<any | null> {
+    return this.resolve('proposal', evaluationId)
+  }
+
+  /**
+   * 발표 평가 조회
+   */
+  async resolvePresentation(evaluationId: string): Promise<any | null> {
+    return this.resolve('presentation', evaluationId)
+  }
+
+  /**
+   * 평가 ID로 조회 (리포지토리 → KV(JsonStorageService) → D1 평가 테이블)
+   * 보조 저장소에서 찾은 평가는 리포지토리에 기록해 이후 조회를 단축
+   */
+  async resolve(kind: EvaluationKind, evaluationId: string): Promise<any | null> {
+    if (!evaluationId) return null
+
+    for (const source of ['repository', 'kv', 'd1'] as EvaluationSource[]) {
+      try {
+        const evaluation = await this.lookup(source, kind, evaluationId)
+        if (!evaluation) continue
+
+        console.log(`📊 ${kind} 평가 조회 성공 (${source}): ${evaluationId}`)
+
+        const normalized = {
+          ...evaluation,
+          id: evaluation.id || evaluationId,
+          created_at: evaluation.created_at || evaluation.evaluation_date
+        }
+
+        if (source !== 'repository') {
+          await (kind === 'proposal'
+            ? this.repository.saveProposalEvaluation(normalized)
+            : this.repository.savePresentationEvaluation(normalized))
+        }
+        return normalized
+      } catch (error) {
+        console.warn(`⚠️ ${kind} 평가 조회 실패 (${source}):`, (error as Error).message)
+      }
+    }
+
+    console.log(`❌ ${kind} 평가 없음: ${evaluationId}`)
+    return null
+  }
+
+  private async lookup(source: EvaluationSource, kind: EvaluationKind, evaluationId: string): Promise<any | null> {
+    switch (source) {
+      case 'repository':
+        return kind === 'proposal'
+          ? this.repository.getProposalEvaluation(evaluationId)
+          : this.repository.getPresentationEvaluation(evaluationId)
+
+      case 'kv': {
+        // 리포지토리가 이미 KV를 사용 중이면 중복 조회 생략
+        if (!this.env?.KV || this.repository.driver === 'kv') return null
+        const storage = new JsonStorageService(this.env.KV)
+        return kind === 'proposal'
+          ? storage.getProposalEvaluation(evaluationId)
+          : storage.getPresentationEvaluation(evaluationId)
+      }
+
+      case 'd1': {
+        if (!this.env?.DB) return null
+        const db = new DatabaseService(this.env.DB)
+        return kind === 'proposal'
+          ? db.getProposalEvaluation(evaluationId)
+          : db.getPresentationEvaluation(evaluationId)
+      }
+    }
+  }
+}
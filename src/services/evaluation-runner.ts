@@ -0,0 +1,805 @@
+// 평가 실행 서비스 - 제안서/발표 평가 로직 (평가 API 및 버전별 재평가에서 공용 사용)
+
+import { ChunkedOpenAIService, type ProposalChunkEvaluation } from './chunked-openai-service'
+import { LLMEvaluationService } from './llm-evaluation-service'
+import { resolveWeightProfile, calculateWeightedScore, EVALUATION_METRICS, type WeightOverrides, type MetricWeights } from './evaluation-weights'
+import { FileParserService, PROPOSAL_SECTION_LABELS, type ProposalSectionKey } from './file-parser'
+import { OfflineScoringService, loadRubricAnchors, type OfflineScoringResult } from './offline-scoring-service'
+import { EvidenceAnchorService, computePageStarts, type PageStart } from './evidence-anchor-service'
+import { analyzeSlideAlignment, slideContentLines, type SlideDeck } from './slide-deck-parser'
+import { DEFAULT_EVALUATION_MODEL, modelForRun, representativeRunIndex, summarizeRuns, type MultiRunOptions } from './evaluation-variance'
+import type { SpeechAnalysis } from './speech-analysis-service'
+import type { ProposalSections, PresentationMetadata, VideoAnalysis } from '../types'
+
+// LLM 프롬프트에 포함할 제안서 본문 총량 (섹션별로 균등 배분)
+const PROPOSAL_PROMPT_BUDGET = 8000
+const MIN_SECTION_BUDGET = 500
+
+// single: 섹션별 발췌를 한 번에 평가, map_reduce: 섹션 청크별 평가 후 병합, auto: 발췌 한도를 넘으면 map_reduce
+export type ProposalEvaluationMode = 'auto' | 'single' | 'map_reduce'
+
+export interface ProposalEvaluationInput {
+  customer_id: string
+  proposal_title: string
+  proposal_content: string
+  // 업로드 파일에서 매핑된 섹션 (없으면 proposal_content에서 추출)
+  proposal_sections?: ProposalSections
+  // 근거 인용의 페이지 번호 산정용 (업로드 파싱 결과 페이지 또는 이전 평가의 페이지 시작 위치)
+  proposal_pages?: Array<{ pageNumber: number; content: string }>
+  proposal_page_starts?: PageStart[]
+  // 업로드 파일의 형식과 페이지 수 (입찰 적격성 점검의 제출 형식·페이지 제한 확인용)
+  proposal_file?: ProposalFileInfo
+  // 평가 전 사용자가 수정한 가중치 (없으면 RFP 평가기준 기반)
+  weight_overrides?: WeightOverrides
+  evaluation_mode?: ProposalEvaluationMode
+  // LLM 평가 모델 (없으면 gpt-4o)
+  model?: string
+}
+
+export interface ProposalFileInfo {
+  file_type?: string
+  page_count?: number
+}
+
+// 평가 결과 scores 객체의 지표 키 (신뢰성은 reliability)
+const SCORE_KEYS = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'reliability'] as const
+export type ScoreKey = typeof SCORE_KEYS[number]
+
+export interface SectionScore {
+  score: number
+  comment: string
+  // 섹션 × 지표 점수 (100점 만점)
+  metrics: Record<ScoreKey, number>
+  // llm: LLM이 섹션 점수를 준 경우, offline_rubric: 섹션 본문을 오프라인 루브릭으로 채점한 경우
+  source: 'llm' | 'offline_rubric'
+}
+
+export interface MetricScore {
+  score: number
+  comment: string
+  // 코멘트 근거가 된 섹션 키
+  cited_sections?: ProposalSectionKey[]
+  // LLM 인용문 (EvidenceAnchorService가 원문 위치로 변환)
+  evidence?: string[]
+}
+
+export interface PresentationEvaluationInput {
+  customer_id: string
+  presentation_title: string
+  stt_transcript?: string
+  speech_metrics?: any
+  // 발표에 사용한 슬라이드 덱 (있으면 스크립트-슬라이드 정합도 산출)
+  slide_deck?: SlideDeck
+  // 녹음 파형 분석 결과 (서버 음성 인식 스크립트가 있을 때)
+  audio_analysis?: SpeechAnalysis
+  model?: string
+}
+
+export interface EvaluationRunnerEnv {
+  OPENAI_API_KEY?: string
+  KV?: KVNamespace
+  DB?: D1Database
+}
+
+export class EvaluationRunner {
+  constructor(private env: EvaluationRunnerEnv) {}
+
+  /**
+   * 고객 페르소나 기반 제안서 평가 (LLM 우선, 실패시 페르소나 기반 기본 평가)
+   */
+  async evaluateProposal(customer: any, input: ProposalEvaluationInput): Promise<any> {
+    const { customer_id, proposal_title, proposal_content } = input
+    const { env } = this
+    
+    // RFP 평가기준(속성 8) 기반 가중치 프로파일 (사용자 수정값 우선)
+    const weightProfile = resolveWeightProfile(customer, input.weight_overrides)
+    const weights = weightProfile.metric_weights
+    
+    // 섹션별 평가 대상 (앞부분만 잘라 평가하지 않도록 섹션마다 분량 배분)
+    const proposalSections = resolveProposalSections(input)
+    const sectionKeys = (Object.keys(PROPOSAL_SECTION_LABELS) as ProposalSectionKey[])
+      .filter(key => proposalSections[key]?.trim())
+    const missingSections = (Object.keys(PROPOSAL_SECTION_LABELS) as ProposalSectionKey[])
+      .filter(key => !sectionKeys.includes(key))
+    
+    const totalLength = sectionKeys.reduce((sum, key) => sum + proposalSections[key]!.trim().length, 0)
+    const mode = input.evaluation_mode || 'auto'
+    const useMapReduce = mode === 'map_reduce' || (mode === 'auto' && totalLength > PROPOSAL_PROMPT_BUDGET)
+    
+    let proposalEvaluation
+    
+    if (env.OPENAI_API_KEY && useMapReduce && sectionKeys.length > 0) {
+      // 전체 문서 평가: 섹션 청크별 평가(map) 후 6대 지표로 병합(reduce)
+      try {
+        console.log(`🧩 제안서 전체 문서 평가 시작 (map-reduce, ${totalLength.toLocaleString()}자)`)
+        
+        const chunkResults = await new ChunkedOpenAIService(env.OPENAI_API_KEY).evaluateProposalChunked(
+          sectionKeys.map(key => ({ section: key, section_label: PROPOSAL_SECTION_LABELS[key], content: proposalSections[key]! })),
+          buildEvaluatorContext(customer, weights),
+          input.model
+        )
+        if (chunkResults.length === 0) {
+          throw new Error('평가에 성공한 청크가 없습니다')
+        }
+        
+        // 어떤 청크도 채점하지 않은 지표는 오프라인 루브릭 점수로 채움
+        const offline = new OfflineScoringService(await loadRubricAnchors(env.DB)).score(proposalSections, proposal_content, customer.rfp_analysis_data)
+        const merged = mergeChunkEvaluations(chunkResults, sectionKeys, offline.scores)
+        const totalScore = calculateWeightedScore(merged.scores, weights)
+        
+        proposalEvaluation = {
+          customer_id,
+          proposal_title,
+          proposal_content,
+          proposal_sections: proposalSections,
+          scores: merged.scores,
+          section_scores: normalizeSectionScores(merged.section_scores, sectionKeys, proposalSections, customer.rfp_analysis_data),
+          missing_sections: missingSections,
+          total_score: totalScore,
+          overall_feedback: `${customer.company_name} 관점에서 제안서 전체 ${sectionKeys.length}개 섹션(${merged.chunk_count}개 구간)을 평가한 결과 ${totalScore}점입니다. ` +
+            `가장 높은 평가를 받은 섹션은 ${merged.best_section}, 보완이 가장 필요한 섹션은 ${merged.weakest_section}입니다.`,
+          key_strengths: merged.key_strengths,
+          improvement_areas: merged.improvement_areas,
+          evaluation_method: 'llm_map_reduce',
+          evaluated_chunks: merged.chunk_count,
+          fallback_metrics: merged.fallback_metrics,
+          customer_persona_applied: true,
+          created_at: new Date().toISOString()
+        }
+        
+        console.log(`✅ map-reduce 제안서 평가 성공: ${customer.company_name} (${merged.chunk_count}개 구간)`)
+      } catch (error) {
+        console.log('⚠️ map-reduce 제안서 평가 실패, 폴백 사용:', (error as Error).message)
+        proposalEvaluation = null
+      }
+    } else if (env.OPENAI_API_KEY) {
+      // 실제 LLM 기반 제안서 평가 (고객 페르소나 맞춤형)
+      try {
+        console.log('🚀 실제 LLM 제안서 평가 시작 (30초 제한)')
+        
+        // 30개 속성 고객 페르소나 기반 평가 프롬프트 생성
+        const persona = customer.integrated_persona || {}
+        
+        // 30개 속성을 6개 카테고리로 구조화
+        const personaAnalysis = {
+          // 기본 정보 (5개 속성)
+          basic_info: persona.basic_info || {},
+          // 의사결정 특성 (5개 속성)
+          decision_traits: persona.decision_traits || {},
+          // 핵심 우선순위 (5개 속성)
+          priorities: persona.priorities || {},
+          // 평가 관점 (5개 속성)
+          evaluation_perspective: persona.evaluation_perspective || {},
+          // 우려사항 (5개 속성)
+          concerns: persona.concerns || {},
+          // 평가 가중치 (5개 속성)
+          evaluation_weights: weights
+        }
+        
+        const prompt = '당신은 ' + customer.company_name + '의 ' + (persona.basic_info?.role || 'CTO') + '입니다. ' +
+          '다음은 당신의 상세한 30개 속성 프로필입니다.\n\n' +
+          
+          '=== 고객 30개 속성 페르소나 ===\n' +
+          '【기본 정보 (5개)】\n' +
+          '- 역할: ' + (persona.basic_info?.role || 'CTO') + '\n' +
+          '- 회사: ' + (persona.basic_info?.company || customer.company_name) + '\n' +
+          '- 부서: ' + (persona.basic_info?.department || '기술담당') + '\n' +
+          '- 경력: ' + (persona.basic_info?.experience_years || 12) + '년\n' +
+          '- 결정권: ' + (persona.basic_info?.decision_authority || '핵심영향자') + '\n\n' +
+          
+          '【의사결정 특성 (5개)】\n' +
+          '- 의사결정 스타일: ' + (persona.decision_traits?.style || '기술 검증 중심형') + '\n' +
+          '- 위험 허용도: ' + (persona.decision_traits?.risk_tolerance || '보수적') + '\n' +
+          '- 일정 선호: ' + (persona.decision_traits?.timeline_preference || '단계적 접근') + '\n' +
+          '- 예산 민감도: ' + (persona.decision_traits?.budget_sensitivity || '높음') + '\n' +
+          '- 혁신 개방성: ' + (persona.decision_traits?.innovation_openness || '중간') + '\n\n' +
+          
+          '【핵심 우선순위 (5개)】\n' +
+          '- 1순위: ' + (persona.priorities?.primary || '기술적 안정성과 신뢰성') + '\n' +
+          '- 2순위: ' + (persona.priorities?.secondary || '비용 효율성과 예산 준수') + '\n' +
+          '- 3순위: ' + (persona.priorities?.tertiary || '일정 준수와 리스크 관리') + '\n' +
+          '- 규제준수: ' + (persona.priorities?.compliance || '규제 및 보안 요구사항') + '\n' +
+          '- 확장성: ' + (persona.priorities?.scalability || '확장성과 미래 대응') + '\n\n' +
+          
+          '【평가 관점 (5개)】\n' +
+          '- 기술 깊이: ' + (persona.evaluation_perspective?.technical_depth || '중요') + '\n' +
+          '- 비즈니스 가치: ' + (persona.evaluation_perspective?.business_value || '중요') + '\n' +
+          '- 비용 분석: ' + (persona.evaluation_perspective?.cost_analysis || '중요') + '\n' +
+          '- 구현 계획: ' + (persona.evaluation_perspective?.implementation || '중요') + '\n' +
+          '- 공급업체 신뢰성: ' + (persona.evaluation_perspective?.vendor_reliability || '매우 중요') + '\n\n' +
+          
+          '【주요 우려사항 (5개)】\n' +
+          '- 기술 리스크: ' + (persona.concerns?.technical_risk || '기술적 호환성과 확장성') + '\n' +
+          '- 재무 리스크: ' + (persona.concerns?.financial_risk || '예산 초과 및 숨겨진 비용') + '\n' +
+          '- 일정 리스크: ' + (persona.concerns?.timeline_risk || '프로젝트 일정 지연 리스크') + '\n' +
+          '- 운영 리스크: ' + (persona.concerns?.operational_risk || '기존 시스템 영향도') + '\n' +
+          '- 업체 리스크: ' + (persona.concerns?.vendor_risk || '공급업체 신뢰성과 지원') + '\n\n' +
+          
+          '【평가 가중치 (5개)】\n' +
+          '- 명확성: ' + Math.round(personaAnalysis.evaluation_weights.clarity * 100) + '%\n' +
+          '- 전문성: ' + Math.round(personaAnalysis.evaluation_weights.expertise * 100) + '%\n' +
+          '- 설득력: ' + Math.round(personaAnalysis.evaluation_weights.persuasiveness * 100) + '%\n' +
+          '- 논리성: ' + Math.round(personaAnalysis.evaluation_weights.logic * 100) + '%\n' +
+          '- 창의성: ' + Math.round(personaAnalysis.evaluation_weights.creativity * 100) + '%\n' +
+          '- 신뢰성: ' + Math.round(personaAnalysis.evaluation_weights.credibility * 100) + '%\n\n' +
+          
+          '=== 제안서 평가 ===\n' +
+          '제목: ' + proposal_title + '\n\n' +
+          formatSectionsForPrompt(proposalSections, sectionKeys) + '\n\n' +
+          (missingSections.length ? '제안서에 없는 구성: ' + missingSections.map(key => PROPOSAL_SECTION_LABELS[key]).join(', ') + '\n\n' : '') +
+          
+          '위 30개 속성을 모두 고려하여 다음 6개 지표로 평가해주세요:\n' +
+          '1. 명확성(' + Math.round(personaAnalysis.evaluation_weights.clarity * 100) + '%): 나의 ' + (persona.evaluation_perspective?.technical_depth || '기술 관점') + '에서 이해하기 쉬운가?\n' +
+          '2. 전문성(' + Math.round(personaAnalysis.evaluation_weights.expertise * 100) + '%): 나의 ' + (persona.priorities?.primary || '핵심 우선순위') + '를 충족하는 전문성인가?\n' +
+          '3. 설득력(' + Math.round(personaAnalysis.evaluation_weights.persuasiveness * 100) + '%): 나의 ' + (persona.decision_traits?.style || '의사결정 스타일') + '에 부합하는 설득력인가?\n' +
+          '4. 논리성(' + Math.round(personaAnalysis.evaluation_weights.logic * 100) + '%): 나의 ' + (persona.concerns?.technical_risk || '기술 우려사항') + ' 해결에 논리적인가?\n' +
+          '5. 창의성(' + Math.round(personaAnalysis.evaluation_weights.creativity * 100) + '%): 나의 ' + (persona.decision_traits?.innovation_openness || '혁신 성향') + ' 수준에 적합한가?\n' +
+          '6. 신뢰성(' + Math.round(personaAnalysis.evaluation_weights.credibility * 100) + '%): 나의 ' + (persona.decision_traits?.risk_tolerance || '위험 허용도') + ' 성향에 안전한가?\n\n' +
+          '각 지표 evidence에는 코멘트의 근거가 된 제안서 문장을 원문 그대로(요약·의역 금지) 1-2개 인용하세요.\n' +
+          '또한 각 섹션을 따로 읽고 section_scores에 섹션별 점수와 6개 지표별 점수(metrics, 각 100점 만점), 근거 코멘트를 작성하세요. ' +
+          '섹션 키: ' + sectionKeys.join(', ') + '\n\n' +
+          
+          'JSON 응답 (1-5점, 가중치 적용 총점):\n' +
+          JSON.stringify({
+            scores: {
+              clarity: { score: 85, comment: "30개 속성 중 평가 관점과 우선순위를 반영한 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] },
+              expertise: { score: 88, comment: "전문성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] },
+              persuasiveness: { score: 82, comment: "설득력 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] },
+              logic: { score: 87, comment: "논리성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] },
+              creativity: { score: 78, comment: "창의성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] },
+              reliability: { score: 90, comment: "신뢰성 평가 상세 코멘트", persona_factor: "적용된 페르소나 속성", evidence: ["코멘트 근거가 된 제안서 원문 문장 그대로 인용"] }
+            },
+            section_scores: {
+              [sectionKeys[0] || 'executive_summary']: {
+                score: 80,
+                comment: "해당 섹션 내용에 근거한 평가 코멘트",
+                metrics: { clarity: 80, expertise: 85, persuasiveness: 75, logic: 80, creativity: 70, reliability: 85 }
+              }
+            },
+            total_score: 85,
+            overall_feedback: "30개 속성 페르소나 관점에서의 종합 평가 (2-3문장)",
+            key_strengths: ["구체적 강점1", "구체적 강점2", "구체적 강점3"],
+            improvement_areas: ["구체적 개선점1", "구체적 개선점2", "구체적 개선점3"],
+            persona_feedback: "고객 페르소나 특성 반영 종합 의견",
+            priority_alignment: "핵심 우선순위 5개와의 부합도 분석",
+            concern_mitigation: "주요 우려사항 5개 해소 정도",
+            decision_recommendation: "의사결정 특성에 따른 추천도"
+          }, null, 2)
+
+        const openai = new ChunkedOpenAIService(env.OPENAI_API_KEY)
+        const response = await Promise.race([
+          openai['openai'].chat.completions.create({
+            model: input.model || DEFAULT_EVALUATION_MODEL,
+            messages: [{ role: "user", content: prompt }],
+            temperature: 0.3,
+            max_tokens: 2500,
+            response_format: { type: "json_object" }
+          }),
+          new Promise((_, reject) => setTimeout(() => reject(new Error('30초 타임아웃')), 30000))
+        ])
+        
+        const llmResult = JSON.parse((response as any).choices[0].message.content)
+        
+        proposalEvaluation = {
+          customer_id,
+          proposal_title,
+          proposal_content,
+          proposal_sections: proposalSections,
+          scores: llmResult.scores,
+          section_scores: normalizeSectionScores(llmResult.section_scores, sectionKeys, proposalSections, customer.rfp_analysis_data),
+          missing_sections: missingSections,
+          total_score: calculateWeightedScore(llmResult.scores, weights),
+          overall_feedback: llmResult.overall_feedback,
+          key_strengths: llmResult.key_strengths,
+          improvement_areas: llmResult.improvement_areas,
+          decision_factors: llmResult.decision_factors,
+          evaluation_method: 'llm',
+          customer_persona_applied: true,
+          created_at: new Date().toISOString()
+        }
+        
+        console.log('✅ LLM 제안서 평가 성공:', customer.company_name)
+      } catch (error) {
+        console.log('⚠️ LLM 제안서 평가 실패, 폴백 사용:', (error as Error).message)
+        // 폴백으로 기본 평가 사용
+        proposalEvaluation = null
+      }
+    }
+    
+    if (!proposalEvaluation) {
+      // 오프라인 채점 (OpenAI API 없거나 LLM 평가 실패 시)
+      const customerPersona = customer.integrated_persona || {}
+      const companyName = customer.company_name || '고객사'
+      const customerType = customer.customer_type || 'CTO'
+      
+      // 텍스트 특징 + 루브릭 앵커 기반 결정적 채점 (같은 제안서는 항상 같은 점수)
+      const anchors = await loadRubricAnchors(env.DB)
+      const offline = new OfflineScoringService(anchors).score(proposalSections, proposal_content || '', customer.rfp_analysis_data)
+      const baseScores = offline.scores
+      
+      // 고객 페르소나 특성 반영 조정 (100점 체계)
+      if (customerPersona.strategic_focus?.includes('혁신')) {
+        baseScores.creativity.score = Math.min(100, baseScores.creativity.score + 10)
+        baseScores.creativity.comment += ' 혁신 지향적 고객 특성상 창의적 접근을 더 높게 평가합니다.'
+      }
+      
+      if (customerPersona.risk_appetite?.includes('보수')) {
+        baseScores.reliability.score = Math.min(100, baseScores.reliability.score + 10)
+        baseScores.reliability.comment += ' 안정성과 검증된 방법론을 중시하는 고객 특성을 반영했습니다.'
+      }
+      
+      if (customerPersona.budget_sensitivity?.includes('효율') || customerPersona.budget_sensitivity?.includes('민감')) {
+        baseScores.persuasiveness.score = Math.max(0, baseScores.persuasiveness.score - 10)
+        baseScores.persuasiveness.comment += ' 비용 효율성에 민감한 고객으로 ROI 근거를 더 엄격히 봅니다.'
+      }
+      
+      // 가중평균 계산 (100점 만점, 가중치 프로파일 적용)
+      const totalScore = calculateWeightedScore(baseScores, weights)
+      
+      proposalEvaluation = {
+        customer_id,
+        proposal_title,
+        proposal_content,
+        proposal_sections: proposalSections,
+        scores: baseScores,
+        section_scores: normalizeSectionScores(null, sectionKeys, proposalSections, customer.rfp_analysis_data),
+        missing_sections: missingSections,
+        total_score: totalScore,
+        overall_feedback: `${companyName} ${customerType}의 관점에서 평가한 결과, 전반적으로 ${totalScore >= 80 ? '우수한' : totalScore >= 70 ? '양호한' : '개선이 필요한'} 제안서입니다. ` +
+          `제안서 구성 ${offline.features.section_count}/8개, 정량 근거 ${offline.features.quantitative_claims}건, 레퍼런스 ${offline.features.references}건을 기준으로 채점했습니다.`,
+        key_strengths: offline.key_strengths,
+        improvement_areas: offline.improvement_areas,
+        decision_factors: offline.decision_factors,
+        offline_features: offline.features,
+        evaluation_method: 'offline_rubric',
+        customer_persona_applied: true,
+        created_at: new Date().toISOString()
+      }
+      console.log('오프라인 루브릭 제안서 평가 완료:', companyName)
+    }
+    
+    
+    // 코멘트마다 제안서 원문 인용(문자 위치, 페이지) 연결 - 위치 기준이 되도록 본문도 함께 저장
+    const documentText = proposal_content?.trim()
+      ? proposal_content
+      : sectionKeys.map(key => proposalSections[key]!.trim()).join('\n\n')
+    const pageStarts = input.proposal_page_starts
+      || (input.proposal_pages?.length ? computePageStarts(documentText, input.proposal_pages) : [])
+    proposalEvaluation = new EvidenceAnchorService(documentText, 'proposal', pageStarts).anchorEvaluation(proposalEvaluation)
+    
+    // 평가에 사용된 고객 버전과 가중치 기록 (버전별 재평가 추적용)
+    return {
+      ...proposalEvaluation,
+      proposal_content: documentText,
+      proposal_page_starts: pageStarts,
+      proposal_file: normalizeProposalFile(input.proposal_file),
+      weight_profile: weightProfile,
+      customer_version: customer.version
+    }
+  }
+
+  /**
+   * 고객 페르소나 기반 발표 평가 (STT 텍스트가 있으면 LLM 또는 오프라인 채점, 없으면 미평가)
+   */
+  async evaluatePresentation(customer: any, input: PresentationEvaluationInput): Promise<any> {
+    const { customer_id, presentation_title, stt_transcript, speech_metrics, slide_deck, audio_analysis } = input
+    const { env } = this
+    
+    const weights = resolveWeightProfile(customer).metric_weights
+    
+    // 슬라이드 덱이 있으면 스크립트가 슬라이드를 얼마나, 순서대로 다뤘는지 측정
+    const slideAlignment = slide_deck && stt_transcript ? analyzeSlideAlignment(slide_deck, stt_transcript) : null
+    
+    let presentationEvaluation
+    
+    if (env.OPENAI_API_KEY && stt_transcript) {
+      // LLM 기반 실제 평가
+      const llmEvaluation = new LLMEvaluationService(
+        env.OPENAI_API_KEY,
+        env.KV,
+        { resolve: async () => customer }
+      )
+      
+      // 채점만 실행하고 저장은 호출자가 최종(다회 평가면 요약) 결과로 한 번만 수행
+      const llmResult = await llmEvaluation.scorePresentation(customer, customer_id, {
+        transcription: stt_transcript,
+        duration_seconds: speech_metrics?.duration_seconds,
+        speech_rate: speech_metrics?.words_per_minute,
+        pause_count: speech_metrics?.pause_count,
+        filler_words: speech_metrics?.filler_word_count,
+        slide_content: slide_deck ? slideContentLines(slide_deck) : undefined,
+        slide_alignment_score: slideAlignment?.slide_alignment_score,
+        model: input.model
+      })
+      presentationEvaluation = {
+        ...normalizeLLMPresentation(llmResult, weights),
+        customer_id,
+        presentation_title,
+        stt_transcript,
+        speech_metrics
+      }
+      console.log('LLM 발표 평가 완료')
+    } else if (stt_transcript?.trim()) {
+      // 오프라인 채점 (OpenAI API 없음) - 발표 스크립트 텍스트 특징 + 루브릭 앵커로 결정적 산출
+      const anchors = await loadRubricAnchors(env.DB)
+      const transcriptSections = new FileParserService().extractProposalSectionsFromText(stt_transcript)
+      const offline = new OfflineScoringService(anchors).score(transcriptSections, stt_transcript, customer.rfp_analysis_data)
+      const totalScore = calculateWeightedScore(offline.scores, weights)
+      
+      presentationEvaluation = {
+        customer_id,
+        presentation_title,
+        stt_transcript,
+        speech_metrics,
+        scores: offline.scores,
+        total_score: totalScore,
+        overall_feedback: `${customer.company_name || '고객사'} 관점에서 발표 스크립트를 채점한 결과 ${totalScore}점입니다. ` +
+          `정량 근거 ${offline.features.quantitative_claims}건, 논리 연결 표현 ${offline.features.connectors}회, 레퍼런스 ${offline.features.references}건을 기준으로 했습니다.`,
+        key_strengths: offline.key_strengths,
+        improvement_areas: offline.improvement_areas,
+        offline_features: offline.features,
+        evaluation_method: 'offline_rubric',
+        created_at: new Date().toISOString()
+      }
+      console.log('오프라인 루브릭 발표 평가 완료')
+    } else {
+      // 발표 스크립트가 없으면 점수를 만들지 않고 미평가로 표시
+      presentationEvaluation = {
+        customer_id,
+        presentation_title,
+        stt_transcript: '',
+        speech_metrics,
+        scores: null,
+        total_score: null,
+        overall_feedback: '발표 스크립트가 없어 평가하지 않았습니다. 녹음 후 음성 인식 스크립트를 만든 뒤 다시 평가해주세요.',
+        evaluation_method: 'not_evaluated',
+        created_at: new Date().toISOString()
+      }
+      console.log('발표 스크립트 없음 - 미평가')
+    }
+    
+    if (slide_deck) {
+      const sessionMetadata: PresentationMetadata = { slide_count: slide_deck.slide_count }
+      const videoAnalysis: VideoAnalysis = { slide_alignment_score: slideAlignment?.slide_alignment_score }
+      presentationEvaluation = {
+        ...presentationEvaluation,
+        slide_deck,
+        session_metadata: sessionMetadata,
+        video_analysis: videoAnalysis,
+        slide_alignment: slideAlignment
+      }
+      if (slideAlignment) {
+        console.log(`🖼️ 슬라이드 정합도: ${slideAlignment.slide_alignment_score}점 (미언급 슬라이드 ${slideAlignment.uncovered_slides.length}장)`)
+      }
+    }
+    
+    if (audio_analysis) {
+      presentationEvaluation = { ...presentationEvaluation, audio_analysis }
+      console.log(`🔊 발표 전달력: ${audio_analysis.overall_delivery}점 (키워드 커버리지 ${audio_analysis.keyword_coverage ?? '-'}%)`)
+    }
+    
+    // 코멘트마다 발표 스크립트 인용(문자 위치) 연결
+    presentationEvaluation = new EvidenceAnchorService(presentationEvaluation.stt_transcript || '', 'transcript')
+      .anchorEvaluation(presentationEvaluation)
+    
+    return { ...presentationEvaluation, customer_version: customer.version }
+  }
+
+  /**
+   * 제안서를 N회 독립 평가해 지표별 평균 점수와 편차·신뢰구간 산출 (코멘트/근거는 평균 총점에 가장 가까운 실행)
+   */
+  async evaluateProposalRuns(customer: any, input: ProposalEvaluationInput, options: MultiRunOptions): Promise<any> {
+    const models = Array.from({ length: options.runs }, (_, index) => modelForRun(options, index))
+    console.log(`🔁 제안서 다회 평가 시작: ${options.runs}회 (${[...new Set(models)].join(', ')})`)
+
+    const evaluations = await Promise.all(models.map(model => this.evaluateProposal(customer, { ...input, model })))
+    const variance = summarizeRuns(
+      evaluations.map((evaluation, index) => ({
+        model: models[index],
+        evaluation_method: evaluation.evaluation_method,
+        total_score: scoredValue(evaluation.total_score),
+        scores: Object.fromEntries(SCORE_KEYS.map(key => [key, scoredValue(evaluation.scores?.[key]?.score)]))
+      })),
+      SCORE_KEYS,
+      options.disagreement_threshold
+    )
+
+    const representative = evaluations[representativeRunIndex(variance)]
+    // 모든 실행에서 점수가 없는 지표는 대표 실행 점수 유지
+    const scores = Object.fromEntries(SCORE_KEYS.map(key => [key, {
+      ...representative.scores[key],
+      score: variance.metrics[key] ? Math.round(variance.metrics[key]!.mean) : representative.scores[key]?.score
+    }]))
+
+    console.log(`📏 제안서 다회 평가 완료: 평균 ${variance.total_score.mean}점 ±${variance.total_score.std_dev} (불일치 지표 ${variance.flagged_metrics.length}개)`)
+
+    return {
+      ...representative,
+      scores,
+      total_score: calculateWeightedScore(scores, representative.weight_profile.metric_weights),
+      score_variance: variance
+    }
+  }
+
+  /**
+   * 발표를 N회 독립 평가해 지표별 편차·신뢰구간 산출
+   */
+  async evaluatePresentationRuns(customer: any, input: PresentationEvaluationInput, options: MultiRunOptions): Promise<any> {
+    const models = Array.from({ length: options.runs }, (_, index) => modelForRun(options, index))
+    console.log(`🔁 발표 다회 평가 시작: ${options.runs}회 (${[...new Set(models)].join(', ')})`)
+
+    const evaluations = await Promise.all(models.map(model => this.evaluatePresentation(customer, { ...input, model })))
+    const variance = summarizeRuns(
+      evaluations.map((evaluation, index) => ({
+        model: models[index],
+        evaluation_method: evaluation.evaluation_method,
+        total_score: scoredValue(evaluation.total_score ?? evaluation.overall_score),
+        scores: presentationMetricScores(evaluation)
+      })),
+      SCORE_KEYS,
+      options.disagreement_threshold
+    )
+
+    const representative = evaluations[representativeRunIndex(variance)]
+    console.log(`📏 발표 다회 평가 완료: 평균 ${variance.total_score.mean}점 ±${variance.total_score.std_dev} (불일치 지표 ${variance.flagged_metrics.length}개)`)
+
+    // 기본 평가 형식(scores 객체)이면 지표 점수를 평균으로 교체
+    if (!representative.scores) {
+      return { ...representative, score_variance: variance }
+    }
+    return {
+      ...representative,
+      scores: Object.fromEntries(SCORE_KEYS.map(key => [key, {
+        ...representative.scores[key],
+        score: variance.metrics[key] ? Math.round(variance.metrics[key]!.mean) : representative.scores[key]?.score
+      }])),
+      total_score: Math.round(variance.total_score.mean),
+      score_variance: variance
+    }
+  }
+}
+
+// LLMEvaluationService 발표 평가는 지표별 *_score/*_feedback 필드로 반환됨 (이전에 저장된 평가도 같은 형식)
+const PRESENTATION_SCORE_FIELDS: Record<ScoreKey, string> = {
+  clarity: 'clarity_score',
+  expertise: 'delivery_score',
+  persuasiveness: 'engagement_score',
+  logic: 'structure_score',
+  creativity: 'innovation_score',
+  reliability: 'confidence_score'
+}
+
+/**
+ * LLM 발표 평가의 *_score 필드를 다른 평가와 같은 scores.{지표}.score(100점) 형식으로 정리
+ */
+function normalizeLLMPresentation(evaluation: any, weights: MetricWeights) {
+  const scores = Object.fromEntries(SCORE_KEYS.map(key => {
+    const field = PRESENTATION_SCORE_FIELDS[key]
+    return [key, {
+      score: Math.round(toHundredScale(evaluation[field])),
+      comment: evaluation[field.replace(/_score$/, '_feedback')] || ''
+    }]
+  })) as Record<ScoreKey, MetricScore>
+
+  return {
+    scores,
+    total_score: calculateWeightedScore(scores, weights),
+    overall_feedback: evaluation.detailed_feedback || '',
+    key_strengths: evaluation.key_strengths || [],
+    improvement_areas: evaluation.improvement_areas || [],
+    evaluation_method: 'llm',
+    created_at: evaluation.evaluation_date || new Date().toISOString()
+  }
+}
+
+function presentationMetricScores(evaluation: any): Record<ScoreKey, number | null> {
+  return Object.fromEntries(SCORE_KEYS.map(key => [
+    key,
+    scoredValue(evaluation.scores?.[key]?.score ?? evaluation[PRESENTATION_SCORE_FIELDS[key]])
+  ])) as Record<ScoreKey, number | null>
+}
+
+// 다회 평가 통계용 점수 (산출되지 않은 점수는 0이 아닌 null - toHundredScale과 같이 0 이하는 미산출로 봄)
+function scoredValue(value: unknown): number | null {
+  const score = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(score) && score > 0 ? score : null
+}
+
+function resolveProposalSections(input: ProposalEvaluationInput): ProposalSections {
+  const provided = input.proposal_sections || {}
+  if (Object.values(provided).some(content => typeof content === 'string' && content.trim())) {
+    return provided
+  }
+  return new FileParserService().extractProposalSectionsFromText(input.proposal_content || '')
+}
+
+// map 단계 프롬프트용 평가자 요약 (전체 30개 속성 대신 우선순위·우려사항·가중치만)
+function buildEvaluatorContext(customer: any, weights: MetricWeights): string {
+  const persona = customer.integrated_persona || {}
+  return '당신은 ' + customer.company_name + '의 ' + (persona.basic_info?.role || 'CTO') + '로서 제안서를 평가합니다.\n' +
+    '- 핵심 우선순위: ' + (persona.priorities?.primary || '기술적 안정성과 신뢰성') + ', ' + (persona.priorities?.secondary || '비용 효율성과 예산 준수') + '\n' +
+    '- 주요 우려사항: ' + (persona.concerns?.technical_risk || '기술적 호환성과 확장성') + ', ' + (persona.concerns?.financial_risk || '예산 초과 및 숨겨진 비용') + '\n' +
+    '- 위험 허용도: ' + (persona.decision_traits?.risk_tolerance || '보수적') + '\n' +
+    '- 지표 가중치: ' + EVALUATION_METRICS.map(metric => `${metric} ${Math.round(weights[metric] * 100)}%`).join(', ')
+}
+
+/**
+ * 청크별 평가 병합 (reduce) - 지표 점수는 청크 분량 가중 평균, 코멘트는 최저/최고 점수 구간을 섹션명과 함께 인용
+ */
+function mergeChunkEvaluations(results: ProposalChunkEvaluation[], keys: ProposalSectionKey[], fallback: OfflineScoringResult['scores']) {
+  const label = (result: ProposalChunkEvaluation) => {
+    const { section_label, chunk_index, chunk_count } = result.chunk
+    return chunk_count > 1 ? `${section_label} ${chunk_index}/${chunk_count}` : section_label
+  }
+
+  const scores: Record<string, MetricScore> = {}
+  const fallbackMetrics: ScoreKey[] = []
+  for (const metric of EVALUATION_METRICS) {
+    const key = metric === 'credibility' ? 'reliability' : metric
+    const rated = results
+      .map(result => {
+        const entry = result.scores[key] || result.scores[metric]
+        return { result, score: toHundredScale(entry?.score), comment: entry?.comment || '', evidence: entry?.evidence || [] }
+      })
+      .filter(item => item.score > 0)
+    if (rated.length === 0) {
+      scores[key] = { score: fallback[key].score, comment: `[오프라인 루브릭] ${fallback[key].comment}` }
+      fallbackMetrics.push(key)
+      continue
+    }
+
+    const totalWeight = rated.reduce((sum, item) => sum + item.result.chunk.content.length, 0)
+    const score = Math.round(rated.reduce((sum, item) => sum + item.score * item.result.chunk.content.length, 0) / totalWeight)
+
+    const sorted = [...rated].sort((a, b) => a.score - b.score)
+    const cited = sorted.length > 1 ? [sorted[0], sorted[sorted.length - 1]] : sorted
+    scores[key] = {
+      score,
+      comment: cited.filter(item => item.comment).map(item => `[${label(item.result)}] ${item.comment}`).join(' '),
+      cited_sections: [...new Set(cited.map(item => item.result.chunk.section as ProposalSectionKey))],
+      evidence: cited.flatMap(item => item.evidence)
+    }
+  }
+
+  // 섹션 점수: 같은 섹션 청크의 평균(지표별 포함), 코멘트는 구간별로 인용
+  const sectionScores: Partial<Record<ProposalSectionKey, Omit<SectionScore, 'metrics' | 'source'> & { metrics: Partial<Record<ScoreKey, number>> }>> = {}
+  for (const key of keys) {
+    const sectionResults = results.filter(result => result.chunk.section === key && result.section_score > 0)
+    if (sectionResults.length === 0) continue
+
+    const metrics: Partial<Record<ScoreKey, number>> = {}
+    for (const metric of SCORE_KEYS) {
+      const values = sectionResults.map(result => toHundredScale(result.scores[metric]?.score)).filter(value => value > 0)
+      if (values.length) metrics[metric] = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    }
+
+    sectionScores[key] = {
+      metrics,
+      score: Math.round(sectionResults.reduce((sum, result) => sum + toHundredScale(result.section_score), 0) / sectionResults.length),
+      comment: sectionResults
+        .filter(result => result.section_comment)
+        .map(result => sectionResults.length > 1 ? `[${label(result)}] ${result.section_comment}` : result.section_comment)
+        .join(' ')
+    }
+  }
+
+  const ranked = (Object.entries(sectionScores) as Array<[ProposalSectionKey, { score: number }]>).sort((a, b) => b[1].score - a[1].score)
+  const citeAll = (pick: (result: ProposalChunkEvaluation) => string[]) =>
+    [...new Set(results.flatMap(result => pick(result).map(item => `[${label(result)}] ${item}`)))].slice(0, 5)
+
+  return {
+    scores,
+    section_scores: sectionScores,
+    key_strengths: citeAll(result => result.strengths),
+    improvement_areas: citeAll(result => result.improvements),
+    best_section: ranked.length ? PROPOSAL_SECTION_LABELS[ranked[0][0]] : '-',
+    weakest_section: ranked.length ? PROPOSAL_SECTION_LABELS[ranked[ranked.length - 1][0]] : '-',
+    chunk_count: results.length,
+    fallback_metrics: fallbackMetrics
+  }
+}
+
+function toHundredScale(value: unknown): number {
+  const score = Number(value)
+  if (!Number.isFinite(score) || score <= 0) return 0
+  return Math.min(100, score <= 5 ? score * 20 : score)
+}
+
+function formatSectionsForPrompt(sections: ProposalSections, keys: ProposalSectionKey[]): string {
+  const budget = Math.max(MIN_SECTION_BUDGET, Math.floor(PROPOSAL_PROMPT_BUDGET / Math.max(1, keys.length)))
+
+  return keys.map(key => {
+    const content = sections[key]!.trim()
+    const excerpt = content.length > budget ? content.substring(0, budget) + ' ...(이하 생략)' : content
+    return `【${PROPOSAL_SECTION_LABELS[key]} (${key})】\n${excerpt}`
+  }).join('\n\n')
+}
+
+// LLM 응답의 섹션 항목을 정리한 형태 (점수는 아직 5점/100점 척도 변환 전)
+interface RawSectionScore {
+  score?: unknown
+  comment: string
+  metrics: Partial<Record<ScoreKey, unknown>>
+}
+
+/**
+ * 섹션별 점수 정리 - 섹션마다 6대 지표 점수(히트맵용)를 채우고,
+ * LLM 응답에서 누락된 섹션·지표(또는 LLM 미사용 시)는 해당 섹션 본문만 오프라인 루브릭으로 채점
+ */
+function normalizeSectionScores(
+  raw: unknown,
+  keys: ProposalSectionKey[],
+  sections: ProposalSections,
+  rfpAnalysisData?: Record<string, any>
+): Partial<Record<ProposalSectionKey, SectionScore>> {
+  const result: Partial<Record<ProposalSectionKey, SectionScore>> = {}
+  const rawSections = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {}
+  const offlineScoring = new OfflineScoringService()
+
+  for (const key of keys) {
+    const entry = parseRawSectionScore(rawSections[key])
+    const content = sections[key] || ''
+    const offlineMetrics = offlineScoring.scoreSection(key, content, rfpAnalysisData)
+
+    const metrics = {} as Record<ScoreKey, number>
+    for (const metric of SCORE_KEYS) {
+      const llmScore = toHundredScale(entry?.metrics[metric])
+      metrics[metric] = llmScore > 0 ? Math.round(llmScore) : offlineMetrics[metric]
+    }
+
+    const score = toHundredScale(entry?.score)
+    if (entry && score > 0) {
+      result[key] = {
+        score: Math.round(score),
+        comment: entry.comment,
+        metrics,
+        source: 'llm'
+      }
+      continue
+    }
+
+    const wordCount = content.split(/\s+/).filter(Boolean).length
+    const hasEvidence = /\d+(?:\.\d+)?\s*(?:%|건|억|원|개월|명|배)/.test(content)
+    result[key] = {
+      score: Math.round(SCORE_KEYS.reduce((sum, metric) => sum + offlineMetrics[metric], 0) / SCORE_KEYS.length),
+      comment: wordCount < 30
+        ? `${PROPOSAL_SECTION_LABELS[key]} 내용이 짧아 구체적인 근거 보완이 필요합니다.`
+        : hasEvidence
+          ? `${PROPOSAL_SECTION_LABELS[key]}에 정량적 근거가 제시되어 있습니다.`
+          : `${PROPOSAL_SECTION_LABELS[key]}에 수치·사례 등 정량적 근거를 추가하면 설득력이 높아집니다.`,
+      metrics: offlineMetrics,
+      source: 'offline_rubric'
+    }
+  }
+
+  return result
+}
+
+// 섹션 항목은 { score, comment, metrics } 또는 점수 하나만 오는 경우가 있음 (신뢰성은 credibility 키 허용)
+function parseRawSectionScore(entry: unknown): RawSectionScore | null {
+  if (typeof entry === 'number' || typeof entry === 'string') return { score: entry, comment: '', metrics: {} }
+  if (!entry || typeof entry !== 'object') return null
+
+  const { score, comment, metrics } = entry as { score?: unknown; comment?: unknown; metrics?: unknown }
+  const rawMetrics = metrics && typeof metrics === 'object' ? metrics as Record<string, unknown> : {}
+  return {
+    score,
+    comment: typeof comment === 'string' ? comment : '',
+    metrics: Object.fromEntries(SCORE_KEYS.map(metric => [
+      metric,
+      rawMetrics[metric] ?? (metric === 'reliability' ? rawMetrics.credibility : undefined)
+    ]))
+  }
+}
+
+// 클라이언트가 보낸 파일 정보 중 유효한 값만 저장
+function normalizeProposalFile(file: ProposalFileInfo | undefined): ProposalFileInfo | undefined {
+  if (!file || typeof file !== 'object') return undefined
+  const fileType = typeof file.file_type === 'string' && file.file_type.trim() ? file.file_type.trim() : undefined
+  const pageCount = Number(file.page_count)
+  const normalized: ProposalFileInfo = {
+    file_type: fileType,
+    page_count: Number.isInteger(pageCount) && pageCount > 0 ? pageCount : undefined
+  }
+  return normalized.file_type || normalized.page_count ? normalized : undefined
+}
@@ -0,0 +1,188 @@
+// 다회 평가 편차 분석 - 같은 입력을 N회(모델 혼합 가능) 평가해 지표별 평균·표준편차·신뢰구간과 불일치 지표 산출
+
+export const DEFAULT_EVALUATION_MODEL = 'gpt-4o'
+// 다회 평가에 지정할 수 있는 모델 (루브릭 JSON 응답을 지원하는 모델만)
+export const EVALUATION_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo']
+
+// LLM 호출 비용/시간 상한
+export const MAX_EVALUATION_RUNS = 5
+// 실행 간 최고-최저 점수 차이가 이 값을 넘으면 불일치 지표로 표시
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 10
+// 편차 계산에 포함하는 평가 방식 (오프라인 채점으로 대체된 실행은 결정적이라 제외)
+const LLM_EVALUATION_METHODS = ['llm', 'llm_map_reduce']
+
+export interface MultiRunOptions {
+  runs: number
+  // 실행마다 순환 적용할 모델 (없으면 기본 모델)
+  models?: string[]
+  disagreement_threshold?: number
+}
+
+export interface EvaluationRunSummary {
+  run: number
+  model: string
+  evaluation_method?: string
+  // 점수를 산출하지 못한 지표/총점은 null (통계에서 제외)
+  total_score: number | null
+  scores: Record<string, number | null>
+  // LLM 평가에 실패해 오프라인 채점으로 대체된 실행은 false (통계에서 제외)
+  included: boolean
+}
+
+export interface ScoreStatistics {
+  mean: number
+  std_dev: number
+  // 95% 신뢰구간 (t 분포)
+  ci_low: number
+  ci_high: number
+  min: number
+  max: number
+  values: number[]
+}
+
+export interface MetricVariance extends ScoreStatistics {
+  disagreement: boolean
+}
+
+export interface ScoreVariance {
+  // 통계에 포함된 실행 수 (excluded_run_count: 오프라인 대체 등으로 제외된 실행 수)
+  run_count: number
+  excluded_run_count: number
+  models: string[]
+  confidence_level: 0.95
+  disagreement_threshold: number
+  total_score: ScoreStatistics
+  // 모든 실행에서 점수가 없으면 null
+  metrics: Record<string, MetricVariance | null>
+  flagged_metrics: string[]
+  runs: EvaluationRunSummary[]
+}
+
+// 자유도 1~30의 양측 95% t 임계값 (그 이상은 정규분포 근사)
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+]
+
+/**
+ * 요청값 검증 후 다회 평가 옵션 정규화 (runs가 2 미만이면 단일 평가로 처리하도록 null)
+ * LLM이 없으면 오프라인 채점이 매번 같은 점수를 내므로 다회 평가를 거부
+ */
+export function resolveMultiRunOptions(runs: unknown, models?: unknown, threshold?: unknown, llmAvailable = true): MultiRunOptions | null {
+  if (runs === undefined || runs === null) return null
+
+  const runCount = Number(runs)
+  if (!Number.isInteger(runCount) || runCount < 1 || runCount > MAX_EVALUATION_RUNS) {
+    throw new Error(`평가 반복 횟수(runs)는 1~${MAX_EVALUATION_RUNS} 사이의 정수여야 합니다.`)
+  }
+  if (models !== undefined && (!Array.isArray(models) || models.some(model => typeof model !== 'string' || !model.trim()))) {
+    throw new Error('평가 모델 목록(models)은 모델명 문자열 배열이어야 합니다.')
+  }
+  const unsupported = ((models as string[] | undefined) || []).filter(model => !EVALUATION_MODELS.includes(model.trim()))
+  if (unsupported.length) {
+    throw new Error(`지원하지 않는 평가 모델입니다: ${unsupported.join(', ')} (${EVALUATION_MODELS.join(', ')})`)
+  }
+  const disagreementThreshold = threshold !== undefined ? Number(threshold) : DEFAULT_DISAGREEMENT_THRESHOLD
+  if (!Number.isFinite(disagreementThreshold) || disagreementThreshold < 0) {
+    throw new Error('불일치 기준(disagreement_threshold)은 0 이상의 숫자여야 합니다.')
+  }
+
+  if (runCount < 2) return null
+  if (!llmAvailable) {
+    throw new Error('다회 평가(runs ≥ 2)는 LLM(OPENAI_API_KEY)이 설정된 경우에만 가능합니다. 오프라인 채점은 항상 같은 점수를 냅니다.')
+  }
+  return {
+    runs: runCount,
+    models: (models as string[] | undefined)?.map(model => model.trim()),
+    disagreement_threshold: disagreementThreshold
+  }
+}
+
+/**
+ * 실행 순번별 평가 모델 (모델 목록을 순환)
+ */
+export function modelForRun(options: MultiRunOptions, runIndex: number): string {
+  return options.models?.length ? options.models[runIndex % options.models.length] : DEFAULT_EVALUATION_MODEL
+}
+
+/**
+ * 실행별 평가 결과에서 지표별 통계와 불일치 지표 산출 (LLM 실행의 산출된 점수만 사용)
+ */
+export function summarizeRuns(
+  results: Array<Omit<EvaluationRunSummary, 'run' | 'included'>>,
+  metricKeys: readonly string[],
+  threshold = DEFAULT_DISAGREEMENT_THRESHOLD
+): ScoreVariance {
+  const runs: EvaluationRunSummary[] = results.map((result, index) => ({
+    run: index + 1,
+    ...result,
+    included: LLM_EVALUATION_METHODS.includes(result.evaluation_method || '')
+  }))
+  const included = runs.filter(run => run.included)
+  const totals = scoredValues(included.map(run => run.total_score))
+  if (totals.length === 0) {
+    throw new Error('LLM 평가에 성공한 실행이 없어 편차를 계산할 수 없습니다.')
+  }
+
+  const metrics: Record<string, MetricVariance | null> = {}
+  for (const key of metricKeys) {
+    const values = scoredValues(included.map(run => run.scores[key]))
+    if (values.length === 0) {
+      metrics[key] = null
+      continue
+    }
+    const stats = describe(values)
+    metrics[key] = { ...stats, disagreement: stats.max - stats.min > threshold }
+  }
+
+  return {
+    run_count: included.length,
+    excluded_run_count: runs.length - included.length,
+    models: [...new Set(included.map(run => run.model))],
+    confidence_level: 0.95,
+    disagreement_threshold: threshold,
+    total_score: describe(totals),
+    metrics,
+    flagged_metrics: metricKeys.filter(key => metrics[key]?.disagreement),
+    runs
+  }
+}
+
+/**
+ * 통계에 포함된 실행 중 평균 총점에 가장 가까운 실행 (대표 코멘트/근거를 가져올 실행)
+ */
+export function representativeRunIndex(variance: ScoreVariance): number {
+  const mean = variance.total_score.mean
+  const distance = (run: EvaluationRunSummary) => run.included && run.total_score !== null
+    ? Math.abs(run.total_score - mean)
+    : Infinity
+  return variance.runs.reduce((best, run, index) =>
+    distance(run) < distance(variance.runs[best]) ? index : best, 0)
+}
+
+function scoredValues(values: Array<number | null>): number[] {
+  return values.filter((value): value is number => value !== null && Number.isFinite(value))
+}
+
+function describe(values: number[]): ScoreStatistics {
+  const n = values.length
+  const mean = values.reduce((sum, value) => sum + value, 0) / n
+  // 표본 표준편차 (n-1)
+  const stdDev = n > 1 ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)) : 0
+  const margin = n > 1 ? (T_CRITICAL_95[n - 2] ?? 1.96) * stdDev / Math.sqrt(n) : 0
+
+  return {
+    mean: round(mean),
+    std_dev: round(stdDev),
+    ci_low: round(Math.max(0, mean - margin)),
+    ci_high: round(Math.min(100, mean + margin)),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    values
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
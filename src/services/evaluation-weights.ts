@@ -0,0 +1,306 @@
+// 평가 가중치 프로파일 - RFP 평가기준(속성 8) 배점을 6대 지표 가중치와 제안서/발표 비중으로 변환
+
+export type EvaluationMetric = 'clarity' | 'expertise' | 'persuasiveness' | 'logic' | 'creativity' | 'credibility'
+
+export const EVALUATION_METRICS: EvaluationMetric[] = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'credibility']
+
+export type MetricWeights = Record<EvaluationMetric, number>
+
+// RFP 평가기준을 찾지 못했을 때 사용하는 기본 가중치
+export const DEFAULT_METRIC_WEIGHTS: MetricWeights = {
+  clarity: 0.15,
+  expertise: 0.25,
+  persuasiveness: 0.20,
+  logic: 0.20,
+  creativity: 0.10,
+  credibility: 0.10
+}
+
+export const DEFAULT_PROPOSAL_WEIGHT = 0.7
+export const DEFAULT_PRESENTATION_WEIGHT = 0.3
+// 질의응답 세션을 함께 통합할 때의 기본 비중
+export const DEFAULT_QA_WEIGHT = 0.2
+
+export type CriterionCategory =
+  | 'technical'
+  | 'price'
+  | 'management'
+  | 'experience'
+  | 'understanding'
+  | 'innovation'
+  | 'presentation'
+  | 'other'
+
+// 평가항목 분류 키워드 및 6대 지표 배분 비율
+const CRITERION_CATEGORIES: Array<{
+  category: CriterionCategory
+  keywords: RegExp
+  metrics: Partial<MetricWeights>
+}> = [
+  { category: 'presentation', keywords: /발표|프레젠테이션|PT|질의|응답|인터뷰|시연/, metrics: { clarity: 0.5, persuasiveness: 0.5 } },
+  { category: 'price', keywords: /가격|비용|예산|금액|입찰가|단가/, metrics: { persuasiveness: 0.6, credibility: 0.4 } },
+  { category: 'experience', keywords: /실적|경험|레퍼런스|사례|신용|재무|경영상태/, metrics: { credibility: 0.7, expertise: 0.3 } },
+  { category: 'management', keywords: /수행|관리|일정|조직|인력|운영|유지보수|지원|보안/, metrics: { logic: 0.4, credibility: 0.6 } },
+  { category: 'innovation', keywords: /혁신|창의|차별|신기술|가점|특화/, metrics: { creativity: 1 } },
+  { category: 'understanding', keywords: /이해|요구|전략|목표|비전|사업/, metrics: { clarity: 0.5, persuasiveness: 0.5 } },
+  { category: 'technical', keywords: /기술|방법론|아키텍처|솔루션|기능|성능|품질|설계/, metrics: { expertise: 0.35, logic: 0.25, clarity: 0.2, creativity: 0.2 } }
+]
+
+// 상위 합계 항목 (하위 항목과 중복 집계 방지)
+const AGGREGATE_LABELS = /^(정량|정성|합계|총점|총|계|배점|평가기준|평가항목)(평가|점수)?$/
+
+export interface EvaluationCriterion {
+  label: string
+  points: number
+  category: CriterionCategory
+  channel: 'proposal' | 'presentation'
+}
+
+export interface EvaluationWeightProfile {
+  source: 'rfp' | 'persona' | 'default' | 'custom'
+  criteria_text?: string
+  criteria: EvaluationCriterion[]
+  metric_weights: MetricWeights
+  proposal_weight: number
+  presentation_weight: number
+}
+
+// 평가 전 사용자가 수정할 수 있는 항목 (지표 가중치는 비율 또는 % 모두 허용)
+export interface WeightOverrides {
+  metric_weights?: Partial<Record<EvaluationMetric | 'reliability', number>>
+  proposal_weight?: number
+  presentation_weight?: number
+  // 질의응답 세션 점수를 통합할 때의 비중
+  qa_weight?: number
+}
+
+/**
+ * 평가기준 텍스트에서 항목별 배점 추출
+ * 예: "기술 70 : 가격 30", "기술평가 80점 / 가격평가 20점", "| 사업 이해도 | 15 |"
+ */
+export function parseEvaluationCriteria(text?: string): EvaluationCriterion[] {
+  if (!text) return []
+
+  const pattern = /([가-힣A-Za-z][가-힣A-Za-z·\s]{0,30}?)\s*[:：|]?\s*\(?\s*(\d{1,3}(?:\.\d+)?)\s*(?:점|%|pt)?\s*\)?/g
+  const criteria: EvaluationCriterion[] = []
+
+  for (const match of text.matchAll(pattern)) {
+    const label = match[1].replace(/\s+/g, ' ').trim()
+    const points = parseFloat(match[2])
+
+    if (!label || !(points > 0) || points > 100) continue
+    if (AGGREGATE_LABELS.test(label.replace(/\s/g, ''))) continue
+
+    const category = classifyCriterion(label)
+    criteria.push({
+      label,
+      points,
+      category,
+      channel: category === 'presentation' ? 'presentation' : 'proposal'
+    })
+  }
+
+  return criteria
+}
+
+/**
+ * 추출된 배점을 6대 지표 가중치와 제안서/발표 비중으로 변환
+ */
+export function buildWeightProfile(criteriaText?: string, fallbackWeights?: Partial<MetricWeights>): EvaluationWeightProfile {
+  const criteria = parseEvaluationCriteria(criteriaText)
+  const totalPoints = criteria.reduce((sum, criterion) => sum + criterion.points, 0)
+
+  if (criteria.length === 0 || totalPoints <= 0) {
+    const personaWeights = fallbackWeights && normalizeMetricWeights(fallbackWeights)
+    return {
+      source: personaWeights ? 'persona' : 'default',
+      criteria_text: criteriaText,
+      criteria: [],
+      metric_weights: personaWeights || { ...DEFAULT_METRIC_WEIGHTS },
+      proposal_weight: DEFAULT_PROPOSAL_WEIGHT,
+      presentation_weight: DEFAULT_PRESENTATION_WEIGHT
+    }
+  }
+
+  // 발표 항목 배점이 있으면 그 비율을 발표 비중으로, 없으면 기본 70/30
+  const presentationPoints = criteria
+    .filter(criterion => criterion.channel === 'presentation')
+    .reduce((sum, criterion) => sum + criterion.points, 0)
+  const split = presentationPoints > 0
+    ? normalizeSplit(1 - presentationPoints / totalPoints)
+    : { proposal_weight: DEFAULT_PROPOSAL_WEIGHT, presentation_weight: DEFAULT_PRESENTATION_WEIGHT }
+
+  return {
+    source: 'rfp',
+    criteria_text: criteriaText,
+    criteria,
+    metric_weights: criteriaMetricWeights(criteria)!,
+    ...split
+  }
+}
+
+/**
+ * 평가항목 배점을 분류별 배분 비율로 6대 지표에 나눠 담은 가중치 (합계 1, 배점이 없으면 null)
+ */
+export function criteriaMetricWeights(criteria: EvaluationCriterion[]): MetricWeights | null {
+  const accumulated = emptyWeights()
+  for (const criterion of criteria) {
+    const distribution = CRITERION_CATEGORIES.find(entry => entry.category === criterion.category)?.metrics
+      || Object.fromEntries(EVALUATION_METRICS.map(metric => [metric, 1 / EVALUATION_METRICS.length]))
+
+    for (const [metric, ratio] of Object.entries(distribution)) {
+      accumulated[metric as EvaluationMetric] += criterion.points * (ratio as number)
+    }
+  }
+
+  return normalizeMetricWeights(accumulated)
+}
+
+/**
+ * 고객의 RFP 평가기준(속성 8)으로 프로파일 생성 후 사용자 수정값 적용
+ * 우선순위: 사용자 수정 > RFP 평가기준 > 페르소나 평가 가중치 > 기본값
+ */
+export function resolveWeightProfile(customer: any, overrides?: WeightOverrides): EvaluationWeightProfile {
+  const criteriaAttribute = customer?.rfp_analysis_data?.[8]
+  let profile = buildWeightProfile(criteriaAttribute?.content, customer?.integrated_persona?.evaluation_weights)
+
+  // 요약 내용에서 배점을 찾지 못하면 원문 발췌로 재시도
+  if (profile.source !== 'rfp' && criteriaAttribute?.source_snippet) {
+    const fromSnippet = buildWeightProfile(criteriaAttribute.source_snippet)
+    if (fromSnippet.source === 'rfp') profile = fromSnippet
+  }
+
+  return applyWeightOverrides(profile, overrides)
+}
+
+/**
+ * 사용자 수정 가중치 검증 및 적용 (지표 가중치는 합계 1로 정규화)
+ */
+export function applyWeightOverrides(profile: EvaluationWeightProfile, overrides?: WeightOverrides): EvaluationWeightProfile {
+  if (!overrides) return profile
+
+  const { metric_weights, proposal_weight, presentation_weight } = overrides
+  const hasMetricOverride = !!metric_weights && Object.keys(metric_weights).length > 0
+  const hasSplitOverride = proposal_weight !== undefined || presentation_weight !== undefined
+  if (!hasMetricOverride && !hasSplitOverride) return profile
+
+  let metricWeights = profile.metric_weights
+  if (hasMetricOverride) {
+    const merged: Partial<MetricWeights> = { ...profile.metric_weights }
+    for (const [key, value] of Object.entries(metric_weights!)) {
+      const metric = (key === 'reliability' ? 'credibility' : key) as EvaluationMetric
+      if (!EVALUATION_METRICS.includes(metric)) {
+        throw new Error(`알 수 없는 평가 지표입니다: ${key}`)
+      }
+      merged[metric] = toWeight(value)
+    }
+
+    const normalized = normalizeMetricWeights(merged)
+    if (!normalized) {
+      throw new Error('6대 지표 가중치 합계가 0보다 커야 합니다')
+    }
+    metricWeights = normalized
+  }
+
+  let split = { proposal_weight: profile.proposal_weight, presentation_weight: profile.presentation_weight }
+  if (hasSplitOverride) {
+    split = proposal_weight !== undefined
+      ? normalizeSplit(toWeight(proposal_weight))
+      : normalizeSplit(1 - toWeight(presentation_weight!))
+  }
+
+  return {
+    ...profile,
+    source: 'custom',
+    metric_weights: metricWeights,
+    ...split
+  }
+}
+
+export interface QAWeightSplit {
+  proposal_weight: number
+  presentation_weight: number
+  qa_weight: number
+}
+
+/**
+ * 제안서/발표/질의응답 3요소 비중 (질의응답 비중만큼 제안서·발표 비중을 비례 축소)
+ */
+export function splitWithQA(profile: EvaluationWeightProfile, qaWeight?: number): QAWeightSplit {
+  const qa = qaWeight !== undefined ? toWeight(qaWeight) : DEFAULT_QA_WEIGHT
+  if (qa >= 1) {
+    throw new Error(`질의응답 비중은 1(100%)보다 작아야 합니다: ${qaWeight}`)
+  }
+
+  const proposal = Math.round(profile.proposal_weight * (1 - qa) * 100) / 100
+  const roundedQA = Math.round(qa * 100) / 100
+  return {
+    proposal_weight: proposal,
+    presentation_weight: Math.round((1 - roundedQA - proposal) * 100) / 100,
+    qa_weight: roundedQA
+  }
+}
+
+/**
+ * 6대 지표 점수({score} 객체 또는 숫자, reliability/credibility 혼용)에 가중치를 적용한 총점
+ */
+export function calculateWeightedScore(scores: any, weights: MetricWeights): number {
+  if (!scores) return 0
+
+  const total = EVALUATION_METRICS.reduce((sum, metric) => {
+    const raw = metric === 'credibility' ? (scores.credibility ?? scores.reliability) : scores[metric]
+    const value = Number(typeof raw === 'object' && raw !== null ? raw.score : raw) || 0
+    return sum + value * weights[metric]
+  }, 0)
+
+  return Math.round(total)
+}
+
+function classifyCriterion(label: string): CriterionCategory {
+  return CRITERION_CATEGORIES.find(entry => entry.keywords.test(label))?.category || 'other'
+}
+
+function emptyWeights(): MetricWeights {
+  return { clarity: 0, expertise: 0, persuasiveness: 0, logic: 0, creativity: 0, credibility: 0 }
+}
+
+// 합계 1로 정규화 후 소수 둘째 자리 반올림 (반올림 오차는 최대 가중치 지표에 반영)
+function normalizeMetricWeights(weights: Partial<MetricWeights>): MetricWeights | null {
+  const values = emptyWeights()
+  for (const metric of EVALUATION_METRICS) {
+    const value = Number(weights[metric])
+    values[metric] = Number.isFinite(value) && value > 0 ? value : 0
+  }
+
+  const sum = EVALUATION_METRICS.reduce((total, metric) => total + values[metric], 0)
+  if (sum <= 0) return null
+
+  for (const metric of EVALUATION_METRICS) {
+    values[metric] = Math.round(values[metric] / sum * 100) / 100
+  }
+
+  const drift = Math.round((1 - EVALUATION_METRICS.reduce((total, metric) => total + values[metric], 0)) * 100) / 100
+  if (drift !== 0) {
+    const largest = EVALUATION_METRICS.reduce((top, metric) => values[metric] > values[top] ? metric : top)
+    values[largest] = Math.round((values[largest] + drift) * 100) / 100
+  }
+
+  return values
+}
+
+function normalizeSplit(proposalWeight: number) {
+  const proposal = Math.round(Math.min(1, Math.max(0, proposalWeight)) * 100) / 100
+  return {
+    proposal_weight: proposal,
+    presentation_weight: Math.round((1 - proposal) * 100) / 100
+  }
+}
+
+// 0~1 비율 또는 0~100 퍼센트 입력을 비율로 변환
+function toWeight(value: unknown): number {
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`가중치는 0 이상의 숫자여야 합니다: ${value}`)
+  }
+  return number > 1 ? number / 100 : number
+}
@@ -0,0 +1,176 @@
+// 평가 근거 연결 서비스 - 지표 코멘트·강점·개선점을 제안서/발표 스크립트 원문 인용(문자 위치, 페이지)과 연결
+
+import { extractKeywords } from './requirement-traceability-service'
+import type { EvidenceSpan } from '../types/ai-customer'
+
+export interface PageStart {
+  page_number: number
+  start: number
+}
+
+// 코멘트 하나에 연결할 최대 인용 수와 인용 길이
+const MAX_SPANS_PER_COMMENT = 2
+const MAX_QUOTE_LENGTH = 200
+const MIN_SENTENCE_LENGTH = 10
+
+// 지표별 근거 문장 단서 (코멘트 키워드만으로 근거를 찾기 어려운 일반적 코멘트 보완)
+const METRIC_CUES: Record<string, RegExp> = {
+  clarity: /목표|개요|구성|요약|정의|범위/,
+  expertise: /기술|아키텍처|방법론|플랫폼|시스템|설계|표준/,
+  persuasiveness: /효과|절감|향상|가치|ROI|개선|기대/,
+  logic: /따라서|때문|단계|근거|분석|결과|통해/,
+  creativity: /혁신|차별|신기술|AI|자동화|특허|독자/,
+  reliability: /실적|경험|인증|레퍼런스|사례|보장|\d+\s*(?:건|년|%)/,
+  credibility: /실적|경험|인증|레퍼런스|사례|보장|\d+\s*(?:건|년|%)/
+}
+
+// 평가 결과 scores의 지표 항목 (evidence는 LLM 인용문 문자열 배열 또는 이미 연결된 근거)
+interface MetricEntry {
+  score?: number
+  comment?: string
+  evidence?: unknown
+}
+
+interface Sentence {
+  start: number
+  end: number
+  text: string
+}
+
+export class EvidenceAnchorService {
+  private sentences: Sentence[]
+
+  constructor(
+    private text: string,
+    private source: EvidenceSpan['source'],
+    private pageStarts: PageStart[] = []
+  ) {
+    this.sentences = Array.from(text.matchAll(/[^.!?。\n]+[.!?。]?/g))
+      .map(match => {
+        const leading = match[0].length - match[0].trimStart().length
+        const trimmed = match[0].trim()
+        return { start: match.index! + leading, end: match.index! + leading + trimmed.length, text: trimmed }
+      })
+      .filter(sentence => sentence.text.length >= MIN_SENTENCE_LENGTH)
+  }
+
+  /**
+   * LLM이 제시한 인용문을 원문에서 찾아 위치 지정 (원문에 없는 인용은 제외)
+   */
+  locate(quotes: unknown): EvidenceSpan[] {
+    if (!Array.isArray(quotes)) return []
+
+    const spans: EvidenceSpan[] = []
+    for (const quote of quotes) {
+      if (typeof quote !== 'string' || quote.trim().length < MIN_SENTENCE_LENGTH / 2) continue
+      const found = this.find(quote.trim())
+      if (found && !spans.some(span => span.start === found.start)) spans.push(this.span(found.start, found.end))
+    }
+    return spans.slice(0, MAX_SPANS_PER_COMMENT)
+  }
+
+  /**
+   * 코멘트 키워드(+지표 단서)와 가장 많이 겹치는 원문 문장을 근거로 선택
+   */
+  findSupport(comment: string, metric?: string): EvidenceSpan[] {
+    const keywords = extractKeywords(comment).map(keyword => keyword.toLowerCase())
+    const cue = metric ? METRIC_CUES[metric] : undefined
+
+    return this.sentences
+      .map(sentence => {
+        const lower = sentence.text.toLowerCase()
+        const overlap = keywords.filter(keyword => lower.includes(keyword)).length
+        return { sentence, score: overlap + (cue?.test(sentence.text) ? 1 : 0) }
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.sentence.start - b.sentence.start)
+      .slice(0, MAX_SPANS_PER_COMMENT)
+      .map(({ sentence }) => this.span(sentence.start, Math.min(sentence.end, sentence.start + MAX_QUOTE_LENGTH)))
+  }
+
+  /**
+   * 평가 결과의 지표 코멘트(scores[*].evidence), 강점·개선점(comment_evidence)에 원문 근거 연결
+   * scores[*].evidence에 LLM 인용문(문자열)이 있으면 원문에서 위치를 찾고, 없거나 찾지 못하면 코멘트로 근거 검색
+   */
+  anchorEvaluation<T extends Record<string, any>>(evaluation: T): T {
+    if (!this.text.trim()) return evaluation
+
+    const scores: Record<string, unknown> = {}
+    for (const [metric, entry] of Object.entries<unknown>(evaluation.scores || {})) {
+      if (!isMetricEntry(entry)) {
+        scores[metric] = entry
+        continue
+      }
+      const located = this.locate(entry.evidence)
+      scores[metric] = {
+        ...entry,
+        evidence: located.length ? located : this.findSupport(typeof entry.comment === 'string' ? entry.comment : '', metric)
+      }
+    }
+
+    const anchorAll = (items: unknown) => Array.isArray(items)
+      ? items.map(item => typeof item === 'string' ? this.findSupport(item) : [])
+      : []
+
+    return {
+      ...evaluation,
+      scores,
+      comment_evidence: {
+        key_strengths: anchorAll(evaluation.key_strengths),
+        improvement_areas: anchorAll(evaluation.improvement_areas)
+      }
+    }
+  }
+
+  private find(quote: string): { start: number; end: number } | null {
+    const exact = this.text.indexOf(quote)
+    if (exact >= 0) return { start: exact, end: exact + quote.length }
+
+    // 줄바꿈·공백 차이 허용, 끝부분이 다르면 앞 40자로 재시도
+    for (const candidate of [quote, quote.substring(0, 40)]) {
+      const pattern = candidate.split(/\s+/).filter(Boolean).map(escapeRegExp).join('\\s+')
+      if (!pattern) continue
+      const match = new RegExp(pattern).exec(this.text)
+      if (match) return { start: match.index, end: match.index + match[0].length }
+    }
+    return null
+  }
+
+  private span(start: number, end: number): EvidenceSpan {
+    const page = this.pageStarts.filter(pageStart => pageStart.start <= start).pop()
+    return {
+      source: this.source,
+      quote: this.text.substring(start, end),
+      start,
+      end,
+      ...(page ? { page_number: page.page_number } : {})
+    }
+  }
+}
+
+/**
+ * 파싱된 페이지 내용을 본문에서 순서대로 찾아 페이지 시작 위치 계산 (본문과 일치하지 않는 페이지는 건너뜀)
+ */
+export function computePageStarts(text: string, pages: Array<{ pageNumber: number; content: string }>): PageStart[] {
+  const starts: PageStart[] = []
+  let cursor = 0
+
+  for (const page of pages) {
+    const probe = page.content.trim().substring(0, 80)
+    if (!probe) continue
+    const index = text.indexOf(probe, cursor)
+    if (index < 0) continue
+    starts.push({ page_number: page.pageNumber, start: index })
+    cursor = index + probe.length
+  }
+
+  return starts
+}
+
+function isMetricEntry(entry: unknown): entry is MetricEntry {
+  return !!entry && typeof entry === 'object' && !Array.isArray(entry)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
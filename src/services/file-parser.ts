@@ -1,4 +1,8 @@
-// 파일 파싱 서비스
+// 파일 파싱 서비스 - 업로드 문서(PDF/DOCX/PPTX/TXT) 실제 텍스트 추출, 페이지 번호 및 섹션 구조 인식
+
+import { PdfParserService } from './pdf-parser-service'
+import { SlideDeckParser } from './slide-deck-parser'
+import type { ProposalSections } from '../types'
 
 export interface ParsedDocument {
   title: string
@@ -9,11 +13,18 @@ export interface ParsedDocument {
     fileSize: number
     pageCount?: number
     wordCount: number
+    extractionMethod?: string
     extractedAt: string
   }
+  pages: DocumentPage[]
   sections: DocumentSection[]
 }
 
+export interface DocumentPage {
+  pageNumber: number
+  content: string
+}
+
 export interface DocumentSection {
   title: string
   content: string
@@ -21,66 +32,124 @@ export interface DocumentSection {
   level: number // 1=제목, 2=부제목, 3=본문
 }
 
+// 제목 없이 시작하는 첫 섹션의 제목
+const INTRO_SECTION_TITLE = '서론'
+
+// 페이지당 평균 글자 수가 이보다 적으면 텍스트 레이어가 없는 스캔 문서로 판단
+const MIN_TEXT_CHARS_PER_PAGE = 20
+
+// 섹션 제목 패턴 (한 줄 60자 이내만 제목으로 인정)
+const HEADING_PATTERNS: Array<{ pattern: RegExp; level: number }> = [
+  { pattern: /^제\s*\d+\s*[장편부]\.?\s*(.+)$/, level: 1 },
+  { pattern: /^(?:[IVX]+|[ⅠⅡⅢⅣⅤⅥⅦⅧⅨⅩ]+)\.\s*(.+)$/, level: 1 },
+  { pattern: /^\d+\.\d+(?:\.\d+)*\.?\s+(.+)$/, level: 2 },
+  { pattern: /^\d+\.(?!\d)\s*(.+)$/, level: 1 },
+  { pattern: /^[가-하]\.\s+(.+)$/, level: 2 },
+  // "방법론:"처럼 콜론으로 끝나는 짧은 소제목
+  { pattern: /^([가-힣A-Za-z][^:：]{0,20})[:：]$/, level: 2 }
+]
+
+export type ProposalSectionKey = keyof ProposalSections
+
+export const PROPOSAL_SECTION_LABELS: Record<ProposalSectionKey, string> = {
+  executive_summary: '사업 개요',
+  methodology: '수행 방법론',
+  technical_approach: '기술 방안',
+  security: '보안',
+  pricing: '가격/예산',
+  risk_management: '리스크 관리',
+  team: '수행 조직',
+  timeline: '추진 일정'
+}
+
+// 섹션 제목 → ProposalSections 키 (구체적인 분류부터 검사)
+const PROPOSAL_SECTION_KEYWORDS: Array<{ key: ProposalSectionKey; pattern: RegExp }> = [
+  { key: 'security', pattern: /보안|개인정보|정보보호|security|privacy/i },
+  { key: 'pricing', pattern: /가격|비용|예산|사업비|견적|대가|pricing|cost|budget/i },
+  { key: 'risk_management', pattern: /리스크|위험|이슈\s*관리|품질\s*관리|risk/i },
+  { key: 'timeline', pattern: /일정|마일스톤|로드맵|추진\s*계획|단계별|schedule|timeline|roadmap|milestone/i },
+  { key: 'team', pattern: /조직|인력|투입|수행\s*체계|레퍼런스|수행\s*실적|회사\s*소개|team|organization|staff/i },
+  { key: 'methodology', pattern: /방법론|접근|추진\s*전략|추진\s*방안|수행\s*방안|methodology|approach/i },
+  { key: 'technical_approach', pattern: /기술|아키텍처|솔루션|시스템|구축|설계|기능|플랫폼|technical|architecture|solution/i },
+  { key: 'executive_summary', pattern: /요약|개요|배경|이해|목표|목적|기대\s*효과|서론|summary|overview|introduction/i }
+]
+
 export class FileParserService {
+  private pdfParser = new PdfParserService()
   
-  // PDF 파일 파싱 (시뮬레이션)
+  // PDF 파일 파싱 (pdf-parse 텍스트 레이어 추출)
   async parsePDF(file: File): Promise<ParsedDocument> {
-    // 실제 구현에서는 PDF.js 또는 서버사이드 파싱 필요
-    // 현재는 시뮬레이션된 파싱 결과 반환
+    const buffer = await file.arrayBuffer()
+    const result = await this.pdfParser.extractTextFromPdf(buffer, file.name)
     
-    const content = await this.simulatePDFExtraction(file)
-    
-    return {
-      title: this.extractTitle(file.name, content),
-      content: content,
-      metadata: {
-        fileType: 'PDF',
-        fileName: file.name,
-        fileSize: file.size,
-        pageCount: Math.ceil(content.length / 3000), // 페이지당 약 3000자로 추정
-        wordCount: content.split(/\s+/).length,
-        extractedAt: new Date().toISOString()
-      },
-      sections: this.extractSections(content)
+    // pdf-lib 패턴 매칭 결과는 압축 스트림 잔여물이 섞여 실제 본문으로 쓸 수 없음
+    if (result.extraction_method !== 'pdf-parse') {
+      throw new Error(`PDF 텍스트 레이어를 읽을 수 없습니다 (${file.name}). 현재 실행 환경에서는 PDF 텍스트 추출을 지원하지 않거나 손상된 파일입니다.`)
     }
+    
+    const pages = result.pages.map(page => ({ pageNumber: page.page_number, content: page.content }))
+    this.assertHasText(pages, result.metadata.page_count, file.name)
+    
+    return this.buildDocument(file, 'PDF', pages, result.metadata.page_count, result.extraction_method, result.metadata.title)
   }
 
-  // DOCX 파일 파싱 (시뮬레이션)
+  // DOCX 파일 파싱 (JSZip으로 word/document.xml 단락 추출)
   async parseDOCX(file: File): Promise<ParsedDocument> {
-    // 실제 구현에서는 mammoth.js 또는 서버사이드 파싱 필요
+    const buffer = await file.arrayBuffer()
+    const signature = new Uint8Array(buffer.slice(0, 4))
     
-    const content = await this.simulateDocxExtraction(file)
+    // 암호화된 Office 문서는 ZIP이 아닌 OLE 복합 문서(D0 CF 11 E0)로 저장됨
+    if (signature[0] === 0xD0 && signature[1] === 0xCF && signature[2] === 0x11 && signature[3] === 0xE0) {
+      throw new Error(`암호로 보호된 DOCX는 텍스트를 추출할 수 없습니다 (${file.name}). 암호를 해제한 뒤 다시 업로드해주세요.`)
+    }
+    if (signature[0] !== 0x50 || signature[1] !== 0x4B) {
+      throw new Error(`올바른 DOCX 파일이 아닙니다: ${file.name}`)
+    }
     
-    return {
-      title: this.extractTitle(file.name, content),
-      content: content,
-      metadata: {
-        fileType: 'DOCX',
-        fileName: file.name,
-        fileSize: file.size,
-        wordCount: content.split(/\s+/).length,
-        extractedAt: new Date().toISOString()
-      },
-      sections: this.extractSections(content)
+    const result = await this.pdfParser.extractTextFromDocx(buffer, file.name)
+    
+    // 대체 추출 결과는 파일명 기반 추정 내용이므로 사용하지 않음
+    if (result.extraction_method !== 'jszip_docx' || !result.pages) {
+      throw new Error(`DOCX 본문을 읽을 수 없습니다 (${file.name}). 손상되었거나 텍스트가 없는 문서입니다.`)
     }
+    
+    const pages = result.pages.map(page => ({ pageNumber: page.page_number, content: page.content }))
+    return this.buildDocument(file, 'DOCX', pages, pages.length, result.extraction_method)
+  }
+
+  // PPTX 파일 파싱 (슬라이드 1장 = 1페이지, 슬라이드 제목을 섹션 제목으로 사용)
+  async parsePPTX(file: File): Promise<ParsedDocument> {
+    const deck = await new SlideDeckParser().parse(await file.arrayBuffer(), file.name)
+    
+    const slides = deck.slides.filter(slide => slide.title || slide.bullets.length > 0)
+    if (slides.length === 0) {
+      throw new Error(`PPTX 슬라이드에 텍스트가 없습니다 (${file.name}). 이미지로만 된 슬라이드는 평가할 수 없습니다.`)
+    }
+    
+    const pages = slides.map(slide => ({
+      pageNumber: slide.slide_number,
+      content: [slide.title, ...slide.bullets].filter(Boolean).join('\n')
+    }))
+    
+    const document = this.buildDocument(file, 'PPTX', pages, deck.slide_count, 'jszip_pptx')
+    document.sections = slides.map(slide => ({
+      title: slide.title,
+      content: slide.bullets.join('\n'),
+      pageNumber: slide.slide_number,
+      level: 1
+    }))
+    return document
   }
 
   // TXT 파일 파싱
   async parseTXT(file: File): Promise<ParsedDocument> {
-    const content = await this.readTextFile(file)
+    const content = await file.text()
     
-    return {
-      title: this.extractTitle(file.name, content),
-      content: content,
-      metadata: {
-        fileType: 'TXT',
-        fileName: file.name,
-        fileSize: file.size,
-        wordCount: content.split(/\s+/).length,
-        extractedAt: new Date().toISOString()
-      },
-      sections: this.extractSections(content)
+    if (content.trim().length === 0) {
+      throw new Error(`텍스트 파일이 비어 있습니다: ${file.name}`)
     }
+    
+    return this.buildDocument(file, 'TXT', [{ pageNumber: 1, content }], undefined, 'text')
   }
 
   // 파일 타입에 따른 파싱 라우터
@@ -92,6 +161,8 @@ export class FileParserService {
         return await this.parsePDF(file)
       case 'docx':
         return await this.parseDOCX(file)
+      case 'pptx':
+        return await this.parsePPTX(file)
       case 'txt':
         return await this.parseTXT(file)
       default:
@@ -99,145 +170,40 @@ export class FileParserService {
     }
   }
 
-  // 텍스트 파일 읽기
-  private async readTextFile(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = (e) => resolve(e.target?.result as string)
-      reader.onerror = (e) => reject(new Error('파일 읽기 실패'))
-      reader.readAsText(file, 'UTF-8')
-    })
-  }
-
-  // PDF 추출 시뮬레이션 (실제로는 PDF.js 사용)
-  private async simulatePDFExtraction(file: File): Promise<string> {
-    // 파일 이름에 따른 샘플 내용 반환
-    if (file.name.toLowerCase().includes('proposal') || file.name.toLowerCase().includes('제안')) {
-      return `
-프로젝트 제안서
-
-1. 프로젝트 개요
-본 제안서는 디지털 전환 프로젝트에 대한 포괄적인 솔루션을 제시합니다.
-
-2. 현황 분석
-현재 시스템의 주요 문제점들을 분석하고 개선 방향을 제시합니다.
-- 레거시 시스템의 한계
-- 데이터 통합의 필요성
-- 업무 효율성 개선 요구
-
-3. 제안 솔루션
-다음과 같은 솔루션을 제안드립니다:
-- ERP 시스템 고도화
-- MES 시스템 연계
-- ESG 데이터 통합 관리
-- 클라우드 기반 인프라 구축
-
-4. 기대 효과
-- 업무 효율성 40% 향상
-- 의사결정 속도 개선
-- 비용 절감 효과
-- ESG 경영 강화
-
-5. 추진 일정
-총 12개월 간의 단계적 추진 계획을 수립하였습니다.
-
-6. 예산 계획
-총 사업비 150억원 규모의 합리적인 예산 계획을 제시합니다.
-
-7. 리스크 관리
-프로젝트 리스크를 최소화하기 위한 관리 방안을 수립하였습니다.
-      `.trim()
-    } else if (file.name.toLowerCase().includes('rfp')) {
-      return `
-RFP 문서 (제안요청서)
-
-1. 발주 개요
-발주처: 금호석유화학 주식회사
-담당부서: Digital Innovation팀
-프로젝트명: ERP-MES-ESG 통합 DX 플랫폼 구축
-
-2. 추진 배경
-ESG 경영 강화와 글로벌 경쟁력 확보를 위한 디지털 전환이 필요한 상황입니다.
-
-3. 프로젝트 목표
-- ERP, MES, ESG 시스템 통합
-- 데이터 기반 의사결정 지원
-- 글로벌 ESG 규제 대응
-
-4. 사업 범위
-- ERP 시스템 고도화
-- MES 시스템 연계 구축
-- ESG 데이터 통합 관리 시스템 구축
-- 클라우드 인프라 마이그레이션
-
-5. 사업 일정
-사업기간: 2025년 1월 ~ 2025년 12월 (총 12개월)
-
-6. 예산 규모
-총 사업비: 약 150억원 (부가세 별도)
-
-7. 평가 기준
-- 기술평가: 70점
-- 가격평가: 30점
-
-8. 참가 자격
-대기업 대상 ERP/MES 통합 프로젝트 수행경험 3건 이상
-
-9. 필수 기술역량
-- 클라우드 기반 ERP 구축 경험
-- ESG 데이터 관리 시스템 구축 경험
-- 화학산업 도메인 이해
-
-10. 특수 요구사항
-- 시스템 다국어 지원 (한국어, 영어, 중국어)
-- 글로벌 법인 확장 대응 가능
-      `.trim()
-    } else {
-      return `
-문서 내용
-
-본 문서는 업로드된 PDF 파일의 내용을 나타냅니다.
-실제 구현에서는 PDF.js 라이브러리를 사용하여
-PDF 파일의 실제 내용을 추출할 수 있습니다.
-
-주요 내용:
-- 텍스트 추출
-- 이미지 식별
-- 테이블 구조 파싱
-- 메타데이터 추출
-
-현재는 시뮬레이션 모드로 운영되고 있으며,
-실제 PDF 내용 추출을 위해서는 추가적인
-서버사이드 처리가 필요합니다.
-      `.trim()
+  private buildDocument(
+    file: File,
+    fileType: string,
+    pages: DocumentPage[],
+    pageCount: number | undefined,
+    extractionMethod: string,
+    metadataTitle?: string
+  ): ParsedDocument {
+    const content = pages.map(page => page.content).join('\n\n')
+    
+    return {
+      title: metadataTitle?.trim() || this.extractTitle(file.name, content),
+      content,
+      metadata: {
+        fileType,
+        fileName: file.name,
+        fileSize: file.size,
+        pageCount,
+        wordCount: content.split(/\s+/).filter(Boolean).length,
+        extractionMethod,
+        extractedAt: new Date().toISOString()
+      },
+      pages,
+      sections: this.extractSections(pages)
     }
   }
 
-  // DOCX 추출 시뮬레이션 (실제로는 mammoth.js 사용)
-  private async simulateDocxExtraction(file: File): Promise<string> {
-    // 실제로는 mammoth.js나 서버사이드 라이브러리 사용
-    return `
-Word 문서 내용
-
-본 문서는 업로드된 DOCX 파일의 내용을 나타냅니다.
-실제 구현에서는 mammoth.js 라이브러리를 사용하여
-Word 문서의 실제 내용을 추출할 수 있습니다.
-
-문서 구조:
-- 제목과 부제목
-- 본문 텍스트
-- 표와 목록
-- 이미지 및 도형
-
-형식 정보:
-- 폰트 스타일
-- 문단 서식
-- 페이지 레이아웃
-
-현재는 시뮬레이션 모드로 운영되고 있으며,
-실제 Word 문서 파싱을 위해서는 적절한
-라이브러리 통합이 필요합니다.
-    `.trim()
+  // 스캔(이미지) PDF는 텍스트 레이어가 없으므로 OCR 없이 평가할 수 없음
+  private assertHasText(pages: DocumentPage[], pageCount: number, fileName: string) {
+    const textChars = pages.reduce((sum, page) => sum + page.content.replace(/\s/g, '').length, 0)
+    
+    if (textChars < MIN_TEXT_CHARS_PER_PAGE * Math.max(1, pageCount)) {
+      throw new Error(`스캔 이미지로 된 PDF로 보여 텍스트를 추출할 수 없습니다 (${fileName}: ${pageCount}페이지, 추출 ${textChars}자). 텍스트가 포함된 PDF로 다시 업로드해주세요.`)
+    }
   }
 
   // 문서 제목 추출
@@ -259,46 +225,51 @@ Word 문서의 실제 내용을 추출할 수 있습니다.
     return title
   }
 
-  // 문서 섹션 추출
-  private extractSections(content: string): DocumentSection[] {
+  // 문서 섹션 추출 (번호/장 제목 기준, 섹션 시작 페이지 기록)
+  private extractSections(pages: DocumentPage[]): DocumentSection[] {
     const sections: DocumentSection[] = []
-    const lines = content.split('\n')
     
     let currentSection: DocumentSection | null = null
     let currentContent = ''
     
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim()
-      
-      if (!line) continue
-      
-      // 제목 패턴 감지 (숫자. 로 시작하는 줄)
-      const titleMatch = line.match(/^(\d+)\.\s*(.+)$/)
-      if (titleMatch) {
-        // 이전 섹션 저장
-        if (currentSection) {
-          currentSection.content = currentContent.trim()
-          sections.push(currentSection)
-        }
+    for (const page of pages) {
+      for (const rawLine of page.content.split('\n')) {
+        const line = rawLine.trim()
         
-        // 새 섹션 시작
-        currentSection = {
-          title: titleMatch[2],
-          content: '',
-          level: 1
-        }
-        currentContent = ''
-      } else if (currentSection) {
-        // 현재 섹션에 내용 추가
-        currentContent += line + '\n'
-      } else {
-        // 첫 번째 섹션 생성 (제목 없이 시작하는 경우)
-        currentSection = {
-          title: '서론',
-          content: '',
-          level: 1
+        if (!line) continue
+        
+        const heading = line.length <= 60
+          ? HEADING_PATTERNS.map(({ pattern, level }) => ({ match: line.match(pattern), level })).find(entry => entry.match)
+          : undefined
+        
+        if (heading) {
+          // 이전 섹션 저장
+          if (currentSection) {
+            currentSection.content = currentContent.trim()
+            sections.push(currentSection)
+          }
+          
+          // 새 섹션 시작
+          currentSection = {
+            title: heading.match![1].trim(),
+            content: '',
+            pageNumber: page.pageNumber,
+            level: heading.level
+          }
+          currentContent = ''
+        } else if (currentSection) {
+          // 현재 섹션에 내용 추가
+          currentContent += line + '\n'
+        } else {
+          // 첫 번째 섹션 생성 (제목 없이 시작하는 경우)
+          currentSection = {
+            title: INTRO_SECTION_TITLE,
+            content: '',
+            pageNumber: page.pageNumber,
+            level: 1
+          }
+          currentContent = line + '\n'
         }
-        currentContent = line + '\n'
       }
     }
     
@@ -325,18 +296,42 @@ Word 문서의 실제 내용을 추출할 수 있습니다.
     }
   }
 
-  // 제안서 내용 추출
-  extractProposalContent(parsedDoc: ParsedDocument): any {
-    const sections = parsedDoc.sections
+  /**
+   * 문서 섹션을 제안서 표준 구성(ProposalSections)으로 매핑
+   * 제목으로 분류되지 않는 섹션은 상위/직전 섹션에 이어 붙이고, 첫 섹션 이전 내용은 사업 개요로 취급
+   */
+  extractProposalSections(parsedDoc: Pick<ParsedDocument, 'sections'>): ProposalSections {
+    const sections: ProposalSections = {}
+    let parentKey: ProposalSectionKey | null = null
+    let currentKey: ProposalSectionKey = 'executive_summary'
     
-    return {
-      overview: this.findSectionByKeywords(sections, ['개요', '요약', 'summary']),
-      solution: this.findSectionByKeywords(sections, ['솔루션', '해결방안', '제안']),
-      methodology: this.findSectionByKeywords(sections, ['방법론', '접근방식', 'methodology']),
-      timeline: this.findSectionByKeywords(sections, ['일정', '계획', 'timeline']),
-      budget: this.findSectionByKeywords(sections, ['예산', '비용', 'budget']),
-      team: this.findSectionByKeywords(sections, ['팀', '조직', 'team'])
+    for (const section of parsedDoc.sections) {
+      const matched = PROPOSAL_SECTION_KEYWORDS.find(entry => entry.pattern.test(section.title))?.key
+      
+      if (section.level === 1) {
+        parentKey = matched || null
+        currentKey = matched || currentKey
+      } else {
+        currentKey = matched || parentKey || currentKey
+      }
+      
+      const title = section.title === INTRO_SECTION_TITLE ? '' : section.title
+      const block = [title, section.content].filter(Boolean).join('\n').trim()
+      if (block) {
+        sections[currentKey] = sections[currentKey] ? `${sections[currentKey]}\n\n${block}` : block
+      }
     }
+    
+    return sections
+  }
+
+  /**
+   * 텍스트로 입력된 제안서를 섹션 구조로 분리 후 표준 구성으로 매핑
+   */
+  extractProposalSectionsFromText(content: string): ProposalSections {
+    return this.extractProposalSections({
+      sections: this.extractSections([{ pageNumber: 1, content }])
+    })
   }
 
   private extractValue(content: string, keywords: string[]): string {
@@ -349,15 +344,4 @@ Word 문서의 실제 내용을 추출할 수 있습니다.
     }
     return ''
   }
-
-  private findSectionByKeywords(sections: DocumentSection[], keywords: string[]): string {
-    for (const section of sections) {
-      for (const keyword of keywords) {
-        if (section.title.toLowerCase().includes(keyword.toLowerCase())) {
-          return section.content
-        }
-      }
-    }
-    return ''
-  }
-}
\ No newline at end of file
+}
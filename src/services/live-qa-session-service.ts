@@ -0,0 +1,375 @@
+// 실시간 질의응답 세션 서비스 - AI 가상고객이 의사결정 방식·Top3 우선순위·우려사항대로 질문하고 대화를 기억하며, 모호한 답변은 압박 질문 후 질의응답 점수 산출
+
+import { OpenAIService } from './openai-service'
+import { extractKeywords } from './requirement-traceability-service'
+import {
+  CommitteeQAService,
+  ANSWER_POINTS,
+  scoreAnswer,
+  weightAnswerScore,
+  type AnswerInputMode,
+  type AnswerScore,
+  type ExpectedQuestion
+} from './committee-qa-service'
+
+export type PersonaStyle = 'data_driven' | 'cautious' | 'innovative' | 'cost_focused' | 'balanced'
+
+export interface QAMessage {
+  role: 'customer' | 'presenter'
+  content: string
+  topic_id: string
+  input_mode?: AnswerInputMode
+  evaluation?: AnswerScore
+  // 발표자 메시지: 모호한 답변 판정 (LLM 판정이 있으면 그 결과, 없으면 점수 기준)
+  vague?: boolean
+  // 고객 메시지: 압박 단계 (0 = 첫 질문)
+  escalation_level?: number
+  at: string
+}
+
+export interface QATopicResult {
+  topic_id: string
+  question: string
+  topic: string
+  score: number
+  escalations: number
+  resolved: boolean
+}
+
+export interface QASessionResult {
+  qa_score: number
+  answered_topics: number
+  total_topics: number
+  escalation_count: number
+  topic_results: QATopicResult[]
+  unresolved_topics: string[]
+  feedback: string
+}
+
+export interface LiveQASession {
+  id: string
+  customer_id: string
+  proposal_evaluation_id?: string
+  presentation_evaluation_id?: string
+  persona: { name: string; role: string; style: PersonaStyle; priorities: string[] }
+  agenda: ExpectedQuestion[]
+  messages: QAMessage[]
+  // 현재 주제와 압박 단계 (종료 시 null)
+  state: { topic_index: number; escalation_level: number; target_points?: string[] } | null
+  // 발표자가 답변에서 제시한 수치·기간 (이후 질문에서 다시 언급)
+  commitments: string[]
+  status: 'in_progress' | 'completed'
+  result?: QASessionResult
+  created_at: string
+}
+
+export const DEFAULT_QA_TOPICS = 4
+export const MAX_QA_TOPICS = 8
+// 이 점수 미만이면 모호한 답변으로 보고 압박 질문
+const VAGUE_THRESHOLD = 60
+const MAX_ESCALATIONS = 2
+// 압박 질문 1회당 주제 점수 감점
+const ESCALATION_PENALTY = 5
+
+const PERSONA_STYLES: Array<{ style: PersonaStyle; pattern: RegExp; point: string; opener: string; probe: string }> = [
+  { style: 'data_driven', pattern: /데이터|수치|정량|근거|분석/, point: 'quantitative', opener: '저는 데이터와 근거로 판단하는 편입니다.', probe: '숫자로 말씀해 주셔야 판단할 수 있습니다.' },
+  { style: 'cautious', pattern: /신중|단계|검증|안정|보수/, point: 'risk', opener: '저희는 검증된 방식으로 단계적으로 결정합니다.', probe: '문제가 생겼을 때의 대비책이 보이지 않습니다.' },
+  { style: 'innovative', pattern: /혁신|도전|적극|선도/, point: 'differentiation', opener: '저희는 새로운 시도에 열려 있지만 차별점이 분명해야 합니다.', probe: '다른 업체와 무엇이 다른지 아직 모르겠습니다.' },
+  { style: 'cost_focused', pattern: /비용|예산|효율|ROI|투자\s*대비/, point: 'cost', opener: '저희는 투자 대비 효과를 가장 먼저 봅니다.', probe: '비용 대비 효과가 여전히 불분명합니다.' }
+]
+const BALANCED_STYLE = { style: 'balanced' as PersonaStyle, point: 'ownership', opener: '몇 가지 확인하고 싶은 점이 있습니다.', probe: '조금 더 구체적인 답변이 필요합니다.' }
+
+const COMMITMENT_PATTERN = /(?:[가-힣A-Za-z]+\s)?\d+(?:\.\d+)?\s*(?:%|개월|주|일|억\s*원?|만\s*원|명|건|배|시간)/g
+
+export class LiveQASessionService {
+  private openaiService?: OpenAIService
+
+  constructor(private env: { OPENAI_API_KEY?: string }) {
+    if (env.OPENAI_API_KEY) {
+      this.openaiService = new OpenAIService(env.OPENAI_API_KEY)
+    }
+  }
+
+  /**
+   * 세션 시작 - 예상 질문을 Top3 우선순위 순으로 배치하고 페르소나 말투로 첫 질문
+   */
+  async start(customer: any, input: {
+    customer_id: string
+    proposal_evaluation?: any
+    presentation_evaluation_id?: string
+    topics?: number
+  }): Promise<LiveQASession> {
+    const styleInfo = resolvePersonaStyle(customer.decision_making_style)
+    const priorities: string[] = Array.isArray(customer.top3_priorities) ? customer.top3_priorities : []
+
+    const questions = await new CommitteeQAService(this.env)
+      .generateQuestions(customer, input.proposal_evaluation || null, input.topics || DEFAULT_QA_TOPICS)
+    if (questions.length === 0) {
+      throw new Error('질의응답에 사용할 질문을 만들 수 없습니다. 제안서 평가 결과 또는 고객 우려사항이 필요합니다.')
+    }
+
+    // 우선순위 키워드와 많이 겹치는 주제부터 질문하고, 의사결정 방식이 중시하는 답변 요소를 추가
+    const priorityKeywords = extractKeywords(priorities.join(' '))
+    const agenda = questions
+      .map((question, index) => ({ question, index, hits: priorityKeywords.filter(keyword => `${question.topic} ${question.question} ${question.rationale}`.includes(keyword)).length }))
+      .sort((a, b) => b.hits - a.hits || a.index - b.index)
+      .map(({ question }) => ({
+        ...question,
+        answer_points: question.answer_points.includes(styleInfo.point)
+          ? question.answer_points
+          : [...question.answer_points, styleInfo.point]
+      }))
+
+    const role = customer.department || customer.customer_type || '평가위원'
+    const now = new Date().toISOString()
+    const opening = `${customer.company_name || ''} ${role}입니다. 발표 잘 들었습니다. ${styleInfo.opener} ${agenda[0].question}`.trim()
+
+    console.log(`💬 실시간 질의응답 시작: ${agenda.length}개 주제 (${styleInfo.style})`)
+
+    return {
+      id: `qa-session-${Date.now()}`,
+      customer_id: input.customer_id,
+      proposal_evaluation_id: input.proposal_evaluation?.id,
+      presentation_evaluation_id: input.presentation_evaluation_id,
+      persona: { name: customer.name || role, role, style: styleInfo.style, priorities },
+      agenda,
+      messages: [{ role: 'customer', content: opening, topic_id: agenda[0].id, escalation_level: 0, at: now }],
+      state: { topic_index: 0, escalation_level: 0 },
+      commitments: [],
+      status: 'in_progress',
+      created_at: now
+    }
+  }
+
+  /**
+   * 발표자 답변 처리 - 모호하면 같은 주제로 압박, 충분하면 다음 주제로 진행
+   */
+  async respond(customer: any, session: LiveQASession, answer: string, inputMode: AnswerInputMode = 'text'): Promise<LiveQASession> {
+    if (session.status === 'completed' || !session.state) {
+      throw new Error('이미 종료된 질의응답 세션입니다.')
+    }
+
+    const state = session.state
+    const topic = session.agenda[state.topic_index]
+    const lastQuestion = [...session.messages].reverse().find(message => message.role === 'customer')?.content || topic.question
+    const styleInfo = resolvePersonaStyle(customer.decision_making_style)
+
+    let evaluation = scoreAnswer(topic, lastQuestion, answer, inputMode, state.target_points)
+    let vague = evaluation.score < VAGUE_THRESHOLD
+    const nextTopic = session.agenda[state.topic_index + 1]
+    const commitments = [...session.commitments, ...extractCommitments(answer)].slice(-10)
+
+    let reply: string | null = null
+    if (this.openaiService) {
+      try {
+        const judged = await this.replyWithLLM(customer, session, topic, answer, evaluation, nextTopic)
+        evaluation = judged.evaluation
+        vague = judged.vague
+        reply = judged.reply
+      } catch (error) {
+        console.warn('⚠️ LLM 질의응답 응답 실패, 규칙 기반 사용:', (error as Error).message)
+      }
+    }
+
+    const escalate = vague && state.escalation_level < MAX_ESCALATIONS
+    const now = new Date().toISOString()
+    const messages: QAMessage[] = [...session.messages, {
+      role: 'presenter',
+      content: answer,
+      topic_id: topic.id,
+      input_mode: inputMode,
+      evaluation,
+      vague,
+      at: now
+    }]
+
+    let nextState: LiveQASession['state'] = null
+    if (escalate) {
+      nextState = {
+        topic_index: state.topic_index,
+        escalation_level: state.escalation_level + 1,
+        target_points: evaluation.missed_points.length ? evaluation.missed_points : state.target_points
+      }
+      messages.push({
+        role: 'customer',
+        content: reply || buildEscalation(state.escalation_level + 1, evaluation.missed_points, styleInfo.probe),
+        topic_id: topic.id,
+        escalation_level: nextState.escalation_level,
+        at: now
+      })
+    } else if (nextTopic) {
+      nextState = { topic_index: state.topic_index + 1, escalation_level: 0 }
+      messages.push({
+        role: 'customer',
+        content: reply || buildTransition(vague, nextTopic, commitments),
+        topic_id: nextTopic.id,
+        escalation_level: 0,
+        at: now
+      })
+    }
+
+    console.log(`💬 질의응답 답변: ${session.id} 주제 ${state.topic_index + 1}/${session.agenda.length} ${evaluation.score}점${escalate ? ` → 압박 ${nextState!.escalation_level}단계` : ''}`)
+
+    const updated: LiveQASession = { ...session, messages, state: nextState, commitments }
+    // 마지막 주제는 LLM이 만든 마무리 발화를 종료 메시지로 사용
+    return nextState ? updated : this.finish(updated, reply || undefined)
+  }
+
+  /**
+   * 세션 종료 및 질의응답 점수 산출 (중간 종료 시 답변한 주제만 반영)
+   */
+  finish(session: LiveQASession, closingMessage?: string): LiveQASession {
+    if (session.status === 'completed') return session
+
+    const topicResults: QATopicResult[] = session.agenda
+      .map(topic => {
+        const answers = session.messages.filter(message => message.role === 'presenter' && message.topic_id === topic.id)
+        if (answers.length === 0) return null
+        const lastAnswer = answers[answers.length - 1]
+        const last = lastAnswer.evaluation!
+        const escalations = answers.length - 1
+        return {
+          topic_id: topic.id,
+          question: topic.question,
+          topic: topic.topic,
+          score: Math.max(0, last.score - escalations * ESCALATION_PENALTY),
+          escalations,
+          resolved: !(lastAnswer.vague ?? last.score < VAGUE_THRESHOLD)
+        }
+      })
+      .filter((result): result is QATopicResult => result !== null)
+
+    const qaScore = topicResults.length
+      ? Math.round(topicResults.reduce((sum, result) => sum + result.score, 0) / topicResults.length)
+      : 0
+    const unresolved = topicResults.filter(result => !result.resolved).map(result => result.question)
+    const escalationCount = topicResults.reduce((sum, result) => sum + result.escalations, 0)
+
+    const result: QASessionResult = {
+      qa_score: qaScore,
+      answered_topics: topicResults.length,
+      total_topics: session.agenda.length,
+      escalation_count: escalationCount,
+      topic_results: topicResults,
+      unresolved_topics: unresolved,
+      feedback: buildSessionFeedback(qaScore, topicResults, unresolved, session.agenda.length)
+    }
+
+    const closing: QAMessage = {
+      role: 'customer',
+      content: closingMessage || (topicResults.length === 0
+        ? '답변을 듣지 못한 채 질의응답을 마치겠습니다.'
+        : unresolved.length
+          ? `오늘 답변 감사합니다. 다만 ${unresolved.length}개 질문은 충분한 답을 듣지 못해 우려사항으로 남겨 두겠습니다.`
+          : '충분히 답변해 주셔서 감사합니다. 질의응답은 여기까지 하겠습니다.'),
+      topic_id: session.agenda[session.agenda.length - 1].id,
+      at: new Date().toISOString()
+    }
+
+    console.log(`🏁 실시간 질의응답 종료: ${session.id} ${qaScore}점 (압박 ${escalationCount}회, 미해결 ${unresolved.length}건)`)
+
+    return { ...session, messages: [...session.messages, closing], state: null, status: 'completed', result }
+  }
+
+  private async replyWithLLM(
+    customer: any,
+    session: LiveQASession,
+    topic: ExpectedQuestion,
+    answer: string,
+    heuristic: AnswerScore,
+    nextTopic?: ExpectedQuestion
+  ): Promise<{ evaluation: AnswerScore; vague: boolean; reply: string }> {
+    const state = session.state!
+    const history = session.messages
+      .slice(-12)
+      .map(message => `${message.role === 'customer' ? '고객' : '발표자'}: ${message.content}`)
+      .join('\n')
+    const concerns = Object.values(customer.integrated_persona?.concerns || {}).filter(Boolean).join(', ')
+    const canEscalate = state.escalation_level < MAX_ESCALATIONS
+
+    const prompt = `당신은 ${customer.company_name || '고객사'}의 ${session.persona.role} ${session.persona.name}입니다. 제안 발표 직후 질의응답 중입니다. 페르소나를 유지하세요.
+- 페르소나: ${customer.persona_summary || ''}
+- 의사결정 방식: ${customer.decision_making_style || ''}
+- Top3 우선순위: ${session.persona.priorities.join(', ')}
+- 우려사항: ${concerns || '없음'}
+- 발표자가 앞서 제시한 수치·약속: ${session.commitments.join(', ') || '없음'}
+
+지금까지의 대화:
+${history}
+발표자: ${answer}
+
+현재 주제: ${topic.topic} (${topic.rationale})
+좋은 답변 요소: ${[...heuristic.covered_points, ...heuristic.missed_points].map(point => ANSWER_POINTS[point]?.label || point).join(', ')}
+
+발표자의 마지막 답변을 0-100점으로 채점하세요. ${VAGUE_THRESHOLD}점 미만이거나 질문을 회피했다면 vague=true입니다.
+reply는 고객으로서 다음에 할 말입니다:
+- vague이고 압박 가능(${canEscalate ? '가능' : '불가'})하면 같은 주제를 더 날카롭게 파고드세요 (현재 압박 ${state.escalation_level}단계).
+- 그 외에는 답변을 짧게 평가한 뒤 ${nextTopic ? `다음 질문을 자연스럽게 이어서 하세요: "${nextTopic.question}"` : '질의응답을 마무리하는 한마디를 하세요.'}
+- 앞선 대화에서 발표자가 한 말과 모순되면 지적하세요.
+
+JSON 응답: {"relevance": 80, "completeness": 70, "specificity": 60, "confidence": 80, "vague": false, "feedback": "답변 피드백 1문장", "reply": "고객의 다음 발화"}`
+
+    const response = await this.openaiService!.generateCompletion(prompt, { max_tokens: 800, temperature: 0.6, json_mode: true })
+    const parsed = JSON.parse(response)
+    if (typeof parsed.reply !== 'string' || !parsed.reply.trim()) {
+      throw new Error('고객 발화가 없는 응답입니다')
+    }
+    const part = (value: unknown, fallback: number) => Number.isFinite(Number(value)) ? Math.max(0, Math.min(100, Math.round(Number(value)))) : fallback
+
+    const relevance = part(parsed.relevance, heuristic.relevance)
+    const completeness = part(parsed.completeness, heuristic.completeness)
+    const specificity = part(parsed.specificity, heuristic.specificity)
+    const confidence = part(parsed.confidence, heuristic.confidence)
+    const score = weightAnswerScore(relevance, completeness, specificity, confidence)
+
+    return {
+      evaluation: { ...heuristic, relevance, completeness, specificity, confidence, score, feedback: parsed.feedback || heuristic.feedback },
+      vague: typeof parsed.vague === 'boolean' ? parsed.vague : score < VAGUE_THRESHOLD,
+      reply: parsed.reply.trim()
+    }
+  }
+}
+
+function resolvePersonaStyle(decisionMakingStyle?: string) {
+  return PERSONA_STYLES.find(entry => entry.pattern.test(decisionMakingStyle || '')) || BALANCED_STYLE
+}
+
+function extractCommitments(answer: string): string[] {
+  return [...new Set((answer.match(COMMITMENT_PATTERN) || []).map(match => match.trim()))]
+}
+
+// 압박 단계별 질문 (2단계는 답하지 못하면 우려사항으로 기록한다고 경고)
+function buildEscalation(level: number, missedPoints: string[], probe: string): string {
+  const labels = missedPoints.map(point => ANSWER_POINTS[point]?.label || point).join(', ')
+  if (level === 1) {
+    return `${probe} ${labels ? `${labels}을(를) 포함해서 ` : ''}다시 말씀해 주시겠습니까?`
+  }
+  return `솔직히 아직 답을 듣지 못했습니다. ${labels ? `${labels}에 대해 ` : ''}구체적인 수치와 책임자를 말씀해 주십시오. 어렵다면 우려사항으로 기록하겠습니다.`
+}
+
+function buildTransition(vague: boolean, nextTopic: ExpectedQuestion, commitments: string[]): string {
+  const acknowledgement = vague
+    ? '알겠습니다. 이 부분은 우려사항으로 남겨 두겠습니다.'
+    : '네, 이해했습니다.'
+  // 일정·비용·수치 관련 질문이면 앞서 제시한 수치를 다시 짚음
+  const recall = commitments.length && nextTopic.answer_points.some(point => ['schedule', 'cost', 'quantitative'].includes(point))
+    ? ` 앞서 말씀하신 '${commitments[commitments.length - 1]}'을(를) 전제로 여쭙겠습니다.`
+    : ''
+  return `${acknowledgement}${recall} ${nextTopic.question}`
+}
+
+function buildSessionFeedback(qaScore: number, results: QATopicResult[], unresolved: string[], totalTopics: number): string {
+  if (results.length === 0) return '답변한 질문이 없습니다.'
+
+  const best = results.reduce((top, result) => result.score > top.score ? result : top)
+  const parts = [`질의응답 ${qaScore}점 (${results.length}/${totalTopics}개 주제 답변).`]
+  parts.push(`${best.topic || '첫 주제'} 질문에 가장 잘 대응했습니다.`)
+  if (unresolved.length) {
+    parts.push(`${unresolved.length}개 질문은 압박 질문 후에도 답변이 모호해 우려사항으로 남았습니다.`)
+  }
+  const escalated = results.filter(result => result.escalations > 0).length
+  if (escalated) {
+    parts.push(`${escalated}개 주제에서 추가 질문을 받았습니다. 첫 답변에 결론과 수치를 먼저 제시하세요.`)
+  }
+  return parts.join(' ')
+}
@@ -3,28 +3,90 @@
 import { OpenAIService } from './openai-service'
 import { JsonStorageService } from './json-storage'
 import { PdfParserService } from './pdf-parser-service'
+import type { CustomerLookup } from './customer-resolver'
+import type { EvaluationWeightProfile, QAWeightSplit } from './evaluation-weights'
 import type { 
   AIVirtualCustomer, 
   EvaluationScores,
   ProposalEvaluation,
-  PresentationEvaluation,
-  IntegratedEvaluation
+  PresentationEvaluation
 } from '../types/ai-customer'
 
+// 평가 ID 기반 통합 API가 저장하는 통합 결과
+export interface IntegratedResultSummary {
+  id?: string
+  customer_id: string
+  project_title: string
+  proposal_evaluation: any | null
+  presentation_evaluation: any | null
+  final_score: number
+  weighted_scores: {
+    proposal_weighted: number
+    presentation_weighted: number
+    qa_weighted?: number
+  }
+  // 실제 적용한 제안서/발표 비중 (제안서 평가에 적용된 RFP 평가기준 + 요청 수정값)
+  weight_profile: EvaluationWeightProfile
+  strengths: string[]
+  improvements: string[]
+  overall_feedback: string
+  // 실시간 질의응답 세션을 반영한 경우 (final_score는 질의응답 반영 후 점수)
+  qa_session_id?: string
+  qa_score?: number
+  qa_evaluation?: IntegratedQAEvaluation
+  created_at: string
+}
+
+export interface IntegratedQAEvaluation {
+  session_id: string
+  qa_score: number
+  score_before_qa: number
+  weights: QAWeightSplit
+  escalation_count: number
+  unresolved_topics: string[]
+  feedback: string
+}
+
+export interface PresentationScoringInput {
+  transcription: string
+  duration_seconds?: number
+  speech_rate?: number
+  pause_count?: number
+  filler_words?: number
+  // 슬라이드별 요약 (LLMEvaluationRequest.context.slide_content와 동일 형식)
+  slide_content?: string[]
+  slide_alignment_score?: number
+  // 평가 모델 (다회 평가에서 모델별 편차 비교용)
+  model?: string
+}
+
 export class LLMEvaluationService {
   private openaiService?: OpenAIService
   private storage: JsonStorageService
   private pdfParser: PdfParserService
+  private customerResolver?: CustomerLookup
 
   constructor(
     openaiApiKey?: string,
-    kvNamespace?: KVNamespace
+    kvNamespace?: KVNamespace,
+    customerResolver?: CustomerLookup
   ) {
     if (openaiApiKey) {
       this.openaiService = new OpenAIService(openaiApiKey)
     }
     this.storage = new JsonStorageService(kvNamespace)
     this.pdfParser = new PdfParserService()
+    this.customerResolver = customerResolver
+  }
+
+  /**
+   * AI 가상고객 조회 (통합 조회기가 있으면 우선 사용)
+   */
+  private async getCustomer(customerId: string): Promise<AIVirtualCustomer | null> {
+    if (this.customerResolver) {
+      return this.customerResolver.resolve(customerId)
+    }
+    return this.storage.getVirtualCustomer(customerId)
   }
 
   /**
@@ -43,7 +105,7 @@ export class LLMEvaluationService {
     console.log(`제안서 평가 시작: 고객 ID ${customerId}`)
     
     // AI 가상고객 조회
-    const customer = await this.storage.getVirtualCustomer(customerId)
+    const customer = await this.getCustomer(customerId)
     if (!customer) {
       throw new Error('AI 가상고객을 찾을 수 없습니다')
     }
@@ -152,17 +214,11 @@ export class LLMEvaluationService {
   }
 
   /**
-   * 발표 평가 실행
+   * 발표 평가 실행 (평가 세션·결과 저장 포함)
    */
   async evaluatePresentation(
     customerId: string,
-    presentationData: {
-      transcription: string
-      duration_seconds?: number
-      speech_rate?: number
-      pause_count?: number
-      filler_words?: number
-    }
+    presentationData: PresentationScoringInput
   ): Promise<{
     evaluation_id: string
     presentation_evaluation: PresentationEvaluation
@@ -171,7 +227,7 @@ export class LLMEvaluationService {
     console.log(`발표 평가 시작: 고객 ID ${customerId}`)
     
     // AI 가상고객 조회
-    const customer = await this.storage.getVirtualCustomer(customerId)
+    const customer = await this.getCustomer(customerId)
     if (!customer) {
       throw new Error('AI 가상고객을 찾을 수 없습니다')
     }
@@ -191,6 +247,40 @@ export class LLMEvaluationService {
       })
     }
     
+    const presentationEvaluation: Omit<PresentationEvaluation, 'id' | 'evaluation_date'> = {
+      session_id: sessionId,
+      ...await this.scorePresentation(customer, customerId, presentationData)
+    }
+    
+    // 결과 저장
+    const evaluationId = await this.storage.savePresentationEvaluation(sessionId, presentationEvaluation)
+    
+    // 세션 상태 업데이트
+    await this.storage.updateEvaluationSession(sessionId, {
+      session_status: 'presentation_completed',
+      presentation_evaluation_id: evaluationId
+    })
+    
+    console.log(`발표 평가 완료: ${evaluationId}`)
+    
+    return {
+      evaluation_id: evaluationId,
+      presentation_evaluation: {
+        id: evaluationId,
+        evaluation_date: new Date().toISOString(),
+        ...presentationEvaluation
+      }
+    }
+  }
+
+  /**
+   * 발표 채점만 실행 (세션·결과를 저장하지 않음 - 다회 평가처럼 호출자가 요약 결과만 저장할 때 사용)
+   */
+  async scorePresentation(
+    customer: any,
+    customerId: string,
+    presentationData: PresentationScoringInput
+  ): Promise<Omit<PresentationEvaluation, 'id' | 'evaluation_date' | 'session_id'>> {
     const { transcription } = presentationData
     
     if (!transcription || transcription.length < 50) {
@@ -209,13 +299,19 @@ export class LLMEvaluationService {
 말속도: ${presentationData.speech_rate || 0} 단어/분
 휴지 횟수: ${presentationData.pause_count || 0}회
 군더더기어: ${presentationData.filler_words || 0}회
-      `.trim()
+      `.trim() + (presentationData.slide_content?.length ? `
+
+발표 슬라이드 (${presentationData.slide_content.length}장, 스크립트-슬라이드 정합도 ${presentationData.slide_alignment_score ?? '-'}점):
+${presentationData.slide_content.join('\n')}
+
+발표 스크립트가 슬라이드 흐름을 따라 핵심 내용을 설명했는지도 평가에 반영해주세요.` : '')
       
       evaluationScores = await this.openaiService.evaluateWithRubric(
         customer,
         transcription,
         'presentation',
-        additionalContext
+        additionalContext,
+        presentationData.model
       )
       
     } else {
@@ -225,8 +321,7 @@ export class LLMEvaluationService {
     }
     
     // 발표 평가 결과 생성
-    const presentationEvaluation: Omit<PresentationEvaluation, 'id' | 'evaluation_date'> = {
-      session_id: sessionId,
+    return {
       customer_id: customerId,
       transcription: transcription,
       duration_seconds: presentationData.duration_seconds || 0,
@@ -251,61 +346,37 @@ export class LLMEvaluationService {
       improvement_areas: evaluationScores.priority_improvements,
       detailed_feedback: evaluationScores.overall_summary
     }
-    
-    // 결과 저장
-    const evaluationId = await this.storage.savePresentationEvaluation(sessionId, presentationEvaluation)
-    
-    // 세션 상태 업데이트
-    await this.storage.updateEvaluationSession(sessionId, {
-      session_status: 'presentation_completed',
-      presentation_evaluation_id: evaluationId
-    })
-    
-    console.log(`발표 평가 완료: ${evaluationId}`)
-    
-    return {
-      evaluation_id: evaluationId,
-      presentation_evaluation: {
-        id: evaluationId,
-        evaluation_date: new Date().toISOString(),
-        ...presentationEvaluation
-      }
-    }
   }
 
   /**
-   * 통합 평가 결과 생성
+   * 통합 평가 결과 생성 (평가 ID로 조회한 제안서/발표 평가를 통합 API가 정한 비중으로 합산, 종합 피드백만 LLM으로 작성)
    */
-  async generateIntegratedResult(
-    sessionId: string
-  ): Promise<{
-    integrated_evaluation: IntegratedEvaluation
-    complete_results: any
-  }> {
-    
-    console.log(`통합 평가 시작: 세션 ID ${sessionId}`)
-    
-    // 세션의 모든 평가 결과 조회
-    const sessionResults = await this.storage.getSessionEvaluations(sessionId)
-    
-    if (!sessionResults.proposal_evaluation || !sessionResults.presentation_evaluation) {
-      throw new Error('제안서와 발표 평가가 모두 완료되어야 통합 결과를 생성할 수 있습니다')
-    }
-    
-    const { proposal_evaluation, presentation_evaluation, customer } = sessionResults
-    
-    // 6대 지표별 통합 점수 계산 (제안서 70%, 발표 30%)
-    const integratedScores = {
-      clarity: Math.round(proposal_evaluation.clarity_score * 0.7 + presentation_evaluation.clarity_score * 0.3),
-      expertise: Math.round(proposal_evaluation.expertise_score * 0.7 + presentation_evaluation.delivery_score * 0.3),
-      persuasiveness: Math.round(proposal_evaluation.persuasion_score * 0.7 + presentation_evaluation.engagement_score * 0.3),
-      logic: Math.round(proposal_evaluation.logic_score * 0.7 + presentation_evaluation.structure_score * 0.3),
-      creativity: Math.round(proposal_evaluation.creativity_score * 0.7 + presentation_evaluation.innovation_score * 0.3),
-      credibility: Math.round(proposal_evaluation.reliability_score * 0.7 + presentation_evaluation.confidence_score * 0.3)
-    }
-    
-    // 최종 통합 점수
-    const finalScore = Math.round(proposal_evaluation.overall_score * 0.7 + presentation_evaluation.overall_score * 0.3)
+  async generateIntegratedResult(input: {
+    customer: AIVirtualCustomer | null
+    customer_id: string
+    proposal_evaluation: any | null
+    presentation_evaluation: any | null
+    project_title?: string
+    weight_profile: EvaluationWeightProfile
+  }): Promise<IntegratedResultSummary> {
+    const { customer, proposal_evaluation, presentation_evaluation, weight_profile } = input
+    const { proposal_weight, presentation_weight } = weight_profile
+    console.log(`통합 평가 시작: 고객 ID ${input.customer_id}`)
+    
+    const proposalScore = proposal_evaluation?.total_score || 0
+    const presentationScore = presentation_evaluation?.total_score || 0
+    const proposalWeighted = Math.round(proposalScore * proposal_weight)
+    const presentationWeighted = Math.round(presentationScore * presentation_weight)
+    const finalScore = Math.round(proposalScore * proposal_weight + presentationScore * presentation_weight)
+    
+    const strengths = [
+      ...(proposal_evaluation?.key_strengths?.slice(0, 2) || []),
+      ...(presentation_evaluation?.key_strengths?.slice(0, 1) || [])
+    ]
+    const improvements = [
+      ...(proposal_evaluation?.improvement_areas?.slice(0, 2) || []),
+      ...(presentation_evaluation?.improvement_areas?.slice(0, 1) || [])
+    ]
     
     // 종합 피드백 생성
     let comprehensiveFeedback = ''
@@ -316,21 +387,21 @@ export class LLMEvaluationService {
 다음 평가 결과를 바탕으로 종합적인 피드백을 제공해주세요:
 
 고객: ${customer.company_name} ${customer.customer_type}
-프로젝트: ${customer.project_name}
+프로젝트: ${input.project_title || customer.project_name}
 
-제안서 평가 (70%):
-- 전체 점수: ${proposal_evaluation.overall_score}점
-- 주요 강점: ${proposal_evaluation.key_strengths?.join(', ')}
-- 개선 영역: ${proposal_evaluation.improvement_areas?.join(', ')}
+제안서 평가 (${Math.round(proposal_weight * 100)}%):
+- 전체 점수: ${proposal_evaluation ? `${proposalScore}점` : '미평가'}
+- 주요 강점: ${proposal_evaluation?.key_strengths?.join(', ') || '-'}
+- 개선 영역: ${proposal_evaluation?.improvement_areas?.join(', ') || '-'}
 
-발표 평가 (30%):
-- 전체 점수: ${presentation_evaluation.overall_score}점  
-- 주요 강점: ${presentation_evaluation.key_strengths?.join(', ')}
-- 개선 영역: ${presentation_evaluation.improvement_areas?.join(', ')}
+발표 평가 (${Math.round(presentation_weight * 100)}%):
+- 전체 점수: ${presentation_evaluation ? `${presentationScore}점` : '미평가'}
+- 주요 강점: ${presentation_evaluation?.key_strengths?.join(', ') || '-'}
+- 개선 영역: ${presentation_evaluation?.improvement_areas?.join(', ') || '-'}
 
 최종 통합 점수: ${finalScore}점
 
-고객의 우선순위 (${customer.integrated_persona.top3_priorities.join(', ')})를 고려하여 
+고객의 우선순위 (${customer.integrated_persona?.top3_priorities?.join(', ') || '-'})를 고려하여 
 300자 내외의 종합 피드백을 작성해주세요.
       `
       
@@ -342,69 +413,35 @@ export class LLMEvaluationService {
           max_tokens: 500
         })
         
-        comprehensiveFeedback = response.choices[0].message.content || '종합 피드백을 생성할 수 없습니다'
+        comprehensiveFeedback = response.choices[0].message.content || ''
         
       } catch (error) {
         console.error('종합 피드백 생성 오류:', error)
-        comprehensiveFeedback = '종합 피드백을 생성할 수 없습니다'
       }
-    } else {
-      // 기본 피드백
-      comprehensiveFeedback = `제안서 ${proposal_evaluation.overall_score}점과 발표 ${presentation_evaluation.overall_score}점을 종합하여 최종 ${finalScore}점을 획득하셨습니다. 전반적으로 균형잡힌 제안이었으나, 추가적인 개선을 통해 더 나은 결과를 얻을 수 있을 것입니다.`
     }
     
-    // 통합 평가 결과 생성
-    const integratedEvaluation: Omit<IntegratedEvaluation, 'id' | 'evaluation_date'> = {
-      session_id: sessionId,
-      customer_id: customer?.customer_id || '',
-      proposal_score: proposal_evaluation.overall_score,
-      presentation_score: presentation_evaluation.overall_score,
-      final_score: finalScore,
-      integrated_clarity: integratedScores.clarity,
-      integrated_expertise: integratedScores.expertise,  
-      integrated_persuasiveness: integratedScores.persuasiveness,
-      integrated_logic: integratedScores.logic,
-      integrated_creativity: integratedScores.creativity,
-      integrated_credibility: integratedScores.credibility,
-      comprehensive_feedback: comprehensiveFeedback,
-      recommendation_priority: [
-        ...proposal_evaluation.improvement_areas?.slice(0, 2) || [],
-        ...presentation_evaluation.improvement_areas?.slice(0, 1) || []
-      ],
-      overall_strengths: [
-        ...proposal_evaluation.key_strengths?.slice(0, 2) || [],
-        ...presentation_evaluation.key_strengths?.slice(0, 1) || []
-      ]
+    if (!comprehensiveFeedback) {
+      // 기본 피드백
+      comprehensiveFeedback = `제안서 ${proposalScore}점과 발표 ${presentationScore}점을 종합하여 최종 ${finalScore}점을 획득하셨습니다. 전반적으로 균형잡힌 제안이었으나, 추가적인 개선을 통해 더 나은 결과를 얻을 수 있을 것입니다.`
     }
     
-    // 결과 저장
-    const integrationId = await this.storage.saveIntegratedEvaluation(sessionId, integratedEvaluation)
-    
-    // 세션 상태 최종 업데이트
-    await this.storage.updateEvaluationSession(sessionId, {
-      session_status: 'completed',
-      integrated_evaluation_id: integrationId
-    })
-    
-    console.log(`통합 평가 완료: ${integrationId}`)
+    console.log(`통합 평가 완료: ${finalScore}점`)
     
     return {
-      integrated_evaluation: {
-        id: integrationId,
-        evaluation_date: new Date().toISOString(),
-        ...integratedEvaluation
+      customer_id: input.customer_id,
+      project_title: input.project_title || '프로젝트 제안',
+      proposal_evaluation,
+      presentation_evaluation,
+      final_score: finalScore,
+      weighted_scores: {
+        proposal_weighted: proposalWeighted,
+        presentation_weighted: presentationWeighted
       },
-      complete_results: {
-        session: sessionResults.session,
-        customer: sessionResults.customer,
-        proposal_evaluation: sessionResults.proposal_evaluation,
-        presentation_evaluation: sessionResults.presentation_evaluation,
-        integrated_evaluation: {
-          id: integrationId,
-          evaluation_date: new Date().toISOString(),
-          ...integratedEvaluation
-        }
-      }
+      weight_profile,
+      strengths,
+      improvements,
+      overall_feedback: comprehensiveFeedback,
+      created_at: new Date().toISOString()
     }
   }
 
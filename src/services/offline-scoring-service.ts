@@ -0,0 +1,273 @@
+// 오프라인 채점 서비스 - OpenAI 없이 텍스트 특징(구성·RFP 키워드·정량 근거·레퍼런스·리스크)과 루브릭 앵커로 결정적 점수 산출
+
+import { DatabaseHelper } from '../utils/database'
+import { extractKeywords } from './requirement-traceability-service'
+import { PROPOSAL_SECTION_LABELS, type ProposalSectionKey } from './file-parser'
+import type { ProposalSections, RubricAnchor } from '../types'
+
+export type OfflineMetric = 'clarity' | 'expertise' | 'persuasiveness' | 'logic' | 'creativity' | 'reliability'
+
+const OFFLINE_METRICS: OfflineMetric[] = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'reliability']
+
+// rubric_anchors 테이블의 지표명 (설득력은 persuasion)
+const ANCHOR_METRIC_NAMES: Record<OfflineMetric, string> = {
+  clarity: 'clarity',
+  expertise: 'expertise',
+  persuasiveness: 'persuasion',
+  logic: 'logic',
+  creativity: 'creativity',
+  reliability: 'reliability'
+}
+
+// DB 미연결(로컬/CI) 시 사용하는 기본 앵커 - migrations/0008_rubric_anchors.sql 시드와 동일
+const DEFAULT_RUBRIC_ANCHORS: RubricAnchor[] = ([
+  ['clarity', ['목적·범위·효과가 모호하거나 누락, 핵심 전달 실패', '일부 명확하나 전체적으로 불분명, 구조가 흐트러짐', '기본 흐름은 명확하나 세부 설명 부족, 중복/모호 표현 존재', '목적·범위·효과가 잘 드러나고, 전체 구조가 이해 가능', '모든 메시지가 직관적으로 명확, 구조적·간결하며 완결성 확보']],
+  ['expertise', ['업계/기술 근거 전혀 없음, 피상적 주장', '일부 용어나 개념만 언급, 최신성·정확성 부족', '기본적인 전문 지식·사례는 있으나 깊이가 부족', '업계 표준·최신 트렌드·레퍼런스를 적절히 활용', '최신 기술·글로벌 레퍼런스 풍부, 깊이와 폭 모두 뛰어남']],
+  ['persuasion', ['주장만 있고 근거·사례 없음, 고객 요구와 불일치', '제한된 근거 제시, 설득력 약함', '근거는 있으나 고객 Pain Point와 연결성이 약함', '데이터·사례를 통해 고객 요구와 논리적으로 연결', '강력한 데이터·사례·스토리텔링으로 고객 확신 유발']],
+  ['logic', ['구조 없음, 아이디어가 단절·모순적', '부분적 논리만 존재, 전개 과정에서 비약·누락 발생', '기본 구조(문제→목표→해결책)는 있으나 불완전', '일관된 논리 전개, 단계별 근거 설명 충실', '매우 체계적, 모든 단계가 명확히 연결, 모순·비약 없음']],
+  ['creativity', ['기존 접근법 반복, 차별성 전혀 없음', '소폭 차별화 있으나 기존과 유사, 참신성 낮음', '기본적인 차별화는 있으나 독창성 부족', '새로운 아이디어나 방법론 제시, 실행 가능성 확보', '혁신적이고 차별적인 아이디어, 고객 맥락에 최적화']],
+  ['reliability', ['실행 가능성 전혀 없음, 레퍼런스 부재', '제한적 실행 가능성, 근거 부족', '일부 실행 근거 제시, 보완 필요', '유사 프로젝트 경험·리스크 관리·규제 준수 근거 제시', '실행력 완벽 검증, 풍부한 레퍼런스와 리스크 대비책 확보']]
+] as Array<[string, string[]]>).flatMap(([metric_name, descriptions]) =>
+  descriptions.map((anchor_description, index) => ({ metric_name, score_value: (index + 1) * 20, anchor_description }))
+)
+
+// RFP 요구 키워드 추출 대상 속성 (목표, 범위, 요구 산출물, 필수 역량, 특이조건)
+const RFP_KEYWORD_ATTRIBUTES = [4, 5, 9, 13, 15]
+
+const PATTERNS = {
+  quantitative: /\d+(?:\.\d+)?\s*(?:%|건|억|원|개월|명|배|시간|일|년)/g,
+  reference: /실적|레퍼런스|구축\s*사례|수행\s*경험|고객사|인증|ISO|CMMI|GS\s*인증|수상/g,
+  risk: /리스크|위험|대응\s*방안|완화|비상|이슈\s*관리|품질\s*관리/g,
+  innovation: /혁신|차별|신기술|AI|자동화|특허|독자|최초/g,
+  connector: /따라서|이를\s*통해|그\s*결과|첫째|둘째|셋째|단계|근거|때문/g,
+  benefit: /효과|절감|향상|개선|ROI|가치|기대/g,
+  technical: /아키텍처|플랫폼|클라우드|데이터|보안|API|인프라|표준|방법론|프레임워크/g
+}
+
+export interface OfflineFeatures {
+  section_count: number
+  missing_sections: ProposalSectionKey[]
+  word_count: number
+  rfp_keyword_total: number
+  rfp_keyword_matched: number
+  quantitative_claims: number
+  references: number
+  risk_terms: number
+  has_risk_section: boolean
+  innovation_terms: number
+  connectors: number
+  benefit_terms: number
+  technical_terms: number
+}
+
+export interface OfflineMetricScore {
+  score: number
+  comment: string
+  anchor_score: number
+}
+
+export interface OfflineScoringResult {
+  scores: Record<OfflineMetric, OfflineMetricScore>
+  features: OfflineFeatures
+  key_strengths: string[]
+  improvement_areas: string[]
+  decision_factors: {
+    matches_priorities: string
+    risk_assessment: string
+    implementation_confidence: string
+  }
+}
+
+/**
+ * rubric_anchors 테이블 조회 (DB가 없거나 비어 있으면 기본 앵커)
+ */
+export async function loadRubricAnchors(db?: D1Database): Promise<RubricAnchor[]> {
+  if (!db) return DEFAULT_RUBRIC_ANCHORS
+
+  try {
+    const anchors = await new DatabaseHelper(db).getRubricAnchors() as unknown as RubricAnchor[]
+    return anchors?.length ? anchors : DEFAULT_RUBRIC_ANCHORS
+  } catch (error) {
+    console.log('⚠️ 루브릭 앵커 조회 실패, 기본 앵커 사용:', (error as Error).message)
+    return DEFAULT_RUBRIC_ANCHORS
+  }
+}
+
+export class OfflineScoringService {
+  constructor(private anchors: RubricAnchor[] = DEFAULT_RUBRIC_ANCHORS) {}
+
+  /**
+   * 제안서 텍스트 특징으로 6대 지표 점수 산출 (같은 입력이면 항상 같은 결과)
+   */
+  score(sections: ProposalSections, content: string, rfpAnalysisData?: Record<string, any>): OfflineScoringResult {
+    const features = this.extractFeatures(sections, content, rfpAnalysisData)
+    const ratios = this.featureRatios(features, sections)
+    const composites = this.composites(ratios, {
+      sections: ratios.sections,
+      plan: ratios.plan,
+      summary: sections.executive_summary?.trim() ? 1 : 0,
+      team: sections.team?.trim() ? 1 : 0
+    })
+
+    const scores = {} as Record<OfflineMetric, OfflineMetricScore>
+    for (const metric of OFFLINE_METRICS) {
+      const score = toScore(composites[metric])
+      const anchorScore = Math.min(100, Math.max(20, Math.round(score / 20) * 20))
+      scores[metric] = {
+        score,
+        anchor_score: anchorScore,
+        comment: `${this.anchorDescription(metric, anchorScore)} (${this.describeFeatures(metric, features)})`
+      }
+    }
+
+    const ranked = [...OFFLINE_METRICS].sort((a, b) => scores[b].score - scores[a].score || OFFLINE_METRICS.indexOf(a) - OFFLINE_METRICS.indexOf(b))
+    const rfpPercent = features.rfp_keyword_total ? Math.round(features.rfp_keyword_matched / features.rfp_keyword_total * 100) : null
+
+    return {
+      scores,
+      features,
+      key_strengths: ranked.slice(0, 3).map(metric => `${METRIC_LABELS[metric]}: ${this.describeFeatures(metric, features)}`),
+      improvement_areas: this.improvementAreas(features, ranked.slice(-3).reverse()),
+      decision_factors: {
+        matches_priorities: rfpPercent === null ? 'RFP 요구 키워드 정보 없음' : `RFP 요구 키워드 ${rfpPercent}% 반영`,
+        risk_assessment: features.has_risk_section && features.risk_terms >= 3
+          ? '리스크 식별과 대응 방안이 제시되어 관리 가능'
+          : '리스크 관리 방안이 부족해 추가 확인 필요',
+        implementation_confidence: scores.reliability.score >= 70 ? '높은 실현 가능성' : scores.reliability.score >= 50 ? '보통 수준의 실현 가능성' : '실현 가능성 근거 부족'
+      }
+    }
+  }
+
+  /**
+   * 섹션 하나의 본문만으로 6대 지표 점수 산출 (섹션 × 지표 히트맵용)
+   * 제안서 전체 구성(섹션 수·필수 섹션 유무)은 섹션 단위로 판단할 수 없어 중립값으로 둠
+   */
+  scoreSection(key: ProposalSectionKey, content: string, rfpAnalysisData?: Record<string, any>): Record<OfflineMetric, number> {
+    const sections: ProposalSections = { [key]: content }
+    const ratios = this.featureRatios(this.extractFeatures(sections, content, rfpAnalysisData), sections)
+    const composites = this.composites(ratios, { sections: 0.5, plan: 0.5, summary: 0.5, team: 0.5 })
+
+    return Object.fromEntries(
+      OFFLINE_METRICS.map(metric => [metric, toScore(composites[metric])])
+    ) as Record<OfflineMetric, number>
+  }
+
+  // 지표별 특징 가중합 (structure: 제안서 구성 완결성 관련 0~1 값)
+  private composites(
+    ratios: ReturnType<OfflineScoringService['featureRatios']>,
+    structure: { sections: number; plan: number; summary: number; team: number }
+  ): Record<OfflineMetric, number> {
+    return {
+      clarity: 0.5 * structure.sections + 0.2 * ratios.length + 0.3 * structure.summary,
+      expertise: 0.4 * ratios.technical + 0.3 * ratios.rfp + 0.3 * ratios.quantitative,
+      persuasiveness: 0.35 * ratios.rfp + 0.35 * ratios.benefit + 0.3 * ratios.quantitative,
+      logic: 0.4 * ratios.connectors + 0.3 * structure.sections + 0.3 * structure.plan,
+      creativity: 0.7 * ratios.innovation + 0.3 * ratios.benefit,
+      reliability: 0.4 * ratios.references + 0.35 * ratios.risk + 0.25 * structure.team
+    }
+  }
+
+  private extractFeatures(sections: ProposalSections, content: string, rfpAnalysisData?: Record<string, any>): OfflineFeatures {
+    const keys = Object.keys(PROPOSAL_SECTION_LABELS) as ProposalSectionKey[]
+    const present = keys.filter(key => sections[key]?.trim())
+    const text = content.trim() || present.map(key => sections[key]).join('\n')
+    const lower = text.toLowerCase()
+
+    const rfpKeywords = extractKeywords(
+      RFP_KEYWORD_ATTRIBUTES.map(id => rfpAnalysisData?.[id]?.content || '').join(' ')
+    )
+
+    return {
+      section_count: present.length,
+      missing_sections: keys.filter(key => !present.includes(key)),
+      word_count: text.split(/\s+/).filter(Boolean).length,
+      rfp_keyword_total: rfpKeywords.length,
+      rfp_keyword_matched: rfpKeywords.filter(keyword => lower.includes(keyword.toLowerCase())).length,
+      quantitative_claims: countMatches(text, PATTERNS.quantitative),
+      references: countMatches(text, PATTERNS.reference),
+      risk_terms: countMatches(text, PATTERNS.risk),
+      has_risk_section: !!sections.risk_management?.trim(),
+      innovation_terms: countMatches(text, PATTERNS.innovation),
+      connectors: countMatches(text, PATTERNS.connector),
+      benefit_terms: countMatches(text, PATTERNS.benefit),
+      technical_terms: countMatches(text, PATTERNS.technical)
+    }
+  }
+
+  // 특징값을 0~1 비율로 정규화 (포화 기준은 일반적인 제안서 분량 기준)
+  private featureRatios(features: OfflineFeatures, sections: ProposalSections) {
+    const perThousandWords = Math.max(1, features.word_count / 1000)
+    return {
+      sections: features.section_count / Object.keys(PROPOSAL_SECTION_LABELS).length,
+      length: Math.min(1, features.word_count / 200),
+      // RFP 키워드가 없으면 중립값
+      rfp: features.rfp_keyword_total ? features.rfp_keyword_matched / features.rfp_keyword_total : 0.5,
+      quantitative: Math.min(1, features.quantitative_claims / (5 * perThousandWords)),
+      references: Math.min(1, features.references / 5),
+      risk: (features.has_risk_section ? 0.5 : 0) + Math.min(0.5, features.risk_terms / 12),
+      innovation: Math.min(1, features.innovation_terms / 5),
+      connectors: Math.min(1, features.connectors / (4 * perThousandWords)),
+      benefit: Math.min(1, features.benefit_terms / 6),
+      technical: Math.min(1, features.technical_terms / 8),
+      plan: ['methodology', 'technical_approach', 'timeline'].filter(key => sections[key as ProposalSectionKey]?.trim()).length / 3
+    }
+  }
+
+  private anchorDescription(metric: OfflineMetric, anchorScore: number): string {
+    const anchor = this.anchors.find(entry =>
+      (entry.metric_name === ANCHOR_METRIC_NAMES[metric] || entry.metric_name === metric) && entry.score_value === anchorScore
+    )
+    return anchor?.anchor_description || `${METRIC_LABELS[metric]} ${anchorScore}점 수준`
+  }
+
+  private describeFeatures(metric: OfflineMetric, features: OfflineFeatures): string {
+    const sectionText = `제안서 구성 ${features.section_count}/${Object.keys(PROPOSAL_SECTION_LABELS).length}개`
+    const rfpText = features.rfp_keyword_total
+      ? `RFP 요구 키워드 ${features.rfp_keyword_matched}/${features.rfp_keyword_total}개 반영`
+      : 'RFP 요구 키워드 정보 없음'
+
+    return {
+      clarity: `${sectionText}, ${features.word_count.toLocaleString()}단어`,
+      expertise: `기술 용어 ${features.technical_terms}회, ${rfpText}, 정량 근거 ${features.quantitative_claims}건`,
+      persuasiveness: `${rfpText}, 기대효과 언급 ${features.benefit_terms}회, 정량 근거 ${features.quantitative_claims}건`,
+      logic: `논리 연결 표현 ${features.connectors}회, ${sectionText}`,
+      creativity: `차별화·혁신 표현 ${features.innovation_terms}회`,
+      reliability: `레퍼런스·인증 ${features.references}건, 리스크 관리 ${features.has_risk_section ? '섹션 있음' : '섹션 없음'}(관련 표현 ${features.risk_terms}회)`
+    }[metric]
+  }
+
+  private improvementAreas(features: OfflineFeatures, weakest: OfflineMetric[]): string[] {
+    const suggestions: Record<OfflineMetric, string> = {
+      clarity: features.missing_sections.length
+        ? `누락된 구성 보완: ${features.missing_sections.map(key => PROPOSAL_SECTION_LABELS[key]).join(', ')}`
+        : '사업 개요에 목적·범위·기대효과를 요약해 핵심 메시지를 명확히 하세요',
+      expertise: '적용 기술·표준·방법론을 구체적 수치와 함께 제시하세요',
+      persuasiveness: features.rfp_keyword_total && features.rfp_keyword_matched < features.rfp_keyword_total
+        ? 'RFP 요구사항 용어를 그대로 사용해 대응 관계를 드러내세요'
+        : '기대효과를 정량 지표(절감률, 향상률)로 제시하세요',
+      logic: '문제 → 목표 → 방안 → 효과 순서로 단계별 근거를 연결하세요',
+      creativity: '경쟁사 대비 차별화 요소와 혁신 기술 적용 방안을 추가하세요',
+      reliability: features.has_risk_section
+        ? '유사 사업 수행 실적과 인증 등 레퍼런스를 보강하세요'
+        : '리스크 관리 섹션(식별·완화·비상 대응)을 추가하세요'
+    }
+    return weakest.map(metric => `${METRIC_LABELS[metric]}: ${suggestions[metric]}`)
+  }
+}
+
+const METRIC_LABELS: Record<OfflineMetric, string> = {
+  clarity: '명확성',
+  expertise: '전문성',
+  persuasiveness: '설득력',
+  logic: '논리성',
+  creativity: '창의성',
+  reliability: '신뢰성'
+}
+
+function toScore(composite: number): number {
+  return Math.round(20 + 80 * Math.min(1, Math.max(0, composite)))
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length || 0
+}
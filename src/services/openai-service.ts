@@ -407,7 +407,8 @@ ${JSON.stringify(rfpAnalysis, null, 2)}
     customer: AIVirtualCustomer,
     content: string,
     contentType: 'proposal' | 'presentation',
-    additionalContext?: string
+    additionalContext?: string,
+    model = 'gpt-4o'
   ): Promise<EvaluationScores> {
     
     const rubricAnchors = {
@@ -569,7 +570,7 @@ ${customer.customer_type} 관점에서 고객사의 우선순위와 우려사항
     try {
       return await this.safeAPICall(async () => {
         const response = await this.openai.chat.completions.create({
-          model: "gpt-4o",
+          model,
           messages: [{ role: "user", content: prompt }],
           temperature: 0.3,
           max_tokens: this.isUnbound ? 5000 : 3000,
@@ -1,6 +1,7 @@
 // PDF 리포트 생성 서비스
 
 import type { AIVirtualCustomer, ProposalEvaluation, PresentationEvaluation } from '../types/ai-customer'
+import type { ComplianceChecklist } from './compliance-checklist-service'
 
 export interface PDFReportData {
   customer: AIVirtualCustomer
@@ -20,6 +21,7 @@ export interface PDFReportData {
     improvements: string
     summary: string
   }
+  complianceChecklist?: ComplianceChecklist
   generatedAt: string
 }
 
@@ -29,7 +31,8 @@ export class PDFGeneratorService {
   generateReportData(
     customer: AIVirtualCustomer,
     proposalEval?: ProposalEvaluation,
-    presentationEval?: PresentationEvaluation
+    presentationEval?: PresentationEvaluation,
+    complianceChecklist?: ComplianceChecklist
   ): PDFReportData {
     
     // 최종 점수 계산 (제안서 70% + 발표 30%)
@@ -117,13 +120,14 @@ export class PDFGeneratorService {
       presentationEvaluation: presentationEval,
       finalScores,
       feedback,
+      complianceChecklist,
       generatedAt: new Date().toISOString()
     }
   }
 
   // HTML 리포트 생성 (PDF 변환용)
   generateHTMLReport(reportData: PDFReportData): string {
-    const { customer, proposalEvaluation, presentationEvaluation, finalScores, feedback } = reportData
+    const { customer, proposalEvaluation, presentationEvaluation, finalScores, feedback, complianceChecklist } = reportData
     
     return `
 <!DOCTYPE html>
@@ -302,6 +306,24 @@ export class PDFGeneratorService {
             color: #4b5563;
         }
         
+        .risk-high { border-left-color: #dc2626; background: #fef2f2; }
+        .risk-medium { border-left-color: #d97706; background: #fffbeb; }
+        .risk-low { border-left-color: #16a34a; background: #f0fdf4; }
+        
+        .compliance-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 12px;
+        }
+        
+        .compliance-table th,
+        .compliance-table td {
+            padding: 6px 8px;
+            border-bottom: 1px solid #e5e7eb;
+            text-align: left;
+            vertical-align: top;
+        }
+        
         @media print {
             body { font-size: 12px; }
             .section { break-inside: avoid; }
@@ -400,6 +422,8 @@ export class PDFGeneratorService {
     </div>
     ` : ''}
 
+    ${complianceChecklist ? this.generateComplianceSection(complianceChecklist) : ''}
+
     <div class="section feedback-section">
         <h2>종합 피드백</h2>
         
@@ -451,6 +475,42 @@ export class PDFGeneratorService {
     `.trim()
   }
 
+  // 실격 위험 점검 섹션 (입찰사 요건·준수사항 점검표)
+  private generateComplianceSection(checklist: ComplianceChecklist): string {
+    const statusLabels: Record<string, string> = { pass: '✅ 충족', fail: '❌ 미충족', manual: '⚠️ 확인 필요' }
+    const riskLabels: Record<string, string> = { high: '높음', medium: '보통', low: '낮음' }
+
+    return `
+    <div class="section">
+        <h2>실격 위험 점검</h2>
+        
+        <div class="feedback-item risk-${checklist.risk.level}">
+            <h3>실격 위험: ${riskLabels[checklist.risk.level]}</h3>
+            <p>${checklist.risk.summary}</p>
+            <p style="font-size: 12px; color: #6B7280;">충족 ${checklist.passed}건 · 미충족 ${checklist.failed}건 · 확인 필요 ${checklist.manual}건</p>
+        </div>
+        
+        ${checklist.items.length ? `
+        <table class="compliance-table">
+            <thead>
+                <tr><th>번호</th><th>구분</th><th>요건</th><th>결과</th><th>판정 근거</th></tr>
+            </thead>
+            <tbody>
+                ${checklist.items.map(item => `
+                <tr>
+                    <td>${item.item_id}</td>
+                    <td>${item.source_name}${item.severity === 'disqualifying' ? ' (필수)' : ''}</td>
+                    <td>${item.requirement}</td>
+                    <td>${statusLabels[item.status]}</td>
+                    <td>${item.reason}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+        ` : ''}
+    </div>
+    `
+  }
+
   // 피드백 생성 (100점 만점 기준 + 실제 AI 평가 코멘트 활용)
   private generateFeedback(
     finalScores: any, 
@@ -3,6 +3,11 @@
 import { PDFDocument } from 'pdf-lib'
 import JSZip from 'jszip'
 
+// pdf-parse는 Node 전용 (Workers 번들에 포함되지 않도록 동적 import)
+const PDF_PARSE_MODULE = 'pdf-parse/lib/pdf-parse.js'
+
+const ENCRYPTED_PDF_MESSAGE = '암호로 보호된 PDF는 텍스트를 추출할 수 없습니다. 암호를 해제한 뒤 다시 업로드해주세요.'
+
 export class PdfParserService {
   
   /**
@@ -34,33 +39,45 @@ export class PdfParserService {
     try {
       console.log(`📄 PDF 파싱 시작: ${fileName} (${pdfBuffer.byteLength} bytes)`)
       
-      // Railway 환경에서 pdf-parse 사용 시도
+      // Node(Railway) 환경에서 pdf-parse 사용 시도
+      let pdfParse: any
+      try {
+        const pdfParseModule: any = await import(/* @vite-ignore */ PDF_PARSE_MODULE)
+        pdfParse = pdfParseModule.default || pdfParseModule
+      } catch (importError) {
+        console.log(`⚠️ pdf-parse 사용 불가, pdf-lib 대안 시도: ${(importError as Error).message}`)
+        return this.extractWithPdfLib(pdfBuffer, fileName)
+      }
+
       try {
-        const pdfParse = require('pdf-parse')
-        const uint8Buffer = Buffer.from(pdfBuffer)
-        
         console.log('🚀 pdf-parse 라이브러리 사용 중...')
-        const pdfData = await pdfParse(uint8Buffer)
-        
-        console.log(`✅ PDF 파싱 성공: ${pdfData.text.length}자, ${pdfData.numpages}페이지 (pdf-parse)`)
         
-        // 페이지별 텍스트 분할 시도
-        const textPerPage = Math.ceil(pdfData.text.length / pdfData.numpages)
-        const pages = []
-        
-        for (let i = 0; i < pdfData.numpages; i++) {
-          const start = i * textPerPage
-          const end = Math.min((i + 1) * textPerPage, pdfData.text.length)
-          const pageContent = pdfData.text.substring(start, end).trim()
-          
-          if (pageContent.length > 0) {
-            pages.push({
-              page_number: i + 1,
-              content: pageContent,
-              word_count: pageContent.split(/\s+/).length
-            })
+        // 페이지별 텍스트 수집 (pdf-parse 기본 렌더러와 같은 줄바꿈 규칙)
+        const pages: Array<{ page_number: number; content: string; word_count: number }> = []
+        const pdfData = await pdfParse(new Uint8Array(pdfBuffer), {
+          pagerender: async (pageData: any) => {
+            const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+            let lastY: number | undefined
+            let pageText = ''
+            for (const item of textContent.items) {
+              pageText += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str
+              lastY = item.transform[5]
+            }
+
+            const content = pageText.trim()
+            if (content.length > 0) {
+              pages.push({
+                page_number: pageData.pageIndex + 1,
+                content,
+                word_count: content.split(/\s+/).length
+              })
+            }
+            return pageText
           }
-        }
+        })
+        pages.sort((a, b) => a.page_number - b.page_number)
+        
+        console.log(`✅ PDF 파싱 성공: ${pdfData.text.length}자, ${pdfData.numpages}페이지 (pdf-parse)`)
         
         const metadata = {
           title: pdfData.info?.Title || undefined,
@@ -74,14 +91,17 @@ export class PdfParserService {
         }
 
         return {
-          text: pdfData.text,
+          text: pages.map(page => page.content).join('\n\n'),
           pages: pages,
           metadata: metadata,
           extraction_method: 'pdf-parse'
         }
         
       } catch (pdfParseError) {
-        console.log(`⚠️ pdf-parse 실패, pdf-lib 대안 시도: ${pdfParseError.message}`)
+        if ((pdfParseError as Error).name === 'PasswordException') {
+          throw new Error(ENCRYPTED_PDF_MESSAGE)
+        }
+        console.log(`⚠️ pdf-parse 실패, pdf-lib 대안 시도: ${(pdfParseError as Error).message}`)
         return this.extractWithPdfLib(pdfBuffer, fileName)
       }
       
@@ -160,6 +180,9 @@ export class PdfParserService {
       
     } catch (error) {
       console.error('❌ PDF-lib도 실패:', error)
+      if ((error as Error).name === 'EncryptedPDFError') {
+        throw new Error(ENCRYPTED_PDF_MESSAGE)
+      }
       throw new Error(`PDF 파싱 완전 실패: ${error.message}`)
     }
   }
@@ -337,6 +360,11 @@ safeFileName.includes('계약') || safeFileName.includes('contract') ?
     fileName: string
   ): Promise<{
     text: string
+    pages?: Array<{
+      page_number: number
+      content: string
+      word_count: number
+    }>
     extraction_method: string
   }> {
     
@@ -365,49 +393,42 @@ safeFileName.includes('계약') || safeFileName.includes('contract') ?
       const xmlContent = await documentXml.async('string')
       console.log(`📋 document.xml 추출 완료: ${xmlContent.length} bytes`)
       
-      // Word XML에서 텍스트 추출
-      const extractedTexts = []
-      
-      // <w:t> 태그에서 텍스트 추출 (Word 문서의 텍스트 런)
-      const textMatches = xmlContent.match(/<w:t[^>]*>([^<]+)<\/w:t>/g)
-      if (textMatches) {
-        for (const match of textMatches) {
-          const text = match.replace(/<[^>]+>/g, '').trim()
-          if (text.length > 0) {
-            extractedTexts.push(text)
-          }
+      // 단락(<w:p>) 단위로 텍스트 런(<w:t>)을 이어 붙여 줄 구조 유지
+      // 명시적 페이지 나눔/마지막 렌더링 페이지 경계로 페이지 번호 추정
+      const pages: Array<{ page_number: number; content: string; word_count: number }> = []
+      let pageNumber = 1
+      let pageLines: string[] = []
+
+      const flushPage = () => {
+        const content = pageLines.join('\n').trim()
+        if (content.length > 0) {
+          pages.push({ page_number: pageNumber, content, word_count: content.split(/\s+/).length })
         }
+        pageLines = []
       }
-      
-      // <w:p> 태그 단위로도 추출 시도 (단락)
-      const paragraphMatches = xmlContent.match(/<w:p[^>]*>.*?<\/w:p>/gs)
-      if (paragraphMatches) {
-        for (const paragraph of paragraphMatches) {
-          const textInParagraph = paragraph.match(/<w:t[^>]*>([^<]*)<\/w:t>/g)
-          if (textInParagraph) {
-            const paragraphText = textInParagraph
-              .map(t => t.replace(/<[^>]+>/g, ''))
-              .join('')
-              .trim()
-            if (paragraphText.length > 0) {
-              extractedTexts.push(paragraphText)
-            }
-          }
+
+      for (const paragraph of xmlContent.match(/<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g) || []) {
+        if (/<w:br [^>]*w:type="page"|<w:lastRenderedPageBreak\/>/.test(paragraph) && pageLines.length > 0) {
+          flushPage()
+          pageNumber++
+        }
+
+        const paragraphText = (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>/g) || [])
+          .map(run => run === '<w:tab/>' ? '\t' : decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+          .join('')
+          .trim()
+        if (paragraphText.length > 0) {
+          pageLines.push(paragraphText)
         }
       }
-      
-      // 텍스트 정제 및 결합
-      const cleanText = extractedTexts
-        .filter(text => text && text.trim().length > 1)
-        .map(text => text.trim())
-        .join(' ')
-        .replace(/\s+/g, ' ')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&amp;/g, '&')
+      flushPage()
+
+      const cleanText = pages
+        .map(page => page.content)
+        .join('\n')
         .substring(0, 50000) // 50KB 제한
       
-      console.log(`✅ DOCX 텍스트 추출 성공: ${cleanText.length}자 (JSZip 방식)`)
+      console.log(`✅ DOCX 텍스트 추출 성공: ${cleanText.length}자, ${pages.length}페이지 (JSZip 방식)`)
       
       if (cleanText.length < 10) {
         console.warn('⚠️ 추출된 텍스트가 너무 짧음, 대안 방법 시도')
@@ -416,6 +437,7 @@ safeFileName.includes('계약') || safeFileName.includes('contract') ?
       
       return {
         text: cleanText,
+        pages,
         extraction_method: 'jszip_docx'
       }
       
@@ -812,4 +834,13 @@ ${hasProjectKeywords ? '🔍 파일명 기반 특화 분석:\n- 원가관리/프
       mimeType: 'application/octet-stream'
     }
   }
-}
\ No newline at end of file
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,178 @@
+// 발표 타임라인 서비스 - 음성 인식 단어·구간 타임스탬프에 군말, 긴 휴지, 근거 없는 주장, 누락된 RFP 키워드 피드백을 시각으로 고정
+
+import { SpeechAnalysisService, LONG_PAUSE_SECONDS, type SpeechAnalysis } from './speech-analysis-service'
+import { rfpKeywordGroups } from './requirement-traceability-service'
+import { PCM_SAMPLE_RATE } from './stt-provider'
+import type { WordTimestamp, SegmentTimestamp } from '../types'
+
+export type TimelineMarkerType = 'filler' | 'long_pause' | 'unclear_claim' | 'missed_keyword'
+
+// 수치·사례 없이 쓰면 모호하게 들리는 과장/단정 표현
+const VAGUE_CLAIM = /(최고|최상|최적|획기적|혁신적|완벽|탁월|압도적|충분히|다양한|상당한|대폭|확실히|최대한|무조건|반드시)/
+// 같은 문장에 있으면 근거가 제시된 것으로 보는 단서
+const CLAIM_EVIDENCE = /\d|%|사례|레퍼런스|실적|데이터|근거|기준|검증|인증/
+// 누락 키워드 마커에 나열할 키워드 수
+const MAX_KEYWORDS_PER_MARKER = 5
+
+export interface TimelineMarker {
+  id: string
+  type: TimelineMarkerType
+  label: string
+  detail: string
+  start_time: number
+  end_time: number
+  segment_index: number
+  severity: 'info' | 'warning'
+}
+
+export interface TimelineSegment extends SegmentTimestamp {
+  index: number
+  // word_timestamps 인덱스 범위 [word_start, word_end)
+  word_start: number
+  word_end: number
+}
+
+export interface PresentationTimeline {
+  evaluation_id: string
+  transcript_id: string
+  duration_seconds: number
+  segments: TimelineSegment[]
+  words: WordTimestamp[]
+  markers: TimelineMarker[]
+  summary: Record<TimelineMarkerType, number>
+}
+
+export class PresentationTimelineService {
+
+  /**
+   * 발표 평가 + 음성 인식 스크립트로 재생 동기화용 구간과 피드백 마커 생성
+   */
+  build(evaluation: any, transcript: any, rfpAnalysisData?: any): PresentationTimeline {
+    const words: WordTimestamp[] = transcript.word_timestamps || []
+    const segments = indexSegments(transcript.segment_timestamps || [], words)
+    if (segments.length === 0) {
+      throw new Error('타임스탬프가 있는 음성 인식 결과가 없어 타임라인을 만들 수 없습니다.')
+    }
+
+    // 평가 시점 분석(고객 키워드 반영) > 업로드 시점 분석 > 단어 간격 기반 분석
+    const analysis: SpeechAnalysis = evaluation.audio_analysis
+      || transcript.audio_analysis
+      || new SpeechAnalysisService().analyze(null, PCM_SAMPLE_RATE, words)
+
+    const segmentAt = (time: number) => {
+      const found = segments.findIndex(segment => time < segment.end_time)
+      return found >= 0 ? found : segments.length - 1
+    }
+
+    const markers: Array<Omit<TimelineMarker, 'id'>> = [
+      ...analysis.fillers.map(filler => ({
+        type: 'filler' as const,
+        label: `군말 "${filler.word}"`,
+        detail: '의미 없는 추임새는 자신감이 없어 보이게 합니다. 잠깐 멈추는 편이 낫습니다.',
+        start_time: filler.start_time,
+        end_time: filler.end_time,
+        segment_index: segmentAt(filler.start_time),
+        severity: 'info' as const
+      })),
+      ...analysis.pauses
+        .filter(pause => pause.duration >= LONG_PAUSE_SECONDS)
+        .map(pause => ({
+          type: 'long_pause' as const,
+          label: `${pause.duration}초 침묵`,
+          detail: '흐름이 끊겼습니다. 전환 문장을 준비하거나 슬라이드 전환과 맞추세요.',
+          start_time: pause.start_time,
+          end_time: pause.end_time,
+          segment_index: segmentAt(pause.start_time),
+          severity: 'warning' as const
+        })),
+      ...unclearClaims(segments),
+      ...missedKeywordMarkers(segments, analysis, rfpAnalysisData)
+    ]
+
+    const sorted = markers
+      .sort((a, b) => a.start_time - b.start_time)
+      .map((marker, index) => ({ id: `marker-${index + 1}`, ...marker }))
+
+    const summary: Record<TimelineMarkerType, number> = { filler: 0, long_pause: 0, unclear_claim: 0, missed_keyword: 0 }
+    for (const marker of sorted) summary[marker.type]++
+
+    console.log(`🎞️ 발표 타임라인 생성: 구간 ${segments.length}개, 피드백 마커 ${sorted.length}개`)
+
+    return {
+      evaluation_id: evaluation.id,
+      transcript_id: transcript.id,
+      duration_seconds: transcript.duration_seconds || segments[segments.length - 1].end_time,
+      segments,
+      words,
+      markers: sorted,
+      summary
+    }
+  }
+}
+
+// 구간마다 해당하는 단어 인덱스 범위 연결 (스크립트 단어 하이라이트용)
+function indexSegments(segments: SegmentTimestamp[], words: WordTimestamp[]): TimelineSegment[] {
+  let cursor = 0
+  return segments.map((segment, index) => {
+    const wordStart = cursor
+    while (cursor < words.length && words[cursor].start_time < segment.end_time) cursor++
+    return { ...segment, index, word_start: wordStart, word_end: cursor }
+  })
+}
+
+// 과장/단정 표현이 있는데 같은 문장에 수치·사례가 없는 구간
+function unclearClaims(segments: TimelineSegment[]): Array<Omit<TimelineMarker, 'id'>> {
+  return segments
+    .filter(segment => VAGUE_CLAIM.test(segment.text) && !CLAIM_EVIDENCE.test(segment.text))
+    .map(segment => ({
+      type: 'unclear_claim' as const,
+      label: `근거 없는 주장 "${segment.text.match(VAGUE_CLAIM)![0]}"`,
+      detail: '수치, 사례, 레퍼런스 없이 단정했습니다. 평가위원이 근거를 되물을 가능성이 높습니다.',
+      start_time: segment.start_time,
+      end_time: segment.end_time,
+      segment_index: segment.index,
+      severity: 'warning' as const
+    }))
+}
+
+/**
+ * 언급되지 않은 RFP 키워드를 요구사항 속성별로 묶어, 같은 속성의 다른 키워드를 가장 많이 말한 구간에 고정
+ * (관련 설명이 전혀 없으면 발표 마지막 구간)
+ */
+function missedKeywordMarkers(segments: TimelineSegment[], analysis: SpeechAnalysis, rfpAnalysisData: any): Array<Omit<TimelineMarker, 'id'>> {
+  const missed = new Set(analysis.keywords?.missed || [])
+  if (missed.size === 0 || !rfpAnalysisData) return []
+
+  const lastSegment = segments[segments.length - 1]
+  const lowerSegments = segments.map(segment => segment.text.toLowerCase())
+
+  return rfpKeywordGroups(rfpAnalysisData)
+    .map(group => ({ ...group, missed: group.keywords.filter(keyword => missed.has(keyword)) }))
+    .filter(group => group.missed.length > 0)
+    .map(group => {
+      const mentioned = group.keywords.filter(keyword => !missed.has(keyword)).map(keyword => keyword.toLowerCase())
+      let best = -1
+      let bestHits = 0
+      lowerSegments.forEach((text, index) => {
+        const hits = mentioned.filter(keyword => text.includes(keyword)).length
+        if (hits > bestHits) {
+          bestHits = hits
+          best = index
+        }
+      })
+
+      const segment = best >= 0 ? segments[best] : lastSegment
+      const keywords = group.missed.slice(0, MAX_KEYWORDS_PER_MARKER).join(', ')
+      return {
+        type: 'missed_keyword' as const,
+        label: `${group.name} 키워드 누락`,
+        detail: best >= 0
+          ? `${group.name}을(를) 설명하면서 RFP 핵심어(${keywords})를 언급하지 않았습니다.`
+          : `발표 끝까지 ${group.name} 관련 RFP 핵심어(${keywords})를 언급하지 않았습니다.`,
+        start_time: best >= 0 ? segment.start_time : segment.end_time,
+        end_time: segment.end_time,
+        segment_index: segment.index,
+        severity: 'warning' as const
+      }
+    })
+}
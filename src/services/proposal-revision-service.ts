@@ -0,0 +1,311 @@
+// 제안서 개정본 비교 서비스 - 같은 AI 가상고객 기준 평가 결과의 버전 간 지표 증감, 해소/신규 지적사항, 원문 좌우 비교
+
+import { extractKeywords } from './requirement-traceability-service'
+import type { ScoreKey } from './evaluation-runner'
+
+const SCORE_KEYS: ScoreKey[] = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'reliability']
+
+// 키워드 겹침(작은 쪽 기준)이 이 비율 이상이면 같은 지적사항으로 간주
+const SAME_COMMENT_OVERLAP = 0.5
+// 줄 단위 LCS 표 크기 상한 (넘으면 변경 구간 전체를 삭제/추가로 표시)
+const MAX_DIFF_CELLS = 4_000_000
+
+export interface ProposalRevision {
+  label: string
+  evaluation: any
+}
+
+export interface ScoreDelta {
+  before: number
+  after: number
+  delta: number
+}
+
+export interface DiffRow {
+  type: 'same' | 'added' | 'removed' | 'changed'
+  left?: string
+  right?: string
+  left_line?: number
+  right_line?: number
+}
+
+export interface RevisionStep {
+  from: string
+  to: string
+  total: ScoreDelta
+  // 두 버전 중 다회 평가(score_variance)가 있으면 95% 잡음 범위 (없으면 null)
+  noise_margin: number | null
+  improved: boolean
+  metric_deltas: Record<ScoreKey, ScoreDelta>
+  section_deltas: Record<string, ScoreDelta>
+  issues: { resolved: string[]; raised: string[]; persisting: string[] }
+  strengths: { gained: string[]; lost: string[] }
+  diff: { rows: DiffRow[]; added: number; removed: number; changed: number; truncated: boolean }
+}
+
+export interface RevisionComparison {
+  customer_id: string
+  versions: Array<{ label: string; evaluation_id?: string; total_score: number; scores: Record<ScoreKey, number> }>
+  steps: RevisionStep[]
+  // 첫 버전 → 마지막 버전 누적 변화
+  overall: RevisionStep
+  best_version: string
+  all_steps_improved: boolean
+}
+
+export class ProposalRevisionService {
+
+  /**
+   * 버전 순서대로 인접 버전 간 변화와 첫-마지막 누적 변화 산출
+   */
+  compare(revisions: ProposalRevision[]): RevisionComparison {
+    if (revisions.length < 2) {
+      throw new Error('비교하려면 제안서 버전이 2개 이상 필요합니다.')
+    }
+
+    const steps = revisions.slice(1).map((revision, index) => compareStep(revisions[index], revision))
+    const versions = revisions.map(({ label, evaluation }) => ({
+      label,
+      evaluation_id: evaluation.id,
+      total_score: Number(evaluation.total_score) || 0,
+      scores: metricScores(evaluation)
+    }))
+    const best = versions.reduce((top, version) => version.total_score > top.total_score ? version : top, versions[0])
+
+    console.log(`🆚 제안서 개정본 비교: ${revisions.length}개 버전 (${versions.map(version => version.total_score).join(' → ')}점)`)
+
+    return {
+      customer_id: revisions[0].evaluation.customer_id,
+      versions,
+      steps,
+      overall: revisions.length > 2 ? compareStep(revisions[0], revisions[revisions.length - 1]) : steps[0],
+      best_version: best.label,
+      all_steps_improved: steps.every(step => step.improved)
+    }
+  }
+}
+
+/**
+ * 모든 버전이 같은 고객 버전과 같은 지표 가중치로 평가됐는지 확인 (다르면 점수 차이가 제안서 변경 때문인지 알 수 없어 오류)
+ */
+export function assertSameEvaluationBasis(revisions: ProposalRevision[]): void {
+  const [base, ...rest] = revisions
+  if (!base) return
+
+  for (const revision of rest) {
+    const baseVersion = base.evaluation.customer_version ?? '미기록'
+    const version = revision.evaluation.customer_version ?? '미기록'
+    if (version !== baseVersion) {
+      throw new Error(`${base.label}, ${revision.label} 버전의 평가 기준 고객 버전이 다릅니다 (${baseVersion} / ${version}). 같은 고객 버전으로 다시 평가한 뒤 비교해주세요.`)
+    }
+    if (weightSignature(revision.evaluation) !== weightSignature(base.evaluation)) {
+      throw new Error(`${base.label}, ${revision.label} 버전의 지표 가중치가 다릅니다. 같은 가중치로 다시 평가한 뒤 비교해주세요.`)
+    }
+  }
+}
+
+function compareStep(before: ProposalRevision, after: ProposalRevision): RevisionStep {
+  const total = delta(before.evaluation.total_score, after.evaluation.total_score)
+  const noiseMargin = totalNoiseMargin(before.evaluation, after.evaluation)
+
+  const beforeScores = metricScores(before.evaluation)
+  const afterScores = metricScores(after.evaluation)
+  const metricDeltas = Object.fromEntries(
+    SCORE_KEYS.map(key => [key, delta(beforeScores[key], afterScores[key])])
+  ) as Record<ScoreKey, ScoreDelta>
+
+  const sections = new Set([
+    ...Object.keys(before.evaluation.section_scores || {}),
+    ...Object.keys(after.evaluation.section_scores || {})
+  ])
+  const sectionDeltas: Record<string, ScoreDelta> = {}
+  for (const section of sections) {
+    sectionDeltas[section] = delta(
+      before.evaluation.section_scores?.[section]?.score,
+      after.evaluation.section_scores?.[section]?.score
+    )
+  }
+
+  const issues = matchComments(before.evaluation.improvement_areas || [], after.evaluation.improvement_areas || [])
+  const strengths = matchComments(before.evaluation.key_strengths || [], after.evaluation.key_strengths || [])
+
+  return {
+    from: before.label,
+    to: after.label,
+    total,
+    noise_margin: noiseMargin,
+    improved: total.delta > (noiseMargin ?? 0),
+    metric_deltas: metricDeltas,
+    section_deltas: sectionDeltas,
+    issues: { resolved: issues.removed, raised: issues.added, persisting: issues.kept },
+    strengths: { gained: strengths.added, lost: strengths.removed },
+    diff: diffLines(before.evaluation.proposal_content || '', after.evaluation.proposal_content || '')
+  }
+}
+
+function metricScores(evaluation: any): Record<ScoreKey, number> {
+  return Object.fromEntries(SCORE_KEYS.map(key => [
+    key,
+    Number((evaluation.scores?.[key] || (key === 'reliability' ? evaluation.scores?.credibility : undefined))?.score) || 0
+  ])) as Record<ScoreKey, number>
+}
+
+// 지표 가중치 비교용 문자열 (소수 셋째 자리 반올림, 가중치 기록이 없으면 빈 문자열)
+function weightSignature(evaluation: any): string {
+  const weights = evaluation.weight_profile?.metric_weights || {}
+  return Object.keys(weights)
+    .sort()
+    .map(key => `${key}:${Math.round(Number(weights[key]) * 1000) / 1000}`)
+    .join(',')
+}
+
+function delta(before: unknown, after: unknown): ScoreDelta {
+  const beforeScore = Number(before) || 0
+  const afterScore = Number(after) || 0
+  return { before: beforeScore, after: afterScore, delta: Math.round((afterScore - beforeScore) * 10) / 10 }
+}
+
+// 다회 평가 결과의 총점 표준편차로 두 평균 차이의 95% 범위 추정
+function totalNoiseMargin(before: any, after: any): number | null {
+  const spreads = [before.score_variance, after.score_variance]
+    .filter(Boolean)
+    .map(variance => variance.total_score.std_dev ** 2 / variance.run_count)
+  if (spreads.length === 0) return null
+  return Math.round(1.96 * Math.sqrt(spreads.reduce((sum, value) => sum + value, 0)) * 10) / 10
+}
+
+// 이전/이후 코멘트를 키워드 겹침으로 짝지어 해소(removed)·신규(added)·유지(kept) 분류
+function matchComments(before: string[], after: string[]): { removed: string[]; added: string[]; kept: string[] } {
+  const afterKeywords = after.map(comment => extractKeywords(comment))
+  const matchedAfter = new Set<number>()
+  const removed: string[] = []
+  const kept: string[] = []
+
+  for (const comment of before) {
+    const keywords = extractKeywords(comment)
+    let bestIndex = -1
+    let bestOverlap = 0
+    afterKeywords.forEach((candidate, index) => {
+      if (matchedAfter.has(index)) return
+      const overlap = keywordOverlap(keywords, candidate)
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap
+        bestIndex = index
+      }
+    })
+
+    if (bestIndex >= 0 && bestOverlap >= SAME_COMMENT_OVERLAP) {
+      matchedAfter.add(bestIndex)
+      kept.push(after[bestIndex])
+    } else {
+      removed.push(comment)
+    }
+  }
+
+  return { removed, added: after.filter((_, index) => !matchedAfter.has(index)), kept }
+}
+
+function keywordOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const shared = a.filter(keyword => b.includes(keyword)).length
+  return shared / Math.min(a.length, b.length)
+}
+
+/**
+ * 줄 단위 좌우 비교 (LCS) - 연속된 삭제/추가 줄은 변경(changed) 행으로 짝지음
+ */
+export function diffLines(beforeText: string, afterText: string): RevisionStep['diff'] {
+  const left = splitLines(beforeText)
+  const right = splitLines(afterText)
+
+  // 공통 앞/뒤 줄은 LCS 대상에서 제외
+  let prefix = 0
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix++
+  let suffix = 0
+  while (suffix < left.length - prefix && suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]) suffix++
+
+  const leftMiddle = left.slice(prefix, left.length - suffix)
+  const rightMiddle = right.slice(prefix, right.length - suffix)
+  const truncated = leftMiddle.length * rightMiddle.length > MAX_DIFF_CELLS
+
+  const operations: Array<{ type: 'same' | 'added' | 'removed'; left?: number; right?: number }> = []
+  for (let i = 0; i < prefix; i++) operations.push({ type: 'same', left: i, right: i })
+  if (truncated) {
+    leftMiddle.forEach((_, i) => operations.push({ type: 'removed', left: prefix + i }))
+    rightMiddle.forEach((_, j) => operations.push({ type: 'added', right: prefix + j }))
+  } else {
+    operations.push(...lcsOperations(leftMiddle, rightMiddle, prefix))
+  }
+  for (let i = 0; i < suffix; i++) {
+    operations.push({ type: 'same', left: left.length - suffix + i, right: right.length - suffix + i })
+  }
+
+  const rows: DiffRow[] = []
+  let added = 0, removed = 0, changed = 0
+  for (let index = 0; index < operations.length;) {
+    if (operations[index].type === 'same') {
+      const { left: l, right: r } = operations[index]
+      rows.push({ type: 'same', left: left[l!], right: right[r!], left_line: l! + 1, right_line: r! + 1 })
+      index++
+      continue
+    }
+
+    // 연속된 삭제/추가 구간을 모아 좌우로 정렬
+    const removedLines: number[] = []
+    const addedLines: number[] = []
+    while (index < operations.length && operations[index].type !== 'same') {
+      const operation = operations[index++]
+      if (operation.type === 'removed') removedLines.push(operation.left!)
+      else addedLines.push(operation.right!)
+    }
+    for (let k = 0; k < Math.max(removedLines.length, addedLines.length); k++) {
+      const l = removedLines[k]
+      const r = addedLines[k]
+      if (l !== undefined && r !== undefined) {
+        rows.push({ type: 'changed', left: left[l], right: right[r], left_line: l + 1, right_line: r + 1 })
+        changed++
+      } else if (l !== undefined) {
+        rows.push({ type: 'removed', left: left[l], left_line: l + 1 })
+        removed++
+      } else {
+        rows.push({ type: 'added', right: right[r], right_line: r + 1 })
+        added++
+      }
+    }
+  }
+
+  return { rows, added, removed, changed, truncated }
+}
+
+function lcsOperations(left: string[], right: string[], offset: number) {
+  const n = left.length
+  const m = right.length
+  const table = new Uint32Array((n + 1) * (m + 1))
+  const at = (i: number, j: number) => i * (m + 1) + j
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = left[i] === right[j]
+        ? table[at(i + 1, j + 1)] + 1
+        : Math.max(table[at(i + 1, j)], table[at(i, j + 1)])
+    }
+  }
+
+  const operations: Array<{ type: 'same' | 'added' | 'removed'; left?: number; right?: number }> = []
+  let i = 0, j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && left[i] === right[j]) {
+      operations.push({ type: 'same', left: offset + i++, right: offset + j++ })
+    } else if (j < m && (i === n || table[at(i, j + 1)] >= table[at(i + 1, j)])) {
+      operations.push({ type: 'added', right: offset + j++ })
+    } else {
+      operations.push({ type: 'removed', left: offset + i++ })
+    }
+  }
+  return operations
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
+}
@@ -0,0 +1,332 @@
+// 요구사항 추적 매트릭스 서비스 - RFP 요구사항 번호화, 제안서 대응 문단 매칭, 충족/부분/누락 판정
+
+import { StorageRepository } from './storage-repository'
+import { PdfParsingPipeline, type DocumentStructure, type RfpSignal } from '../utils/pdf-parser'
+
+export type CoverageStatus = 'covered' | 'partial' | 'missing'
+
+export interface RequirementEvidence {
+  passage_index: number
+  quote: string
+  matched_keywords: string[]
+  score: number
+}
+
+export interface TraceabilityRequirement {
+  requirement_id: string
+  section_type: string
+  section_title?: string
+  text: string
+  mandatory: boolean
+  signal_keys: string[]
+  keywords: string[]
+  status: CoverageStatus
+  coverage_score: number
+  evidence: RequirementEvidence[]
+  missing_keywords: string[]
+}
+
+export interface TraceabilityMatrix {
+  id: string
+  customer_id?: string
+  proposal_evaluation_id?: string
+  proposal_title?: string
+  rfp_source: 'rfp_text' | 'rfp_analysis'
+  requirements: TraceabilityRequirement[]
+  summary: {
+    total: number
+    covered: number
+    partial: number
+    missing: number
+    coverage_rate: number
+    mandatory_total: number
+    mandatory_missing: string[]
+  }
+  signals_count: number
+  created_at: string
+}
+
+export interface TraceabilityInput {
+  rfp_text?: string
+  rfp_analysis_data?: any
+  proposal_content: string
+  proposal_title?: string
+  customer_id?: string
+  proposal_evaluation_id?: string
+}
+
+// 판정 기준 (요구사항 키워드 중 제안서 문단에서 확인된 비율)
+const COVERED_THRESHOLD = 0.6
+const PARTIAL_THRESHOLD = 0.3
+
+const LIST_MARKER = /^\s*(?:[-•·*▪□■○●◦]|\d+(?:\.\d+)*[.)]?|\(\d+\)|[가-하][.)]|[①-⑳])\s*/
+const REQUIREMENT_MARKER = /하여야|해야|필수|반드시|요구|제출|제공|구축|수립|포함|준수|확보|지원|구현|연계|할 것|바람|must|shall|required/i
+const MANDATORY_MARKER = /필수|반드시|하여야|해야|의무|금지|할 것|must|shall|required/i
+const SCORE_LINE = /\d+\s*(?:점|%)/
+
+const PARTICLE_SUFFIX = /(에서|으로|에게|까지|부터|하여야|해야|합니다|한다|하는|하고|하며|하여|되는|된다|되어|될|함|할|을|를|이|가|은|는|의|에|로|와|과|도|만)$/
+
+// 원문이 없을 때 요구사항으로 사용할 RFP 분석 속성 (목표, 범위, 산출물, 입찰사 요건, 준수사항, 리스크 조건, 필수 역량, 특이조건)
+const REQUIREMENT_ATTRIBUTE_IDS = [4, 5, 9, 10, 11, 12, 13, 15]
+
+const STOPWORDS = new Set([
+  '사업', '수행', '제안', '제안사', '관련', '대한', '위한', '경우', '내용', '필요', '요구', '요구사항',
+  '필수', '반드시', '방안', '계획', '기반', '대상', '해당', '모든', '다음', '이상', '이하', '가능',
+  '제공', '제출', '포함', '지원', '있어야', '하여야', '해야', '것', '바람', '등'
+])
+
+export class RequirementTraceabilityService {
+  private pipeline = new PdfParsingPipeline()
+
+  constructor(private repository: StorageRepository) {}
+
+  /**
+   * RFP 텍스트(없으면 RFP 분석 15속성)로 요구사항을 추출하고 제안서 문단과 매칭해 추적 매트릭스 생성
+   */
+  async buildMatrix(input: TraceabilityInput): Promise<TraceabilityMatrix> {
+    const rfpSource = input.rfp_text?.trim() ? 'rfp_text' : 'rfp_analysis'
+    const rfpText = rfpSource === 'rfp_text' ? input.rfp_text! : rfpAnalysisToText(input.rfp_analysis_data)
+
+    if (!rfpText.trim()) {
+      throw new Error('RFP 원문 또는 RFP 분석 데이터가 필요합니다.')
+    }
+    if (!input.proposal_content?.trim()) {
+      throw new Error('제안서 내용이 필요합니다.')
+    }
+
+    // PdfParsingPipeline 섹션 구조화 + 신호 추출
+    const structures = this.pipeline.structureText(rfpText)
+    const signals = await this.pipeline.extractSignalsFromStructures(structures)
+
+    const passages = splitPassages(input.proposal_content)
+    const requirements = extractRequirements(rfpText, structures).map((requirement, index) =>
+      traceRequirement(`REQ-${String(index + 1).padStart(3, '0')}`, requirement, signals, passages)
+    )
+
+    const count = (status: CoverageStatus) => requirements.filter(requirement => requirement.status === status).length
+    const mandatory = requirements.filter(requirement => requirement.mandatory)
+
+    const matrix: TraceabilityMatrix = {
+      id: `trace-${Date.now()}`,
+      customer_id: input.customer_id,
+      proposal_evaluation_id: input.proposal_evaluation_id,
+      proposal_title: input.proposal_title,
+      rfp_source: rfpSource,
+      requirements,
+      summary: {
+        total: requirements.length,
+        covered: count('covered'),
+        partial: count('partial'),
+        missing: count('missing'),
+        coverage_rate: requirements.length
+          ? Math.round((count('covered') + count('partial') * 0.5) / requirements.length * 100)
+          : 0,
+        mandatory_total: mandatory.length,
+        mandatory_missing: mandatory
+          .filter(requirement => requirement.status === 'missing')
+          .map(requirement => requirement.requirement_id)
+      },
+      signals_count: signals.length,
+      created_at: new Date().toISOString()
+    }
+
+    await this.repository.saveTraceabilityMatrix(matrix)
+    console.log(`🧭 요구사항 추적 매트릭스 생성: ${matrix.id} (${matrix.summary.covered}/${matrix.summary.total} 충족, 필수 누락 ${matrix.summary.mandatory_missing.length}건)`)
+
+    return matrix
+  }
+}
+
+/**
+ * RFP 분석 속성 중 요구사항 성격 속성을 섹션 제목/내용 형태 텍스트로 변환 (원문이 없을 때 사용)
+ */
+function rfpAnalysisToText(rfpAnalysisData: any = {}): string {
+  return REQUIREMENT_ATTRIBUTE_IDS
+    .map(id => rfpAnalysisData?.[id])
+    .filter(attribute => attribute?.content)
+    .map(attribute => [
+      attribute.name,
+      `- ${attribute.content}`,
+      attribute.source_snippet && attribute.source_snippet !== attribute.content ? `- ${attribute.source_snippet}` : ''
+    ].filter(Boolean).join('\n'))
+    .join('\n')
+}
+
+/**
+ * RFP 분석 요구사항 속성(목표·범위·산출물 등)별 핵심 키워드
+ */
+export function rfpKeywordGroups(rfpAnalysisData: any = {}): Array<{ name: string; keywords: string[] }> {
+  return REQUIREMENT_ATTRIBUTE_IDS
+    .map(id => rfpAnalysisData?.[id])
+    .filter(attribute => attribute?.content)
+    .map(attribute => ({ name: attribute.name, keywords: extractKeywords(attribute.content) }))
+}
+
+/**
+ * RFP 요구사항 속성 전체의 핵심 키워드 (발표 키워드 커버리지용)
+ */
+export function extractRfpKeywords(rfpAnalysisData: any = {}): string[] {
+  return Array.from(new Set(rfpKeywordGroups(rfpAnalysisData).flatMap(group => group.keywords)))
+}
+
+interface RequirementCandidate {
+  section_type: string
+  section_title?: string
+  text: string
+}
+
+/**
+ * 섹션 제목/본문 줄에서 요구사항 문장 추출 (첫 섹션 이전 서두 포함)
+ */
+function extractRequirements(rfpText: string, structures: DocumentStructure[]): RequirementCandidate[] {
+  const blocks: Array<{ section_type: string; section_title?: string; lines: string[] }> = []
+
+  const allLines = rfpText.split('\n').map(line => line.trim()).filter(Boolean)
+  const firstTitleIndex = structures.length
+    ? allLines.findIndex(line => line === structures[0].section_title)
+    : allLines.length
+  if (firstTitleIndex > 0) {
+    blocks.push({ section_type: 'intro', lines: allLines.slice(0, firstTitleIndex) })
+  }
+
+  for (const structure of structures) {
+    blocks.push({
+      section_type: structure.section_type,
+      section_title: structure.section_title,
+      lines: [structure.section_title || '', ...structure.section_content.split('\n')]
+    })
+  }
+
+  const seen = new Set<string>()
+  const requirements: RequirementCandidate[] = []
+
+  for (const block of blocks) {
+    for (const line of block.lines) {
+      const isListItem = LIST_MARKER.test(line)
+      for (const sentence of splitSentences(line.replace(LIST_MARKER, '').trim())) {
+        // 하위 항목을 묶는 머리글("필수 준수사항:")은 제외
+        if (sentence.length < 8 || sentence.endsWith(':') || seen.has(sentence)) continue
+        // 평가 배점 줄은 요구사항이 아니라 평가기준이므로 제외
+        if (block.section_type === 'evaluation' && SCORE_LINE.test(sentence)) continue
+        if (!REQUIREMENT_MARKER.test(sentence) && !(isListItem && sentence.length >= 12)) continue
+
+        seen.add(sentence)
+        requirements.push({ section_type: block.section_type, section_title: block.section_title, text: sentence })
+      }
+    }
+  }
+
+  return requirements
+}
+
+function splitSentences(text: string): string[] {
+  if (text.length <= 200) return [text]
+  return text.split(/(?<=[.!?다])\s+/).map(sentence => sentence.trim()).filter(Boolean)
+}
+
+/**
+ * 제안서를 매칭 단위 문단으로 분할 (짧은 줄은 다음 줄과 병합)
+ */
+function splitPassages(content: string): string[] {
+  const passages: string[] = []
+  let buffer = ''
+
+  for (const line of content.split('\n').map(line => line.trim())) {
+    if (!line) {
+      if (buffer) passages.push(buffer)
+      buffer = ''
+      continue
+    }
+
+    buffer = buffer ? `${buffer} ${line}` : line
+    if (buffer.length >= 120) {
+      passages.push(buffer)
+      buffer = ''
+    }
+  }
+  if (buffer) passages.push(buffer)
+
+  return passages
+}
+
+/**
+ * 문장에서 매칭용 키워드 추출 (조사·어미 제거, 불용어 제외)
+ */
+export function extractKeywords(text: string): string[] {
+  const keywords = text
+    .split(/[^가-힣A-Za-z0-9]+/)
+    .map(token => token.replace(PARTICLE_SUFFIX, ''))
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+
+  return Array.from(new Set(keywords.map(keyword => /^[A-Za-z]/.test(keyword) ? keyword.toLowerCase() : keyword)))
+}
+
+function traceRequirement(
+  requirementId: string,
+  requirement: RequirementCandidate,
+  signals: RfpSignal[],
+  passages: string[]
+): TraceabilityRequirement {
+  const keywords = extractKeywords(requirement.text)
+  const lowerPassages = passages.map(passage => passage.toLowerCase())
+
+  const scored = passages
+    .map((passage, index) => {
+      const matched = keywords.filter(keyword => lowerPassages[index].includes(keyword.toLowerCase()))
+      return {
+        passage_index: index,
+        quote: pickQuote(passage, matched),
+        matched_keywords: matched,
+        score: keywords.length ? Math.round(matched.length / keywords.length * 100) / 100 : 0
+      }
+    })
+    .filter(evidence => evidence.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const evidence = scored.slice(0, 2)
+  const matchedUnion = new Set(evidence.flatMap(item => item.matched_keywords))
+  const best = evidence[0]?.score || 0
+  const union = keywords.length ? matchedUnion.size / keywords.length : 0
+  // 두 문단에 나눠 답한 경우도 인정하되 단일 문단 대응보다 낮게 반영
+  const coverage = Math.max(best, union * 0.9)
+
+  const status: CoverageStatus = coverage >= COVERED_THRESHOLD ? 'covered'
+    : coverage >= PARTIAL_THRESHOLD ? 'partial'
+    : 'missing'
+
+  // 요구사항 문장에 등장하는 신호 키워드로 신호 유형 연결
+  const signalKeys = Array.from(new Set(signals
+    .filter(signal => {
+      const payload = signal.norm_payload || {}
+      const keyword = payload.keyword || payload.technology || payload.requirement
+      return typeof keyword === 'string' && requirement.text.includes(keyword)
+    })
+    .map(signal => signal.signal_key)))
+
+  return {
+    requirement_id: requirementId,
+    section_type: requirement.section_type,
+    section_title: requirement.section_title,
+    text: requirement.text,
+    // 준수사항 섹션 항목은 표현과 무관하게 필수로 간주
+    mandatory: MANDATORY_MARKER.test(requirement.text) || requirement.section_type === 'compliance',
+    signal_keys: signalKeys,
+    keywords,
+    status,
+    coverage_score: Math.round(coverage * 100) / 100,
+    evidence: status === 'missing' ? [] : evidence,
+    missing_keywords: keywords.filter(keyword => !matchedUnion.has(keyword))
+  }
+}
+
+// 매칭 키워드가 가장 많은 문장을 근거 인용으로 사용
+function pickQuote(passage: string, matched: string[]): string {
+  const sentences = passage.split(/(?<=[.!?다])\s+/)
+  const best = sentences.reduce((top, sentence) => {
+    const count = matched.filter(keyword => sentence.toLowerCase().includes(keyword.toLowerCase())).length
+    return count > top.count ? { sentence, count } : top
+  }, { sentence: sentences[0] || passage, count: -1 })
+
+  const quote = best.sentence.trim()
+  return quote.length > 200 ? `${quote.substring(0, 200)}...` : quote
+}
@@ -0,0 +1,358 @@
+// 점수 보정 서비스 - 실제 입찰 결과(수주/탈락·순위·평가위원 점수)로 시뮬레이터 점수의 수주 확률·실제 점수·상대 순위 관계 추정
+
+import { StorageRepository } from './storage-repository'
+
+export type BidResult = 'won' | 'lost'
+
+const CALIBRATION_METRICS = ['clarity', 'expertise', 'persuasiveness', 'logic', 'creativity', 'reliability'] as const
+export type CalibrationMetric = typeof CALIBRATION_METRICS[number]
+
+export interface BidOutcomeInput {
+  result: BidResult
+  rank?: number
+  bidder_count?: number
+  committee_score?: number
+  notes?: string
+}
+
+// 결과 기록 시점의 시뮬레이터 점수 스냅샷 (이후 재평가되어도 보정 데이터는 유지)
+export interface SimulatedScoreSnapshot {
+  total_score: number
+  proposal_score?: number
+  presentation_score?: number
+  metric_scores: Partial<Record<CalibrationMetric, number>>
+  proposal_evaluation_id?: string
+  presentation_evaluation_id?: string
+  integrated_evaluation_id?: string
+}
+
+export interface BidOutcome extends BidOutcomeInput {
+  session_id: string
+  session_name?: string
+  customer_id?: string
+  simulated: SimulatedScoreSnapshot
+  recorded_at: string
+}
+
+export interface CalibrationModel {
+  status: 'fitted' | 'insufficient_data'
+  message?: string
+  sample_size: number
+  wins: number
+  losses: number
+  base_win_rate: number | null
+  // P(수주) = 1 / (1 + e^-(intercept + slope × (점수 - 70) / 10))
+  win_model: { intercept: number; slope: number; brier_score: number } | null
+  // 실제 평가위원 점수 ≈ intercept + slope × 시뮬레이터 점수
+  committee_model: LinearModel | null
+  // 상대 순위 점수(1위 100 ~ 최하위 0) ≈ intercept + slope × 시뮬레이터 점수
+  rank_model: LinearModel | null
+  // 지표별 수주 여부/실제 점수/상대 순위와의 상관계수 (표본 부족 시 null)
+  metric_correlations: Record<CalibrationMetric, { win: number | null; committee_score: number | null; rank_standing: number | null }>
+  fitted_at: string
+}
+
+export interface LinearModel {
+  intercept: number
+  slope: number
+  r_squared: number
+  mean_abs_error: number
+  sample_size: number
+}
+
+export interface CalibratedScore {
+  raw_score: number
+  win_probability: number | null
+  expected_committee_score: number | null
+  expected_rank_standing: number | null
+  status: CalibrationModel['status']
+  sample_size: number
+  message?: string
+}
+
+// 로지스틱 적합에 필요한 최소 결과 수 (수주·탈락이 모두 포함되어야 함)
+export const MIN_CALIBRATION_OUTCOMES = 5
+const MIN_COMMITTEE_SCORES = 3
+const MIN_RANKED_OUTCOMES = 3
+
+const SCORE_CENTER = 70
+const SCORE_SCALE = 10
+// 완전 분리 데이터에서도 계수가 발산하지 않도록 주는 L2 규제
+const RIDGE_PENALTY = 0.1
+const NEWTON_ITERATIONS = 50
+
+export class ScoreCalibrationService {
+  constructor(private repository: StorageRepository) {}
+
+  /**
+   * 세션의 실제 입찰 결과 기록 (평가 결과의 시뮬레이터 점수를 함께 스냅샷)
+   */
+  async recordOutcome(
+    session: any,
+    input: BidOutcomeInput,
+    evaluations: { proposal?: any; presentation?: any; integrated?: any }
+  ): Promise<BidOutcome> {
+    const outcome: BidOutcome = {
+      session_id: session.id,
+      session_name: session.session_name,
+      customer_id: session.customer_id || evaluations.integrated?.customer_id || evaluations.proposal?.customer_id,
+      result: input.result,
+      rank: input.rank,
+      bidder_count: input.bidder_count,
+      committee_score: input.committee_score,
+      notes: input.notes,
+      simulated: snapshotSimulatedScores(evaluations),
+      recorded_at: new Date().toISOString()
+    }
+
+    await this.repository.saveBidOutcome(outcome)
+    console.log(`🏁 입찰 결과 기록: ${session.id} ${outcome.result} (시뮬레이터 ${outcome.simulated.total_score}점)`)
+    return outcome
+  }
+
+  /**
+   * 누적된 입찰 결과로 보정 모델 적합
+   */
+  async fit(): Promise<CalibrationModel> {
+    return fitCalibration(await this.repository.listBidOutcomes())
+  }
+
+  /**
+   * 시뮬레이터 점수를 보정된 수주 확률/예상 실제 점수로 변환
+   */
+  async calibrate(rawScore: number): Promise<CalibratedScore> {
+    return applyCalibration(await this.fit(), rawScore)
+  }
+}
+
+/**
+ * 입찰 결과 목록으로 수주 확률(로지스틱)·실제 점수(선형) 모델 적합
+ */
+export function fitCalibration(outcomes: BidOutcome[]): CalibrationModel {
+  const usable = outcomes.filter(outcome => Number.isFinite(outcome.simulated?.total_score))
+  const wins = usable.filter(outcome => outcome.result === 'won').length
+  const losses = usable.length - wins
+
+  const model: CalibrationModel = {
+    status: 'insufficient_data',
+    sample_size: usable.length,
+    wins,
+    losses,
+    base_win_rate: usable.length ? round(wins / usable.length, 3) : null,
+    win_model: null,
+    committee_model: fitCommitteeModel(usable),
+    rank_model: fitRankModel(usable),
+    metric_correlations: correlateMetrics(usable),
+    fitted_at: new Date().toISOString()
+  }
+
+  if (usable.length < MIN_CALIBRATION_OUTCOMES || wins === 0 || losses === 0) {
+    model.message = `수주/탈락 결과가 모두 포함된 입찰 결과가 ${MIN_CALIBRATION_OUTCOMES}건 이상 필요합니다 (현재 ${usable.length}건, 수주 ${wins}건).`
+    return model
+  }
+
+  const xs = usable.map(outcome => (outcome.simulated.total_score - SCORE_CENTER) / SCORE_SCALE)
+  const ys = usable.map(outcome => outcome.result === 'won' ? 1 : 0)
+  const { intercept, slope } = fitLogistic(xs, ys)
+  const brier = xs.reduce((sum, x, i) => sum + (sigmoid(intercept + slope * x) - ys[i]) ** 2, 0) / xs.length
+
+  model.status = 'fitted'
+  model.win_model = { intercept: round(intercept, 4), slope: round(slope, 4), brier_score: round(brier, 4) }
+  return model
+}
+
+/**
+ * 입찰 결과 입력 검증 (평가위원 점수 0~100, 순위·참여 업체 수는 1 이상 정수이며 순위 ≤ 참여 업체 수)
+ */
+export function validateBidOutcomeInput(input: BidOutcomeInput): void {
+  if (input.committee_score !== undefined && !(Number.isFinite(input.committee_score) && input.committee_score >= 0 && input.committee_score <= 100)) {
+    throw new Error('평가위원 점수(committee_score)는 0~100 사이 숫자여야 합니다.')
+  }
+  if (input.rank !== undefined && !(Number.isInteger(input.rank) && input.rank >= 1)) {
+    throw new Error('순위(rank)는 1 이상의 정수여야 합니다.')
+  }
+  if (input.bidder_count !== undefined && !(Number.isInteger(input.bidder_count) && input.bidder_count >= 1)) {
+    throw new Error('참여 업체 수(bidder_count)는 1 이상의 정수여야 합니다.')
+  }
+  if (input.rank !== undefined && input.bidder_count !== undefined && input.rank > input.bidder_count) {
+    throw new Error(`순위(${input.rank})가 참여 업체 수(${input.bidder_count})보다 클 수 없습니다.`)
+  }
+}
+
+/**
+ * 적합된 모델로 원점수 보정 (모델이 없으면 확률은 null)
+ */
+export function applyCalibration(model: CalibrationModel, rawScore: number): CalibratedScore {
+  const x = (rawScore - SCORE_CENTER) / SCORE_SCALE
+  const committee = model.committee_model
+
+  return {
+    raw_score: rawScore,
+    win_probability: model.win_model
+      ? round(sigmoid(model.win_model.intercept + model.win_model.slope * x), 3)
+      : null,
+    expected_committee_score: committee
+      ? Math.round(Math.max(0, Math.min(100, committee.intercept + committee.slope * rawScore)))
+      : null,
+    expected_rank_standing: model.rank_model
+      ? Math.round(Math.max(0, Math.min(100, model.rank_model.intercept + model.rank_model.slope * rawScore)))
+      : null,
+    status: model.status,
+    sample_size: model.sample_size,
+    message: model.message
+  }
+}
+
+// 통합 결과가 있으면 최종 점수, 없으면 제안서/발표 점수를 평가 비중으로 결합
+function snapshotSimulatedScores(evaluations: { proposal?: any; presentation?: any; integrated?: any }): SimulatedScoreSnapshot {
+  const proposal = evaluations.proposal || evaluations.integrated?.proposal_evaluation
+  const presentation = evaluations.presentation || evaluations.integrated?.presentation_evaluation
+  const proposalScore = proposal?.total_score
+  const presentationScore = presentation?.total_score
+
+  let totalScore = evaluations.integrated?.final_score ?? evaluations.integrated?.integrated_evaluation?.final_score
+  if (!Number.isFinite(totalScore)) {
+    const proposalWeight = proposal?.weight_profile?.proposal_weight ?? 0.7
+    totalScore = Number.isFinite(proposalScore) && Number.isFinite(presentationScore)
+      ? Math.round(proposalScore * proposalWeight + presentationScore * (1 - proposalWeight))
+      : proposalScore ?? presentationScore
+  }
+
+  const metricScores: Partial<Record<CalibrationMetric, number>> = {}
+  for (const metric of CALIBRATION_METRICS) {
+    const values = [proposal?.scores?.[metric]?.score, presentation?.scores?.[metric]?.score]
+      .filter((value): value is number => Number.isFinite(value))
+    if (values.length) metricScores[metric] = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+  }
+
+  return {
+    total_score: totalScore,
+    proposal_score: proposalScore,
+    presentation_score: presentationScore,
+    metric_scores: metricScores,
+    proposal_evaluation_id: proposal?.id,
+    presentation_evaluation_id: presentation?.id,
+    integrated_evaluation_id: evaluations.integrated?.id
+  }
+}
+
+// 뉴턴-랩슨 법으로 L2 규제 로지스틱 회귀 적합 (절편은 규제하지 않음, 결정적)
+function fitLogistic(xs: number[], ys: number[]): { intercept: number; slope: number } {
+  let intercept = 0
+  let slope = 0
+
+  for (let iteration = 0; iteration < NEWTON_ITERATIONS; iteration++) {
+    let g0 = 0, g1 = -RIDGE_PENALTY * slope
+    let h00 = 0, h01 = 0, h11 = RIDGE_PENALTY
+
+    xs.forEach((x, i) => {
+      const p = sigmoid(intercept + slope * x)
+      const w = p * (1 - p)
+      g0 += ys[i] - p
+      g1 += (ys[i] - p) * x
+      h00 += w
+      h01 += w * x
+      h11 += w * x * x
+    })
+
+    const det = h00 * h11 - h01 * h01
+    if (Math.abs(det) < 1e-12) break
+
+    const step0 = (h11 * g0 - h01 * g1) / det
+    const step1 = (h00 * g1 - h01 * g0) / det
+    intercept += step0
+    slope += step1
+
+    if (Math.abs(step0) + Math.abs(step1) < 1e-8) break
+  }
+
+  return { intercept, slope }
+}
+
+function fitCommitteeModel(outcomes: BidOutcome[]): LinearModel | null {
+  const pairs = outcomes.filter(outcome => Number.isFinite(outcome.committee_score))
+  if (pairs.length < MIN_COMMITTEE_SCORES) return null
+  return fitLinear(pairs.map(outcome => outcome.simulated.total_score), pairs.map(outcome => outcome.committee_score!))
+}
+
+// 순위와 참여 업체 수가 모두 있는 결과만 사용 (단독 입찰은 순위 비교가 불가능해 제외)
+function fitRankModel(outcomes: BidOutcome[]): LinearModel | null {
+  const ranked = outcomes.filter(outcome => rankStanding(outcome) !== null)
+  if (ranked.length < MIN_RANKED_OUTCOMES) return null
+  return fitLinear(ranked.map(outcome => outcome.simulated.total_score), ranked.map(outcome => rankStanding(outcome)!))
+}
+
+// 상대 순위 점수: 1위 100, 최하위 0
+function rankStanding(outcome: BidOutcome): number | null {
+  const { rank, bidder_count: bidderCount } = outcome
+  if (!Number.isInteger(rank) || !Number.isInteger(bidderCount) || bidderCount! < 2 || rank! < 1 || rank! > bidderCount!) return null
+  return 100 * (bidderCount! - rank!) / (bidderCount! - 1)
+}
+
+function fitLinear(xs: number[], ys: number[]): LinearModel {
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0)
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0)
+
+  // 시뮬레이터 점수가 모두 같으면 기울기를 추정할 수 없어 평균 오프셋만 사용
+  const slope = sxx > 0 ? sxy / sxx : 1
+  const intercept = meanY - slope * meanX
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x))
+  const sst = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0)
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0)
+
+  return {
+    intercept: round(intercept, 3),
+    slope: round(slope, 3),
+    r_squared: sst > 0 ? round(Math.max(0, 1 - sse / sst), 3) : 0,
+    mean_abs_error: round(mean(residuals.map(Math.abs)), 2),
+    sample_size: xs.length
+  }
+}
+
+function correlateMetrics(outcomes: BidOutcome[]): CalibrationModel['metric_correlations'] {
+  const correlations = {} as CalibrationModel['metric_correlations']
+
+  for (const metric of CALIBRATION_METRICS) {
+    const withMetric = outcomes.filter(outcome => Number.isFinite(outcome.simulated.metric_scores?.[metric]))
+    const withCommittee = withMetric.filter(outcome => Number.isFinite(outcome.committee_score))
+    const withRank = withMetric.filter(outcome => rankStanding(outcome) !== null)
+
+    correlations[metric] = {
+      win: withMetric.length >= MIN_CALIBRATION_OUTCOMES
+        ? pearson(withMetric.map(outcome => outcome.simulated.metric_scores[metric]!), withMetric.map(outcome => outcome.result === 'won' ? 1 : 0))
+        : null,
+      committee_score: withCommittee.length >= MIN_COMMITTEE_SCORES
+        ? pearson(withCommittee.map(outcome => outcome.simulated.metric_scores[metric]!), withCommittee.map(outcome => outcome.committee_score!))
+        : null,
+      rank_standing: withRank.length >= MIN_RANKED_OUTCOMES
+        ? pearson(withRank.map(outcome => outcome.simulated.metric_scores[metric]!), withRank.map(outcome => rankStanding(outcome)!))
+        : null
+    }
+  }
+
+  return correlations
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0)
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0)
+  const syy = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0)
+  return sxx > 0 && syy > 0 ? round(sxy / Math.sqrt(sxx * syy), 3) : null
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
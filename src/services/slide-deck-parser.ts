@@ -0,0 +1,211 @@
+// 슬라이드 덱 파싱 서비스 - PPTX 슬라이드별 제목·글머리·발표자 노트 추출, 발표 스크립트와 슬라이드 정합도 산출
+
+import JSZip from 'jszip'
+import { decodeXmlEntities } from './pdf-parser-service'
+import { extractKeywords } from './requirement-traceability-service'
+
+export interface Slide {
+  slide_number: number
+  title: string
+  bullets: string[]
+  notes: string
+}
+
+export interface SlideDeck {
+  file_name: string
+  slide_count: number
+  slides: Slide[]
+}
+
+export interface SlideAlignmentDetail {
+  slide_number: number
+  title: string
+  coverage: number
+  covered: boolean
+  matched_keywords: string[]
+  missed_keywords: string[]
+  // 스크립트에서 슬라이드 키워드가 처음 언급된 위치 (0~1, 미언급 시 null)
+  first_mention: number | null
+}
+
+export interface SlideAlignment {
+  slide_alignment_score: number
+  coverage_score: number
+  order_score: number
+  covered_slides: number
+  uncovered_slides: number[]
+  slides: SlideAlignmentDetail[]
+}
+
+// 슬라이드 키워드의 60% 이상 언급되면 해당 슬라이드를 충분히 설명한 것으로 간주
+const FULL_COVERAGE_RATIO = 0.6
+const COVERED_THRESHOLD = 0.3
+
+export class SlideDeckParser {
+
+  /**
+   * PPTX에서 슬라이드 순서대로 제목/본문 글머리/발표자 노트 추출
+   */
+  async parse(buffer: ArrayBuffer | Uint8Array, fileName: string): Promise<SlideDeck> {
+    let zip: JSZip
+    try {
+      zip = await new JSZip().loadAsync(buffer)
+    } catch (error) {
+      throw new Error(`PPTX 파일을 열 수 없습니다 (${fileName}). 암호로 보호되었거나 손상된 파일입니다.`)
+    }
+
+    const slidePaths = await orderedSlidePaths(zip)
+
+    if (slidePaths.length === 0) {
+      throw new Error(`PPTX 슬라이드를 찾을 수 없습니다: ${fileName}`)
+    }
+
+    const slides: Slide[] = []
+    for (const [index, path] of slidePaths.entries()) {
+      const xml = await zip.file(path)!.async('string')
+      let title = ''
+      const bullets: string[] = []
+
+      for (const shape of xml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) || [xml]) {
+        const lines = extractParagraphs(shape)
+        if (!title && /<p:ph [^>]*type="(?:title|ctrTitle)"/.test(shape)) {
+          title = lines.join(' ')
+        } else {
+          bullets.push(...lines)
+        }
+      }
+
+      // 제목 개체 틀이 없으면 첫 줄을 제목으로 사용
+      if (!title && bullets.length > 0) {
+        title = bullets.shift()!
+      }
+
+      slides.push({
+        slide_number: index + 1,
+        title,
+        bullets,
+        notes: await readNotes(zip, path)
+      })
+    }
+
+    console.log(`🖼️ 슬라이드 덱 파싱 완료: ${fileName} (${slides.length}장, 노트 ${slides.filter(slide => slide.notes).length}장)`)
+
+    return {
+      file_name: fileName,
+      slide_count: slides.length,
+      slides
+    }
+  }
+}
+
+/**
+ * LLM 평가 맥락용 슬라이드 요약 (슬라이드당 한 줄)
+ */
+export function slideContentLines(deck: SlideDeck): string[] {
+  return deck.slides.map(slide =>
+    `[${slide.slide_number}] ${slide.title}${slide.bullets.length ? ` - ${slide.bullets.slice(0, 5).join(' / ')}` : ''}`
+  )
+}
+
+/**
+ * 발표 스크립트가 슬라이드 내용을 얼마나, 어떤 순서로 다뤘는지 측정
+ * 점수 = 슬라이드별 키워드 언급률 70% + 슬라이드 순서 일치도 30%
+ */
+export function analyzeSlideAlignment(deck: SlideDeck, transcript: string): SlideAlignment {
+  const lowerTranscript = transcript.toLowerCase()
+
+  const details: SlideAlignmentDetail[] = deck.slides.map(slide => {
+    let keywords = extractKeywords([slide.title, ...slide.bullets].join(' '))
+    // 본문이 이미지뿐인 슬라이드는 발표자 노트로 대체
+    if (keywords.length === 0) keywords = extractKeywords(slide.notes)
+
+    const matched = keywords.filter(keyword => lowerTranscript.includes(keyword.toLowerCase()))
+    const positions = matched.map(keyword => lowerTranscript.indexOf(keyword.toLowerCase()))
+    const coverage = keywords.length ? Math.round(matched.length / keywords.length * 100) / 100 : 0
+
+    return {
+      slide_number: slide.slide_number,
+      title: slide.title,
+      coverage,
+      covered: coverage >= COVERED_THRESHOLD,
+      matched_keywords: matched,
+      missed_keywords: keywords.filter(keyword => !matched.includes(keyword)),
+      first_mention: positions.length && lowerTranscript.length
+        ? Math.round(Math.min(...positions) / lowerTranscript.length * 100) / 100
+        : null
+    }
+  })
+
+  const scored = details.filter(detail => detail.matched_keywords.length + detail.missed_keywords.length > 0)
+  const coverageScore = scored.length
+    ? scored.reduce((sum, detail) => sum + Math.min(1, detail.coverage / FULL_COVERAGE_RATIO), 0) / scored.length
+    : 0
+
+  // 언급된 슬라이드끼리 스크립트 등장 순서가 슬라이드 순서와 같은 비율
+  const mentioned = details.filter(detail => detail.covered && detail.first_mention !== null)
+  const inOrderPairs = mentioned.slice(1).filter((detail, index) => detail.first_mention! >= mentioned[index].first_mention!).length
+  const orderScore = mentioned.length > 1 ? inOrderPairs / (mentioned.length - 1) : mentioned.length
+
+  return {
+    slide_alignment_score: Math.round((coverageScore * 0.7 + orderScore * 0.3) * 100),
+    coverage_score: Math.round(coverageScore * 100),
+    order_score: Math.round(orderScore * 100),
+    covered_slides: details.filter(detail => detail.covered).length,
+    uncovered_slides: details.filter(detail => !detail.covered).map(detail => detail.slide_number),
+    slides: details
+  }
+}
+
+function slideIndex(path: string): number {
+  return Number(path.match(/(\d+)\.xml$/)![1])
+}
+
+// 발표 순서는 presentation.xml의 sldIdLst 기준 (슬라이드 파일 번호는 재정렬·삭제 후 순서와 다를 수 있음)
+// 목록을 읽을 수 없으면 파일 번호 순으로 대체
+async function orderedSlidePaths(zip: JSZip): Promise<string[]> {
+  const slidePaths = Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideIndex(a) - slideIndex(b))
+
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('string')
+  const rels = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string')
+  if (!presentationXml || !rels) return slidePaths
+
+  const targets = new Map<string, string>()
+  for (const relationship of rels.match(/<Relationship\b[^>]*>/g) || []) {
+    const id = relationship.match(/\bId="([^"]+)"/)?.[1]
+    const target = relationship.match(/\bTarget="([^"]+)"/)?.[1]
+    if (id && target) targets.set(id, target.replace(/^\/?(?:ppt\/)?/, 'ppt/'))
+  }
+
+  const sldIdList = presentationXml.match(/<p:sldIdLst>([\s\S]*?)<\/p:sldIdLst>/)?.[1] || ''
+  const ordered = (sldIdList.match(/<p:sldId\b[^>]*>/g) || [])
+    .map(entry => targets.get(entry.match(/\br:id="([^"]+)"/)?.[1] || ''))
+    .filter((path): path is string => !!path && slidePaths.includes(path))
+
+  return ordered.length ? ordered : slidePaths
+}
+
+function extractParagraphs(xml: string): string[] {
+  return (xml.match(/<a:p>[\s\S]*?<\/a:p>/g) || [])
+    .map(paragraph => decodeXmlEntities(
+      (paragraph.match(/<a:t>[^<]*<\/a:t>/g) || []).map(run => run.replace(/<[^>]+>/g, '')).join('')
+    ).trim())
+    .filter(line => line.length > 0)
+}
+
+// 슬라이드 관계 파일에서 연결된 노트 슬라이드를 찾아 본문 개체 틀 텍스트만 추출
+async function readNotes(zip: JSZip, slidePath: string): Promise<string> {
+  const relsPath = slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels')
+  const rels = await zip.file(relsPath)?.async('string')
+  const target = rels?.match(/Target="\.\.\/notesSlides\/(notesSlide\d+\.xml)"/)?.[1]
+  if (!target) return ''
+
+  const notesXml = await zip.file(`ppt/notesSlides/${target}`)?.async('string')
+  if (!notesXml) return ''
+
+  return (notesXml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) || [])
+    .filter(shape => /<p:ph [^>]*type="body"/.test(shape))
+    .flatMap(extractParagraphs)
+    .join('\n')
+}
@@ -0,0 +1,346 @@
+// 발표 음성 분석 서비스 - 녹음 파형(에너지 VAD·피치·음량)과 단어 타임스탬프로 말하기 속도, 휴지, 군말, 억양 안정성, RFP 키워드 커버리지 산출
+
+import type { WordTimestamp } from '../types'
+
+// 20ms 프레임 단위로 에너지·발화 여부 판정
+const FRAME_SECONDS = 0.02
+// 이보다 짧은 무음은 호흡/음절 사이로 보고 휴지로 세지 않음
+const MIN_PAUSE_SECONDS = 0.5
+// 청중이 흐름이 끊겼다고 느끼는 긴 휴지
+export const LONG_PAUSE_SECONDS = 2
+// 이보다 짧은 발화 구간은 잡음(클릭·기침)으로 간주
+const MIN_SPEECH_SECONDS = 0.1
+// 발표 적정 말속도 (어절/분)
+const IDEAL_WPM: [number, number] = [110, 160]
+// 피치 추정 범위와 유성음 판정 기준 (정규화 자기상관)
+const PITCH_RANGE_HZ: [number, number] = [75, 400]
+const VOICING_THRESHOLD = 0.5
+// 피치는 3프레임(60ms)마다 추정해 계산량 절감
+const PITCH_FRAME_STRIDE = 3
+
+// 항상 군말인 형태 ("음", "어", "으음", "에" 등)
+const FILLER_WORD = /^(음+|으+음|어+|에+|엄+)$/
+// 뒤에 쉼이 있을 때만 군말로 보는 형태 ("그 … 방안은", "이제 …")
+const CONTEXT_FILLER_WORD = /^(그+|이제|저+|뭐)$/
+const CONTEXT_FILLER_GAP_SECONDS = 0.3
+
+export interface PauseEvent {
+  start_time: number
+  end_time: number
+  duration: number
+}
+
+export interface FillerEvent {
+  word: string
+  start_time: number
+  end_time: number
+}
+
+// AudioAnalysis(src/types.ts) 전 필드 + 타임라인 표시용 상세 (측정 불가 항목은 null)
+export interface SpeechAnalysis {
+  // 말속도 (어절/분, 첫 단어~마지막 단어 구간 기준)
+  speech_rate: number
+  // 휴지 빈도 (분당 휴지 횟수)
+  pause_frequency: number
+  filler_word_count: number
+  // 피치·음량 안정성 평균 (0~100, 파형이 없으면 null)
+  intonation_stability: number | null
+  // RFP 핵심 키워드 언급 비율 (%, 키워드가 없으면 null)
+  keyword_coverage: number | null
+  overall_delivery: number
+  duration_seconds: number
+  speaking_seconds: number
+  word_count: number
+  pause_count: number
+  long_pause_count: number
+  // 발화 구간 중 무음 비율 (%)
+  pause_ratio: number
+  pitch_stability: number | null
+  volume_stability: number | null
+  median_pitch_hz: number | null
+  // 휴지 검출 방식 (파형 에너지 VAD 또는 단어 간격)
+  pause_source: 'energy_vad' | 'word_gaps'
+  pauses: PauseEvent[]
+  fillers: FillerEvent[]
+  keywords: { total: number; matched: string[]; missed: string[] } | null
+}
+
+export class SpeechAnalysisService {
+
+  /**
+   * 디코딩된 PCM 샘플(없으면 단어 간격만 사용)과 단어 타임스탬프로 발표 음성 지표 산출
+   */
+  analyze(samples: Float32Array | null, sampleRate: number, words: WordTimestamp[], keywords: string[] = []): SpeechAnalysis {
+    const frameLength = Math.round(sampleRate * FRAME_SECONDS)
+    const frameDb = samples ? frameLevels(samples, frameLength) : null
+    const detected = frameDb ? detectSpeech(frameDb) : null
+    // 파형에서 발화를 찾지 못하면(무음 트랙 등) 단어 간격으로 대체
+    const speechMask = detected?.includes(true) ? detected : null
+
+    const pauses = speechMask ? pausesFromFrames(speechMask) : pausesFromWords(words)
+    const fillers = detectFillers(words)
+
+    // 발화 구간: 단어가 있으면 첫 단어~마지막 단어, 없으면 VAD 첫/마지막 발화 프레임
+    const firstSpeech = speechMask ? speechMask.indexOf(true) : -1
+    const lastSpeech = speechMask ? speechMask.lastIndexOf(true) : -1
+    const spanStart = words.length ? words[0].start_time : Math.max(firstSpeech, 0) * FRAME_SECONDS
+    const spanEnd = words.length ? words[words.length - 1].end_time : (lastSpeech + 1) * FRAME_SECONDS
+    const speakingSeconds = Math.max(spanEnd - spanStart, 0)
+    const speakingMinutes = speakingSeconds / 60
+
+    const pauseSeconds = pauses.reduce((sum, pause) => sum + pause.duration, 0)
+    const pitch = samples && speechMask ? pitchStability(samples, sampleRate, frameLength, speechMask) : null
+    const volume = frameDb && speechMask ? volumeStability(frameDb, speechMask) : null
+    const stabilities = [pitch?.stability, volume].filter((value): value is number => value !== null && value !== undefined)
+
+    const analysis: SpeechAnalysis = {
+      speech_rate: speakingMinutes > 0 ? round(words.length / speakingMinutes) : 0,
+      pause_frequency: speakingMinutes > 0 ? round(pauses.length / speakingMinutes) : 0,
+      filler_word_count: fillers.length,
+      intonation_stability: stabilities.length ? round(mean(stabilities)) : null,
+      keyword_coverage: null,
+      overall_delivery: 0,
+      duration_seconds: round(samples ? samples.length / sampleRate : spanEnd, 2),
+      speaking_seconds: round(speakingSeconds, 2),
+      word_count: words.length,
+      pause_count: pauses.length,
+      long_pause_count: pauses.filter(pause => pause.duration >= LONG_PAUSE_SECONDS).length,
+      pause_ratio: speakingSeconds > 0 ? round(pauseSeconds / speakingSeconds * 100) : 0,
+      pitch_stability: pitch ? pitch.stability : null,
+      volume_stability: volume,
+      median_pitch_hz: pitch ? pitch.median_hz : null,
+      pause_source: speechMask ? 'energy_vad' : 'word_gaps',
+      pauses,
+      fillers,
+      keywords: null
+    }
+
+    console.log(`🔊 발표 음성 분석: ${analysis.speech_rate}어절/분, 휴지 ${analysis.pause_count}회(${analysis.pause_source}), 군말 ${analysis.filler_word_count}회`)
+    return this.withKeywords(analysis, words.map(word => word.word).join(' '), keywords)
+  }
+
+  /**
+   * 단어 타임스탬프 없이(서버 STT 미설정) 파형과 브라우저 인식 스크립트로 지표 산출
+   * - 말속도는 VAD 발화 구간 기준, 군말은 위치 없이 확실한 형태("음", "어")의 횟수만 반영
+   */
+  analyzeWaveform(samples: Float32Array, sampleRate: number, transcript: string, keywords: string[] = []): SpeechAnalysis {
+    const base = this.analyze(samples, sampleRate, [])
+    const tokens = transcript.split(/\s+/).map(normalizeWord).filter(token => token.length > 0)
+    const speakingMinutes = base.speaking_seconds / 60
+
+    return this.withKeywords({
+      ...base,
+      speech_rate: speakingMinutes > 0 ? round(tokens.length / speakingMinutes) : 0,
+      word_count: tokens.length,
+      filler_word_count: tokens.filter(token => FILLER_WORD.test(token)).length
+    }, transcript, keywords)
+  }
+
+  /**
+   * RFP 키워드 커버리지를 (다시) 계산하고 종합 전달력 점수 갱신 (고객이 정해진 뒤 평가 시점에 적용)
+   */
+  withKeywords(analysis: SpeechAnalysis, transcript: string, keywords: string[]): SpeechAnalysis {
+    const lowerTranscript = transcript.toLowerCase()
+    const keywordResult = keywords.length
+      ? {
+        total: keywords.length,
+        matched: keywords.filter(keyword => lowerTranscript.includes(keyword.toLowerCase())),
+        missed: keywords.filter(keyword => !lowerTranscript.includes(keyword.toLowerCase()))
+      }
+      : null
+
+    const updated: SpeechAnalysis = {
+      ...analysis,
+      keyword_coverage: keywordResult ? round(keywordResult.matched.length / keywordResult.total * 100) : null,
+      keywords: keywordResult
+    }
+    return { ...updated, overall_delivery: overallDelivery(updated) }
+  }
+}
+
+/**
+ * 발표 단어 중 군말 검출 - 모호한 형태("그", "이제")는 뒤에 쉼이 있거나 문장 끝일 때만 인정
+ */
+export function detectFillers(words: WordTimestamp[]): FillerEvent[] {
+  return words
+    .filter((word, index) => {
+      const token = normalizeWord(word.word)
+      if (FILLER_WORD.test(token)) return true
+      if (!CONTEXT_FILLER_WORD.test(token)) return false
+
+      const next = words[index + 1]
+      return !next || next.start_time - word.end_time >= CONTEXT_FILLER_GAP_SECONDS || FILLER_WORD.test(normalizeWord(next.word))
+    })
+    .map(word => ({ word: normalizeWord(word.word), start_time: word.start_time, end_time: word.end_time }))
+}
+
+// 종합 전달력: 말속도·휴지·군말·억양 안정성·키워드 커버리지 점수 평균 (측정된 항목만)
+function overallDelivery(analysis: SpeechAnalysis): number {
+  const minutes = analysis.speaking_seconds / 60
+  const [low, high] = IDEAL_WPM
+  const rateGap = analysis.speech_rate < low ? low - analysis.speech_rate : Math.max(analysis.speech_rate - high, 0)
+
+  const scores = [
+    clamp(100 - rateGap * 1.5),
+    clamp(100 - (minutes > 0 ? analysis.long_pause_count / minutes : 0) * 25),
+    clamp(100 - (minutes > 0 ? analysis.filler_word_count / minutes : 0) * 10),
+    analysis.intonation_stability,
+    analysis.keyword_coverage
+  ].filter((score): score is number => score !== null)
+
+  return analysis.word_count > 0 ? round(mean(scores)) : 0
+}
+
+// 프레임별 RMS 음량 (dBFS)
+function frameLevels(samples: Float32Array, frameLength: number): Float32Array {
+  const frameCount = Math.floor(samples.length / frameLength)
+  const levels = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0
+    const offset = frame * frameLength
+    for (let i = 0; i < frameLength; i++) energy += samples[offset + i] ** 2
+    levels[frame] = 20 * Math.log10(Math.sqrt(energy / frameLength) + 1e-10)
+  }
+  return levels
+}
+
+/**
+ * 에너지 기반 VAD - 잡음 바닥(10분위)과 발화 음량(95분위) 사이 적응형 임계값
+ */
+function detectSpeech(levels: Float32Array): boolean[] {
+  if (levels.length === 0) return []
+  const sorted = Array.from(levels).sort((a, b) => a - b)
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)]
+  const speechLevel = sorted[Math.floor(sorted.length * 0.95)]
+  const threshold = noiseFloor + Math.max(6, (speechLevel - noiseFloor) * 0.25)
+
+  const mask = Array.from(levels, level => level > threshold)
+
+  // 짧은 발화 구간(잡음) 제거
+  const minSpeechFrames = Math.round(MIN_SPEECH_SECONDS / FRAME_SECONDS)
+  for (let start = 0; start < mask.length;) {
+    if (!mask[start]) { start++; continue }
+    let end = start
+    while (end < mask.length && mask[end]) end++
+    if (end - start < minSpeechFrames) mask.fill(false, start, end)
+    start = end
+  }
+  return mask
+}
+
+// 첫 발화 이후~마지막 발화 이전의 무음 구간 중 MIN_PAUSE_SECONDS 이상
+function pausesFromFrames(mask: boolean[]): PauseEvent[] {
+  const pauses: PauseEvent[] = []
+  const first = mask.indexOf(true)
+  const last = mask.lastIndexOf(true)
+  if (first < 0) return pauses
+
+  for (let start = first; start <= last;) {
+    if (mask[start]) { start++; continue }
+    let end = start
+    while (end <= last && !mask[end]) end++
+    const duration = (end - start) * FRAME_SECONDS
+    if (duration >= MIN_PAUSE_SECONDS) {
+      pauses.push({ start_time: round(start * FRAME_SECONDS, 2), end_time: round(end * FRAME_SECONDS, 2), duration: round(duration, 2) })
+    }
+    start = end
+  }
+  return pauses
+}
+
+function pausesFromWords(words: WordTimestamp[]): PauseEvent[] {
+  return words.slice(1)
+    .map((word, index) => ({ start_time: words[index].end_time, end_time: word.start_time, duration: round(word.start_time - words[index].end_time, 2) }))
+    .filter(pause => pause.duration >= MIN_PAUSE_SECONDS)
+}
+
+/**
+ * 자기상관 피치 추정 후 연속 유성음 간 반음 변화량으로 떨림(불안정) 측정
+ */
+function pitchStability(samples: Float32Array, sampleRate: number, frameLength: number, mask: boolean[]): { stability: number; median_hz: number } | null {
+  const minLag = Math.floor(sampleRate / PITCH_RANGE_HZ[1])
+  const maxLag = Math.ceil(sampleRate / PITCH_RANGE_HZ[0])
+  const window = frameLength * 2
+
+  const pitches: Array<number | null> = []
+  for (let frame = 0; frame < mask.length; frame += PITCH_FRAME_STRIDE) {
+    const offset = frame * frameLength
+    pitches.push(mask[frame] && offset + window + maxLag <= samples.length
+      ? estimatePitch(samples, offset, window, minLag, maxLag, sampleRate)
+      : null)
+  }
+
+  const voiced = pitches.filter((hz): hz is number => hz !== null)
+  if (voiced.length < 10) return null
+
+  const jumps: number[] = []
+  for (let i = 1; i < pitches.length; i++) {
+    const previous = pitches[i - 1]
+    const current = pitches[i]
+    if (previous !== null && current !== null) jumps.push(Math.abs(12 * Math.log2(current / previous)))
+  }
+  const medianHz = voiced.sort((a, b) => a - b)[Math.floor(voiced.length / 2)]
+
+  // 인접 추정치 간 평균 1반음 이하는 안정, 5반음 이상이면 0점
+  return {
+    stability: jumps.length ? round(clamp(100 - Math.max(mean(jumps) - 1, 0) * 25)) : 100,
+    median_hz: round(medianHz)
+  }
+}
+
+// 최고 상관의 이 비율 이상인 첫 주기를 기본 주기로 선택 (MPM 방식, 배음 주기 선택에 따른 옥타브 오류 방지)
+const PITCH_PEAK_RATIO = 0.9
+
+function estimatePitch(samples: Float32Array, offset: number, window: number, minLag: number, maxLag: number, sampleRate: number): number | null {
+  const correlations = new Float32Array(maxLag + 2)
+  let bestCorrelation = 0
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let cross = 0, energyA = 0, energyB = 0
+    for (let i = 0; i < window; i++) {
+      const a = samples[offset + i]
+      const b = samples[offset + i + lag] ?? 0
+      cross += a * b
+      energyA += a * a
+      energyB += b * b
+    }
+    correlations[lag] = cross / (Math.sqrt(energyA * energyB) + 1e-10)
+    if (lag <= maxLag) bestCorrelation = Math.max(bestCorrelation, correlations[lag])
+  }
+  if (bestCorrelation < VOICING_THRESHOLD) return null
+
+  // 최고 상관의 90% 이상인 국소 최대값 중 가장 짧은 주기
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const correlation = correlations[lag]
+    const isPeak = (lag === minLag || correlation >= correlations[lag - 1]) && correlation >= correlations[lag + 1]
+    if (correlation >= bestCorrelation * PITCH_PEAK_RATIO && isPeak) {
+      return sampleRate / lag
+    }
+  }
+  return null
+}
+
+// 발화 프레임 음량 표준편차 4dB 이하는 안정, 이후 1dB당 8점 감점
+function volumeStability(levels: Float32Array, mask: boolean[]): number | null {
+  const speech = Array.from(levels).filter((_, frame) => mask[frame])
+  if (speech.length < 10) return null
+  const average = mean(speech)
+  const stdDev = Math.sqrt(mean(speech.map(level => (level - average) ** 2)))
+  return round(clamp(100 - Math.max(stdDev - 4, 0) * 8))
+}
+
+function normalizeWord(word: string): string {
+  return word.replace(/[.,!?…~·\-"'“”‘’]/g, '').trim()
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function clamp(value: number): number {
+  return Math.min(100, Math.max(0, value))
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
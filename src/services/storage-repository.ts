@@ -0,0 +1,609 @@
+// 영속 저장소 리포지토리 - 메모리 / 파일 / D1 / KV 백엔드 공통 계층
+
+export type StorageDriver = 'memory' | 'file' | 'd1' | 'kv'
+
+/**
+ * 저장소 백엔드 공통 인터페이스 (키-값 JSON 저장)
+ */
+export interface StorageBackend {
+  readonly driver: StorageDriver
+  get<T = any>(key: string): Promise<T | null>
+  put(key: string, value: any): Promise<void>
+  delete(key: string): Promise<void>
+  list<T = any>(prefix: string): Promise<T[]>
+}
+
+// 키 접두사 (JsonStorageService와 동일한 규칙)
+export const STORAGE_PREFIX = {
+  customer: 'customer:',
+  customerVersion: 'customer_version:',
+  attributeCorrection: 'attribute_correction:',
+  deepResearch: 'deep_research:',
+  rfpAnalysis: 'rfp_analysis:',
+  proposalEvaluation: 'proposal_eval:',
+  presentationEvaluation: 'presentation_eval:',
+  integratedEvaluation: 'integrated_eval:',
+  panel: 'panel:',
+  panelEvaluation: 'panel_eval:',
+  traceabilityMatrix: 'traceability:',
+  session: 'session:',
+  bidOutcome: 'bid_outcome:',
+  competition: 'competition:',
+  rehearsal: 'rehearsal:',
+  qaSession: 'qa_session:',
+  sttTranscript: 'stt_transcript:'
+} as const
+
+// =====================================================
+// 백엔드 구현
+// =====================================================
+
+/**
+ * 프로세스 메모리 백엔드 (재시작 시 초기화됨)
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly driver = 'memory' as const
+  private store = new Map<string, any>()
+
+  async get<T = any>(key: string): Promise<T | null> {
+    return this.store.has(key) ? this.store.get(key) : null
+  }
+
+  async put(key: string, value: any): Promise<void> {
+    this.store.set(key, value)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+
+  async list<T = any>(prefix: string): Promise<T[]> {
+    const values: T[] = []
+    for (const [key, value] of this.store.entries()) {
+      if (key.startsWith(prefix)) {
+        values.push(value)
+      }
+    }
+    return values
+  }
+}
+
+/**
+ * JSON 파일 백엔드 (Railway Node.js 환경 - 볼륨 마운트 경로 권장)
+ */
+export class FileStorageBackend implements StorageBackend {
+  readonly driver = 'file' as const
+  private data: Map<string, any> | null = null
+  private loading: Promise<Map<string, any>> | null = null
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const data = await this.load()
+    return data.has(key) ? data.get(key) : null
+  }
+
+  async put(key: string, value: any): Promise<void> {
+    const data = await this.load()
+    data.set(key, value)
+    await this.persist()
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this.load()
+    if (data.delete(key)) {
+      await this.persist()
+    }
+  }
+
+  async list<T = any>(prefix: string): Promise<T[]> {
+    const data = await this.load()
+    const values: T[] = []
+    for (const [key, value] of data.entries()) {
+      if (key.startsWith(prefix)) {
+        values.push(value)
+      }
+    }
+    return values
+  }
+
+  /**
+   * 최초 접근 시 파일 전체를 메모리로 로드
+   */
+  private load(): Promise<Map<string, any>> {
+    if (this.data) return Promise.resolve(this.data)
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fs = await import('node:fs/promises')
+        let raw: string | null = null
+
+        try {
+          raw = await fs.readFile(this.filePath, 'utf-8')
+        } catch (error) {
+          if ((error as { code?: string }).code !== 'ENOENT') {
+            throw error
+          }
+        }
+
+        try {
+          this.data = new Map(Object.entries(raw ? JSON.parse(raw) : {}))
+        } catch (parseError) {
+          // 손상된 파일은 덮어쓰지 않고 보관한 뒤 빈 저장소로 시작
+          const backupPath = `${this.filePath}.corrupt-${Date.now()}`
+          await fs.rename(this.filePath, backupPath)
+          console.error(`❌ 저장소 파일 손상, 백업 후 초기화: ${backupPath}`, parseError)
+          this.data = new Map()
+        }
+
+        console.log(`📂 파일 저장소 로드 완료: ${this.filePath} (${this.data.size}개 키)`)
+        return this.data
+      })().catch(error => {
+        // 일시적 오류(권한·파일 잠금 등)면 다음 접근 때 다시 로드
+        this.loading = null
+        throw error
+      })
+    }
+
+    return this.loading
+  }
+
+  /**
+   * 임시 파일 기록 후 rename으로 원자적 교체 (쓰기 순서 보장)
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.data ?? new Map()))
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const fs = await import('node:fs/promises')
+        const path = await import('node:path')
+        const tempPath = `${this.filePath}.tmp`
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        await fs.writeFile(tempPath, snapshot, 'utf-8')
+        await fs.rename(tempPath, this.filePath)
+      })
+
+    return this.writeQueue
+  }
+}
+
+/**
+ * Cloudflare D1 (SQLite) 백엔드 - app_storage 테이블 사용
+ */
+export class D1StorageBackend implements StorageBackend {
+  readonly driver = 'd1' as const
+
+  constructor(private db: D1Database) {}
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const row = await this.db.prepare(`
+      SELECT value FROM app_storage WHERE key = ?
+    `).bind(key).first() as { value: string } | null
+
+    return row ? JSON.parse(row.value) : null
+  }
+
+  async put(key: string, value: any): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO app_storage (key, prefix, value, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).bind(key, this.extractPrefix(key), JSON.stringify(value), new Date().toISOString()).run()
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.prepare(`
+      DELETE FROM app_storage WHERE key = ?
+    `).bind(key).run()
+  }
+
+  async list<T = any>(prefix: string): Promise<T[]> {
+    const result = await this.db.prepare(`
+      SELECT value FROM app_storage WHERE key LIKE ? ESCAPE '\\' ORDER BY updated_at DESC
+    `).bind(`${escapeLikePattern(prefix)}%`).all()
+
+    return (result.results as Array<{ value: string }>).map(row => JSON.parse(row.value))
+  }
+
+  private extractPrefix(key: string): string {
+    const separatorIndex = key.indexOf(':')
+    return separatorIndex >= 0 ? key.substring(0, separatorIndex + 1) : ''
+  }
+}
+
+// LIKE 와일드카드(%, _)와 이스케이프 문자를 리터럴로 취급 (키 접두사의 '_'가 임의 문자와 매칭되지 않도록)
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+/**
+ * Cloudflare KV 백엔드
+ */
+export class KVStorageBackend implements StorageBackend {
+  readonly driver = 'kv' as const
+
+  constructor(private kv: KVNamespace) {}
+
+  async get<T = any>(key: string): Promise<T | null> {
+    return await this.kv.get(key, 'json') as T | null
+  }
+
+  async put(key: string, value: any): Promise<void> {
+    await this.kv.put(key, JSON.stringify(value))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key)
+  }
+
+  async list<T = any>(prefix: string): Promise<T[]> {
+    const values: T[] = []
+    let cursor: string | undefined
+
+    do {
+      const listResult: any = await this.kv.list({ prefix, cursor })
+      for (const entry of listResult.keys) {
+        const value = await this.kv.get(entry.name, 'json')
+        if (value) {
+          values.push(value as T)
+        }
+      }
+      cursor = listResult.list_complete ? undefined : listResult.cursor
+    } while (cursor)
+
+    return values
+  }
+}
+
+// =====================================================
+// 리포지토리
+// =====================================================
+
+/**
+ * 라우트가 사용하는 도메인 단위 저장소 API
+ */
+export class StorageRepository {
+  constructor(private backend: StorageBackend) {}
+
+  get driver(): StorageDriver {
+    return this.backend.driver
+  }
+
+  // === AI 가상고객 ===
+
+  async saveCustomer(customer: any): Promise<string> {
+    const customerId = customer.id || customer.customer_id || crypto.randomUUID()
+    const now = new Date().toISOString()
+
+    await this.backend.put(`${STORAGE_PREFIX.customer}${customerId}`, {
+      ...customer,
+      id: customerId,
+      created_at: customer.created_at || now,
+      updated_at: now
+    })
+
+    return customerId
+  }
+
+  async getCustomer(customerId: string): Promise<any | null> {
+    const direct = await this.backend.get(`${STORAGE_PREFIX.customer}${customerId}`)
+    if (direct) return direct
+
+    // id 대신 customer_id로 저장된 고객 검색
+    const customers = await this.backend.list(STORAGE_PREFIX.customer)
+    return customers.find(customer => customer.id === customerId || customer.customer_id === customerId) || null
+  }
+
+  async listCustomers(): Promise<any[]> {
+    const customers = await this.backend.list(STORAGE_PREFIX.customer)
+    return this.sortByCreatedAt(customers)
+  }
+
+  async deleteCustomer(customerId: string): Promise<void> {
+    await this.backend.delete(`${STORAGE_PREFIX.customer}${customerId}`)
+  }
+
+  // === AI 가상고객 버전 (불변 스냅샷) ===
+
+  async saveCustomerVersion(customerId: string, versionNumber: number, versionRecord: any): Promise<void> {
+    const key = this.customerVersionKey(customerId, versionNumber)
+
+    // 이미 기록된 버전은 덮어쓰지 않음
+    if (await this.backend.get(key)) {
+      throw new Error(`이미 존재하는 고객 버전입니다: ${customerId} v${versionNumber}`)
+    }
+
+    await this.backend.put(key, versionRecord)
+  }
+
+  async getCustomerVersion(customerId: string, versionNumber: number): Promise<any | null> {
+    return this.backend.get(this.customerVersionKey(customerId, versionNumber))
+  }
+
+  async listCustomerVersions(customerId: string): Promise<any[]> {
+    const versions = await this.backend.list(`${STORAGE_PREFIX.customerVersion}${customerId}:`)
+    return versions.sort((a, b) => a.version_number - b.version_number)
+  }
+
+  private customerVersionKey(customerId: string, versionNumber: number): string {
+    return `${STORAGE_PREFIX.customerVersion}${customerId}:${String(versionNumber).padStart(6, '0')}`
+  }
+
+  // === 속성 수정 이력 ===
+
+  async saveAttributeCorrection(correction: any): Promise<void> {
+    await this.backend.put(
+      `${STORAGE_PREFIX.attributeCorrection}${correction.customer_id}:${correction.correction_id}`,
+      correction
+    )
+  }
+
+  async listAttributeCorrections(customerId: string): Promise<any[]> {
+    const corrections = await this.backend.list(`${STORAGE_PREFIX.attributeCorrection}${customerId}:`)
+    return this.sortByCreatedAt(corrections)
+  }
+
+  // === 딥리서치 / RFP 분석 원본 결과 ===
+
+  async saveDeepResearch(storageKey: string, researchData: any): Promise<void> {
+    await this.backend.put(storageKey, researchData)
+  }
+
+  async saveRfpAnalysis(storageKey: string, analysisResult: any): Promise<void> {
+    await this.backend.put(storageKey, analysisResult)
+  }
+
+  // === 평가 결과 ===
+
+  async saveProposalEvaluation(evaluation: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.proposalEvaluation, evaluation)
+  }
+
+  async getProposalEvaluation(evaluationId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.proposalEvaluation}${evaluationId}`)
+  }
+
+  async listProposalEvaluations(customerId?: string): Promise<any[]> {
+    return this.listRecords(STORAGE_PREFIX.proposalEvaluation, customerId)
+  }
+
+  async savePresentationEvaluation(evaluation: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.presentationEvaluation, evaluation)
+  }
+
+  async getPresentationEvaluation(evaluationId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.presentationEvaluation}${evaluationId}`)
+  }
+
+  async listPresentationEvaluations(customerId?: string): Promise<any[]> {
+    return this.listRecords(STORAGE_PREFIX.presentationEvaluation, customerId)
+  }
+
+  async saveIntegratedEvaluation(evaluation: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.integratedEvaluation, evaluation)
+  }
+
+  async getIntegratedEvaluation(evaluationId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.integratedEvaluation}${evaluationId}`)
+  }
+
+  // === 평가 패널 ===
+
+  async savePanel(panel: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.panel, panel)
+  }
+
+  async getPanel(panelId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.panel}${panelId}`)
+  }
+
+  async listPanels(): Promise<any[]> {
+    return this.sortByCreatedAt(await this.backend.list(STORAGE_PREFIX.panel))
+  }
+
+  async savePanelEvaluation(evaluation: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.panelEvaluation, evaluation)
+  }
+
+  async getPanelEvaluation(evaluationId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.panelEvaluation}${evaluationId}`)
+  }
+
+  async listPanelEvaluations(panelId: string): Promise<any[]> {
+    const records = await this.backend.list(STORAGE_PREFIX.panelEvaluation)
+    return this.sortByCreatedAt(records.filter(record => record.panel_id === panelId))
+  }
+
+  // === 요구사항 추적 매트릭스 ===
+
+  async saveTraceabilityMatrix(matrix: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.traceabilityMatrix, matrix)
+  }
+
+  async getTraceabilityMatrix(matrixId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.traceabilityMatrix}${matrixId}`)
+  }
+
+  // === 경쟁 입찰 시뮬레이션 ===
+
+  async saveCompetition(competition: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.competition, competition)
+  }
+
+  async getCompetition(competitionId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.competition}${competitionId}`)
+  }
+
+  async listCompetitions(customerId?: string): Promise<any[]> {
+    return this.listRecords(STORAGE_PREFIX.competition, customerId)
+  }
+
+  // === 질의응답 리허설 ===
+
+  async saveRehearsal(rehearsal: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.rehearsal, rehearsal)
+  }
+
+  async getRehearsal(rehearsalId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.rehearsal}${rehearsalId}`)
+  }
+
+  // === 실시간 질의응답 세션 ===
+
+  async saveQASession(session: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.qaSession, session)
+  }
+
+  async getQASession(sessionId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.qaSession}${sessionId}`)
+  }
+
+  async listQASessions(customerId?: string): Promise<any[]> {
+    return this.listRecords(STORAGE_PREFIX.qaSession, customerId)
+  }
+
+  // === 음성 인식 스크립트 ===
+
+  async saveSTTTranscript(transcript: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.sttTranscript, transcript)
+  }
+
+  async getSTTTranscript(transcriptId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.sttTranscript}${transcriptId}`)
+  }
+
+  // === 평가 세션 ===
+
+  async saveSession(session: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.session, session)
+  }
+
+  async getSession(sessionId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.session}${sessionId}`)
+  }
+
+  async listSessions(): Promise<any[]> {
+    return this.sortByCreatedAt(await this.backend.list(STORAGE_PREFIX.session))
+  }
+
+  // === 실제 입찰 결과 (세션당 1건, 세션 id를 키로 사용) ===
+
+  async saveBidOutcome(outcome: any): Promise<string> {
+    return this.saveRecord(STORAGE_PREFIX.bidOutcome, { ...outcome, id: outcome.session_id })
+  }
+
+  async getBidOutcome(sessionId: string): Promise<any | null> {
+    return this.backend.get(`${STORAGE_PREFIX.bidOutcome}${sessionId}`)
+  }
+
+  async listBidOutcomes(): Promise<any[]> {
+    return this.sortByCreatedAt(await this.backend.list(STORAGE_PREFIX.bidOutcome))
+  }
+
+  // === 공통 ===
+
+  private async saveRecord(prefix: string, record: any): Promise<string> {
+    const recordId = record.id || crypto.randomUUID()
+    const now = new Date().toISOString()
+
+    await this.backend.put(`${prefix}${recordId}`, {
+      ...record,
+      id: recordId,
+      created_at: record.created_at || now,
+      updated_at: now
+    })
+
+    return recordId
+  }
+
+  private async listRecords(prefix: string, customerId?: string): Promise<any[]> {
+    const records = await this.backend.list(prefix)
+    const filtered = customerId ? records.filter(record => record.customer_id === customerId) : records
+    return this.sortByCreatedAt(filtered)
+  }
+
+  // 생성일 기준 내림차순 정렬
+  private sortByCreatedAt<T extends { created_at?: string }>(records: T[]): T[] {
+    return records.sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())
+  }
+}
+
+// =====================================================
+// 팩토리
+// =====================================================
+
+// 프로세스 단위로 공유해야 하는 백엔드 (메모리/파일)
+const sharedBackends = new Map<string, StorageBackend>()
+
+const STORAGE_DRIVERS: StorageDriver[] = ['memory', 'file', 'd1', 'kv']
+
+function isNodeRuntime(): boolean {
+  return typeof globalThis.process !== 'undefined' && !!globalThis.process.versions?.node
+}
+
+function readProcessEnv(key: string): string | undefined {
+  return isNodeRuntime() ? globalThis.process.env[key] : undefined
+}
+
+/**
+ * 사용할 저장소 드라이버 결정
+ * - STORAGE_DRIVER 환경변수가 있으면 우선 적용
+ * - 없으면 D1 → KV → 파일(Node.js) → 메모리 순으로 선택
+ */
+export function resolveStorageDriver(env?: { DB?: D1Database; KV?: KVNamespace; STORAGE_DRIVER?: string }): StorageDriver {
+  const configured = (env?.STORAGE_DRIVER || readProcessEnv('STORAGE_DRIVER'))?.toLowerCase() as StorageDriver | undefined
+
+  if (configured && STORAGE_DRIVERS.includes(configured)) {
+    return configured
+  }
+
+  if (env?.DB) return 'd1'
+  if (env?.KV) return 'kv'
+  if (isNodeRuntime()) return 'file'
+  return 'memory'
+}
+
+/**
+ * 파일 저장소 경로 (STORAGE_FILE_PATH > Railway 볼륨 > ./data)
+ */
+export function resolveStorageFilePath(): string {
+  const explicitPath = readProcessEnv('STORAGE_FILE_PATH')
+  if (explicitPath) return explicitPath
+
+  const volumePath = readProcessEnv('RAILWAY_VOLUME_MOUNT_PATH')
+  return `${volumePath || './data'}/rfp-simulator-store.json`
+}
+
+/**
+ * 요청 환경에 맞는 리포지토리 생성
+ */
+export function createStorageRepository(env?: { DB?: D1Database; KV?: KVNamespace; STORAGE_DRIVER?: string }): StorageRepository {
+  const driver = resolveStorageDriver(env)
+
+  if (driver === 'd1') {
+    if (!env?.DB) throw new Error('STORAGE_DRIVER=d1 이지만 DB 바인딩이 없습니다')
+    return new StorageRepository(new D1StorageBackend(env.DB))
+  }
+
+  if (driver === 'kv') {
+    if (!env?.KV) throw new Error('STORAGE_DRIVER=kv 이지만 KV 바인딩이 없습니다')
+    return new StorageRepository(new KVStorageBackend(env.KV))
+  }
+
+  const cacheKey = driver === 'file' ? `file:${resolveStorageFilePath()}` : 'memory'
+  let backend = sharedBackends.get(cacheKey)
+
+  if (!backend) {
+    backend = driver === 'file'
+      ? new FileStorageBackend(resolveStorageFilePath())
+      : new MemoryStorageBackend()
+    sharedBackends.set(cacheKey, backend)
+    console.log(`💾 저장소 백엔드 초기화: ${driver}`)
+  }
+
+  return new StorageRepository(backend)
+}
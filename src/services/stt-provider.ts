@@ -0,0 +1,298 @@
+// 음성 인식(STT) 프로바이더 - 업로드된 발표 녹음을 로컬 오프라인 엔진(whisper.cpp)으로 단어·구간 타임스탬프가 있는 스크립트로 변환
+
+import type { WordTimestamp, SegmentTimestamp, ConfidenceScores } from '../types'
+
+export type STTEngine = 'whisper-cpp' | 'none'
+
+// 업로드 음성 파일 크기 상한 (파일 업로드 API와 동일)
+export const MAX_AUDIO_BYTES = 50 * 1024 * 1024
+export const DEFAULT_STT_LANGUAGE = 'ko'
+// 음향 분석용 디코딩 샘플레이트와 길이 상한 (1시간 ≈ 115MB PCM)
+export const PCM_SAMPLE_RATE = 16000
+const MAX_DECODE_SECONDS = 60 * 60
+
+const STT_ENGINES: STTEngine[] = ['whisper-cpp', 'none']
+// 단어 사이 공백이 이 시간(초) 이상이거나 문장부호로 끝나면 구간 분리
+const SEGMENT_GAP_SECONDS = 0.8
+const MAX_SEGMENT_SECONDS = 15
+// 엔진 실행 시간 상한 (긴 발표도 CPU 변환이 끝날 수 있도록 여유 있게)
+const ENGINE_TIMEOUT_MS = 15 * 60 * 1000
+
+export interface STTEnv {
+  STT_ENGINE?: string
+  WHISPER_CPP_BIN?: string
+  WHISPER_CPP_MODEL?: string
+  FFMPEG_BIN?: string
+}
+
+export interface STTOptions {
+  // ISO 639-1 코드 또는 'auto' (자동 감지)
+  language?: string
+  mime_type?: string
+}
+
+export interface STTResult {
+  engine: STTEngine
+  transcript_text: string
+  word_timestamps: WordTimestamp[]
+  segment_timestamps: SegmentTimestamp[]
+  language_detected?: string
+  confidence_scores: ConfidenceScores
+  duration_seconds: number
+}
+
+/**
+ * 음성 인식 엔진 공통 인터페이스 (엔진 추가 시 이 인터페이스만 구현)
+ */
+export interface STTProvider {
+  readonly engine: STTEngine
+  transcribe(audio: Uint8Array, options?: STTOptions): Promise<STTResult>
+}
+
+// =====================================================
+// whisper.cpp 구현
+// =====================================================
+
+/**
+ * whisper.cpp CLI 기반 로컬 STT (Node.js 전용)
+ * - ffmpeg로 16kHz 모노 WAV 변환 후 단어 단위 분할(-ml 1 -sow) JSON 출력을 파싱
+ */
+export class WhisperCppSTTProvider implements STTProvider {
+  readonly engine = 'whisper-cpp' as const
+
+  constructor(private config: { binary: string; model: string; ffmpeg: string }) {}
+
+  async transcribe(audio: Uint8Array, options: STTOptions = {}): Promise<STTResult> {
+    const fs = await import('node:fs/promises')
+    const os = await import('node:os')
+    const path = await import('node:path')
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rfp-stt-'))
+    try {
+      const inputPath = path.join(workDir, `input${audioExtension(options.mime_type)}`)
+      const wavPath = path.join(workDir, 'audio.wav')
+      const outputBase = path.join(workDir, 'transcript')
+      await fs.writeFile(inputPath, audio)
+
+      await runCommand(this.config.ffmpeg, ['-y', '-loglevel', 'error', '-i', inputPath, '-vn', '-ac', '1', '-ar', String(PCM_SAMPLE_RATE), '-c:a', 'pcm_s16le', wavPath])
+      await runCommand(this.config.binary, [
+        '-m', this.config.model,
+        '-f', wavPath,
+        '-l', options.language || DEFAULT_STT_LANGUAGE,
+        '-ml', '1', '-sow',
+        '-ojf', '-of', outputBase,
+        '-np'
+      ])
+
+      const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf-8'))
+      const result = buildSTTResult(this.engine, parseWhisperWords(output), output.result?.language || options.language)
+      console.log(`🎙️ whisper.cpp 음성 인식 완료: 단어 ${result.word_timestamps.length}개, 구간 ${result.segment_timestamps.length}개, ${result.duration_seconds}초`)
+      return result
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true })
+    }
+  }
+}
+
+// 단어 단위 분할 출력에서 구간 하나가 단어 하나 (offsets는 ms, 토큰 p는 단어 신뢰도)
+function parseWhisperWords(output: any): WordTimestamp[] {
+  const words: WordTimestamp[] = []
+  for (const segment of output.transcription || []) {
+    const word = String(segment.text || '').trim()
+    if (!word) continue
+
+    const probabilities = (segment.tokens || [])
+      .filter((token: any) => !String(token.text || '').startsWith('[_') && typeof token.p === 'number')
+      .map((token: any) => token.p as number)
+
+    words.push({
+      word,
+      start_time: round((segment.offsets?.from ?? 0) / 1000, 2),
+      end_time: round((segment.offsets?.to ?? 0) / 1000, 2),
+      confidence: probabilities.length ? round(mean(probabilities), 3) : 0
+    })
+  }
+  return words
+}
+
+// =====================================================
+// 공통 결과 조립
+// =====================================================
+
+/**
+ * 엔진이 준 단어 타임스탬프로 문장 구간·신뢰도·전체 스크립트 조립 (엔진 공통)
+ */
+export function buildSTTResult(engine: STTEngine, words: WordTimestamp[], language?: string): STTResult {
+  const segments: SegmentTimestamp[] = []
+  const segmentConfidences: number[] = []
+  let current: WordTimestamp[] = []
+
+  const closeSegment = () => {
+    if (current.length === 0) return
+    segments.push({
+      text: current.map(word => word.word).join(' '),
+      start_time: current[0].start_time,
+      end_time: current[current.length - 1].end_time
+    })
+    segmentConfidences.push(mean(current.map(word => word.confidence)))
+    current = []
+  }
+
+  words.forEach((word, index) => {
+    current.push(word)
+    const next = words[index + 1]
+    const sentenceEnd = /[.?!。]$/.test(word.word)
+    const longGap = next && next.start_time - word.end_time >= SEGMENT_GAP_SECONDS
+    const tooLong = word.end_time - current[0].start_time >= MAX_SEGMENT_SECONDS
+    if (!next || sentenceEnd || longGap || tooLong) closeSegment()
+  })
+
+  // 전체 신뢰도는 발화 길이 가중 평균 (짧은 추임새가 과대 반영되지 않도록)
+  const spoken = words.reduce((sum, word) => sum + Math.max(word.end_time - word.start_time, 0), 0)
+  const overall = spoken > 0
+    ? words.reduce((sum, word) => sum + word.confidence * Math.max(word.end_time - word.start_time, 0), 0) / spoken
+    : mean(words.map(word => word.confidence))
+
+  return {
+    engine,
+    transcript_text: segments.map(segment => segment.text).join(' '),
+    word_timestamps: words,
+    segment_timestamps: segments,
+    language_detected: language && language !== 'auto' ? language : undefined,
+    confidence_scores: {
+      overall: round(overall, 3),
+      word_level_avg: round(mean(words.map(word => word.confidence)), 3),
+      segment_level_avg: round(mean(segmentConfidences), 3)
+    },
+    duration_seconds: words.length ? words[words.length - 1].end_time : 0
+  }
+}
+
+// =====================================================
+// 팩토리
+// =====================================================
+
+function isNodeRuntime(): boolean {
+  return typeof globalThis.process !== 'undefined' && !!globalThis.process.versions?.node
+}
+
+function readSetting(env: STTEnv | undefined, key: keyof STTEnv): string | undefined {
+  return env?.[key] || (isNodeRuntime() ? globalThis.process.env[key] : undefined)
+}
+
+/**
+ * 사용할 STT 엔진 결정
+ * - STT_ENGINE 환경변수가 있으면 우선 적용
+ * - 없으면 Node.js 런타임이고 WHISPER_CPP_MODEL이 있을 때 whisper.cpp, 아니면 none
+ */
+export function resolveSTTEngine(env?: STTEnv): STTEngine {
+  const configured = readSetting(env, 'STT_ENGINE')?.toLowerCase() as STTEngine | undefined
+  if (configured) {
+    if (!STT_ENGINES.includes(configured)) {
+      throw new Error(`지원하지 않는 STT_ENGINE입니다: ${configured} (${STT_ENGINES.join(', ')})`)
+    }
+    return configured
+  }
+  return isNodeRuntime() && readSetting(env, 'WHISPER_CPP_MODEL') ? 'whisper-cpp' : 'none'
+}
+
+/**
+ * 요청 환경에 맞는 STT 프로바이더 생성 (엔진이 없으면 null - 브라우저 음성 인식만 사용)
+ */
+export function createSTTProvider(env?: STTEnv): STTProvider | null {
+  const engine = resolveSTTEngine(env)
+  if (engine === 'none') return null
+
+  if (!isNodeRuntime()) {
+    throw new Error('로컬 STT 엔진은 Node.js 런타임에서만 실행할 수 있습니다.')
+  }
+  const model = readSetting(env, 'WHISPER_CPP_MODEL')
+  if (!model) {
+    throw new Error('STT_ENGINE=whisper-cpp 이지만 WHISPER_CPP_MODEL(ggml 모델 파일 경로)이 없습니다')
+  }
+
+  return new WhisperCppSTTProvider({
+    binary: readSetting(env, 'WHISPER_CPP_BIN') || 'whisper-cli',
+    model,
+    ffmpeg: resolveFFmpegBinary(env)
+  })
+}
+
+/**
+ * ffmpeg 실행 파일 경로 (FFMPEG_BIN > PATH의 ffmpeg)
+ */
+export function resolveFFmpegBinary(env?: STTEnv): string {
+  return readSetting(env, 'FFMPEG_BIN') || 'ffmpeg'
+}
+
+/**
+ * 서버에서 녹음 디코딩(ffmpeg 실행)이 가능한 런타임인지 (Cloudflare Workers 등에서는 false)
+ */
+export function canDecodeAudio(): boolean {
+  return isNodeRuntime()
+}
+
+/**
+ * 녹음 파일을 16kHz 모노 PCM 샘플(-1~1)로 디코딩 (음향 분석용, 최대 MAX_DECODE_SECONDS)
+ */
+export async function decodeAudioPCM(audio: Uint8Array, options: { mime_type?: string; ffmpeg: string }): Promise<Float32Array> {
+  const fs = await import('node:fs/promises')
+  const os = await import('node:os')
+  const path = await import('node:path')
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rfp-pcm-'))
+  try {
+    const inputPath = path.join(workDir, `input${audioExtension(options.mime_type)}`)
+    await fs.writeFile(inputPath, audio)
+
+    const pcm = await runCommand(
+      options.ffmpeg,
+      ['-loglevel', 'error', '-i', inputPath, '-vn', '-t', String(MAX_DECODE_SECONDS), '-ac', '1', '-ar', String(PCM_SAMPLE_RATE), '-f', 's16le', 'pipe:1'],
+      MAX_DECODE_SECONDS * PCM_SAMPLE_RATE * 2 + 1024
+    )
+    const samples = new Float32Array(Math.floor(pcm.length / 2))
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = pcm.readInt16LE(i * 2) / 32768
+    }
+    return samples
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
+
+// =====================================================
+// 내부 유틸
+// =====================================================
+
+async function runCommand(command: string, args: string[], maxBuffer = 16 * 1024 * 1024): Promise<Buffer> {
+  const { execFile } = await import('node:child_process')
+
+  return new Promise<Buffer>((resolve, reject) => {
+    execFile(command, args, { timeout: ENGINE_TIMEOUT_MS, maxBuffer, encoding: 'buffer' }, (error, stdout, stderr) => {
+      if (!error) return resolve(stdout)
+      if ((error as { code?: string | number }).code === 'ENOENT') {
+        return reject(new Error(`STT 실행 파일을 찾을 수 없습니다: ${command}`))
+      }
+      reject(new Error(`${command} 실행 실패: ${String(stderr?.toString() || error.message).trim().slice(0, 300)}`))
+    })
+  })
+}
+
+function audioExtension(mimeType?: string): string {
+  if (!mimeType) return '.bin'
+  if (mimeType.includes('webm')) return '.webm'
+  if (mimeType.includes('wav')) return '.wav'
+  if (mimeType.includes('ogg')) return '.ogg'
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return '.mp3'
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return '.m4a'
+  return '.bin'
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,108 @@
+// 발표 녹음 처리 작업 서비스 - 음성 인식(STT)과 음향 분석을 요청과 분리해 백그라운드로 실행하고 진행 상태를 음성 인식 스크립트 저장소에 기록
+
+import { StorageRepository } from './storage-repository'
+import { SpeechAnalysisService } from './speech-analysis-service'
+import { buildSTTResult, decodeAudioPCM, PCM_SAMPLE_RATE, type STTEngine, type STTProvider } from './stt-provider'
+
+export type TranscriptionJobStatus = 'processing' | 'completed' | 'failed'
+
+export interface TranscriptionJobInput {
+  presentation_id: string
+  customer_id?: string
+  audio_file_name: string
+  audio_size: number
+  mime_type: string
+  language?: string
+  // 서버 STT 없이 분석할 때 쓰는 브라우저 음성 인식 스크립트
+  browser_transcript?: string
+  // 커버리지를 측정할 RFP 키워드
+  keywords: string[]
+}
+
+// 완료 전에는 상태만, 완료 후에는 STTResult 필드와 audio_analysis가 채워짐
+export interface TranscriptionJob {
+  id: string
+  status: TranscriptionJobStatus
+  engine: STTEngine
+  presentation_id: string
+  customer_id?: string
+  audio_file_name: string
+  audio_size: number
+  error?: string
+  created_at: string
+  completed_at?: string
+}
+
+export class TranscriptionJobService {
+  constructor(
+    private repository: StorageRepository,
+    private options: {
+      provider: STTProvider | null
+      ffmpeg: string
+      // 응답 후에도 작업이 끝날 때까지 런타임을 유지하는 훅 (Workers의 executionCtx.waitUntil)
+      waitUntil?: (task: Promise<void>) => void
+    }
+  ) {}
+
+  /**
+   * 작업을 processing 상태로 저장하고 바로 반환 (인식·분석은 응답 후 계속 실행, Node.js 런타임 전용)
+   */
+  async start(audio: Uint8Array, input: TranscriptionJobInput): Promise<TranscriptionJob> {
+    const job: TranscriptionJob = {
+      id: `stt-${Date.now()}`,
+      status: 'processing',
+      engine: this.options.provider?.engine || 'none',
+      presentation_id: input.presentation_id,
+      customer_id: input.customer_id,
+      audio_file_name: input.audio_file_name,
+      audio_size: input.audio_size,
+      created_at: new Date().toISOString()
+    }
+    await this.repository.saveSTTTranscript(job)
+
+    const task = this.run(job, audio, input)
+    if (this.options.waitUntil) {
+      this.options.waitUntil(task)
+    } else {
+      void task
+    }
+    return job
+  }
+
+  private async run(job: TranscriptionJob, audio: Uint8Array, input: TranscriptionJobInput): Promise<void> {
+    try {
+      const provider = this.options.provider
+      const result = provider
+        ? await provider.transcribe(audio, { language: input.language, mime_type: input.mime_type })
+        : null
+
+      // 같은 녹음 파형으로 휴지·음량·피치 분석 (STT가 없으면 브라우저 인식 스크립트로 말속도·키워드 산출)
+      const samples = await decodeAudioPCM(audio, { mime_type: input.mime_type, ffmpeg: this.options.ffmpeg })
+      const analysisService = new SpeechAnalysisService()
+      const audioAnalysis = result
+        ? analysisService.analyze(samples, PCM_SAMPLE_RATE, result.word_timestamps, input.keywords)
+        : analysisService.analyzeWaveform(samples, PCM_SAMPLE_RATE, input.browser_transcript || '', input.keywords)
+
+      await this.repository.saveSTTTranscript({
+        ...job,
+        ...(result || {
+          ...buildSTTResult('none', []),
+          transcript_text: input.browser_transcript || '',
+          duration_seconds: audioAnalysis.duration_seconds
+        }),
+        status: 'completed',
+        audio_analysis: audioAnalysis,
+        completed_at: new Date().toISOString()
+      })
+      console.log(`✅ 발표 녹음 처리 완료: ${job.id} (${job.engine})`)
+    } catch (error) {
+      console.error(`발표 녹음 처리 실패: ${job.id}`, error)
+      await this.repository.saveSTTTranscript({
+        ...job,
+        status: 'failed',
+        error: (error as Error).message || '발표 녹음 처리 중 오류가 발생했습니다.',
+        completed_at: new Date().toISOString()
+      }).catch(saveError => console.error('발표 녹음 처리 상태 저장 실패:', saveError))
+    }
+  }
+}
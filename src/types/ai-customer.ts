@@ -100,9 +100,19 @@ export interface CombinedAttributes {
 // === 6대 평가지표 ===
 export type EvaluationMetric = 'clarity' | 'expertise' | 'persuasiveness' | 'logic' | 'creativity' | 'credibility';
 
+// 평가 코멘트의 원문 근거 (RfpAnalysisAttribute의 source_snippet/page_number와 같은 역할)
+export interface EvidenceSpan {
+  source: 'proposal' | 'transcript';
+  quote: string;
+  start: number; // 원문(제안서 본문 또는 발표 스크립트) 기준 문자 위치
+  end: number;
+  page_number?: number;
+}
+
 export interface MetricScore {
   score: number; // 1-5
   comment: string;
+  evidence?: EvidenceSpan[];
 }
 
 export interface EvaluationScores {
@@ -155,6 +165,7 @@ export interface IntegratedEvaluation {
   customer_id: string;
   proposal_evaluation_id?: string;
   presentation_evaluation_id?: string;
+  qa_session_id?: string; // 실시간 질의응답 세션 (세 번째 평가 요소)
   
   project_title: string;
   
@@ -169,6 +180,9 @@ export interface IntegratedEvaluation {
     total: number;
   };
   
+  // 질의응답 점수 (세션이 있을 때만)
+  qa_score?: number;
+  
   // 통합 피드백
   feedback: {
     strengths: string; // 강점
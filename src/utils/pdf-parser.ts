@@ -51,12 +51,21 @@ export interface QualityMetric {
 }
 
 export class PdfParsingPipeline {
-  private db: D1Database;
+  private db?: D1Database;
 
-  constructor(db: D1Database) {
+  // DB 없이 생성하면 인메모리 분석(structureText / extractSignalsFromStructures)만 사용 가능
+  constructor(db?: D1Database) {
     this.db = db;
   }
 
+  // 작업·페이지·신호 저장/조회용 DB (DB 없이 생성한 경우 오류)
+  private get database(): D1Database {
+    if (!this.db) {
+      throw new Error('PdfParsingPipeline: D1 데이터베이스 없이 생성되어 작업 저장/조회를 사용할 수 없습니다.');
+    }
+    return this.db;
+  }
+
   // UUID 생성 함수
   private generateUUID(): string {
     return crypto.randomUUID();
@@ -76,7 +85,7 @@ export class PdfParsingPipeline {
     const now = new Date().toISOString();
 
     // 중복 파일 체크
-    const existingJob = await this.db.prepare(`
+    const existingJob = await this.database.prepare(`
       SELECT job_id FROM rfp_ingest_jobs WHERE input_hash = ? AND status = 'done'
     `).bind(inputHash).first();
 
@@ -84,7 +93,7 @@ export class PdfParsingPipeline {
       throw new Error('이미 처리된 동일한 파일입니다.');
     }
 
-    await this.db.prepare(`
+    await this.database.prepare(`
       INSERT INTO rfp_ingest_jobs (job_id, rfp_id, input_hash, status, progress_stage, created_at)
       VALUES (?, ?, ?, 'queued', 'ingest', ?)
     `).bind(jobId, rfpId, inputHash, now).run();
@@ -129,7 +138,7 @@ export class PdfParsingPipeline {
     query += ` WHERE job_id = ?`;
     params.push(jobId);
 
-    await this.db.prepare(query).bind(...params).run();
+    await this.database.prepare(query).bind(...params).run();
   }
 
   // Stage B: 텍스트화 - PDF 페이지별 처리
@@ -296,7 +305,7 @@ export class PdfParsingPipeline {
 
   // 페이지 저장
   private async savePage(page: PageData, jobId: string): Promise<void> {
-    await this.db.prepare(`
+    await this.database.prepare(`
       INSERT INTO rfp_pages (
         page_id, job_id, page_number, raw_text, ocr_text, layout_data, processing_metadata
       ) VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -320,35 +329,36 @@ export class PdfParsingPipeline {
     await this.updateJobStatus(jobId, 'running', 'structuring', 60);
 
     // 페이지 데이터 조회
-    const pages = await this.db.prepare(`
+    const pages = await this.database.prepare(`
       SELECT * FROM rfp_pages WHERE job_id = ? ORDER BY page_number
     `).bind(jobId).all();
 
-    const structures: DocumentStructure[] = [];
     const fullContent = (pages.results as any[]).map(p => p.raw_text).join('\n');
 
     // 섹션별 구조화
-    const sections = this.detectSections(fullContent);
+    const structures = this.structureText(fullContent);
     
-    for (const section of sections) {
-      const structure: DocumentStructure = {
-        structure_id: this.generateUUID(),
-        section_type: section.type,
-        section_title: section.title,
-        section_content: section.content,
-        page_range: section.page_range,
-        confidence_score: section.confidence,
-        normalized_data: section.normalized
-      };
-      
+    for (const structure of structures) {
       await this.saveDocumentStructure(structure, jobId);
-      structures.push(structure);
     }
 
     await this.updateJobStatus(jobId, 'running', 'structuring', 70);
     return structures;
   }
 
+  // 텍스트 구조화 (DB 저장 없음)
+  structureText(content: string): DocumentStructure[] {
+    return this.detectSections(content).map(section => ({
+      structure_id: this.generateUUID(),
+      section_type: section.type,
+      section_title: section.title,
+      section_content: section.content,
+      page_range: section.page_range,
+      confidence_score: section.confidence,
+      normalized_data: section.normalized
+    }));
+  }
+
   // 섹션 감지
   private detectSections(content: string): any[] {
     const sections = [];
@@ -525,7 +535,7 @@ export class PdfParsingPipeline {
 
   // 문서 구조 저장
   private async saveDocumentStructure(structure: DocumentStructure, jobId: string): Promise<void> {
-    await this.db.prepare(`
+    await this.database.prepare(`
       INSERT INTO rfp_document_structure (
         structure_id, job_id, section_type, section_level, content,
         page_refs, confidence_score, metadata
@@ -550,7 +560,7 @@ export class PdfParsingPipeline {
     await this.updateJobStatus(jobId, 'running', 'signaling', 80);
 
     // 구조화된 데이터 조회
-    const structures = await this.db.prepare(`
+    const structures = await this.database.prepare(`
       SELECT * FROM rfp_document_structure WHERE job_id = ?
     `).bind(jobId).all();
 
@@ -571,6 +581,21 @@ export class PdfParsingPipeline {
     return signals;
   }
 
+  // 구조화된 섹션에서 신호 추출 (DB 저장 없음)
+  async extractSignalsFromStructures(structures: DocumentStructure[]): Promise<RfpSignal[]> {
+    const signals: RfpSignal[] = [];
+    
+    for (const structure of structures) {
+      const sectionSignals = await this.extractSignalsFromSection({
+        section_type: structure.section_type,
+        content: structure.section_content
+      });
+      signals.push(...sectionSignals);
+    }
+    
+    return signals;
+  }
+
   // 섹션별 신호 추출 (개선된 패턴 기반)
   private async extractSignalsFromSection(structure: any): Promise<RfpSignal[]> {
     const signals: RfpSignal[] = [];
@@ -891,7 +916,7 @@ export class PdfParsingPipeline {
 
   // 신호 저장
   private async saveSignal(signal: RfpSignal, jobId: string): Promise<void> {
-    await this.db.prepare(`
+    await this.database.prepare(`
       INSERT INTO rfp_signals (
         signal_id, job_id, signal_type, signal_name, signal_value, 
         confidence_score, extraction_method, source_refs, metadata
@@ -917,7 +942,7 @@ export class PdfParsingPipeline {
     const metrics: QualityMetric[] = [];
     
     // 텍스트 추출률 - processing_metadata에서 confidence_score 추출
-    const pages = await this.db.prepare(`
+    const pages = await this.database.prepare(`
       SELECT COUNT(*) as total_pages
       FROM rfp_pages WHERE job_id = ?
     `).bind(jobId).first() as any;
@@ -934,7 +959,7 @@ export class PdfParsingPipeline {
     }
     
     // 신호 신뢰도
-    const signals = await this.db.prepare(`
+    const signals = await this.database.prepare(`
       SELECT AVG(confidence_score) as avg_confidence, COUNT(*) as total_signals
       FROM rfp_signals WHERE job_id = ?
     `).bind(jobId).first() as any;
@@ -951,7 +976,7 @@ export class PdfParsingPipeline {
     }
     
     // 구조 정확도
-    const structures = await this.db.prepare(`
+    const structures = await this.database.prepare(`
       SELECT COUNT(*) as total_structures
       FROM rfp_document_structure WHERE job_id = ?
     `).bind(jobId).first() as any;
@@ -976,7 +1001,7 @@ export class PdfParsingPipeline {
 
   // 품질 메트릭 저장
   private async saveQualityMetric(metric: QualityMetric, jobId: string): Promise<void> {
-    await this.db.prepare(`
+    await this.database.prepare(`
       INSERT INTO rfp_quality_metrics (
         metric_id, job_id, metric_name, metric_value, threshold, status, details
       ) VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -1032,7 +1057,7 @@ export class PdfParsingPipeline {
 
   // 작업 상태 조회
   async getJobStatus(jobId: string): Promise<PdfParsingJob | null> {
-    const result = await this.db.prepare(`
+    const result = await this.database.prepare(`
       SELECT * FROM rfp_ingest_jobs WHERE job_id = ?
     `).bind(jobId).first();
     
@@ -1041,7 +1066,7 @@ export class PdfParsingPipeline {
 
   // 신호 조회
   async getSignals(rfpId: string): Promise<RfpSignal[]> {
-    const result = await this.db.prepare(`
+    const result = await this.database.prepare(`
       SELECT 
         signal_id, signal_type as signal_key, signal_content as signal_value,
         norm_payload, confidence_score as confidence, source_span, source_type